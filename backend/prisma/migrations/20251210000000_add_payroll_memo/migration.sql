@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN IF NOT EXISTS "memo" TEXT;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "PayrollSchedule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "runAtHour" INTEGER NOT NULL DEFAULT 9,
+    "currency" TEXT NOT NULL,
+    "memo" TEXT,
+    "template" TEXT NOT NULL,
+    "insufficientFundsPolicy" TEXT NOT NULL DEFAULT 'DEFER',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "deferredFrom" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollScheduleRun" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "payrollId" TEXT,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollScheduleRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollSchedule_active_nextRunAt_idx" ON "PayrollSchedule"("active", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "PayrollSchedule_companyId_idx" ON "PayrollSchedule"("companyId");
+
+-- CreateIndex
+CREATE INDEX "PayrollScheduleRun_scheduleId_createdAt_idx" ON "PayrollScheduleRun"("scheduleId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PayrollSchedule" ADD CONSTRAINT "PayrollSchedule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollScheduleRun" ADD CONSTRAINT "PayrollScheduleRun_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "PayrollSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN IF NOT EXISTS "companyId" TEXT;
+ALTER TABLE "Payroll" ADD COLUMN IF NOT EXISTS "createdById" TEXT;
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN IF NOT EXISTS "payrollApprovalsRequired" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "PayrollApproval" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "decision" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payroll_companyId_status_idx" ON "Payroll"("companyId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollApproval_payrollId_userId_key" ON "PayrollApproval"("payrollId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Payroll" ADD CONSTRAINT "Payroll_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollApproval" ADD CONSTRAINT "PayrollApproval_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollApproval" ADD CONSTRAINT "PayrollApproval_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "requestTxHash" TEXT;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "failureReason" TEXT;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "lastAttemptAt" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "Payee" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "walletAddress" TEXT NOT NULL,
+    "payoutPreference" TEXT NOT NULL DEFAULT 'CRYPTO',
+    "railCounterpartyId" TEXT,
+    "bankRail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Payee_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "payeeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Payee_companyId_idx" ON "Payee"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payee_companyId_walletAddress_key" ON "Payee"("companyId", "walletAddress");
+
+-- AddForeignKey
+ALTER TABLE "Payee" ADD CONSTRAINT "Payee_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OutboundPayment" ADD CONSTRAINT "OutboundPayment_payeeId_fkey" FOREIGN KEY ("payeeId") REFERENCES "Payee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "railWithdrawalId" TEXT;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "railStatus" TEXT;
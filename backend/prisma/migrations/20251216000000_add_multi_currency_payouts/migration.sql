@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "settlementAmount" INTEGER;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "fxRate" TEXT;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "fxSource" TEXT;
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "fxQuotedAt" TIMESTAMP(3);
+ALTER TABLE "OutboundPayment" ADD COLUMN IF NOT EXISTS "withdrawalRail" TEXT;
+
+-- Existing payments were paid in the payroll currency
+UPDATE "OutboundPayment" SET "settlementAmount" = "amount" WHERE "settlementAmount" IS NULL;
+ALTER TABLE "OutboundPayment" ALTER COLUMN "settlementAmount" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Payee" ADD COLUMN IF NOT EXISTS "country" TEXT;
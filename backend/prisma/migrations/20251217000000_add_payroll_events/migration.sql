@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PayrollEvent" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "entity" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollEvent_payrollId_createdAt_idx" ON "PayrollEvent"("payrollId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PayrollEvent" ADD CONSTRAINT "PayrollEvent_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
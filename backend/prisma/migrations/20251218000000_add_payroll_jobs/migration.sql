@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "PayrollJob" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "step" TEXT NOT NULL DEFAULT 'ONCHAIN_REQUEST',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL,
+    "requestedBy" TEXT NOT NULL,
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollJob_status_runAfter_idx" ON "PayrollJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "PayrollJob_payrollId_createdAt_idx" ON "PayrollJob"("payrollId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PayrollJob" ADD CONSTRAINT "PayrollJob_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
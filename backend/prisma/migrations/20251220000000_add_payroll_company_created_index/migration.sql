@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Payroll_companyId_createdAt_idx" ON "Payroll"("companyId", "createdAt");
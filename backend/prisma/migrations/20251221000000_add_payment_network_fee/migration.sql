@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN "networkFee" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Payroll" ADD COLUMN "receiptTxId" TEXT;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "PaymentLineItem" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "withholdingRuleId" TEXT,
+    "rateBps" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WithholdingRule" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rateBps" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WithholdingRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentLineItem_paymentId_idx" ON "PaymentLineItem"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WithholdingRule_companyId_country_name_key" ON "WithholdingRule"("companyId", "country", "name");
+
+-- AddForeignKey
+ALTER TABLE "PaymentLineItem" ADD CONSTRAINT "PaymentLineItem_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "OutboundPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WithholdingRule" ADD CONSTRAINT "WithholdingRule_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
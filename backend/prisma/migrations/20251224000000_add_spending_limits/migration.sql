@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SpendingLimitTier" (
+    "kybLevel" INTEGER NOT NULL,
+    "perPayroll" INTEGER,
+    "daily" INTEGER,
+    "monthly" INTEGER,
+    "perPayeeMonthly" INTEGER,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpendingLimitTier_pkey" PRIMARY KEY ("kybLevel")
+);
+
+-- CreateTable
+CREATE TABLE "SpendingLimitChange" (
+    "id" TEXT NOT NULL,
+    "kybLevel" INTEGER NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SpendingLimitChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SpendingLimitChange_kybLevel_createdAt_idx" ON "SpendingLimitChange"("kybLevel", "createdAt");
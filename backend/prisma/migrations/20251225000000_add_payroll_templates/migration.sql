@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PayrollTemplate" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "memo" TEXT,
+    "lines" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollTemplate_companyId_name_key" ON "PayrollTemplate"("companyId", "name");
+
+-- AddForeignKey
+ALTER TABLE "PayrollTemplate" ADD CONSTRAINT "PayrollTemplate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
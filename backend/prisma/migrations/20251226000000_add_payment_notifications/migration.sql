@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "PaymentNotification" (
+    "id" TEXT NOT NULL,
+    "payrollId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NotificationAttempt" (
+    "id" TEXT NOT NULL,
+    "notificationId" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "messageId" TEXT,
+    "response" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentNotification_paymentId_event_key" ON "PaymentNotification"("paymentId", "event");
+
+-- CreateIndex
+CREATE INDEX "PaymentNotification_payrollId_idx" ON "PaymentNotification"("payrollId");
+
+-- CreateIndex
+CREATE INDEX "NotificationAttempt_notificationId_createdAt_idx" ON "NotificationAttempt"("notificationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentNotification" ADD CONSTRAINT "PaymentNotification_payrollId_fkey" FOREIGN KEY ("payrollId") REFERENCES "Payroll"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentNotification" ADD CONSTRAINT "PaymentNotification_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "OutboundPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationAttempt" ADD CONSTRAINT "NotificationAttempt_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "PaymentNotification"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PaymentProofNonce" (
+    "id" TEXT NOT NULL,
+    "payer" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "meterId" TEXT NOT NULL,
+    "settlement" TEXT,
+    "txHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentProofNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentProofNonce_payer_token_nonce_key" ON "PaymentProofNonce"("payer", "token", "nonce");
+
+-- CreateIndex
+CREATE INDEX "PaymentProofNonce_expiresAt_idx" ON "PaymentProofNonce"("expiresAt");
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "Meter" (
+    "id" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "description" TEXT,
+    "version" TEXT NOT NULL DEFAULT '8004-alpha',
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Meter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MeterPrice" (
+    "id" TEXT NOT NULL,
+    "meterId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "price" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeterPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeterPrice_meterId_version_key" ON "MeterPrice"("meterId", "version");
+
+-- CreateIndex
+CREATE INDEX "MeterPrice_meterId_effectiveFrom_idx" ON "MeterPrice"("meterId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "MeterPrice" ADD CONSTRAINT "MeterPrice_meterId_fkey" FOREIGN KEY ("meterId") REFERENCES "Meter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Built-in meters (previously hard-coded in x402/metering.ts)
+INSERT INTO "Meter" ("id", "asset", "chain", "resource", "description", "version", "updatedBy", "updatedAt") VALUES
+    ('payroll_execute', 'USDC', 'fuji', 'payroll_execution', 'Execute international payroll for up to 10 freelancers', '8004-alpha', 'system', CURRENT_TIMESTAMP),
+    ('payment_single', 'USDC', 'fuji', 'single_payment', 'Execute a single payment to one recipient', '8004-alpha', 'system', CURRENT_TIMESTAMP),
+    ('swap_execute', 'USDC', 'fuji', 'token_swap', 'Execute a token swap through DEX', '8004-alpha', 'system', CURRENT_TIMESTAMP),
+    ('contract_test', 'USDC', 'fuji', 'contract_test', 'Test Treasury contract operations (requestPayment, getTokenBalance, authorizeSwap, etc.)', '8004-alpha', 'system', CURRENT_TIMESTAMP),
+    ('payment_process', 'USDC', 'fuji', 'payment_processing', 'Complete payment flow: Rail + Blockchain + Facilitator integration', '8004-alpha', 'system', CURRENT_TIMESTAMP);
+
+INSERT INTO "MeterPrice" ("id", "meterId", "version", "price", "effectiveFrom", "createdBy") VALUES
+    ('mp_payroll_execute_1', 'payroll_execute', 1, '1', CURRENT_TIMESTAMP, 'system'),
+    ('mp_payment_single_1', 'payment_single', 1, '0.1', CURRENT_TIMESTAMP, 'system'),
+    ('mp_swap_execute_1', 'swap_execute', 1, '0.5', CURRENT_TIMESTAMP, 'system'),
+    ('mp_contract_test_1', 'contract_test', 1, '0.1', CURRENT_TIMESTAMP, 'system'),
+    ('mp_payment_process_1', 'payment_process', 1, '0.1', CURRENT_TIMESTAMP, 'system');
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "CreditSession" (
+    "id" TEXT NOT NULL,
+    "payer" TEXT NOT NULL,
+    "asset" TEXT NOT NULL,
+    "chain" TEXT NOT NULL,
+    "deposited" DECIMAL(65,30) NOT NULL,
+    "balance" DECIMAL(65,30) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "depositTx" TEXT NOT NULL,
+    "refundedAmount" DECIMAL(65,30),
+    "refundTx" TEXT,
+    "refundedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CreditDebit" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "meterId" TEXT NOT NULL,
+    "priceVersion" INTEGER NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "resource" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditDebit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditSession_depositTx_key" ON "CreditSession"("depositTx");
+
+-- CreateIndex
+CREATE INDEX "CreditSession_payer_idx" ON "CreditSession"("payer");
+
+-- CreateIndex
+CREATE INDEX "CreditDebit_sessionId_createdAt_idx" ON "CreditDebit"("sessionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CreditDebit" ADD CONSTRAINT "CreditDebit_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "CreditSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Meter of credit purchases; its price is the minimum top-up
+INSERT INTO "Meter" ("id", "asset", "chain", "resource", "description", "version", "updatedBy", "updatedAt") VALUES
+    ('credit_purchase', 'USDC', 'fuji', 'credit_purchase', 'Prepaid x402 credit, spent per call with a session token (price is the minimum top-up)', '8004-alpha', 'system', CURRENT_TIMESTAMP);
+
+INSERT INTO "MeterPrice" ("id", "meterId", "version", "price", "effectiveFrom", "createdBy") VALUES
+    ('mp_credit_purchase_1', 'credit_purchase', 1, '1', CURRENT_TIMESTAMP, 'system');
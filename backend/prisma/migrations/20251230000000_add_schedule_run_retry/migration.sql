@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PayrollScheduleRun" ADD COLUMN "retryAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "PayrollScheduleRun_status_idx" ON "PayrollScheduleRun"("status");
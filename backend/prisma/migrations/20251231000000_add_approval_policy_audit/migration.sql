@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'MEMBER';
+
+-- The first user of each company signed it up: make them its owner
+UPDATE "User" SET "role" = 'OWNER'
+WHERE "id" IN (
+    SELECT DISTINCT ON ("companyId") "id" FROM "User" ORDER BY "companyId", "createdAt" ASC
+);
+
+-- CreateTable
+CREATE TABLE "PayrollApprovalPolicyChange" (
+    "id" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "previousApprovalsRequired" INTEGER NOT NULL,
+    "approvalsRequired" INTEGER NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayrollApprovalPolicyChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayrollApprovalPolicyChange_companyId_createdAt_idx" ON "PayrollApprovalPolicyChange"("companyId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PayrollApprovalPolicyChange" ADD CONSTRAINT "PayrollApprovalPolicyChange_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
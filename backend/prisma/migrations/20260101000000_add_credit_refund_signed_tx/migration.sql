@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CreditSession" ADD COLUMN "refundSignedTx" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "OutboundPayment" ADD COLUMN "railAttempts" INTEGER NOT NULL DEFAULT 0;
+
+-- Payments already sent to Rail made their first attempt
+UPDATE "OutboundPayment" SET "railAttempts" = 1 WHERE "railStatus" IS NOT NULL;
@@ -3,10 +3,17 @@ import { EventQueue, RequestContext, TaskState } from './x402Types.js';
 import { getTreasuryContract, getTreasuryContractReadOnly } from './config/contractConfig.js';
 import { getCurrentNetworkConfig } from './config/networkConfig.js';
 import { logger } from './utils/logger.js';
+import type { TokenUsage } from './x402/usagePricing.js';
 import { ethers } from 'ethers';
 
 type AiProvider = 'openai' | 'eigenai';
 
+// Outcome of execute(): usage is undefined when the model was not called or reported none
+export interface ServiceExecution {
+  modelCalled: boolean;
+  usage?: TokenUsage;
+}
+
 interface ExampleServiceOptions {
   apiKey?: string;
   baseUrl?: string;
@@ -27,6 +34,8 @@ interface ExampleServiceOptions {
  * Replace this with your own service logic (database queries, computations, API calls, etc.)
  *
  * Payment validation is handled by the server before this service is invoked.
+ * execute() resolves with whether the model was called and the token usage of the
+ * completion, which the server bills for the "upto" payment scheme.
  */
 export class ExampleService {
   private openai: OpenAI;
@@ -85,7 +94,7 @@ export class ExampleService {
     this.provider = provider;
   }
 
-  async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
+  async execute(context: RequestContext, eventQueue: EventQueue): Promise<ServiceExecution> {
     const task = context.currentTask;
 
     if (!task) {
@@ -103,7 +112,8 @@ export class ExampleService {
 
     // Check if this is a contract test request
     if (userMessage.toLowerCase().includes('test contract') || userMessage.toLowerCase().includes('test treasury')) {
-      return await this.executeContractTest(context, eventQueue);
+      await this.executeContractTest(context, eventQueue);
+      return { modelCalled: false };
     }
 
     try {
@@ -149,6 +159,18 @@ export class ExampleService {
       await eventQueue.enqueueEvent(task);
 
       console.log('✨ Request processed successfully');
+
+      return {
+        modelCalled: true,
+        usage: completion.usage
+          ? {
+              model: this.model,
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : undefined,
+      };
     } catch (error) {
       console.error('❌ Error processing request:', error);
 
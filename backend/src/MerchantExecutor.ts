@@ -4,6 +4,12 @@ import type {
   PaymentRequirements,
 } from 'x402/types';
 import { ethers } from 'ethers';
+import {
+  claimProofNonce,
+  isProofNonceUsed,
+  proofNonceExpiry,
+  type ProofNonceKey,
+} from './x402/nonceStore.js';
 
 // Type alias for Fetch API Response to avoid conflict with Express Response
 type FetchResponse = {
@@ -27,8 +33,51 @@ const TRANSFER_AUTH_TYPES = {
   ],
 };
 
+// EIP-2612 permit signed by "upto" payments: the settlement wallet may pull up to `value`
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// Meter recorded with the nonce store records of "upto" permits
+const UPTO_METER_ID = 'process_upto';
+
 export type SettlementMode = 'facilitator' | 'direct';
 
+// "upto" scheme: the client authorizes a maximum (maxAmountRequired) with an EIP-2612 permit
+// for the settlement wallet (extra.spender), and only the actual cost is transferred; the rest
+// of the allowance is cleared after settling
+export type UptoPaymentRequirements = Omit<PaymentRequirements, 'scheme'> & {
+  scheme: 'upto';
+};
+
+export interface UptoPaymentPayload {
+  x402Version: number;
+  scheme: 'upto';
+  network: Network;
+  payload: {
+    signature: string;
+    authorization: {
+      owner: string;
+      spender: string;
+      value: string;
+      nonce: string;
+      deadline: string;
+    };
+  };
+}
+
+export type MerchantPaymentPayload = PaymentPayload | UptoPaymentPayload;
+
+export function isUptoPayment(payload: MerchantPaymentPayload): payload is UptoPaymentPayload {
+  return (payload.scheme as string) === 'upto';
+}
+
 type BuiltInNetwork =
   | 'base'
   | 'base-sepolia'
@@ -138,6 +187,13 @@ export interface MerchantExecutorOptions {
   assetName?: string;
   explorerUrl?: string;
   chainId?: number;
+  // Offer the "upto" scheme (direct settlement only): maxPrice is the most a request can cost,
+  // in USDC (up to 6 decimals); pricing is published in the requirements' extra so clients can
+  // estimate their bill
+  upto?: {
+    maxPrice: string;
+    pricing?: Record<string, unknown>;
+  };
 }
 
 export interface VerifyResult {
@@ -156,6 +212,7 @@ export interface SettlementResult {
 
 export class MerchantExecutor {
   private readonly requirements: PaymentRequirements;
+  private readonly uptoRequirements?: UptoPaymentRequirements;
   private readonly explorerUrl?: string;
   private readonly mode: SettlementMode;
   private readonly facilitatorUrl?: string;
@@ -263,33 +320,70 @@ export class MerchantExecutor {
       this.facilitatorUrl = options.facilitatorUrl || DEFAULT_FACILITATOR_URL;
       this.facilitatorApiKey = options.facilitatorApiKey;
     }
+
+    if (options.upto) {
+      if (!this.settlementWallet) {
+        throw new Error(
+          'The upto scheme requires direct settlement (SETTLEMENT_MODE=direct).'
+        );
+      }
+
+      this.uptoRequirements = {
+        ...this.requirements,
+        scheme: 'upto',
+        maxAmountRequired: ethers.parseUnits(options.upto.maxPrice, 6).toString(),
+        description: 'AI request processing service, billed on token usage',
+        extra: {
+          ...this.requirements.extra,
+          spender: this.settlementWallet.address,
+          ...(options.upto.pricing ? { pricing: options.upto.pricing } : {}),
+        },
+      };
+    }
   }
 
   getPaymentRequirements(): PaymentRequirements {
     return this.requirements;
   }
 
+  getUptoPaymentRequirements(): UptoPaymentRequirements | undefined {
+    return this.uptoRequirements;
+  }
+
   createPaymentRequiredResponse() {
     return {
       x402Version: 1,
-      accepts: [this.requirements],
+      accepts: this.uptoRequirements
+        ? [this.requirements, this.uptoRequirements]
+        : [this.requirements],
       error: 'Payment required for service: /process-request',
     };
   }
 
-  async verifyPayment(payload: PaymentPayload): Promise<VerifyResult> {
+  async verifyPayment(payload: MerchantPaymentPayload): Promise<VerifyResult> {
+    const upto = isUptoPayment(payload);
+    const authorization = (payload.payload as any).authorization;
     console.log('\n🔍 Verifying payment...');
     console.log(`   Network: ${payload.network}`);
     console.log(`   Scheme: ${payload.scheme}`);
-    console.log(`   From: ${(payload.payload as any).authorization?.from}`);
+    console.log(`   From: ${authorization?.from ?? authorization?.owner}`);
     console.log(`   To: ${this.requirements.payTo}`);
-    console.log(`   Amount: ${this.requirements.maxAmountRequired}`);
+    console.log(
+      `   Amount: ${upto ? `up to ${this.uptoRequirements?.maxAmountRequired}` : this.requirements.maxAmountRequired}`
+    );
 
     try {
-      const result =
-        this.mode === 'direct'
-          ? this.verifyPaymentLocally(payload, this.requirements)
-          : await this.callFacilitator<VerifyResult>('verify', payload);
+      let result: VerifyResult;
+      if (isUptoPayment(payload)) {
+        result = this.uptoRequirements
+          ? await this.verifyUptoPayment(payload, this.uptoRequirements)
+          : { isValid: false, invalidReason: 'The upto scheme is not offered' };
+      } else {
+        result =
+          this.mode === 'direct'
+            ? this.verifyPaymentLocally(payload, this.requirements)
+            : await this.callFacilitator<VerifyResult>('verify', payload);
+      }
 
       console.log('\n📋 Verification result:');
       console.log(`   Valid: ${result.isValid}`);
@@ -309,19 +403,60 @@ export class MerchantExecutor {
     }
   }
 
-  async settlePayment(payload: PaymentPayload): Promise<SettlementResult> {
+  /**
+   * Mark a verified "upto" permit as used before the request runs, so the payload cannot be
+   * replayed even when nothing is charged and the permit never reaches the chain
+   * @returns false when the permit was already used
+   */
+  async claimUptoPayment(payload: UptoPaymentPayload): Promise<boolean> {
+    const key = this.uptoRequirements && this.uptoPermitKey(payload, this.uptoRequirements);
+    if (!key) {
+      return false;
+    }
+    return claimProofNonce(
+      key,
+      UPTO_METER_ID,
+      proofNonceExpiry(payload.payload.authorization.deadline)
+    );
+  }
+
+  /**
+   * Settle a verified payment
+   * @param amount - Amount to transfer for an "upto" payment, in atomic units (the actual
+   *                 cost, at most the authorized value); exact payments transfer their value
+   */
+  async settlePayment(
+    payload: MerchantPaymentPayload,
+    amount?: bigint
+  ): Promise<SettlementResult> {
+    const upto = isUptoPayment(payload);
     console.log('\n💰 Settling payment...');
     console.log(`   Network: ${this.requirements.network}`);
     console.log(
-      `   Amount: ${this.requirements.maxAmountRequired} (micro units)`
+      `   Amount: ${upto ? amount ?? this.uptoRequirements?.maxAmountRequired : this.requirements.maxAmountRequired} (micro units)`
     );
     console.log(`   Pay to: ${this.requirements.payTo}`);
 
     try {
-      const result =
-        this.mode === 'direct'
-          ? await this.settleOnChain(payload, this.requirements)
-          : await this.callFacilitator<SettlementResult>('settle', payload);
+      let result: SettlementResult;
+      if (isUptoPayment(payload)) {
+        result = this.uptoRequirements
+          ? await this.settleUptoOnChain(
+              payload,
+              this.uptoRequirements,
+              amount ?? BigInt(this.uptoRequirements.maxAmountRequired)
+            )
+          : {
+              success: false,
+              network: this.requirements.network,
+              errorReason: 'The upto scheme is not offered',
+            };
+      } else {
+        result =
+          this.mode === 'direct'
+            ? await this.settleOnChain(payload, this.requirements)
+            : await this.callFacilitator<SettlementResult>('settle', payload);
+      }
 
       console.log('\n✅ Payment settlement result:');
       console.log(`   Success: ${result.success}`);
@@ -538,6 +673,252 @@ export class MerchantExecutor {
     }
   }
 
+  private async verifyUptoPayment(
+    payload: UptoPaymentPayload,
+    requirements: UptoPaymentRequirements
+  ): Promise<VerifyResult> {
+    const authorization = payload.payload?.authorization;
+    const signature = payload.payload?.signature;
+
+    if (!authorization || !signature) {
+      return {
+        isValid: false,
+        invalidReason: 'Missing payment authorization data',
+      };
+    }
+
+    if (payload.network !== requirements.network) {
+      return {
+        isValid: false,
+        invalidReason: `Network mismatch: ${payload.network} vs ${requirements.network}`,
+      };
+    }
+
+    if (
+      authorization.spender?.toLowerCase() !==
+      String(requirements.extra?.spender).toLowerCase()
+    ) {
+      return {
+        isValid: false,
+        invalidReason: 'Permit spender does not match payment requirement',
+      };
+    }
+
+    try {
+      if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+        return {
+          isValid: false,
+          invalidReason: 'Authorized maximum is less than required amount',
+        };
+      }
+    } catch {
+      return {
+        isValid: false,
+        invalidReason: 'Invalid payment amount provided',
+      };
+    }
+
+    const deadline = Number(authorization.deadline ?? 0);
+    if (Number.isNaN(deadline) || deadline <= Math.floor(Date.now() / 1000)) {
+      return {
+        isValid: false,
+        invalidReason: 'Payment authorization has expired',
+      };
+    }
+
+    try {
+      const recovered = ethers.verifyTypedData(
+        this.buildEip712Domain(requirements),
+        PERMIT_TYPES,
+        {
+          owner: authorization.owner,
+          spender: authorization.spender,
+          value: authorization.value,
+          nonce: authorization.nonce,
+          deadline: authorization.deadline,
+        },
+        signature
+      );
+
+      if (recovered.toLowerCase() !== authorization.owner.toLowerCase()) {
+        return {
+          isValid: false,
+          invalidReason: 'Signature does not match payer address',
+        };
+      }
+    } catch (error) {
+      return {
+        isValid: false,
+        invalidReason: `Signature verification failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+
+    const key = this.uptoPermitKey(payload, requirements);
+    if (!key || (await isProofNonceUsed(key))) {
+      return {
+        isValid: false,
+        invalidReason: 'Permit was already used',
+      };
+    }
+
+    // A permit can be used once: its nonce must be the owner's current one
+    const token = new ethers.Contract(
+      requirements.asset,
+      ['function nonces(address owner) view returns (uint256)'],
+      this.settlementProvider
+    );
+    const currentNonce: bigint = await token.nonces(authorization.owner);
+    if (currentNonce !== BigInt(authorization.nonce)) {
+      return {
+        isValid: false,
+        invalidReason: 'Permit nonce was already used',
+      };
+    }
+
+    return {
+      isValid: true,
+      payer: authorization.owner,
+    };
+  }
+
+  private async settleUptoOnChain(
+    payload: UptoPaymentPayload,
+    requirements: UptoPaymentRequirements,
+    amount: bigint
+  ): Promise<SettlementResult> {
+    const authorization = payload.payload?.authorization;
+    const signature = payload.payload?.signature;
+
+    if (!authorization || !signature) {
+      return {
+        success: false,
+        network: requirements.network,
+        errorReason: 'Missing payment authorization data',
+      };
+    }
+
+    const authorized = BigInt(authorization.value);
+    const charge = amount > authorized ? authorized : amount;
+
+    // Nothing to charge: leave the permit unused on-chain (claimUptoPayment recorded it)
+    if (charge <= 0n) {
+      return {
+        success: true,
+        network: requirements.network,
+        payer: authorization.owner,
+      };
+    }
+
+    try {
+      const usdcContract = new ethers.Contract(
+        requirements.asset,
+        [
+          'function permit(' +
+            'address owner,' +
+            'address spender,' +
+            'uint256 value,' +
+            'uint256 deadline,' +
+            'uint8 v,' +
+            'bytes32 r,' +
+            'bytes32 s' +
+          ') external',
+          'function transferFrom(address from, address to, uint256 value) external returns (bool)',
+        ],
+        this.settlementWallet
+      );
+
+      const parsedSignature = ethers.Signature.from(signature);
+      const permitTx = await usdcContract.permit(
+        authorization.owner,
+        authorization.spender,
+        authorization.value,
+        authorization.deadline,
+        parsedSignature.v,
+        parsedSignature.r,
+        parsedSignature.s
+      );
+      await permitTx.wait();
+
+      const tx = await usdcContract.transferFrom(
+        authorization.owner,
+        requirements.payTo,
+        charge
+      );
+      const receipt = await tx.wait();
+      const success = receipt?.status === 1;
+
+      // The permit grants the whole authorized value; clear the remaining allowance by pulling
+      // it from the owner back to the owner, so the settlement wallet keeps no allowance
+      if (success && authorized > charge) {
+        try {
+          const resetTx = await usdcContract.transferFrom(
+            authorization.owner,
+            authorization.owner,
+            authorized - charge
+          );
+          await resetTx.wait();
+        } catch (error) {
+          console.warn(
+            `⚠️  Failed to clear the remaining allowance of ${authorization.owner}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+
+      return {
+        success,
+        transaction: receipt?.hash,
+        network: requirements.network,
+        payer: authorization.owner,
+        errorReason: success ? undefined : 'Transaction reverted',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        network: requirements.network,
+        payer: authorization.owner,
+        errorReason:
+          error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Nonce store key of an "upto" permit: the permit's EIP-712 digest rather than its nonce,
+  // since a permit that was never submitted leaves the owner's on-chain nonce unchanged and
+  // the next permit reuses it
+  private uptoPermitKey(
+    payload: UptoPaymentPayload,
+    requirements: UptoPaymentRequirements
+  ): ProofNonceKey | null {
+    const authorization = payload.payload?.authorization;
+    if (!authorization?.owner) {
+      return null;
+    }
+    try {
+      const digest = ethers.TypedDataEncoder.hash(
+        this.buildEip712Domain(requirements),
+        PERMIT_TYPES,
+        {
+          owner: authorization.owner,
+          spender: authorization.spender,
+          value: authorization.value,
+          nonce: authorization.nonce,
+          deadline: authorization.deadline,
+        }
+      );
+      return {
+        payer: authorization.owner.toLowerCase(),
+        token: requirements.asset.toLowerCase(),
+        nonce: digest.toLowerCase(),
+      };
+    } catch {
+      return null;
+    }
+  }
+
   private getAtomicAmount(priceUsd: number): string {
     const atomicUnits = Math.floor(priceUsd * 1_000_000);
     return atomicUnits.toString();
@@ -585,7 +966,9 @@ export class MerchantExecutor {
     return (await fetchResponse.json()) as T;
   }
 
-  private buildEip712Domain(requirements: PaymentRequirements) {
+  private buildEip712Domain(
+    requirements: PaymentRequirements | UptoPaymentRequirements
+  ) {
     return {
       name: requirements.extra?.name || this.assetName,
       version: requirements.extra?.version || '2',
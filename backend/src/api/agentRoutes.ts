@@ -9,10 +9,18 @@ const router = Router();
  * GET /api/agent/identity
  * Returns ERC-8004 compliant agent identity card
  */
-router.get("/identity", (req: Request, res: Response) => {
-  logger.info("🤖 Agent identity card requested");
-  const identity = getAgentIdentity();
-  res.json(identity);
+router.get("/identity", async (req: Request, res: Response) => {
+  try {
+    logger.info("🤖 Agent identity card requested");
+    const identity = await getAgentIdentity();
+    res.json(identity);
+  } catch (error) {
+    logger.error("Error building agent identity card", error);
+    res.status(500).json({
+      error: "INTERNAL_ERROR",
+      message: "Unexpected error building agent identity card",
+    });
+  }
 });
 
 /**
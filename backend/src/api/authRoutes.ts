@@ -2,6 +2,7 @@ import type { Express, Request, Response } from "express";
 import { prisma } from "../dbClient.js";
 import { hashPassword, verifyPassword, generateToken } from "../services/authService.js";
 import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { UserRole } from "../domain/user.js";
 import { logger } from "../utils/logger.js";
 
 // Signup request type
@@ -77,11 +78,12 @@ export function registerAuthRoutes(app: Express) {
           },
         });
 
-        // Create user linked to company
+        // Create user linked to company; the user who signs a company up owns it
         const user = await tx.user.create({
           data: {
             email,
             passwordHash,
+            role: UserRole.OWNER,
             companyId: company.id,
           },
         });
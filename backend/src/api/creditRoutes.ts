@@ -0,0 +1,105 @@
+/**
+ * Credit API Routes
+ * Prepaid x402 credit: buy a credit session with one x402 payment, then pay x402-protected
+ * routes with its token (X-PAYMENT-SESSION header) until the balance runs out.
+ */
+
+import type { Express, Request, Response } from "express";
+import { x402Protect, type X402Request } from "../x402/middleware.js";
+import {
+  CREDIT_METER_ID,
+  CreditSessionStatus,
+  getCreditSession,
+  openCreditSession,
+  refundCreditSession,
+} from "../x402/credits.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Top-up amount of a purchase: ?amount= or body.amount, in asset units
+function purchaseAmount(req: Request): string | undefined {
+  const amount = req.query.amount ?? req.body?.amount;
+  return amount === undefined ? undefined : String(amount);
+}
+
+/**
+ * Register credit routes
+ */
+export function registerCreditRoutes(app: Express) {
+  /**
+   * POST /api/credits
+   * Buy a credit session. Without X-PAYMENT, answers 402 with the payment requirements for
+   * the requested amount (default and minimum: the credit_purchase meter price); the balance
+   * is the amount settled. Only standard x402 payments (base64 X-PAYMENT) can buy credit.
+   * Body or query: { amount? }
+   */
+  app.post(
+    "/api/credits",
+    x402Protect(CREDIT_METER_ID, { price: purchaseAmount, credits: false, settleBeforeRoute: true }),
+    async (req: X402Request, res: Response) => {
+      try {
+        const x402 = req.x402!;
+        if (!x402.settlement?.payer || !x402.amount) {
+          return res.status(400).json({
+            error: "SETTLED_PAYMENT_REQUIRED",
+            message: "Credit can only be bought with a standard x402 payment (base64 X-PAYMENT header)",
+          });
+        }
+
+        const credit = await openCreditSession({
+          payer: x402.settlement.payer,
+          asset: x402.meter.asset,
+          chain: x402.meter.chain,
+          amount: x402.amount,
+          depositTx: x402.settlement.transaction,
+        });
+        return res.status(201).json(credit);
+      } catch (error) {
+        logger.error("Failed to open credit session", error);
+        const errorResponse = formatErrorResponse(error);
+        return res.status(errorResponse.statusCode).json({
+          error: errorResponse.error,
+          message: errorResponse.message,
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/credits
+   * Balance and recent debits of the session in the X-PAYMENT-SESSION header
+   */
+  app.get("/api/credits", async (req: Request, res: Response) => {
+    try {
+      const session = await getCreditSession(req.get("X-PAYMENT-SESSION"));
+      return res.status(200).json(session);
+    } catch (error) {
+      logger.error("Failed to get credit session", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/credits/refund
+   * Refund the unused credit of the session in the X-PAYMENT-SESSION header to the payer,
+   * on-chain, and close the session. Answers 202 with the REFUNDING session while the transfer
+   * is not mined; calling it again reconciles the transfer.
+   */
+  app.post("/api/credits/refund", async (req: Request, res: Response) => {
+    try {
+      const session = await refundCreditSession(req.get("X-PAYMENT-SESSION"));
+      return res.status(session.status === CreditSessionStatus.REFUNDING ? 202 : 200).json(session);
+    } catch (error) {
+      logger.error("Failed to refund credit session", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+}
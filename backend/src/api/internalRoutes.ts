@@ -6,8 +6,13 @@
 import type { Express, Request, Response } from "express";
 import { logger } from "../utils/logger.js";
 import { confirmPayment } from "../services/paymentIntentService.js";
+import { runQueuedPayrollJobs } from "../services/payrollJobWorker.js";
+import { reconcileRailWithdrawals } from "../services/payrollService.js";
 import { config } from "../config/env.js";
 
+// Default time budget of one queue drain (fits a 60s serverless function)
+const DEFAULT_DRAIN_MS = 50 * 1000;
+
 // Request type for x402 callback
 type X402CallbackRequest = {
   paymentIntentId: string;
@@ -129,6 +134,47 @@ export function registerInternalRoutes(app: Express) {
       }
     },
   );
-}
 
+  /**
+   * POST /internal/payroll-jobs/run
+   * Runs queued payroll jobs for up to maxDurationMs (body, default 50s), then reconciles Rail
+   * withdrawals still in progress.
+   * Serverless deployments have no background worker; call this periodically (e.g. from a cron).
+   * Protected by secret key (X-Callback-Secret header)
+   */
+  app.post(
+    "/internal/payroll-jobs/run",
+    async (req: Request, res: Response) => {
+      try {
+        if (!validateCallbackSecret(req)) {
+          logger.warn("Invalid callback secret");
+          return res.status(401).json({
+            ok: false,
+            error: "UNAUTHORIZED",
+            message: "Invalid callback secret",
+          });
+        }
 
+        const maxDurationMs = req.body?.maxDurationMs ?? DEFAULT_DRAIN_MS;
+        if (typeof maxDurationMs !== "number" || !Number.isInteger(maxDurationMs) || maxDurationMs <= 0) {
+          return res.status(400).json({
+            ok: false,
+            error: "INVALID_REQUEST",
+            message: "maxDurationMs must be a positive integer",
+          });
+        }
+
+        const processed = await runQueuedPayrollJobs(Date.now() + maxDurationMs);
+        const reconciled = await reconcileRailWithdrawals();
+        return res.status(200).json({ ok: true, processed, reconciled });
+      } catch (error) {
+        logger.error("Error running payroll jobs:", error);
+        return res.status(500).json({
+          ok: false,
+          error: "INTERNAL_ERROR",
+          message: error instanceof Error ? error.message : "Failed to run payroll jobs",
+        });
+      }
+    },
+  );
+}
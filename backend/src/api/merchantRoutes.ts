@@ -9,6 +9,7 @@ import { prisma } from "../dbClient.js";
 import { createPaymentIntent } from "../services/paymentIntentService.js";
 import { getCurrentNetworkConfig } from "../config/networkConfig.js";
 import { config } from "../config/env.js";
+import { idempotent } from "../middleware/idempotencyMiddleware.js";
 
 // Request type for creating payment intent
 type CreatePaymentIntentRequest = {
@@ -90,8 +91,9 @@ export function registerMerchantRoutes(app: Express) {
    * POST /merchant/payments
    * Create a payment intent for a company
    * Public endpoint (no auth required for MVP, can add API key later)
+   * Retries with the same Idempotency-Key header return the original payment intent
    */
-  app.post("/merchant/payments", async (req: Request, res: Response) => {
+  app.post("/merchant/payments", idempotent("merchant_payments"), async (req: Request, res: Response) => {
     try {
       const body: CreatePaymentIntentRequest = req.body;
       const { amount, token, reference, companyId } = body;
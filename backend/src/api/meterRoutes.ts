@@ -0,0 +1,212 @@
+/**
+ * Meter API Routes
+ * Admins (X-Admin-Token) manage the x402 meters: their asset, chain and description, and
+ * their versioned prices, effective immediately or scheduled.
+ */
+
+import type { Express, Response } from "express";
+import { authenticateAdmin, type AdminRequest } from "../middleware/authMiddleware.js";
+import {
+  addMeterPrice,
+  cancelMeterPrice,
+  createMeter,
+  deleteMeter,
+  getMeterDetails,
+  getMeterRecord,
+  isValidMeterId,
+  listMeterDetails,
+  updateMeter,
+  validateMeterInput,
+  validateMeterPriceInput,
+} from "../services/meterService.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+function adminActor(req: AdminRequest): string {
+  return `admin:${req.admin!.name}`;
+}
+
+/**
+ * Register meter routes
+ */
+export function registerMeterRoutes(app: Express) {
+  /**
+   * GET /admin/meters
+   * List every meter with its current price and scheduled price changes
+   */
+  app.get("/admin/meters", authenticateAdmin, async (_req: AdminRequest, res: Response) => {
+    try {
+      const meters = await listMeterDetails();
+      return res.status(200).json({ meters });
+    } catch (error) {
+      logger.error("Failed to list meters", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing meters",
+      });
+    }
+  });
+
+  /**
+   * POST /admin/meters
+   * Create a meter
+   * Body: { id, price, asset, chain, resource, description?, version?, effectiveFrom?, reason? }
+   */
+  app.post("/admin/meters", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const meterId = req.body?.id;
+      const validation = validateMeterInput(req.body);
+      const priceValidation = validateMeterPriceInput(req.body);
+      const errors = [
+        ...(isValidMeterId(meterId)
+          ? []
+          : [{ field: "id", message: "id must be 2 to 64 lowercase letters, digits or underscores, starting with a letter" }]),
+        ...(validation.valid ? [] : validation.errors),
+        ...(priceValidation.valid ? [] : priceValidation.errors),
+      ];
+      if (errors.length > 0 || !validation.valid || !priceValidation.valid) {
+        return res.status(400).json({
+          error: "INVALID_METER",
+          message: "Meter validation failed",
+          details: errors,
+        });
+      }
+
+      const meter = await createMeter(meterId, validation.input, priceValidation.input, adminActor(req));
+      return res.status(201).json(meter);
+    } catch (error) {
+      logger.error("Failed to create meter", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * GET /admin/meters/:id
+   * Get a meter with its full price history
+   */
+  app.get("/admin/meters/:id", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const meter = await getMeterDetails(req.params.id);
+      return res.status(200).json(meter);
+    } catch (error) {
+      logger.error("Failed to get meter", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * PATCH /admin/meters/:id
+   * Update the fields of a meter (omitted fields are kept); prices are changed with
+   * POST /admin/meters/:id/prices
+   * Body: { asset?, chain?, resource?, description?, version? }
+   */
+  app.patch("/admin/meters/:id", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const existing = await getMeterRecord(req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Meter not found: ${req.params.id}`,
+        });
+      }
+
+      const validation = validateMeterInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_METER",
+          message: "Meter validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const meter = await updateMeter(existing.id, validation.input, adminActor(req));
+      return res.status(200).json(meter);
+    } catch (error) {
+      logger.error("Failed to update meter", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /admin/meters/:id
+   * Delete a meter and its price history
+   */
+  app.delete("/admin/meters/:id", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      await deleteMeter(req.params.id, adminActor(req));
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete meter", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * POST /admin/meters/:id/prices
+   * Add a price version, effective immediately or from effectiveFrom (a scheduled change)
+   * Body: { price, effectiveFrom?, reason? }
+   */
+  app.post("/admin/meters/:id/prices", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const validation = validateMeterPriceInput(req.body);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_METER_PRICE",
+          message: "Meter price validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const price = await addMeterPrice(req.params.id, validation.input, adminActor(req));
+      return res.status(201).json(price);
+    } catch (error) {
+      logger.error("Failed to add meter price", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /admin/meters/:id/prices/:version
+   * Cancel a scheduled price change (prices in effect cannot be removed)
+   */
+  app.delete("/admin/meters/:id/prices/:version", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      if (!/^\d{1,9}$/.test(req.params.version)) {
+        return res.status(400).json({
+          error: "INVALID_REQUEST",
+          message: "version must be a positive integer",
+        });
+      }
+
+      await cancelMeterPrice(req.params.id, parseInt(req.params.version, 10), adminActor(req));
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to cancel meter price", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+}
@@ -0,0 +1,194 @@
+/**
+ * Payee API Routes
+ * Manage the payee directory of the authenticated company.
+ * Payroll lines reference payees by id (payments: [{ payeeId, amount }]).
+ */
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createPayee,
+  deletePayee,
+  getPayee,
+  listPayees,
+  updatePayee,
+  validatePayeeInput,
+} from "../services/payeeService.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Register payee routes
+ */
+export function registerPayeeRoutes(app: Express) {
+  /**
+   * GET /api/payees?search=
+   * List payees of the authenticated company (search matches name, email or wallet)
+   */
+  app.get("/api/payees", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const search = typeof req.query.search === "string" ? req.query.search : undefined;
+      const payees = await listPayees(companyId, search);
+      return res.status(200).json({ payees });
+    } catch (error) {
+      logger.error("Failed to list payees", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing payees",
+      });
+    }
+  });
+
+  /**
+   * POST /api/payees
+   * Create a payee
+   * Body: { name, email?, walletAddress, payoutPreference? (CRYPTO | FIAT),
+   *         railCounterpartyId?, bankRail? (ACH | FEDWIRE | SEPA_CT | SWIFT) }
+   */
+  app.post("/api/payees", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const validation = validatePayeeInput(req.body);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYEE",
+          message: "Payee validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const payee = await createPayee(companyId, validation.input);
+      return res.status(201).json(payee);
+    } catch (error) {
+      logger.error("Failed to create payee", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/payees/:id
+   * Get a payee
+   */
+  app.get("/api/payees/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const payee = await getPayee(companyId, req.params.id);
+      if (!payee) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payee not found: ${req.params.id}`,
+        });
+      }
+
+      return res.status(200).json(payee);
+    } catch (error) {
+      logger.error("Failed to fetch payee", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error fetching payee",
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/payees/:id
+   * Update a payee (omitted fields keep their current value)
+   */
+  app.patch("/api/payees/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayee(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payee not found: ${req.params.id}`,
+        });
+      }
+
+      const validation = validatePayeeInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYEE",
+          message: "Payee validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const payee = await updatePayee(existing, validation.input);
+      return res.status(200).json(payee);
+    } catch (error) {
+      logger.error("Failed to update payee", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/payees/:id
+   * Delete a payee; payments already made to it keep their recipient wallet
+   */
+  app.delete("/api/payees/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayee(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payee not found: ${req.params.id}`,
+        });
+      }
+
+      await deletePayee(existing.id);
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete payee", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error deleting payee",
+      });
+    }
+  });
+}
@@ -8,6 +8,7 @@
 
 import type { Express, Request, Response } from "express";
 import { x402Protect, type X402Request } from "../x402/middleware.js";
+import { idempotent } from "../middleware/idempotencyMiddleware.js";
 import { logger } from "../utils/logger.js";
 import { createRailPayment } from "../services/railClient.js";
 import {
@@ -16,9 +17,15 @@ import {
   checkTreasuryBalance,
 } from "../services/contractHook.js";
 import { prisma } from "../dbClient.js";
-import { PayrollStatus, type PayrollStatusType } from "../domain/payroll.js";
+import {
+  PayrollEventActor,
+  PayrollEventEntity,
+  PayrollStatus,
+  type PayrollStatusType,
+} from "../domain/payroll.js";
 import { PaymentStatus, type PaymentStatusType } from "../domain/payment.js";
-import { createManyPayments, updatePayrollPaymentsStatus } from "../services/paymentService.js";
+import { createManyPayments } from "../services/paymentService.js";
+import { transitionPayroll, transitionPayrollPayments } from "../services/payrollStateService.js";
 import { getRailAccessToken } from "../services/railClient.js";
 import { config } from "../config/env.js";
 
@@ -92,10 +99,12 @@ export type PaymentResponse = {
  * 5. Process through Rail API
  * 
  * Protected by x402 middleware (requires payment proof)
+ * Retries with the same Idempotency-Key header return the original response
  */
 export function registerPaymentRoutes(app: Express) {
   app.post(
     "/api/payment/process",
+    idempotent(METER_ID),
     x402Protect(METER_ID),
     async (req: X402Request, res: Response) => {
       const startTime = Date.now();
@@ -191,6 +200,14 @@ export function registerPaymentRoutes(app: Express) {
               total: paymentRequest.payment.amount,
               currency: paymentRequest.payment.currency || "USD",
               status: PayrollStatus.PENDING,
+              events: {
+                create: {
+                  entity: PayrollEventEntity.PAYROLL,
+                  toStatus: PayrollStatus.PENDING,
+                  actor: PayrollEventActor.SYSTEM,
+                  reason: "Created by /api/payment/process",
+                },
+              },
             },
           });
           payrollId = payroll.id;
@@ -315,13 +332,6 @@ export function registerPaymentRoutes(app: Express) {
             // Don't mark as failed - on-chain payment was successful
             steps.rail_processed = false;
           } else {
-            // Update status to RAIL_PROCESSING
-            await prisma.payroll.update({
-              where: { id: payrollId! },
-              data: { status: PayrollStatus.RAIL_PROCESSING },
-            });
-            await updatePayrollPaymentsStatus(payrollId!, PaymentStatus.RAIL_PROCESSING);
-
             // Create Rail withdrawal
             const railPaymentResult = await createRailPayment({
               payrollId: payrollId!,
@@ -365,11 +375,12 @@ export function registerPaymentRoutes(app: Express) {
               }
             }
 
-            await prisma.payroll.update({
-              where: { id: payrollId! },
-              data: { status: finalStatus },
-            });
-            await updatePayrollPaymentsStatus(payrollId!, finalPaymentStatus);
+            const context = {
+              actor: PayrollEventActor.SYSTEM,
+              reason: `Rail withdrawal ${railPaymentResult.id} ${railPaymentResult.status}`,
+            };
+            await transitionPayrollPayments(payrollId!, finalPaymentStatus, context);
+            await transitionPayroll(payrollId!, finalStatus, context);
 
             steps.rail_processed = true;
             logger.info(`[${requestId}] Rail processing completed. Withdrawal ID: ${railPaymentResult.id}, Status: ${railPaymentResult.status}`);
@@ -442,9 +453,9 @@ export function registerPaymentRoutes(app: Express) {
         // If payroll was created, try to update its status to failed
         if (payrollId) {
           try {
-            await prisma.payroll.update({
-              where: { id: payrollId },
-              data: { status: PayrollStatus.FAILED },
+            await transitionPayroll(payrollId, PayrollStatus.FAILED, {
+              actor: PayrollEventActor.SYSTEM,
+              reason: errorMessage,
             });
           } catch (updateError) {
             logger.error(`[${requestId}] Failed to update payroll status to FAILED:`, updateError);
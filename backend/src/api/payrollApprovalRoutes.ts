@@ -0,0 +1,215 @@
+/**
+ * Payroll Approval API Routes
+ * Draft submission, approval inbox and approve/reject decisions.
+ * Approved payrolls are executed through POST /api/payroll/execute.
+ */
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createPayrollDraft,
+  decidePayroll,
+  getApprovalInbox,
+  getApprovalPolicy,
+  getApprovalPolicyWithHistory,
+  setApprovalPolicy,
+} from "../services/payrollApprovalService.js";
+import { getPayrollById } from "../services/payrollService.js";
+import { validatePayrollInput } from "../services/payrollValidation.js";
+import { resolvePayrollPayees } from "../services/payeeService.js";
+import {
+  PayrollApprovalDecision,
+  type PayrollApprovalDecisionType,
+} from "../domain/payroll.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Maximum comment length on a decision
+const MAX_COMMENT_LENGTH = 500;
+
+/**
+ * Submit a payroll for approval: the POST /api/payroll/drafts handler, also used by
+ * POST /api/payroll/execute when it receives raw payments
+ */
+export async function submitPayrollDraft(req: AuthenticatedRequest, res: Response) {
+  try {
+    const companyId = req.user?.companyId;
+    if (!companyId) {
+      return res.status(401).json({
+        error: "UNAUTHORIZED",
+        message: "Company ID not found in token",
+      });
+    }
+
+    let validation = validatePayrollInput(req.body);
+    if (validation.valid) {
+      validation = await resolvePayrollPayees(companyId, validation.input);
+    }
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: "INVALID_PAYROLL",
+        message: "Payroll validation failed",
+        details: validation.errors,
+      });
+    }
+
+    const draft = await createPayrollDraft(companyId, validation.input, req.user?.userId);
+    const payroll = await getPayrollById(draft.id);
+    const policy = await getApprovalPolicy(companyId);
+
+    return res.status(201).json({
+      ...payroll,
+      approvalsRequired: policy.approvalsRequired,
+    });
+  } catch (error) {
+    logger.error("Failed to create payroll draft", error);
+    const errorResponse = formatErrorResponse(error);
+    return res.status(errorResponse.statusCode).json({
+      error: errorResponse.error,
+      message: errorResponse.message,
+    });
+  }
+}
+
+/**
+ * Register payroll approval routes
+ */
+export function registerPayrollApprovalRoutes(app: Express) {
+  /**
+   * POST /api/payroll/drafts
+   * Submit a payroll for approval
+   * Body: { currency?, memo?, payments: [{ payeeId | recipient, amount (cents), currency? }] }
+   */
+  app.post("/api/payroll/drafts", authenticate, submitPayrollDraft);
+
+  /**
+   * GET /api/payroll-approvals
+   * Approval inbox: drafts awaiting the current user's decision and approved payrolls awaiting execution
+   */
+  app.get("/api/payroll-approvals", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      const userId = req.user?.userId;
+      if (!companyId || !userId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const inbox = await getApprovalInbox(companyId, userId);
+      return res.status(200).json(inbox);
+    } catch (error) {
+      logger.error("Failed to load approval inbox", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/payroll-approvals/policy
+   * Get the company's N-of-M approval policy and its recent changes
+   */
+  app.get("/api/payroll-approvals/policy", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const policy = await getApprovalPolicyWithHistory(companyId);
+      return res.status(200).json(policy);
+    } catch (error) {
+      logger.error("Failed to load approval policy", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * PUT /api/payroll-approvals/policy
+   * Set the number of approvals required (company owner only)
+   * Body: { approvalsRequired }
+   */
+  app.put("/api/payroll-approvals/policy", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      const userId = req.user?.userId;
+      if (!companyId || !userId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const policy = await setApprovalPolicy(companyId, userId, req.body?.approvalsRequired);
+      return res.status(200).json(policy);
+    } catch (error) {
+      logger.error("Failed to update approval policy", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  const decisionHandler = (decision: PayrollApprovalDecisionType) =>
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        const userId = req.user?.userId;
+        if (!companyId || !userId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const comment = req.body?.comment;
+        if (comment !== undefined && (typeof comment !== "string" || comment.length > MAX_COMMENT_LENGTH)) {
+          return res.status(400).json({
+            error: "INVALID_REQUEST",
+            message: `comment must be a string of at most ${MAX_COMMENT_LENGTH} characters`,
+          });
+        }
+
+        const payroll = await decidePayroll(
+          companyId,
+          userId,
+          req.params.id,
+          decision,
+          comment?.trim() || undefined,
+        );
+        return res.status(200).json(payroll);
+      } catch (error) {
+        logger.error(`Failed to record payroll decision (${decision})`, error);
+        const errorResponse = formatErrorResponse(error);
+        return res.status(errorResponse.statusCode).json({
+          error: errorResponse.error,
+          message: errorResponse.message,
+        });
+      }
+    };
+
+  /**
+   * POST /api/payroll/:id/approve
+   * Approve a DRAFT payroll. Body: { comment? }
+   */
+  app.post("/api/payroll/:id/approve", authenticate, decisionHandler(PayrollApprovalDecision.APPROVED));
+
+  /**
+   * POST /api/payroll/:id/reject
+   * Reject a DRAFT payroll. Body: { comment? }
+   */
+  app.post("/api/payroll/:id/reject", authenticate, decisionHandler(PayrollApprovalDecision.REJECTED));
+}
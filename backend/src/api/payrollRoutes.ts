@@ -1,65 +1,741 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
+import multer from "multer";
 import { x402Protect, type X402Request } from "../x402/middleware.js";
-import { executePayrollDemo, getPayrollById } from "../services/payrollService.js";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { idempotent } from "../middleware/idempotencyMiddleware.js";
+import {
+  getCompanyPayrollById,
+  listPayrolls,
+  retryPayroll,
+} from "../services/payrollService.js";
+import { executeApprovedPayroll } from "../services/payrollApprovalService.js";
+import { submitPayrollDraft } from "./payrollApprovalRoutes.js";
+import {
+  detectImportFormat,
+  importPayrollSpreadsheet,
+  MAX_IMPORT_ROWS,
+} from "../services/payrollImportService.js";
+import {
+  simulatePayroll,
+  simulateStoredPayroll,
+} from "../services/payrollSimulationService.js";
+import { getPayrollTimeline } from "../services/payrollStateService.js";
+import { clonePayroll } from "../services/payrollTemplateService.js";
+import {
+  exportPayroll,
+  isPayrollExportFormat,
+  PayrollExportFormat,
+} from "../services/payrollExportService.js";
+import { getPayrollPayslips, getPayslip } from "../services/payslipService.js";
+import { listPayrollNotifications, sendPayrollNotifications } from "../services/notificationService.js";
+import { getPayrollProgress } from "../services/payrollJobService.js";
+import { wakePayrollJobWorker } from "../services/payrollJobWorker.js";
+import {
+  isSupportedPayrollCurrency,
+  validatePayrollListQuery,
+} from "../services/payrollValidation.js";
+import { listPayees } from "../services/payeeService.js";
+import { SUPPORTED_PAYROLL_CURRENCIES, userActor } from "../domain/payroll.js";
+import { AppError, SpendingLimitExceededError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
 
 const METER_ID = "payroll_execute";
 
+// Spreadsheet uploads are kept in memory (5 MB max)
+const MAX_IMPORT_FILE_MB = 5;
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_MB * 1024 * 1024, files: 1 },
+});
+
+// Parse the "file" upload; upload errors get the JSON error shape instead of Express's HTML 500
+function uploadPayrollFile(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (!err) {
+      return next();
+    }
+    if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({
+        error: "FILE_TOO_LARGE",
+        message: `The file must be at most ${MAX_IMPORT_FILE_MB} MB`,
+      });
+    }
+    // Unexpected field or too many files (MulterError), or a malformed multipart body
+    return res.status(400).json({
+      error: "INVALID_UPLOAD",
+      message: err instanceof multer.MulterError
+        ? `${err.message}${err.field ? ` (field "${err.field}")` : ""}; send one file in the "file" field`
+        : "Malformed multipart upload",
+    });
+  });
+}
+
+type ExecutePayrollRequest = X402Request & AuthenticatedRequest;
+
+// Raw payments sent to POST /api/payroll/execute (the original custom payroll body) are
+// submitted as a draft awaiting approval, before any x402 payment is taken
+function submitPaymentsAsDraft(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.body?.payments === undefined) {
+    return next();
+  }
+  return submitPayrollDraft(req, res);
+}
+
+type QueuedPayroll = Awaited<ReturnType<typeof retryPayroll>>;
+
+// 202 body shared by execute and retry; poll progressUrl until the job finishes
+function formatQueuedResult({ payroll, job }: QueuedPayroll) {
+  return {
+    success: true,
+    payrollId: payroll.id,
+    job: {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      step: job.step,
+    },
+    progressUrl: `/api/payroll/${payroll.id}/progress`,
+    status: payroll.status,
+    total: payroll.total,
+    currency: payroll.currency,
+    memo: payroll.memo,
+    paymentsCount: payroll.payments.length,
+    payments: payroll.payments.map((p) => ({
+      id: p.id,
+      amount: p.amount,
+      currency: p.currency,
+      settlementAmount: p.settlementAmount,
+      fxRate: p.fxRate,
+      status: p.status,
+      recipient: p.recipient,
+      payeeId: p.payeeId,
+      txHash: p.txHash,
+      failureReason: p.failureReason,
+      attempts: p.attempts,
+      withdrawalRail: p.withdrawalRail,
+      railWithdrawalId: p.railWithdrawalId,
+      railStatus: p.railStatus,
+    })),
+    createdAt: payroll.createdAt.toISOString(),
+  };
+}
+
 export function registerPayrollRoutes(app: Express) {
-  // POST /api/payroll/execute (protected by x402 header X-PAYMENT)
+  // POST /api/payroll/execute (JWT + x402 header X-PAYMENT)
+  // Body: { payrollId } queues the execution of an APPROVED payroll of the caller's company.
+  // Responds 202 once the job is queued; the job worker runs the pipeline.
+  // Body: { currency?, memo?, payments } is not executed directly: it is submitted as a draft
+  // (as POST /api/payroll/drafts does) and answered 201 without payment; execute it once approved.
+  // An Idempotency-Key header makes retries return the original response.
   app.post(
     "/api/payroll/execute",
+    authenticate,
+    idempotent(METER_ID),
+    submitPaymentsAsDraft,
     x402Protect(METER_ID),
-    async (req: X402Request, res: Response) => {
+    async (req: ExecutePayrollRequest, res: Response) => {
       try {
-        const payroll = await executePayrollDemo();
-        if (!payroll) {
-          return res.status(500).json({
-            error: "EXECUTION_FAILED",
-            message: "Failed to execute payroll",
+        const payrollId = req.body?.payrollId;
+
+        const companyId = req.user?.companyId;
+        const userId = req.user?.userId;
+        if (!companyId || !userId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
           });
         }
+        if (typeof payrollId !== "string" || payrollId.trim() === "") {
+          return res.status(400).json({
+            error: "PAYROLL_ID_REQUIRED",
+            message: "payrollId of an APPROVED payroll is required; submit new payrolls with POST /api/payroll/drafts",
+          });
+        }
+        const queued = await executeApprovedPayroll(companyId, payrollId, userActor(userId));
 
-        type PaymentItem = {
-          id: string;
-          amount: number;
-          currency: string;
-          status: string;
-          recipient: string | null;
-        };
-        
+        wakePayrollJobWorker();
+        return res.status(202).json(formatQueuedResult(queued));
+      } catch (err) {
+        // Not found / not approved / over a spending limit
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+            ...(err instanceof SpendingLimitExceededError ? { violations: err.violations } : {}),
+          });
+        }
+        logger.error("Failed to execute payroll", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error executing payroll",
+        });
+      }
+    },
+  );
+
+  // POST /api/payroll/:id/retry (JWT + x402 header X-PAYMENT)
+  // Queues a re-attempt of the failed or unpaid payments of a PARTIALLY_PAID, ONCHAIN_PAID or
+  // FAILED payroll of the caller's company. Settled payments are never paid twice.
+  app.post(
+    "/api/payroll/:id/retry",
+    authenticate,
+    x402Protect(METER_ID),
+    async (req: ExecutePayrollRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        const userId = req.user?.userId;
+        if (!companyId || !userId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const queued = await retryPayroll(companyId, req.params.id, userActor(userId));
+
+        wakePayrollJobWorker();
+        return res.status(202).json(formatQueuedResult(queued));
+      } catch (err) {
+        // Not found / not retryable / over a spending limit
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+            ...(err instanceof SpendingLimitExceededError ? { violations: err.violations } : {}),
+          });
+        }
+        logger.error("Failed to retry payroll", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error retrying payroll",
+        });
+      }
+    },
+  );
+
+  // POST /api/payroll/simulate (JWT)
+  // Dry run: validates recipients, checks treasury balance, estimates gas and previews
+  // the Rail withdrawal. Nothing is persisted and no transaction is sent.
+  // Body: { payrollId } (unsettled payments of a stored payroll)
+  //    or { currency?, memo?, payments: [{ payeeId | recipient, amount (cents), currency? }] }
+  app.post(
+    "/api/payroll/simulate",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const { payrollId, currency: rawCurrency, memo, payments } = req.body ?? {};
+
+        if (payrollId !== undefined) {
+          if (typeof payrollId !== "string" || payrollId.trim() === "") {
+            return res.status(400).json({
+              error: "INVALID_REQUEST",
+              message: "payrollId must be a non-empty string",
+            });
+          }
+          return res.status(200).json(await simulateStoredPayroll(companyId, payrollId));
+        }
+
+        const currency = typeof rawCurrency === "string" ? rawCurrency.toUpperCase() : "USD";
+        if (rawCurrency !== undefined && (typeof rawCurrency !== "string" || !isSupportedPayrollCurrency(currency))) {
+          return res.status(400).json({
+            error: "INVALID_PAYROLL",
+            message: `Currency must be one of: ${SUPPORTED_PAYROLL_CURRENCIES.join(", ")}`,
+          });
+        }
+        if (!Array.isArray(payments) || payments.length === 0 || payments.length > MAX_IMPORT_ROWS) {
+          return res.status(400).json({
+            error: "INVALID_PAYROLL",
+            message: `Between 1 and ${MAX_IMPORT_ROWS} payments are required`,
+          });
+        }
+
+        const report = await simulatePayroll(companyId, {
+          currency,
+          memo: typeof memo === "string" && memo.trim() !== "" ? memo.trim() : undefined,
+          payments,
+        });
+        return res.status(200).json(report);
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to simulate payroll", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error simulating payroll",
+        });
+      }
+    },
+  );
+
+  // POST /api/payroll/import (multipart field "file", optional field "currency")
+  // Parses a CSV/XLSX payroll and returns a per-row validation report plus a draft.
+  // Recipient cells hold a wallet address or a payee's email or name.
+  // Nothing is persisted; the draft is submitted to POST /api/payroll/drafts for approval.
+  app.post(
+    "/api/payroll/import",
+    authenticate,
+    uploadPayrollFile,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const file = req.file;
+        if (!file) {
+          return res.status(400).json({
+            error: "INVALID_REQUEST",
+            message: "A CSV or XLSX file is required in the \"file\" field",
+          });
+        }
+
+        const format = detectImportFormat(file.originalname, file.mimetype);
+        if (!format) {
+          return res.status(400).json({
+            error: "UNSUPPORTED_FILE_TYPE",
+            message: "Only .csv and .xlsx files are supported",
+          });
+        }
+
+        const currency = typeof req.body?.currency === "string" ? req.body.currency : "USD";
+        // Recipient cells may name a payee from the company directory
+        const companyId = req.user?.companyId;
+        const payees = companyId ? await listPayees(companyId) : [];
+        const report = await importPayrollSpreadsheet(file.buffer, format, currency, payees);
+
+        logger.info(`Payroll import parsed for company ${req.user?.companyId}`, {
+          format,
+          rows: report.summary.rows,
+          invalidRows: report.summary.invalidRows,
+        });
+
+        return res.status(report.valid ? 200 : 422).json(report);
+      } catch (err) {
+        logger.error("Failed to import payroll file", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error importing payroll file",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll (JWT)
+  // Payrolls of the caller's company, newest first by default
+  // Query: status (comma-separated), from, to (createdAt range), q (ID or memo),
+  // sort (createdAt, updatedAt, total), order (asc, desc), limit, cursor (nextCursor of the previous page)
+  app.get(
+    "/api/payroll",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const validation = validatePayrollListQuery(req.query);
+        if (!validation.valid) {
+          return res.status(400).json({
+            error: "INVALID_QUERY",
+            message: "Invalid payroll list query",
+            details: validation.errors,
+          });
+        }
+
+        const { payrolls, nextCursor } = await listPayrolls(companyId, validation.query);
         return res.status(200).json({
-          success: true,
-          payrollId: payroll.id,
-          status: payroll.status,
-          total: payroll.total,
-          currency: payroll.currency,
-          paymentsCount: payroll.payments.length,
-          payments: payroll.payments.map((p: PaymentItem) => ({
+          payrolls: payrolls.map((p) => ({
             id: p.id,
-            amount: p.amount,
+            total: p.total,
             currency: p.currency,
             status: p.status,
-            recipient: p.recipient,
+            memo: p.memo,
+            createdById: p.createdById,
+            paymentsCount: p._count.payments,
+            createdAt: p.createdAt.toISOString(),
+            updatedAt: p.updatedAt.toISOString(),
           })),
-          createdAt: payroll.createdAt.toISOString(),
+          nextCursor,
         });
       } catch (err) {
-        console.error("Failed to execute payroll", err);
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to list payrolls", err);
         return res.status(500).json({
           error: "INTERNAL_ERROR",
-          message: "Unexpected error executing payroll",
+          message: "Unexpected error listing payrolls",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/progress (JWT)
+  // Latest execution job of a payroll of the caller's company and how many of its payments have settled
+  app.get(
+    "/api/payroll/:id/progress",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const { payroll, job, payments } = await getPayrollProgress(companyId, req.params.id);
+        return res.status(200).json({
+          payrollId: payroll.id,
+          status: payroll.status,
+          job: job && {
+            id: job.id,
+            type: job.type,
+            status: job.status,
+            step: job.step,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            lastError: job.lastError,
+            runAfter: job.runAfter.toISOString(),
+            startedAt: job.startedAt?.toISOString() ?? null,
+            finishedAt: job.finishedAt?.toISOString() ?? null,
+            createdAt: job.createdAt.toISOString(),
+          },
+          payments,
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to fetch payroll progress", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error fetching payroll progress",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/clone (JWT)
+  // Draft lines pre-filled from a past payroll of the caller's company; submit them
+  // (adjusted or not) with POST /api/payroll/drafts
+  app.get(
+    "/api/payroll/:id/clone",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const draft = await clonePayroll(companyId, req.params.id);
+        return res.status(200).json(draft);
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to clone payroll", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error cloning payroll",
         });
       }
     },
   );
 
-  // GET /api/payroll/:id
+  // GET /api/payroll/:id/timeline (JWT)
+  // Status transitions of a payroll of the caller's company and of its payments, oldest first
+  app.get(
+    "/api/payroll/:id/timeline",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const { payroll, events } = await getPayrollTimeline(companyId, req.params.id);
+        return res.status(200).json({
+          payrollId: payroll.id,
+          status: payroll.status,
+          events: events.map((e) => ({
+            id: e.id,
+            entity: e.entity,
+            paymentId: e.paymentId,
+            fromStatus: e.fromStatus,
+            toStatus: e.toStatus,
+            actor: e.actor,
+            reason: e.reason,
+            createdAt: e.createdAt.toISOString(),
+          })),
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to fetch payroll timeline", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error fetching payroll timeline",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/export/:format (JWT)
+  // Download a payroll of the caller's company: csv, iif (QuickBooks), xero (bank statement CSV)
+  // or journal (double-entry CSV)
+  app.get(
+    "/api/payroll/:id/export/:format",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const { id, format } = req.params;
+        if (!isPayrollExportFormat(format)) {
+          return res.status(400).json({
+            error: "UNSUPPORTED_FORMAT",
+            message: `Export format must be one of: ${Object.values(PayrollExportFormat).join(", ")}`,
+          });
+        }
+
+        const file = await exportPayroll(companyId, id, format);
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+        return res.status(200).send(file.body);
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to export payroll", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error exporting payroll",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/payments/:paymentId/payslip (JWT)
+  // PDF payslip (proof of payment) of a settled payment of the caller's company
+  app.get(
+    "/api/payroll/:id/payments/:paymentId/payslip",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const file = await getPayslip(companyId, req.params.id, req.params.paymentId);
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+        return res.status(200).send(file.body);
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to generate payslip", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error generating payslip",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/payslips (JWT)
+  // Zip with the payslip of every settled payment of the payroll
+  app.get(
+    "/api/payroll/:id/payslips",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const file = await getPayrollPayslips(companyId, req.params.id);
+        res.setHeader("Content-Type", file.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+        return res.status(200).send(file.body);
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to generate payslips", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error generating payslips",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id/notifications (JWT)
+  // Emails sent to the payees of the payroll, with every delivery attempt
+  app.get(
+    "/api/payroll/:id/notifications",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const notifications = await listPayrollNotifications(companyId, req.params.id);
+        return res.status(200).json({
+          payrollId: req.params.id,
+          notifications: notifications.map((n) => ({
+            id: n.id,
+            paymentId: n.paymentId,
+            event: n.event,
+            recipient: n.recipient,
+            template: n.template,
+            subject: n.subject,
+            status: n.status,
+            attempts: n.attempts,
+            lastError: n.lastError,
+            sentAt: n.sentAt?.toISOString() ?? null,
+            createdAt: n.createdAt.toISOString(),
+            deliveries: n.deliveries.map((d) => ({
+              transport: d.transport,
+              success: d.success,
+              messageId: d.messageId,
+              response: d.response,
+              error: d.error,
+              createdAt: d.createdAt.toISOString(),
+            })),
+          })),
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to list payroll notifications", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error listing payroll notifications",
+        });
+      }
+    },
+  );
+
+  // POST /api/payroll/:id/notifications/send (JWT)
+  // Deliver the payee emails owed by the payroll now (new ones, and failed ones with attempts left)
+  app.post(
+    "/api/payroll/:id/notifications/send",
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
+        const sent = await sendPayrollNotifications(companyId, req.params.id);
+        return res.status(200).json({ payrollId: req.params.id, sent });
+      } catch (err) {
+        // Not found / notifications disabled
+        if (err instanceof AppError) {
+          return res.status(err.statusCode).json({
+            error: err.code,
+            message: err.message,
+          });
+        }
+        logger.error("Failed to send payroll notifications", err);
+        return res.status(500).json({
+          error: "INTERNAL_ERROR",
+          message: "Unexpected error sending payroll notifications",
+        });
+      }
+    },
+  );
+
+  // GET /api/payroll/:id (JWT)
+  // Payroll of the caller's company with its payments
   app.get(
     "/api/payroll/:id",
-    async (req: Request, res: Response) => {
+    authenticate,
+    async (req: AuthenticatedRequest, res: Response) => {
       try {
+        const companyId = req.user?.companyId;
+        if (!companyId) {
+          return res.status(401).json({
+            error: "UNAUTHORIZED",
+            message: "Company ID not found in token",
+          });
+        }
+
         const { id } = req.params;
-        const payroll = await getPayrollById(id);
+        const payroll = await getCompanyPayrollById(companyId, id);
         if (!payroll) {
           return res.status(404).json({
             error: "NOT_FOUND",
@@ -71,8 +747,24 @@ export function registerPayrollRoutes(app: Express) {
           id: string;
           amount: number;
           currency: string;
+          settlementAmount: number;
+          fxRate: string | null;
           status: string;
           recipient: string | null;
+          payeeId: string | null;
+          txHash: string | null;
+          networkFee: string | null;
+          failureReason: string | null;
+          attempts: number;
+          withdrawalRail: string | null;
+          railWithdrawalId: string | null;
+          railStatus: string | null;
+          lineItems: Array<{
+            type: string;
+            description: string;
+            amount: number;
+            rateBps: number | null;
+          }>;
           createdAt: Date;
           updatedAt: Date;
         };
@@ -82,14 +774,31 @@ export function registerPayrollRoutes(app: Express) {
           total: payroll.total,
           currency: payroll.currency,
           status: payroll.status,
+          memo: payroll.memo,
           createdAt: payroll.createdAt.toISOString(),
           updatedAt: payroll.updatedAt.toISOString(),
           payments: payroll.payments.map((p: PaymentDetail) => ({
             id: p.id,
             amount: p.amount,
             currency: p.currency,
+            settlementAmount: p.settlementAmount,
+            fxRate: p.fxRate,
             status: p.status,
             recipient: p.recipient,
+            payeeId: p.payeeId,
+            txHash: p.txHash,
+            networkFee: p.networkFee,
+            failureReason: p.failureReason,
+            attempts: p.attempts,
+            withdrawalRail: p.withdrawalRail,
+            railWithdrawalId: p.railWithdrawalId,
+            railStatus: p.railStatus,
+            lineItems: p.lineItems.map((item) => ({
+              type: item.type,
+              description: item.description,
+              amount: item.amount,
+              rateBps: item.rateBps,
+            })),
             createdAt: p.createdAt.toISOString(),
             updatedAt: p.updatedAt.toISOString(),
           })),
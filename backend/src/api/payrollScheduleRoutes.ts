@@ -0,0 +1,219 @@
+/**
+ * Payroll Schedule API Routes
+ * Manage recurring payroll schedules for the authenticated company.
+ * Due schedules are executed by the background payroll scheduler.
+ */
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createPayrollSchedule,
+  deletePayrollSchedule,
+  formatPayrollSchedule,
+  getPayrollSchedule,
+  listPayrollScheduleRuns,
+  listPayrollSchedules,
+  updatePayrollSchedule,
+  validatePayrollScheduleInput,
+} from "../services/payrollScheduleService.js";
+import { resolvePayrollPayees } from "../services/payeeService.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Register payroll schedule routes
+ */
+export function registerPayrollScheduleRoutes(app: Express) {
+  /**
+   * GET /api/payroll-schedules
+   * List schedules of the authenticated company
+   */
+  app.get("/api/payroll-schedules", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const schedules = await listPayrollSchedules(companyId);
+      return res.status(200).json({
+        schedules: schedules.map(formatPayrollSchedule),
+      });
+    } catch (error) {
+      logger.error("Failed to list payroll schedules", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing payroll schedules",
+      });
+    }
+  });
+
+  /**
+   * POST /api/payroll-schedules
+   * Create a schedule
+   * Body: { name, frequency, dayOfWeek?, dayOfMonth?, runAtHour?, insufficientFundsPolicy?,
+   *         active?, startAt?, currency?, memo?, payments: [{ payeeId | recipient, amount (cents) }] }
+   */
+  app.post("/api/payroll-schedules", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const validation = validatePayrollScheduleInput(req.body);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_SCHEDULE",
+          message: "Payroll schedule validation failed",
+          details: validation.errors,
+        });
+      }
+
+      // Payees are checked now but resolved on every run, so wallet changes are picked up
+      const payees = await resolvePayrollPayees(companyId, validation.input.payroll);
+      if (!payees.valid) {
+        return res.status(400).json({
+          error: "INVALID_SCHEDULE",
+          message: "Payroll schedule validation failed",
+          details: payees.errors,
+        });
+      }
+
+      const schedule = await createPayrollSchedule(companyId, validation.input);
+      return res.status(201).json(formatPayrollSchedule(schedule));
+    } catch (error) {
+      logger.error("Failed to create payroll schedule", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error creating payroll schedule",
+      });
+    }
+  });
+
+  /**
+   * GET /api/payroll-schedules/:id
+   * Get a schedule with its most recent runs
+   */
+  app.get("/api/payroll-schedules/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const schedule = await getPayrollSchedule(companyId, req.params.id);
+      if (!schedule) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll schedule not found: ${req.params.id}`,
+        });
+      }
+
+      const runs = await listPayrollScheduleRuns(schedule.id);
+      return res.status(200).json({
+        ...formatPayrollSchedule(schedule),
+        runs,
+      });
+    } catch (error) {
+      logger.error("Failed to fetch payroll schedule", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error fetching payroll schedule",
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/payroll-schedules/:id
+   * Update a schedule (omitted fields keep their current value)
+   */
+  app.patch("/api/payroll-schedules/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayrollSchedule(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll schedule not found: ${req.params.id}`,
+        });
+      }
+
+      const validation = validatePayrollScheduleInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_SCHEDULE",
+          message: "Payroll schedule validation failed",
+          details: validation.errors,
+        });
+      }
+
+      // Payees are checked now but resolved on every run, so wallet changes are picked up
+      const payees = await resolvePayrollPayees(companyId, validation.input.payroll);
+      if (!payees.valid) {
+        return res.status(400).json({
+          error: "INVALID_SCHEDULE",
+          message: "Payroll schedule validation failed",
+          details: payees.errors,
+        });
+      }
+
+      const schedule = await updatePayrollSchedule(existing, validation.input);
+      return res.status(200).json(formatPayrollSchedule(schedule));
+    } catch (error) {
+      logger.error("Failed to update payroll schedule", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error updating payroll schedule",
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/payroll-schedules/:id
+   * Delete a schedule and its run history
+   */
+  app.delete("/api/payroll-schedules/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayrollSchedule(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll schedule not found: ${req.params.id}`,
+        });
+      }
+
+      await deletePayrollSchedule(existing.id);
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete payroll schedule", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error deleting payroll schedule",
+      });
+    }
+  });
+}
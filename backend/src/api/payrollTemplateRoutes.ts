@@ -0,0 +1,213 @@
+/**
+ * Payroll Template API Routes
+ * Manage saved payroll templates of the authenticated company.
+ * Templates pre-fill a draft that is submitted with POST /api/payroll/drafts.
+ */
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createPayrollTemplate,
+  deletePayrollTemplate,
+  formatPayrollTemplate,
+  getPayrollTemplate,
+  listPayrollTemplates,
+  updatePayrollTemplate,
+  validatePayrollTemplateInput,
+} from "../services/payrollTemplateService.js";
+import { resolvePayrollPayees } from "../services/payeeService.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Register payroll template routes
+ */
+export function registerPayrollTemplateRoutes(app: Express) {
+  /**
+   * GET /api/payroll-templates
+   * List templates of the authenticated company
+   */
+  app.get("/api/payroll-templates", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const templates = await listPayrollTemplates(companyId);
+      return res.status(200).json({ templates: templates.map(formatPayrollTemplate) });
+    } catch (error) {
+      logger.error("Failed to list payroll templates", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing payroll templates",
+      });
+    }
+  });
+
+  /**
+   * POST /api/payroll-templates
+   * Create a template
+   * Body: { name, currency?, memo?, payments: [{ payeeId | recipient, amount (cents), currency?, items? }] }
+   */
+  app.post("/api/payroll-templates", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const validation = validatePayrollTemplateInput(req.body);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYROLL_TEMPLATE",
+          message: "Payroll template validation failed",
+          details: validation.errors,
+        });
+      }
+
+      // Payees are checked now but resolved when a draft is submitted, so wallet changes are picked up
+      const payees = await resolvePayrollPayees(companyId, validation.input.payroll);
+      if (!payees.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYROLL_TEMPLATE",
+          message: "Payroll template validation failed",
+          details: payees.errors,
+        });
+      }
+
+      const template = await createPayrollTemplate(companyId, validation.input);
+      return res.status(201).json(formatPayrollTemplate(template));
+    } catch (error) {
+      logger.error("Failed to create payroll template", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/payroll-templates/:id
+   * Get a template
+   */
+  app.get("/api/payroll-templates/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const template = await getPayrollTemplate(companyId, req.params.id);
+      if (!template) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll template not found: ${req.params.id}`,
+        });
+      }
+
+      return res.status(200).json(formatPayrollTemplate(template));
+    } catch (error) {
+      logger.error("Failed to fetch payroll template", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error fetching payroll template",
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/payroll-templates/:id
+   * Update a template (omitted fields keep their current value; payments replaces all lines)
+   */
+  app.patch("/api/payroll-templates/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayrollTemplate(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll template not found: ${req.params.id}`,
+        });
+      }
+
+      const validation = validatePayrollTemplateInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYROLL_TEMPLATE",
+          message: "Payroll template validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const payees = await resolvePayrollPayees(companyId, validation.input.payroll);
+      if (!payees.valid) {
+        return res.status(400).json({
+          error: "INVALID_PAYROLL_TEMPLATE",
+          message: "Payroll template validation failed",
+          details: payees.errors,
+        });
+      }
+
+      const template = await updatePayrollTemplate(existing, validation.input);
+      return res.status(200).json(formatPayrollTemplate(template));
+    } catch (error) {
+      logger.error("Failed to update payroll template", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/payroll-templates/:id
+   * Delete a template; payrolls submitted from it are not affected
+   */
+  app.delete("/api/payroll-templates/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getPayrollTemplate(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Payroll template not found: ${req.params.id}`,
+        });
+      }
+
+      await deletePayrollTemplate(existing.id);
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete payroll template", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error deleting payroll template",
+      });
+    }
+  });
+}
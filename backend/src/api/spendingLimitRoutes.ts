@@ -0,0 +1,175 @@
+/**
+ * Spending Limit API Routes
+ * Companies read the payout limits of their KYB tier; admins (X-Admin-Token) change the
+ * limits of each tier. Every change is recorded in an audit trail.
+ */
+
+import type { Express, Response } from "express";
+import {
+  authenticate,
+  authenticateAdmin,
+  type AdminRequest,
+  type AuthenticatedRequest,
+} from "../middleware/authMiddleware.js";
+import {
+  deleteSpendingLimitTier,
+  getCompanySpendingLimits,
+  getSpendingLimitTier,
+  listSpendingLimitChanges,
+  listSpendingLimitTiers,
+  setSpendingLimitTier,
+  validateSpendingLimitInput,
+} from "../services/spendingLimitService.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// KYB level from a path or query parameter, or null when it is not a level
+function parseKybLevel(value: unknown): number | null {
+  if (typeof value !== "string" || !/^\d{1,3}$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+}
+
+function adminActor(req: AdminRequest): string {
+  return `admin:${req.admin!.name}`;
+}
+
+/**
+ * Register spending limit routes
+ */
+export function registerSpendingLimitRoutes(app: Express) {
+  /**
+   * GET /api/spending-limits
+   * Limits of the authenticated company's KYB tier and what it paid out this UTC day and month
+   */
+  app.get("/api/spending-limits", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const limits = await getCompanySpendingLimits(companyId);
+      return res.status(200).json(limits);
+    } catch (error) {
+      logger.error("Failed to get spending limits", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * GET /admin/spending-limits
+   * List the limits of every KYB tier
+   */
+  app.get("/admin/spending-limits", authenticateAdmin, async (_req: AdminRequest, res: Response) => {
+    try {
+      const tiers = await listSpendingLimitTiers();
+      return res.status(200).json({ tiers });
+    } catch (error) {
+      logger.error("Failed to list spending limit tiers", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing spending limits",
+      });
+    }
+  });
+
+  /**
+   * GET /admin/spending-limits/changes?kybLevel=&limit=
+   * Audit trail of limit changes, newest first
+   */
+  app.get("/admin/spending-limits/changes", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const kybLevel = req.query.kybLevel !== undefined ? parseKybLevel(req.query.kybLevel) : undefined;
+      if (kybLevel === null) {
+        return res.status(400).json({
+          error: "INVALID_REQUEST",
+          message: "kybLevel must be a non-negative integer",
+        });
+      }
+
+      const limit = typeof req.query.limit === "string" ? parseInt(req.query.limit, 10) : undefined;
+      const changes = await listSpendingLimitChanges(kybLevel, Number.isNaN(limit) ? undefined : limit);
+      return res.status(200).json({ changes });
+    } catch (error) {
+      logger.error("Failed to list spending limit changes", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing spending limit changes",
+      });
+    }
+  });
+
+  /**
+   * PUT /admin/spending-limits/:kybLevel
+   * Set the limits of a KYB tier (omitted limits keep their current value, null removes a limit)
+   * Body: { perPayroll?, daily?, monthly?, perPayeeMonthly? (cents), reason? }
+   */
+  app.put("/admin/spending-limits/:kybLevel", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const kybLevel = parseKybLevel(req.params.kybLevel);
+      if (kybLevel === null) {
+        return res.status(400).json({
+          error: "INVALID_REQUEST",
+          message: "kybLevel must be a non-negative integer",
+        });
+      }
+
+      const existing = await getSpendingLimitTier(kybLevel);
+      const validation = validateSpendingLimitInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_SPENDING_LIMIT",
+          message: "Spending limit validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const tier = await setSpendingLimitTier(kybLevel, validation.input, adminActor(req));
+      return res.status(200).json(tier);
+    } catch (error) {
+      logger.error("Failed to set spending limits", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error setting spending limits",
+      });
+    }
+  });
+
+  /**
+   * DELETE /admin/spending-limits/:kybLevel?reason=
+   * Remove the limits of a KYB tier; its companies are no longer limited
+   */
+  app.delete("/admin/spending-limits/:kybLevel", authenticateAdmin, async (req: AdminRequest, res: Response) => {
+    try {
+      const kybLevel = parseKybLevel(req.params.kybLevel);
+      if (kybLevel === null) {
+        return res.status(400).json({
+          error: "INVALID_REQUEST",
+          message: "kybLevel must be a non-negative integer",
+        });
+      }
+
+      const reason = typeof req.query.reason === "string" && req.query.reason.trim() !== ""
+        ? req.query.reason.trim()
+        : null;
+      await deleteSpendingLimitTier(kybLevel, adminActor(req), reason);
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete spending limits", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+}
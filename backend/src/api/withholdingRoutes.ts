@@ -0,0 +1,161 @@
+/**
+ * Withholding Rule API Routes
+ * Manage the withholding rules of the authenticated company.
+ * Rules apply to itemized payroll lines (payments: [{ payeeId, items }]) by payee country.
+ */
+
+import type { Express, Response } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createWithholdingRule,
+  deleteWithholdingRule,
+  getWithholdingRule,
+  listWithholdingRules,
+  updateWithholdingRule,
+  validateWithholdingRuleInput,
+} from "../services/withholdingService.js";
+import { formatErrorResponse } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Register withholding rule routes
+ */
+export function registerWithholdingRoutes(app: Express) {
+  /**
+   * GET /api/withholding-rules?country=
+   * List withholding rules of the authenticated company, optionally for one country
+   */
+  app.get("/api/withholding-rules", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const country = typeof req.query.country === "string" ? req.query.country : undefined;
+      const rules = await listWithholdingRules(companyId, country);
+      return res.status(200).json({ rules });
+    } catch (error) {
+      logger.error("Failed to list withholding rules", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error listing withholding rules",
+      });
+    }
+  });
+
+  /**
+   * POST /api/withholding-rules
+   * Create a withholding rule
+   * Body: { country (ISO 3166-1 alpha-2), name, rateBps (basis points of gross earnings) }
+   */
+  app.post("/api/withholding-rules", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const validation = validateWithholdingRuleInput(req.body);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_WITHHOLDING_RULE",
+          message: "Withholding rule validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const rule = await createWithholdingRule(companyId, validation.input);
+      return res.status(201).json(rule);
+    } catch (error) {
+      logger.error("Failed to create withholding rule", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * PATCH /api/withholding-rules/:id
+   * Update a withholding rule (omitted fields keep their current value)
+   */
+  app.patch("/api/withholding-rules/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getWithholdingRule(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Withholding rule not found: ${req.params.id}`,
+        });
+      }
+
+      const validation = validateWithholdingRuleInput(req.body, existing);
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: "INVALID_WITHHOLDING_RULE",
+          message: "Withholding rule validation failed",
+          details: validation.errors,
+        });
+      }
+
+      const rule = await updateWithholdingRule(existing, validation.input);
+      return res.status(200).json(rule);
+    } catch (error) {
+      logger.error("Failed to update withholding rule", error);
+      const errorResponse = formatErrorResponse(error);
+      return res.status(errorResponse.statusCode).json({
+        error: errorResponse.error,
+        message: errorResponse.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/withholding-rules/:id
+   * Delete a withholding rule; payments keep the withholding already computed
+   */
+  app.delete("/api/withholding-rules/:id", authenticate, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const companyId = req.user?.companyId;
+      if (!companyId) {
+        return res.status(401).json({
+          error: "UNAUTHORIZED",
+          message: "Company ID not found in token",
+        });
+      }
+
+      const existing = await getWithholdingRule(companyId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Withholding rule not found: ${req.params.id}`,
+        });
+      }
+
+      await deleteWithholdingRule(existing.id);
+      return res.status(204).send();
+    } catch (error) {
+      logger.error("Failed to delete withholding rule", error);
+      return res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error deleting withholding rule",
+      });
+    }
+  });
+}
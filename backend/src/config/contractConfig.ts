@@ -19,6 +19,11 @@ export const TREASURY_ABI = [
   "event SwapExecuted(address indexed swapper, address indexed fromToken, address indexed toToken, uint256 amount)",
 ] as const;
 
+// Minimal ABI of the DEX router the treasury swaps through (Trader Joe IJoeRouter2)
+export const SWAP_ROUTER_ABI = [
+  "function getAmountsOut(uint256 amountIn, address[] path) view returns (uint256[] amounts)",
+] as const;
+
 let provider: JsonRpcProvider | null = null;
 let signer: Wallet | null = null;
 let treasuryContract: Contract | null = null;
@@ -72,3 +77,9 @@ export function getTreasuryContractReadOnly(): Contract {
 
 
 
+
+// Get the DEX router configured in the treasury contract (read-only)
+export async function getSwapRouterReadOnly(): Promise<Contract> {
+  const routerAddress = (await getTreasuryContractReadOnly().router()) as string;
+  return new Contract(routerAddress, SWAP_ROUTER_ABI, getProvider());
+}
@@ -59,10 +59,79 @@ export const config = {
   merchantApiEnabled: process.env.MERCHANT_API_ENABLED !== "false",
   coingeckoApiKey: process.env.COINGECKO_API_KEY || "",
   x402CallbackSecret: process.env.X402_CALLBACK_SECRET || "",
+
+  // Admin API (/admin/*): comma-separated "name:token" pairs, sent as the X-Admin-Token header
+  // The name is recorded in audit trails. The admin API is disabled when empty.
+  adminApiTokens: process.env.ADMIN_API_TOKENS || "",
   
   // x402 Demo Token Configuration
   // Allow demo-token for testing (set X402_ALLOW_DEMO_TOKEN=true to enable in production)
   x402AllowDemoToken: process.env.X402_ALLOW_DEMO_TOKEN === "true",
+  // Wallet the x402-protected routes are paid to (payTo of their payment requirements)
+  x402PayToAddress: process.env.X402_PAY_TO_ADDRESS || process.env.PAY_TO_ADDRESS || "",
+  // Prepaid x402 credit (POST /api/credits): how long a session's credit can be spent
+  // Unused credit is refunded from the PRIVATE_KEY wallet, which must hold the asset
+  x402CreditSessionTtlHours: parseInt(process.env.X402_CREDIT_SESSION_TTL_HOURS || "720", 10),
+
+  // Payroll Scheduler Configuration
+  // Enabled by default, can be disabled by setting PAYROLL_SCHEDULER_ENABLED=false
+  payrollSchedulerEnabled: process.env.PAYROLL_SCHEDULER_ENABLED !== "false",
+  // How often due schedules are checked
+  payrollSchedulerIntervalMs: parseInt(process.env.PAYROLL_SCHEDULER_INTERVAL_MS || "60000", 10),
+  // Delay before retrying a run deferred for insufficient treasury balance
+  payrollScheduleDeferMinutes: parseInt(process.env.PAYROLL_SCHEDULE_DEFER_MINUTES || "60", 10),
+
+  // Payroll Job Worker Configuration (queued payroll executions)
+  // Enabled by default, can be disabled by setting PAYROLL_JOB_WORKER_ENABLED=false
+  payrollJobWorkerEnabled: process.env.PAYROLL_JOB_WORKER_ENABLED !== "false",
+  // How often the queue is polled for jobs
+  payrollJobPollIntervalMs: parseInt(process.env.PAYROLL_JOB_POLL_INTERVAL_MS || "5000", 10),
+  // How long a worker holds a job before another worker may resume it (renewed while running)
+  payrollJobLeaseMs: parseInt(process.env.PAYROLL_JOB_LEASE_MS || "120000", 10),
+  // Attempts before a job is marked FAILED
+  payrollJobMaxAttempts: parseInt(process.env.PAYROLL_JOB_MAX_ATTEMPTS || "5", 10),
+
+  // Idempotency-Key support (payroll execute, payment process, merchant payments)
+  // How long a stored response is replayed for the same key
+  idempotencyKeyTtlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24", 10),
+
+  // Ledger accounts used by the payroll accounting exports (GET /api/payroll/:id/export/:format)
+  accountingExpenseAccount: process.env.ACCOUNTING_EXPENSE_ACCOUNT || "Salaries Expense",
+  accountingTreasuryAccount: process.env.ACCOUNTING_TREASURY_ACCOUNT || "Treasury",
+  accountingFeeAccount: process.env.ACCOUNTING_FEE_ACCOUNT || "Network Fees",
+  // Gross-to-net line items: tax withheld, deductions held for benefit providers, reimbursed expenses
+  accountingWithholdingAccount: process.env.ACCOUNTING_WITHHOLDING_ACCOUNT || "Payroll Tax Payable",
+  accountingDeductionsAccount: process.env.ACCOUNTING_DEDUCTIONS_ACCOUNT || "Payroll Deductions Payable",
+  accountingReimbursementAccount: process.env.ACCOUNTING_REIMBURSEMENT_ACCOUNT || "Reimbursements Expense",
+
+  // Treasury swaps: cover a payroll token shortfall by swapping another stablecoin the
+  // treasury holds (e.g. USDT -> USDC) through the treasury's DEX router before paying
+  // Enabled by default, can be disabled by setting TREASURY_SWAP_ENABLED=false
+  treasurySwapEnabled: process.env.TREASURY_SWAP_ENABLED !== "false",
+  // Maximum slippage below the getAmountsOut quote, in basis points
+  treasurySwapSlippageBps: parseInt(process.env.TREASURY_SWAP_SLIPPAGE_BPS || "50", 10),
+
+  // Payee notifications: email each payee when their payment settles (ONCHAIN_PAID / PAID)
+  // "smtp" (any SMTP server, e.g. mailpit on localhost:1025), "file" (writes .eml files to
+  // EMAIL_FILE_DIR, for local development and tests) or "none" (notifications disabled)
+  emailTransport: process.env.EMAIL_TRANSPORT || "none",
+  emailFrom: process.env.EMAIL_FROM || "SnowRail Payroll <payroll@snowrail.xyz>",
+  emailFileDir: process.env.EMAIL_FILE_DIR || "./mail",
+  smtpHost: process.env.SMTP_HOST || "localhost",
+  smtpPort: parseInt(process.env.SMTP_PORT || "587", 10),
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  smtpSecure: process.env.SMTP_SECURE === "true",
+  smtpUser: process.env.SMTP_USER || "",
+  smtpPassword: process.env.SMTP_PASSWORD || "",
+  // Delivery attempts before a notification is given up
+  notificationMaxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "5", 10),
+
+  // FX rates for payroll lines paid out in another currency than the payroll
+  // "frankfurter" (ECB reference rates) or "fixture" (static rates, e.g. for tests)
+  fxProvider: process.env.FX_PROVIDER || "frankfurter",
+  fxApiUrl: process.env.FX_API_URL || "https://api.frankfurter.app",
+  // Optional JSON file of USD rates for the fixture provider, e.g. { "EUR": 1.08 }
+  fxFixturePath: process.env.FX_FIXTURE_PATH || "",
 } as const;
 
 export type Config = typeof config;
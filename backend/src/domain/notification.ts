@@ -0,0 +1,34 @@
+import { PaymentStatus } from "./payment.js";
+
+// Payment statuses a payee is emailed about
+export const NotificationEvent = {
+  ONCHAIN_PAID: PaymentStatus.ONCHAIN_PAID, // Funds left the treasury; a Rail withdrawal may follow
+  PAID: PaymentStatus.PAID, // Payment complete
+} as const;
+
+export type NotificationEventType = (typeof NotificationEvent)[keyof typeof NotificationEvent];
+
+export const NotificationStatus = {
+  PENDING: "PENDING", // Created, not delivered yet
+  SENT: "SENT",
+  FAILED: "FAILED", // Last attempt failed; attempted again until the attempts run out
+} as const;
+
+export type NotificationStatusType = (typeof NotificationStatus)[keyof typeof NotificationStatus];
+
+/**
+ * Event to announce for a payment in the given status, or null when there is nothing to announce
+ * A payment that already completed is announced as PAID only; one still waiting on its Rail
+ * withdrawal is announced as ONCHAIN_PAID.
+ */
+export function notificationEventFor(paymentStatus: string): NotificationEventType | null {
+  switch (paymentStatus) {
+    case PaymentStatus.PAID:
+      return NotificationEvent.PAID;
+    case PaymentStatus.ONCHAIN_PAID:
+    case PaymentStatus.RAIL_PROCESSING:
+      return NotificationEvent.ONCHAIN_PAID;
+    default:
+      return null;
+  }
+}
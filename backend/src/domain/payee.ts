@@ -0,0 +1,80 @@
+// How a payee wants to receive funds
+export const PayoutPreference = {
+  CRYPTO: "CRYPTO", // Stablecoins to the payee's wallet
+  FIAT: "FIAT", // Rail withdrawal to the payee's bank counterparty
+} as const;
+
+export type PayoutPreferenceType = (typeof PayoutPreference)[keyof typeof PayoutPreference];
+
+// Rail withdrawal rails a fiat payee can be paid over
+export const BankRail = {
+  ACH: "ACH",
+  FEDWIRE: "FEDWIRE",
+  SEPA_CT: "SEPA_CT",
+  SWIFT: "SWIFT",
+} as const;
+
+export type BankRailType = (typeof BankRail)[keyof typeof BankRail];
+
+// Countries reachable over SEPA credit transfer (ISO 3166-1 alpha-2)
+export const SEPA_COUNTRIES: readonly string[] = [
+  "AT", "BE", "BG", "CH", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GB", "GR", "HR",
+  "HU", "IE", "IS", "IT", "LI", "LT", "LU", "LV", "MC", "MT", "NL", "NO", "PL", "PT", "RO",
+  "SE", "SI", "SK", "SM", "VA",
+];
+
+// Domestic USD payouts from this amount (cents) settle over Fedwire instead of ACH
+export const FEDWIRE_MIN_AMOUNT = 10_000_000;
+
+/**
+ * Withdrawal rail for a fiat payout
+ * EUR to a SEPA country goes over SEPA_CT, domestic USD over ACH (FEDWIRE for large
+ * amounts) and everything else over SWIFT. A payee's preferred rail is used when it
+ * can carry the payment.
+ * @param payout - Payout currency, amount (cents), payee country and preferred rail
+ */
+export function selectWithdrawalRail(payout: {
+  currency: string;
+  amount: number;
+  country?: string | null;
+  preferred?: string | null;
+}): BankRailType {
+  const country = payout.country?.toUpperCase() ?? null;
+  const domesticUsd = payout.currency === "USD" && (country === null || country === "US");
+  const sepa = payout.currency === "EUR" && (country === null || SEPA_COUNTRIES.includes(country));
+
+  switch (payout.preferred) {
+    case BankRail.SWIFT:
+      return BankRail.SWIFT;
+    case BankRail.SEPA_CT:
+      if (sepa) return BankRail.SEPA_CT;
+      break;
+    case BankRail.ACH:
+    case BankRail.FEDWIRE:
+      if (domesticUsd) return payout.preferred;
+      break;
+  }
+
+  if (sepa) {
+    return BankRail.SEPA_CT;
+  }
+  if (domesticUsd) {
+    return payout.amount >= FEDWIRE_MIN_AMOUNT ? BankRail.FEDWIRE : BankRail.ACH;
+  }
+  return BankRail.SWIFT;
+}
+
+// Payee type (matches Prisma model)
+export type Payee = {
+  id: string;
+  companyId: string;
+  name: string;
+  email: string | null;
+  walletAddress: string;
+  country: string | null;
+  payoutPreference: PayoutPreferenceType;
+  railCounterpartyId: string | null;
+  bankRail: BankRailType | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
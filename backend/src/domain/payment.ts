@@ -9,14 +9,107 @@ export const PaymentStatus = {
 
 export type PaymentStatusType = (typeof PaymentStatus)[keyof typeof PaymentStatus];
 
+// Statuses where funds have left the treasury; these payments are never re-executed
+export const SETTLED_PAYMENT_STATUSES: readonly string[] = [
+  PaymentStatus.ONCHAIN_PAID,
+  PaymentStatus.RAIL_PROCESSING,
+  PaymentStatus.PAID,
+];
+
+// railStatus of a payment whose Rail withdrawal was sent but not yet answered; an interrupted
+// run looks the withdrawal up instead of sending it again
+export const RAIL_STATUS_SUBMITTING = "SUBMITTING";
+
+// Gross-to-net line items of a payment (amounts are positive; the type gives the sign)
+export const PaymentLineItemType = {
+  EARNING: "EARNING", // Gross pay (salary, bonus); withholding is computed on earnings
+  REIMBURSEMENT: "REIMBURSEMENT", // Expenses paid back on top of net pay; not taxed
+  DEDUCTION: "DEDUCTION", // Benefits and other deductions taken from gross pay
+  WITHHOLDING: "WITHHOLDING", // Tax withheld under the company's rules for the payee country
+} as const;
+
+export type PaymentLineItemTypeValue = (typeof PaymentLineItemType)[keyof typeof PaymentLineItemType];
+
+// Gross-to-net totals of a payment (cents in the payment currency)
+export type GrossToNet = {
+  gross: number;
+  withholding: number;
+  deductions: number;
+  reimbursements: number;
+  net: number;
+};
+
+/**
+ * Gross-to-net totals of a payment's line items
+ * net = gross - withholding - deductions + reimbursements
+ */
+export function summarizeLineItems(items: ReadonlyArray<{ type: string; amount: number }>): GrossToNet {
+  const sum = (type: string) =>
+    items.filter((item) => item.type === type).reduce((total, item) => total + item.amount, 0);
+  const gross = sum(PaymentLineItemType.EARNING);
+  const withholding = sum(PaymentLineItemType.WITHHOLDING);
+  const deductions = sum(PaymentLineItemType.DEDUCTION);
+  const reimbursements = sum(PaymentLineItemType.REIMBURSEMENT);
+  return { gross, withholding, deductions, reimbursements, net: gross - withholding - deductions + reimbursements };
+}
+
+// Legal payment status transitions; any other change is rejected by payrollStateService.
+// Settled payments (funds left the treasury) never go back to an unsettled status.
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatusType, readonly PaymentStatusType[]> = {
+  PENDING: [
+    PaymentStatus.ONCHAIN_REQUESTED,
+    PaymentStatus.ONCHAIN_PAID,
+    PaymentStatus.RAIL_PROCESSING,
+    PaymentStatus.PAID,
+    PaymentStatus.FAILED,
+  ],
+  ONCHAIN_REQUESTED: [
+    PaymentStatus.ONCHAIN_PAID,
+    PaymentStatus.RAIL_PROCESSING,
+    PaymentStatus.PAID,
+    PaymentStatus.FAILED,
+  ],
+  ONCHAIN_PAID: [PaymentStatus.RAIL_PROCESSING, PaymentStatus.PAID],
+  RAIL_PROCESSING: [PaymentStatus.PAID, PaymentStatus.ONCHAIN_PAID], // Back to ONCHAIN_PAID when Rail fails the withdrawal
+  PAID: [],
+  FAILED: [
+    PaymentStatus.ONCHAIN_REQUESTED, // Retry of a payment whose request failed
+    PaymentStatus.ONCHAIN_PAID,
+    PaymentStatus.RAIL_PROCESSING,
+    PaymentStatus.PAID,
+  ],
+};
+
+/**
+ * Whether a payment may move from one status to another
+ */
+export function canTransitionPayment(from: string, to: string): boolean {
+  const allowed: readonly string[] = PAYMENT_STATUS_TRANSITIONS[from as PaymentStatusType] ?? [];
+  return allowed.includes(to);
+}
+
 // Payment type (matches Prisma model)
 export type Payment = {
   id: string;
   payrollId: string;
-  amount: number;
+  amount: number; // Cents in the payout currency
   currency: string;
+  settlementAmount: number; // Cents in the payroll currency
+  fxRate: string | null;
+  fxSource: string | null;
+  fxQuotedAt: Date | null;
   status: PaymentStatusType;
   recipient: string | null;
+  payeeId: string | null;
+  txHash: string | null;
+  requestTxHash: string | null;
+  failureReason: string | null;
+  attempts: number;
+  lastAttemptAt: Date | null;
+  withdrawalRail: string | null;
+  railWithdrawalId: string | null;
+  railStatus: string | null;
+  railAttempts: number;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -26,8 +119,15 @@ export type PaymentResponse = {
   id: string;
   amount: number;
   currency: string;
+  settlementAmount: number;
+  fxRate: string | null;
   status: string;
   recipient: string | null;
+  failureReason: string | null;
+  attempts: number;
+  withdrawalRail: string | null;
+  railWithdrawalId: string | null;
+  railStatus: string | null;
   createdAt: string;
   updatedAt: string;
 };
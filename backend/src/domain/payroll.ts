@@ -1,4 +1,9 @@
+import { PaymentStatus, SETTLED_PAYMENT_STATUSES } from "./payment.js";
+
 export const PayrollStatus = {
+  DRAFT: "DRAFT", // Awaiting approvals
+  APPROVED: "APPROVED", // Approval threshold reached, ready to execute
+  REJECTED: "REJECTED",
   PENDING: "PENDING",
   ONCHAIN_REQUESTED: "ONCHAIN_REQUESTED",
   ONCHAIN_PAID: "ONCHAIN_PAID",
@@ -10,16 +15,145 @@ export const PayrollStatus = {
 
 export type PayrollStatusType = (typeof PayrollStatus)[keyof typeof PayrollStatus];
 
+// Legal payroll status transitions; any other change is rejected by payrollStateService.
+// Settled funds never flow back, so paid states only move forward (or to PENDING on retry).
+export const PAYROLL_STATUS_TRANSITIONS: Record<PayrollStatusType, readonly PayrollStatusType[]> = {
+  DRAFT: [PayrollStatus.APPROVED, PayrollStatus.REJECTED],
+  APPROVED: [PayrollStatus.PENDING],
+  REJECTED: [],
+  PENDING: [
+    PayrollStatus.ONCHAIN_REQUESTED,
+    PayrollStatus.ONCHAIN_PAID,
+    PayrollStatus.PARTIALLY_PAID,
+    PayrollStatus.RAIL_PROCESSING,
+    PayrollStatus.PAID,
+    PayrollStatus.FAILED,
+  ],
+  ONCHAIN_REQUESTED: [
+    PayrollStatus.ONCHAIN_PAID,
+    PayrollStatus.PARTIALLY_PAID,
+    PayrollStatus.RAIL_PROCESSING,
+    PayrollStatus.PAID,
+    PayrollStatus.FAILED,
+  ],
+  ONCHAIN_PAID: [PayrollStatus.PENDING, PayrollStatus.RAIL_PROCESSING, PayrollStatus.PAID],
+  PARTIALLY_PAID: [PayrollStatus.PENDING],
+  RAIL_PROCESSING: [PayrollStatus.PAID, PayrollStatus.ONCHAIN_PAID],
+  PAID: [],
+  FAILED: [PayrollStatus.PENDING, PayrollStatus.RAIL_PROCESSING, PayrollStatus.PAID],
+};
+
+/**
+ * Whether a payroll may move from one status to another
+ */
+export function canTransitionPayroll(from: string, to: string): boolean {
+  const allowed: readonly string[] = PAYROLL_STATUS_TRANSITIONS[from as PayrollStatusType] ?? [];
+  return allowed.includes(to);
+}
+
+// Statuses from which POST /api/payroll/:id/retry re-attempts unsettled payments
+export const RETRYABLE_PAYROLL_STATUSES: readonly string[] = [
+  PayrollStatus.PARTIALLY_PAID,
+  PayrollStatus.ONCHAIN_PAID, // Some payments still waiting on Rail
+  PayrollStatus.FAILED,
+];
+
+/**
+ * Payroll status implied by the statuses of its payments
+ * @param paymentStatuses - Status of every payment in the payroll
+ */
+export function derivePayrollStatus(paymentStatuses: string[]): PayrollStatusType {
+  const settled = paymentStatuses.filter((s) => SETTLED_PAYMENT_STATUSES.includes(s));
+
+  if (settled.length === 0) {
+    return PayrollStatus.FAILED;
+  }
+  if (settled.length < paymentStatuses.length) {
+    return PayrollStatus.PARTIALLY_PAID;
+  }
+  if (settled.every((s) => s === PaymentStatus.PAID)) {
+    return PayrollStatus.PAID;
+  }
+  if (settled.some((s) => s === PaymentStatus.RAIL_PROCESSING)) {
+    return PayrollStatus.RAIL_PROCESSING;
+  }
+  return PayrollStatus.ONCHAIN_PAID;
+}
+
+// Entity whose status changed in a payroll event
+export const PayrollEventEntity = {
+  PAYROLL: "PAYROLL",
+  PAYMENT: "PAYMENT",
+  SWAP: "SWAP", // Treasury swap sourcing the payroll token (toStatus is a TreasurySwapStatus)
+} as const;
+
+export type PayrollEventEntityType = (typeof PayrollEventEntity)[keyof typeof PayrollEventEntity];
+
+// Outcome of a treasury swap recorded on the payroll timeline
+export const TreasurySwapStatus = {
+  EXECUTED: "EXECUTED",
+  FAILED: "FAILED",
+} as const;
+
+export type TreasurySwapStatusType = (typeof TreasurySwapStatus)[keyof typeof TreasurySwapStatus];
+
+// Who caused a status transition; company users are recorded as "user:<id>" (see userActor)
+export const PayrollEventActor = {
+  SYSTEM: "system", // Payroll pipeline (on-chain execution, Rail withdrawals)
+  SCHEDULER: "scheduler",
+  CONTRACT_LISTENER: "contract-listener", // Treasury contract events
+} as const;
+
+export function userActor(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Decision recorded by a company user on a DRAFT payroll
+export const PayrollApprovalDecision = {
+  APPROVED: "APPROVED",
+  REJECTED: "REJECTED",
+} as const;
+
+export type PayrollApprovalDecisionType =
+  (typeof PayrollApprovalDecision)[keyof typeof PayrollApprovalDecision];
+
+// Currencies a payroll can be submitted in (each maps to a treasury stablecoin)
+export const SUPPORTED_PAYROLL_CURRENCIES = ["USD"] as const;
+
+export type PayrollCurrency = (typeof SUPPORTED_PAYROLL_CURRENCIES)[number];
+
+// Currencies payroll lines can be paid out in; lines in another currency than the
+// payroll are converted with an FX quote when the payroll is created
+export const SUPPORTED_PAYOUT_CURRENCIES = ["USD", "EUR", "GBP", "MXN"] as const;
+
+export type PayoutCurrency = (typeof SUPPORTED_PAYOUT_CURRENCIES)[number];
+
 // Payroll type (matches Prisma model)
 export type Payroll = {
   id: string;
   total: number;
   currency: string;
   status: PayrollStatusType;
+  memo: string | null;
+  companyId: string | null;
+  createdById: string | null;
   createdAt: Date;
   updatedAt: Date;
 };
 
+// Status transition of a payroll or one of its payments (matches Prisma model)
+export type PayrollEvent = {
+  id: string;
+  payrollId: string;
+  paymentId: string | null;
+  entity: PayrollEventEntityType;
+  fromStatus: string | null; // null when the payroll was created
+  toStatus: string;
+  actor: string;
+  reason: string | null;
+  createdAt: Date;
+};
+
 // Payroll with payments
 export type PayrollWithPayments = Payroll & {
   // NOTE: explicit .js extension for NodeNext resolution
@@ -32,14 +166,22 @@ export type PayrollResponse = {
   total: number;
   currency: string;
   status: string;
+  memo: string | null;
   createdAt: string;
   updatedAt: string;
   payments: {
     id: string;
     amount: number;
     currency: string;
+    settlementAmount: number;
+    fxRate: string | null;
     status: string;
     recipient: string | null;
+    failureReason: string | null;
+    attempts: number;
+    withdrawalRail: string | null;
+    railWithdrawalId: string | null;
+    railStatus: string | null;
   }[];
 };
 
@@ -0,0 +1,88 @@
+export const PayrollJobType = {
+  EXECUTE: "EXECUTE", // First run of an approved payroll
+  RETRY: "RETRY", // Re-attempt of the unsettled payments
+} as const;
+
+export type PayrollJobTypeValue = (typeof PayrollJobType)[keyof typeof PayrollJobType];
+
+export const PayrollJobStatus = {
+  QUEUED: "QUEUED", // Waiting for a worker (also after a failed attempt, until runAfter)
+  RUNNING: "RUNNING",
+  SUCCEEDED: "SUCCEEDED",
+  FAILED: "FAILED", // Gave up after maxAttempts
+} as const;
+
+export type PayrollJobStatusType = (typeof PayrollJobStatus)[keyof typeof PayrollJobStatus];
+
+// Jobs a worker may still pick up
+export const ACTIVE_PAYROLL_JOB_STATUSES: readonly string[] = [
+  PayrollJobStatus.QUEUED,
+  PayrollJobStatus.RUNNING,
+];
+
+// Checkpoints of the payroll pipeline; a job stores the next step to run, so a
+// resumed job skips the steps that already completed
+export const PayrollJobStep = {
+  ONCHAIN_REQUEST: "ONCHAIN_REQUEST",
+  ONCHAIN_EXECUTE: "ONCHAIN_EXECUTE",
+  RAIL_WITHDRAWALS: "RAIL_WITHDRAWALS",
+  FINALIZE: "FINALIZE", // Derive the payroll status from its payments
+  RECEIPT: "RECEIPT", // Arweave receipt of a PAID payroll
+  NOTIFY: "NOTIFY", // Email payees whose payments settled
+  DONE: "DONE",
+} as const;
+
+export type PayrollJobStepType = (typeof PayrollJobStep)[keyof typeof PayrollJobStep];
+
+const STEP_ORDER: readonly PayrollJobStepType[] = [
+  PayrollJobStep.ONCHAIN_REQUEST,
+  PayrollJobStep.ONCHAIN_EXECUTE,
+  PayrollJobStep.RAIL_WITHDRAWALS,
+  PayrollJobStep.FINALIZE,
+  PayrollJobStep.RECEIPT,
+  PayrollJobStep.NOTIFY,
+  PayrollJobStep.DONE,
+];
+
+/**
+ * Step that follows a completed step (DONE stays DONE)
+ */
+export function nextPayrollJobStep(step: string): PayrollJobStepType {
+  const index = STEP_ORDER.indexOf(step as PayrollJobStepType);
+  if (index === -1) {
+    throw new Error(`Unknown payroll job step: ${step}`);
+  }
+  return STEP_ORDER[Math.min(index + 1, STEP_ORDER.length - 1)];
+}
+
+// Delay before re-running a failed attempt: 30s, 1m, 2m, ... capped at 15 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Backoff before the next attempt of a job
+ * @param attempts - Attempts made so far (at least 1)
+ */
+export function getPayrollJobRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// Payroll job type (matches Prisma model)
+export type PayrollJob = {
+  id: string;
+  payrollId: string;
+  type: PayrollJobTypeValue;
+  status: PayrollJobStatusType;
+  step: PayrollJobStepType;
+  attempts: number;
+  maxAttempts: number;
+  requestedBy: string;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  runAfter: Date;
+  lastError: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
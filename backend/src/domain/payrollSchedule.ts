@@ -0,0 +1,97 @@
+export const ScheduleFrequency = {
+  WEEKLY: "WEEKLY",
+  BIWEEKLY: "BIWEEKLY",
+  MONTHLY: "MONTHLY",
+} as const;
+
+export type ScheduleFrequencyType = (typeof ScheduleFrequency)[keyof typeof ScheduleFrequency];
+
+// What to do with a due run when the treasury cannot cover it
+export const InsufficientFundsPolicy = {
+  SKIP: "SKIP", // Drop this occurrence and wait for the next one
+  DEFER: "DEFER", // Retry later, until the next occurrence is due
+} as const;
+
+export type InsufficientFundsPolicyType =
+  (typeof InsufficientFundsPolicy)[keyof typeof InsufficientFundsPolicy];
+
+export const ScheduleRunStatus = {
+  AWAITING_APPROVAL: "AWAITING_APPROVAL", // Draft payroll created, waiting for approvals
+  QUEUED: "QUEUED", // Approved payroll queued for execution
+  FAILED: "FAILED",
+  SKIPPED: "SKIPPED",
+  DEFERRED: "DEFERRED",
+} as const;
+
+export type ScheduleRunStatusType = (typeof ScheduleRunStatus)[keyof typeof ScheduleRunStatus];
+
+// Fields that define when a schedule fires
+export type ScheduleTiming = {
+  frequency: ScheduleFrequencyType;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  runAtHour: number;
+};
+
+// Days between occurrences for weekly cadences
+const WEEKLY_INTERVAL_DAYS: Record<string, number> = {
+  [ScheduleFrequency.WEEKLY]: 7,
+  [ScheduleFrequency.BIWEEKLY]: 14,
+};
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function monthlyOccurrence(year: number, month: number, timing: ScheduleTiming): Date {
+  const day = Math.min(timing.dayOfMonth ?? 1, daysInMonth(year, month));
+  return new Date(Date.UTC(year, month, day, timing.runAtHour));
+}
+
+/**
+ * First occurrence strictly after a point in time (all times UTC)
+ * @param timing - Schedule timing
+ * @param after - Reference time
+ */
+export function getFirstRunAfter(timing: ScheduleTiming, after: Date): Date {
+  if (timing.frequency === ScheduleFrequency.MONTHLY) {
+    let year = after.getUTCFullYear();
+    let month = after.getUTCMonth();
+    let candidate = monthlyOccurrence(year, month, timing);
+    while (candidate <= after) {
+      month += 1;
+      if (month > 11) {
+        month = 0;
+        year += 1;
+      }
+      candidate = monthlyOccurrence(year, month, timing);
+    }
+    return candidate;
+  }
+
+  const candidate = new Date(
+    Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), timing.runAtHour),
+  );
+  const offset = ((timing.dayOfWeek ?? 1) - candidate.getUTCDay() + 7) % 7;
+  candidate.setUTCDate(candidate.getUTCDate() + offset);
+  if (candidate <= after) {
+    candidate.setUTCDate(candidate.getUTCDate() + 7);
+  }
+  return candidate;
+}
+
+/**
+ * Occurrence that follows a given occurrence
+ * Bi-weekly schedules keep their two-week rhythm from the previous occurrence.
+ * @param timing - Schedule timing
+ * @param occurrence - Due time of the current occurrence
+ */
+export function getNextOccurrence(timing: ScheduleTiming, occurrence: Date): Date {
+  const intervalDays = WEEKLY_INTERVAL_DAYS[timing.frequency];
+  if (intervalDays) {
+    const next = new Date(occurrence);
+    next.setUTCDate(next.getUTCDate() + intervalDays);
+    return next;
+  }
+  return getFirstRunAfter(timing, occurrence);
+}
@@ -0,0 +1,93 @@
+// Limits a payroll run is checked against before any payment leaves the treasury
+export const SpendingLimitType = {
+  PER_PAYROLL: "PER_PAYROLL", // Total of one payroll
+  DAILY: "DAILY", // Paid out by the company per UTC calendar day
+  MONTHLY: "MONTHLY", // Paid out by the company per UTC calendar month
+  PER_PAYEE_MONTHLY: "PER_PAYEE_MONTHLY", // Paid out to one payee per UTC calendar month
+} as const;
+
+export type SpendingLimitTypeValue = (typeof SpendingLimitType)[keyof typeof SpendingLimitType];
+
+// Caps of a KYB tier in cents of the payroll currency (null = no limit)
+export type SpendingLimits = {
+  perPayroll: number | null;
+  daily: number | null;
+  monthly: number | null;
+  perPayeeMonthly: number | null;
+};
+
+export const NO_SPENDING_LIMITS: SpendingLimits = {
+  perPayroll: null,
+  daily: null,
+  monthly: null,
+  perPayeeMonthly: null,
+};
+
+// What a run would pay out, next to what the company already paid out
+export type SpendingUsage = {
+  payrollTotal: number; // Total of the payroll, settled payments included
+  requested: number; // Payments this run would pay out
+  paidToday: number;
+  paidThisMonth: number;
+  payees: Array<{
+    payee: string; // Payee ID, or the recipient wallet of a line without payee
+    requested: number;
+    paidThisMonth: number;
+  }>;
+};
+
+// A limit the run would exceed
+export type SpendingLimitViolation = {
+  limit: SpendingLimitTypeValue;
+  cap: number;
+  paid: number; // Already paid out in the limit's window (0 for PER_PAYROLL)
+  requested: number;
+  payee?: string;
+};
+
+/**
+ * Limits a run would exceed; a run that stays exactly at a cap is allowed
+ */
+export function findSpendingLimitViolations(
+  limits: SpendingLimits,
+  usage: SpendingUsage,
+): SpendingLimitViolation[] {
+  const violations: SpendingLimitViolation[] = [];
+  if (usage.requested <= 0) {
+    return violations;
+  }
+
+  if (limits.perPayroll !== null && usage.payrollTotal > limits.perPayroll) {
+    violations.push({ limit: SpendingLimitType.PER_PAYROLL, cap: limits.perPayroll, paid: 0, requested: usage.payrollTotal });
+  }
+  if (limits.daily !== null && usage.paidToday + usage.requested > limits.daily) {
+    violations.push({ limit: SpendingLimitType.DAILY, cap: limits.daily, paid: usage.paidToday, requested: usage.requested });
+  }
+  if (limits.monthly !== null && usage.paidThisMonth + usage.requested > limits.monthly) {
+    violations.push({ limit: SpendingLimitType.MONTHLY, cap: limits.monthly, paid: usage.paidThisMonth, requested: usage.requested });
+  }
+  if (limits.perPayeeMonthly !== null) {
+    for (const payee of usage.payees) {
+      if (payee.requested > 0 && payee.paidThisMonth + payee.requested > limits.perPayeeMonthly) {
+        violations.push({
+          limit: SpendingLimitType.PER_PAYEE_MONTHLY,
+          cap: limits.perPayeeMonthly,
+          paid: payee.paidThisMonth,
+          requested: payee.requested,
+          payee: payee.payee,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+// Start of the UTC calendar day of a date
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Start of the UTC calendar month of a date
+export function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
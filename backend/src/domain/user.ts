@@ -0,0 +1,7 @@
+// Role of a company user; the user who signed the company up is its owner
+export const UserRole = {
+  OWNER: "OWNER", // Can change company settings such as the payroll approval policy
+  MEMBER: "MEMBER",
+} as const;
+
+export type UserRoleType = (typeof UserRole)[keyof typeof UserRole];
@@ -1,5 +1,7 @@
+import { timingSafeEqual } from "node:crypto";
 import type { Request, Response, NextFunction } from "express";
 import { verifyToken } from "../services/authService.js";
+import { config } from "../config/env.js";
 
 // Extend Express Request to include user and company
 export interface AuthenticatedRequest extends Request {
@@ -12,6 +14,13 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+// Request authenticated with an admin token (see authenticateAdmin)
+export interface AdminRequest extends Request {
+  admin?: {
+    name: string; // Recorded as "admin:<name>" in audit trails
+  };
+}
+
 /**
  * Authentication middleware
  * Validates JWT token from Authorization header and adds user/company to request
@@ -55,3 +64,49 @@ export function authenticate(
   next();
 }
 
+
+// Admin named by a token in ADMIN_API_TOKENS ("name:token,name:token"), if any
+function findAdmin(token: string): string | null {
+  const provided = Buffer.from(token);
+  for (const entry of config.adminApiTokens.split(",")) {
+    const separator = entry.indexOf(":");
+    const name = entry.slice(0, separator).trim();
+    const expected = Buffer.from(entry.slice(separator + 1).trim());
+    if (separator > 0 && expected.length > 0 && expected.length === provided.length && timingSafeEqual(expected, provided)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * Admin authentication middleware
+ * Validates the X-Admin-Token header against ADMIN_API_TOKENS and adds the admin to the request.
+ * The admin API is disabled when no token is configured.
+ */
+export function authenticateAdmin(
+  req: AdminRequest,
+  res: Response,
+  next: NextFunction,
+): void {
+  if (!config.adminApiTokens) {
+    res.status(503).json({
+      error: "ADMIN_API_DISABLED",
+      message: "Admin API is disabled (ADMIN_API_TOKENS is not set)",
+    });
+    return;
+  }
+
+  const token = req.header("X-Admin-Token");
+  const name = token ? findAdmin(token) : null;
+  if (!name) {
+    res.status(401).json({
+      error: "UNAUTHORIZED",
+      message: "Invalid admin token",
+    });
+    return;
+  }
+
+  req.admin = { name };
+  next();
+}
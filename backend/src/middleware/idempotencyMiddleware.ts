@@ -0,0 +1,105 @@
+import type { Response, NextFunction } from "express";
+import type { AuthenticatedRequest } from "./authMiddleware.js";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  fingerprintRequest,
+  releaseIdempotencyKey,
+} from "../services/idempotencyService.js";
+import { AppError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Idempotency middleware
+ * When the request has an Idempotency-Key header, the first request with the key runs and
+ * its response is stored; a retry with the same key and body gets the stored response
+ * (with an Idempotent-Replayed header) and a retry with a different body gets a 409.
+ * Requests without the header are not affected.
+ *
+ * Mount it after authenticate (keys are scoped to the caller's company) and before
+ * x402Protect, so a replay does not need a new payment. 402 and 5xx responses are not
+ * stored: the key is released and the request can be retried with it.
+ * @param scope - Route the keys belong to
+ */
+export function idempotent(scope: string) {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    const key = req.get("Idempotency-Key");
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    if (key.trim() === "" || key.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        error: "INVALID_IDEMPOTENCY_KEY",
+        message: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`,
+      });
+      return;
+    }
+
+    let claim;
+    try {
+      claim = await claimIdempotencyKey({
+        scope,
+        owner: req.user?.companyId ?? "",
+        key,
+        fingerprint: fingerprintRequest(req.body),
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        res.status(err.statusCode).json({
+          error: err.code,
+          message: err.message,
+        });
+        return;
+      }
+      logger.error("Failed to claim Idempotency-Key", err);
+      res.status(500).json({
+        error: "INTERNAL_ERROR",
+        message: "Unexpected error checking Idempotency-Key",
+      });
+      return;
+    }
+
+    if (claim.replay) {
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(claim.responseStatus).json(claim.responseBody);
+      return;
+    }
+
+    // Store the response before it is sent, so a client that lost the connection
+    // gets it on retry and a quick retry never finds the key still in progress
+    const claimId = claim.id;
+    let settled = false;
+    const send = res.json.bind(res);
+    res.json = (body: unknown) => {
+      settled = true;
+      const status = res.statusCode;
+      const store = status === 402 || status >= 500
+        ? releaseIdempotencyKey(claimId)
+        : completeIdempotencyKey(claimId, status, body);
+      store
+        .catch((error) => logger.error(`Failed to store Idempotency-Key ${key} (${scope})`, error))
+        .finally(() => send(body));
+      return res;
+    };
+
+    // Responses not sent as JSON are not stored (a dropped connection does not release
+    // the key: the handler keeps running and stores its response)
+    res.on("finish", () => {
+      if (!settled) {
+        releaseIdempotencyKey(claimId).catch((error) =>
+          logger.error(`Failed to release Idempotency-Key ${key} (${scope})`, error),
+        );
+      }
+    });
+
+    next();
+  };
+}
@@ -1,11 +1,14 @@
 import express, { type Express } from "express";
 import dotenv from "dotenv";
+import { ethers } from "ethers";
 import { ExampleService } from "./ExampleService.js";
 import {
+  isUptoPayment,
   MerchantExecutor,
   type MerchantExecutorOptions,
+  type MerchantPaymentPayload,
 } from "./MerchantExecutor.js";
-import type { Network, PaymentPayload } from "x402/types";
+import type { Network } from "x402/types";
 import {
   EventQueue,
   Message,
@@ -25,7 +28,10 @@ import { createFacilitatorRouter } from "./x402/facilitatorServer.js";
 import { x402Protect } from "./x402/middleware.js";
 import { config } from "./config/env.js";
 import { getAgentIdentity } from "./x402/agentIdentity.js";
+import { priceUsage, resolveTokenRates, type TokenRates, type UsageCharge } from "./x402/usagePricing.js";
 import { registerAgentRoutes } from "./api/agentRoutes.js";
+import { startPayrollScheduler } from "./services/payrollScheduler.js";
+import { startPayrollJobWorker } from "./services/payrollJobWorker.js";
 
 // Load environment variables
 dotenv.config();
@@ -60,7 +66,7 @@ app.use((req, res, next) => {
     }
     res.header(
       "Access-Control-Allow-Headers",
-      "Origin, X-Requested-With, Content-Type, Accept, X-PAYMENT, Authorization",
+      "Origin, X-Requested-With, Content-Type, Accept, X-PAYMENT, X-PAYMENT-SESSION, Authorization, Idempotency-Key",
     );
     res.header(
       "Access-Control-Allow-Methods",
@@ -81,8 +87,10 @@ app.use((req, res, next) => {
   // Always set these headers
   res.header(
     "Access-Control-Allow-Headers",
-    "Origin, X-Requested-With, Content-Type, Accept, X-PAYMENT, Authorization",
+    "Origin, X-Requested-With, Content-Type, Accept, X-PAYMENT, X-PAYMENT-SESSION, Authorization, Idempotency-Key",
   );
+  // Settlement of x402 payments and remaining prepaid credit, readable by browser clients
+  res.header("Access-Control-Expose-Headers", "X-PAYMENT-RESPONSE, X-PAYMENT-SESSION-BALANCE");
   res.header(
     "Access-Control-Allow-Methods",
     "GET,POST,PUT,PATCH,DELETE,OPTIONS",
@@ -127,6 +135,11 @@ const AI_MAX_TOKENS = process.env.AI_MAX_TOKENS
 const AI_SEED = process.env.AI_SEED
   ? Number.parseInt(process.env.AI_SEED, 10)
   : undefined;
+// "upto" scheme for /process (direct settlement): most a request can cost, and the model's
+// rates in USDC per million tokens (built in for OpenAI models)
+const X402_UPTO_MAX_PRICE = process.env.X402_UPTO_MAX_PRICE || '0.1';
+const AI_PROMPT_PRICE_PER_MTOK = process.env.AI_PROMPT_PRICE_PER_MTOK;
+const AI_COMPLETION_PRICE_PER_MTOK = process.env.AI_COMPLETION_PRICE_PER_MTOK;
 const SUPPORTED_NETWORKS: Network[] = [
   'base',
   'base-sepolia',
@@ -198,6 +211,9 @@ if (settlementMode === 'direct' && !PRIVATE_KEY) {
   process.exit(1);
 }
 
+const aiModel =
+  AI_MODEL ?? (AI_PROVIDER === 'eigenai' ? 'gpt-oss-120b-f16' : 'gpt-4o-mini');
+
 // Create ExampleService only if AI_PROVIDER is configured and has required credentials
 let exampleService: ExampleService | null = null;
 if (AI_PROVIDER) {
@@ -219,9 +235,7 @@ if (AI_PROVIDER) {
             : undefined,
         payToAddress: PAY_TO_ADDRESS,
         network: resolvedNetwork,
-        model:
-          AI_MODEL ??
-          (AI_PROVIDER === 'eigenai' ? 'gpt-oss-120b-f16' : 'gpt-4o-mini'),
+        model: aiModel,
         temperature: AI_TEMPERATURE ?? 0.7,
         maxTokens: AI_MAX_TOKENS ?? 500,
         seed: AI_PROVIDER === 'eigenai' ? AI_SEED : undefined,
@@ -236,6 +250,31 @@ if (AI_PROVIDER) {
   }
 }
 
+// Rates of the "upto" scheme: offered with direct settlement when the model can be priced
+let uptoRates: TokenRates | undefined;
+if (exampleService && settlementMode === 'direct') {
+  try {
+    uptoRates = resolveTokenRates(aiModel, {
+      prompt: AI_PROMPT_PRICE_PER_MTOK,
+      completion: AI_COMPLETION_PRICE_PER_MTOK,
+    });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  if (!uptoRates) {
+    console.warn(`⚠️  No token rates for model ${aiModel}: the upto scheme is disabled.`);
+    console.warn('   Set AI_PROMPT_PRICE_PER_MTOK and AI_COMPLETION_PRICE_PER_MTOK to enable it.');
+  }
+}
+let uptoMaxAtomic: bigint;
+try {
+  uptoMaxAtomic = ethers.parseUnits(X402_UPTO_MAX_PRICE, 6);
+} catch {
+  console.error(`❌ Invalid X402_UPTO_MAX_PRICE "${X402_UPTO_MAX_PRICE}": expected a USDC amount with up to 6 decimals`);
+  process.exit(1);
+}
+
 // Initialize the example service (replace with your own service)
 const merchantOptions: MerchantExecutorOptions = {
   payToAddress: PAY_TO_ADDRESS,
@@ -251,6 +290,16 @@ const merchantOptions: MerchantExecutorOptions = {
   assetName: ASSET_NAME,
   explorerUrl: EXPLORER_URL,
   chainId: CHAIN_ID,
+  upto: uptoRates
+    ? {
+        maxPrice: X402_UPTO_MAX_PRICE,
+        pricing: {
+          model: aiModel,
+          promptPerMillionTokens: uptoRates.prompt,
+          completionPerMillionTokens: uptoRates.completion,
+        },
+      }
+    : undefined,
 };
 
 const merchantExecutor = new MerchantExecutor(merchantOptions);
@@ -275,6 +324,11 @@ console.log("🚀 x402 Payment API initialized");
 console.log(`💰 Payment address: ${PAY_TO_ADDRESS}`);
 console.log(`🌐 Network: ${resolvedNetwork}`);
 console.log("💵 Price per request: $0.10 USDC");
+if (uptoRates) {
+  console.log(
+    `📏 upto scheme: up to $${X402_UPTO_MAX_PRICE} USDC, ${uptoRates.prompt}/${uptoRates.completion} USDC per 1M prompt/completion tokens (${aiModel})`
+  );
+}
 
 // Register authentication routes
 registerAuthRoutes(app);
@@ -298,9 +352,41 @@ registerDashboardRoutes(app);
 import { registerMockRoutes } from "./api/mockRoutes.js";
 registerMockRoutes(app);
 
+// Register payee directory routes (protected)
+import { registerPayeeRoutes } from "./api/payeeRoutes.js";
+registerPayeeRoutes(app);
+
+// Register withholding rule routes (protected)
+import { registerWithholdingRoutes } from "./api/withholdingRoutes.js";
+registerWithholdingRoutes(app);
+
+// Register spending limit routes (company view protected, tier changes admin-only)
+import { registerSpendingLimitRoutes } from "./api/spendingLimitRoutes.js";
+registerSpendingLimitRoutes(app);
+
+// Register x402 meter pricing routes (admin token)
+import { registerMeterRoutes } from "./api/meterRoutes.js";
+registerMeterRoutes(app);
+
+// Register prepaid x402 credit routes (purchase is x402-protected, the rest use the session token)
+import { registerCreditRoutes } from "./api/creditRoutes.js";
+registerCreditRoutes(app);
+
+// Register payroll approval workflow routes (drafts, inbox, approve/reject)
+import { registerPayrollApprovalRoutes } from "./api/payrollApprovalRoutes.js";
+registerPayrollApprovalRoutes(app);
+
 // Register SnowRail payroll API (x402-protected) under /api
 registerPayrollRoutes(app);
 
+// Register recurring payroll schedule routes (protected)
+import { registerPayrollScheduleRoutes } from "./api/payrollScheduleRoutes.js";
+registerPayrollScheduleRoutes(app);
+
+// Register payroll template routes (protected)
+import { registerPayrollTemplateRoutes } from "./api/payrollTemplateRoutes.js";
+registerPayrollTemplateRoutes(app);
+
 // Register integrated payment routes (replaces old agent/facilitator test endpoints)
 registerPaymentRoutes(app);
 
@@ -336,10 +422,18 @@ app.get('/health', (req, res) => {
  * Allows other AI agents to discover SnowRail's capabilities
  * Part of Sovereign Agent Stack: Identity & Reputation Layer
  */
-app.get('/agent/identity', (req, res) => {
-  console.log('🤖 Agent identity card requested');
-  const identity = getAgentIdentity();
-  res.json(identity);
+app.get('/agent/identity', async (req, res) => {
+  try {
+    console.log('🤖 Agent identity card requested');
+    const identity = await getAgentIdentity();
+    res.json(identity);
+  } catch (error) {
+    console.error('❌ Error building agent identity card:', error);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message: 'Unexpected error building agent identity card',
+    });
+  }
 });
 
 /**
@@ -396,7 +490,7 @@ app.post('/process', async (req, res) => {
     };
 
     const paymentPayload = message.metadata?.['x402.payment.payload'] as
-      | PaymentPayload
+      | MerchantPaymentPayload
       | undefined;
     const paymentStatus = message.metadata?.['x402.payment.status'];
 
@@ -447,7 +541,17 @@ app.post('/process', async (req, res) => {
     // Verify the payment signature and authorization details (amount, recipient, timing) against the payment requirements.
     // This ensures the payment is cryptographically valid and matches what the merchant expects before processing the request.
     console.log(`🔍 Verifying payment for agent: ${agentId}`);
-    const verifyResult = await merchantExecutor.verifyPayment(paymentPayload);
+    let verifyResult = await merchantExecutor.verifyPayment(paymentPayload);
+
+    // An "upto" permit is marked used before the model runs, so concurrent or later requests
+    // cannot reuse it, whatever it ends up being charged
+    if (
+      verifyResult.isValid &&
+      isUptoPayment(paymentPayload) &&
+      !(await merchantExecutor.claimUptoPayment(paymentPayload))
+    ) {
+      verifyResult = { isValid: false, invalidReason: 'Permit was already used' };
+    }
 
     if (!verifyResult.isValid) {
       const errorReason = verifyResult.invalidReason || 'Invalid payment';
@@ -492,13 +596,28 @@ app.post('/process', async (req, res) => {
     // Execute the AI agent's core logic to process the user's request.
     // This calls the LLM (e.g., OpenAI) with the conversation context and streams
     // the response back through the event queue, updating the task with the AI's reply.
-    await exampleService.execute(context, eventQueue);
+    const { modelCalled, usage } = await exampleService.execute(context, eventQueue);
+
+    // "upto" payments are charged the actual cost of the token usage, capped at the authorized
+    // maximum. A model call whose usage is missing or cannot be priced is charged the maximum;
+    // only requests that never call the model are free.
+    let usageCharge: UsageCharge | undefined;
+    let uptoAmount: bigint | undefined;
+    if (isUptoPayment(paymentPayload)) {
+      usageCharge = usage && uptoRates ? priceUsage(usage, uptoRates, uptoMaxAtomic) : undefined;
+      uptoAmount = usageCharge
+        ? BigInt(usageCharge.atomicAmount)
+        : modelCalled
+          ? uptoMaxAtomic
+          : 0n;
+    }
 
-    // Settle the payment on-chain by executing the transferWithAuthorization transaction.
-    // This submits the signed authorization to the blockchain, transferring USDC from the payer
-    // to the merchant's wallet. Returns settlement result with transaction hash and status.
+    // Settle the payment on-chain: transferWithAuthorization for exact payments, permit and
+    // transferFrom of the actual cost for upto payments.
+    // This transfers USDC from the payer to the merchant's wallet.
+    // Returns settlement result with transaction hash and status.
     console.log(`💰 Settling payment for agent: ${agentId}`);
-    const settlement = await merchantExecutor.settlePayment(paymentPayload);
+    const settlement = await merchantExecutor.settlePayment(paymentPayload, uptoAmount);
     
     // Log transaction details for agent tracking
     if (settlement.success && settlement.transaction) {
@@ -516,6 +635,16 @@ app.post('/process', async (req, res) => {
       ...(task.metadata || {}),
       'agent.id': agentId, // Track agent ID in metadata
       'x402.payment.status': settlement.success ? 'payment-completed' : 'payment-failed',
+      'x402.payment.scheme': paymentPayload.scheme,
+      // Itemized token usage; for upto payments, with the amount charged
+      ...(usageCharge
+        ? { 'x402.payment.usage': usageCharge }
+        : usage
+          ? { 'x402.payment.usage': usage }
+          : {}),
+      ...(uptoAmount !== undefined && !usageCharge
+        ? { 'x402.payment.charged': ethers.formatUnits(uptoAmount, 6) }
+        : {}),
       ...(settlement.transaction
         ? { 
             'x402.payment.receipts': [settlement],
@@ -646,5 +775,10 @@ if (process.env.NODE_ENV !== 'production' || !process.env.VERCEL) {
     console.log(`   - Validate: POST http://localhost:${PORT}/facilitator/validate`);
     console.log(`   - Verify: POST http://localhost:${PORT}/facilitator/verify`);
     console.log(`   - Settle: POST http://localhost:${PORT}/facilitator/settle\n`);
+
+    // Execute recurring payroll schedules in the background
+    startPayrollScheduler();
+    // Run queued payroll executions in the background
+    startPayrollJobWorker();
   });
 }
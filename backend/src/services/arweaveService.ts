@@ -14,6 +14,14 @@ export type PayrollReceipt = {
   onchainTxHash?: string;
   createdAt: string;
   completedAt?: string;
+  // Gross-to-net totals of the payments in the payroll currency (cents)
+  grossToNet?: {
+    gross: string;
+    withholding: string;
+    deductions: string;
+    reimbursements: string;
+    net: string;
+  };
   version: string;
   protocol: string;
   agentId: string;
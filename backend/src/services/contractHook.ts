@@ -1,13 +1,18 @@
 import { ethers } from "ethers";
 import { getTreasuryContract, getTreasuryContractReadOnly, getProvider } from "../config/contractConfig.js";
-import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import { getCurrentNetworkConfig, type NetworkConfig } from "../config/networkConfig.js";
 import { logger } from "../utils/logger.js";
+import { BadRequestError, SpendingLimitExceededError } from "../utils/errors.js";
 import { prisma } from "../dbClient.js";
-import { PaymentStatus } from "../domain/payment.js";
-import { PayrollStatus } from "../domain/payroll.js";
+import { PaymentStatus, SETTLED_PAYMENT_STATUSES } from "../domain/payment.js";
+import { PayrollEventActor, PayrollStatus, derivePayrollStatus } from "../domain/payroll.js";
+import { transitionPayment, transitionPayroll } from "./payrollStateService.js";
+import { assertWithinSpendingLimits } from "./spendingLimitService.js";
+import { sourceTokensBySwap } from "./treasurySwapService.js";
 import {
   requestOnchainPayment,
   executeOnchainPayment,
+  getOnchainPaymentOutcome,
   getTreasuryBalance,
 } from "./treasuryClient.js";
 
@@ -22,31 +27,47 @@ import {
  * @param tokenDecimals - Token decimals (default 6 for USDC)
  * @returns Amount in token units
  */
-function usdCentsToTokenAmount(usdCents: number, tokenDecimals: number = 6): bigint {
+export function usdCentsToTokenAmount(usdCents: number, tokenDecimals: number = 6): bigint {
   // Convert cents to dollars, then to token units
   const dollars = usdCents / 100;
   return ethers.parseUnits(dollars.toFixed(tokenDecimals), tokenDecimals);
 }
 
+// Treasury stablecoin paying each payroll currency
+// Lines in other currencies are converted to the payroll currency (see fxService)
+const TREASURY_TOKENS: Record<string, keyof NetworkConfig["stablecoins"]> = {
+  USD: "usdc",
+};
+
 /**
  * Get token address for currency
- * @param currency - Currency code (USD, etc.)
+ * @param currency - Payroll currency code (USD)
  * @returns Token address
+ * @throws When the treasury holds no stablecoin for the currency
  */
-function getTokenAddress(currency: string): string {
-  const networkConfig = getCurrentNetworkConfig();
-  
-  // Default to USDC for USD
-  if (currency === "USD") {
-    return networkConfig.stablecoins.usdc;
+export function getTokenAddress(currency: string): string {
+  const token = TREASURY_TOKENS[currency];
+  if (!token) {
+    throw new BadRequestError(`No treasury stablecoin for currency ${currency}`, "UNSUPPORTED_CURRENCY");
   }
-  
-  // Add more currency mappings as needed
-  return networkConfig.stablecoins.usdc;
+  return getCurrentNetworkConfig().stablecoins[token];
+}
+
+// Validate transaction hash format (should be 0x + 64 hex characters = 66 total)
+function assertTxHash(paymentId: string, txHash: string) {
+  if (!txHash || !txHash.startsWith('0x') || txHash.length !== 66) {
+    logger.error(`Invalid transaction hash format for payment ${paymentId}: ${txHash}`);
+    throw new Error(`Invalid transaction hash: expected 66 characters (0x + 64 hex), got ${txHash?.length || 0}`);
+  }
+}
+
+function errorReason(error: unknown): string {
+  return (error instanceof Error ? error.message : "Unknown error").slice(0, 500);
 }
 
 /**
  * Request payments on-chain for a payroll
+ * Payments that are already settled or were requested before are skipped.
  * @param payrollId - Payroll ID
  * @returns Array of transaction hashes
  */
@@ -68,16 +89,20 @@ export async function requestPayrollPayments(payrollId: string): Promise<string[
 
   // Request payment for each payment in the payroll
   for (const payment of payroll.payments) {
+    if (SETTLED_PAYMENT_STATUSES.includes(payment.status) || payment.requestTxHash) {
+      continue;
+    }
+
     try {
       if (!payment.recipient) {
         logger.warn(`Payment ${payment.id} has no recipient, skipping`);
         continue;
       }
 
-      const amount = usdCentsToTokenAmount(payment.amount, tokenDecimals);
+      const amount = usdCentsToTokenAmount(payment.settlementAmount, tokenDecimals);
       
       logger.info(
-        `Requesting payment: ${payment.id}, amount: ${payment.amount} cents (${amount} tokens), recipient: ${payment.recipient}`
+        `Requesting payment: ${payment.id}, amount: ${payment.settlementAmount} cents (${amount} tokens), recipient: ${payment.recipient}`
       );
 
       const txHash = await requestOnchainPayment(
@@ -85,35 +110,33 @@ export async function requestPayrollPayments(payrollId: string): Promise<string[
         amount,
         tokenAddress
       );
-
-      // Validate transaction hash format (should be 0x + 64 hex characters = 66 total)
-      if (!txHash || !txHash.startsWith('0x') || txHash.length !== 66) {
-        logger.error(`Invalid transaction hash format for payment ${payment.id}: ${txHash}`);
-        throw new Error(`Invalid transaction hash: expected 66 characters (0x + 64 hex), got ${txHash?.length || 0}`);
-      }
+      assertTxHash(payment.id, txHash);
 
       transactionHashes.push(txHash);
       
-      // Update payment with transaction hash
-      await prisma.outboundPayment.update({
-        where: { id: payment.id },
-        data: {
-          status: PaymentStatus.ONCHAIN_REQUESTED,
-          txHash: txHash, // Store the full transaction hash
-        },
-      });
+      // Update payment with request transaction hash
+      await transitionPayment(
+        payment.id,
+        PaymentStatus.ONCHAIN_REQUESTED,
+        { actor: PayrollEventActor.SYSTEM, reason: `requestPayment tx ${txHash}` },
+        { requestTxHash: txHash },
+      );
 
       logger.info(`Payment ${payment.id} requested on-chain. TX: ${txHash}`);
     } catch (error) {
       logger.error(`Failed to request payment ${payment.id} on-chain`, error);
       // Continue with other payments even if one fails
+      await prisma.outboundPayment.update({
+        where: { id: payment.id },
+        data: { failureReason: errorReason(error) },
+      });
     }
   }
 
   // Update payroll status
-  await prisma.payroll.update({
-    where: { id: payrollId },
-    data: { status: PayrollStatus.ONCHAIN_REQUESTED },
+  await transitionPayroll(payrollId, PayrollStatus.ONCHAIN_REQUESTED, {
+    actor: PayrollEventActor.SYSTEM,
+    reason: `${transactionHashes.length} payments requested on-chain`,
   });
 
   logger.info(`Requested ${transactionHashes.length} payments on-chain for payroll: ${payrollId}`);
@@ -122,8 +145,15 @@ export async function requestPayrollPayments(payrollId: string): Promise<string[
 
 /**
  * Execute payments on-chain for a payroll
+ * Only unsettled payments are executed. A payment with a transaction from an earlier
+ * attempt is reconciled against that transaction first, so nobody is paid twice:
+ * it is re-executed only if the earlier transaction failed or was dropped.
+ * A run that would exceed the company's spending limits fails all its payments with
+ * SPENDING_LIMIT_EXCEEDED before anything is executed. When the treasury is short of the
+ * payroll token, another stablecoin it holds is swapped first (see treasurySwapService).
  * @param payrollId - Payroll ID
- * @returns Array of transaction hashes
+ * @returns Transaction hashes of the payments settled by this call
+ * @throws SpendingLimitExceededError when the run would exceed a spending limit
  */
 export async function executePayrollPayments(payrollId: string): Promise<string[]> {
   logger.info(`Executing on-chain payments for payroll: ${payrollId}`);
@@ -141,102 +171,243 @@ export async function executePayrollPayments(payrollId: string): Promise<string[
   const tokenDecimals = 6; // USDC has 6 decimals
   const transactionHashes: string[] = [];
 
-  // Check treasury balance first
-  const treasuryBalance = await getTreasuryBalance(tokenAddress);
-  type PaymentAmount = {
-    amount: number;
-  };
-  const totalAmount = payroll.payments.reduce(
-    (sum: bigint, p: PaymentAmount) => sum + usdCentsToTokenAmount(p.amount, tokenDecimals),
+  // Reconcile earlier attempts and collect the payments that still need a transaction
+  const toExecute: typeof payroll.payments = [];
+  for (const payment of payroll.payments) {
+    if (SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+      continue;
+    }
+
+    if (!payment.recipient) {
+      logger.warn(`Payment ${payment.id} has no recipient, marking as failed`);
+      await transitionPayment(
+        payment.id,
+        PaymentStatus.FAILED,
+        { actor: PayrollEventActor.SYSTEM, reason: "MISSING_RECIPIENT" },
+        { failureReason: "MISSING_RECIPIENT" },
+      );
+      continue;
+    }
+
+    if (payment.txHash) {
+      let outcome;
+      try {
+        outcome = await getOnchainPaymentOutcome(payment.txHash);
+      } catch (error) {
+        // Cannot tell whether the earlier transaction went through; leave it for a later retry
+        logger.error(`Failed to look up transaction ${payment.txHash} for payment ${payment.id}`, error);
+        continue;
+      }
+
+      if (outcome?.status === "EXECUTED") {
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.ONCHAIN_PAID,
+          { actor: PayrollEventActor.SYSTEM, reason: `Reconciled earlier executePayment tx ${payment.txHash}` },
+          { failureReason: null, networkFee: outcome.fee?.toString() },
+        );
+        transactionHashes.push(payment.txHash);
+        logger.info(`Payment ${payment.id} was already executed on-chain. TX: ${payment.txHash}`);
+        continue;
+      }
+      if (outcome?.status === "PENDING") {
+        logger.warn(`Payment ${payment.id} has a pending transaction ${payment.txHash}, skipping`);
+        continue;
+      }
+    }
+
+    toExecute.push(payment);
+  }
+
+  // Refuse the run if it would exceed the company's spending limits
+  try {
+    await assertWithinSpendingLimits(payroll, toExecute);
+  } catch (error) {
+    if (error instanceof SpendingLimitExceededError) {
+      for (const payment of toExecute) {
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.FAILED,
+          { actor: PayrollEventActor.SYSTEM, reason: error.message },
+          { failureReason: error.code },
+        );
+      }
+      await updatePayrollStatusFromPayments(payrollId);
+    }
+    throw error;
+  }
+
+  // Check treasury balance against the payments left to execute
+  let treasuryBalance = await getTreasuryBalance(tokenAddress);
+  const totalAmount = toExecute.reduce(
+    (sum, p) => sum + usdCentsToTokenAmount(p.settlementAmount, tokenDecimals),
     BigInt(0)
   );
 
+  // Cover a shortfall by swapping another stablecoin the treasury holds
+  if (
+    treasuryBalance < totalAmount &&
+    await sourceTokensBySwap(payrollId, tokenAddress, totalAmount - treasuryBalance, tokenDecimals)
+  ) {
+    treasuryBalance = await getTreasuryBalance(tokenAddress);
+  }
+
   if (treasuryBalance < totalAmount) {
     logger.error(
       `Insufficient treasury balance. Required: ${totalAmount}, Available: ${treasuryBalance}`
     );
+    for (const payment of toExecute) {
+      await transitionPayment(
+        payment.id,
+        PaymentStatus.FAILED,
+        { actor: PayrollEventActor.SYSTEM, reason: "INSUFFICIENT_FUNDS" },
+        { failureReason: "INSUFFICIENT_FUNDS" },
+      );
+    }
+    await updatePayrollStatusFromPayments(payrollId);
     throw new Error("Insufficient treasury balance");
   }
 
   // Get payer address (contract owner or treasury address)
   const contract = getTreasuryContractReadOnly();
-  const payerAddress = await contract.owner();
+  const payerAddress = toExecute.length > 0 ? await contract.owner() : null;
 
   // Execute payment for each payment in the payroll
-  for (const payment of payroll.payments) {
+  for (const payment of toExecute) {
     try {
-      if (!payment.recipient) {
-        logger.warn(`Payment ${payment.id} has no recipient, skipping`);
-        continue;
-      }
-
-      const amount = usdCentsToTokenAmount(payment.amount, tokenDecimals);
+      const amount = usdCentsToTokenAmount(payment.settlementAmount, tokenDecimals);
       
       logger.info(
-        `Executing payment: ${payment.id}, amount: ${payment.amount} cents (${amount} tokens), recipient: ${payment.recipient}`
-      );
-
-      const txHash = await executeOnchainPayment(
-        payerAddress,
-        payment.recipient,
-        amount,
-        tokenAddress
+        `Executing payment: ${payment.id}, amount: ${payment.settlementAmount} cents (${amount} tokens), recipient: ${payment.recipient}`
       );
 
-      // Validate transaction hash format (should be 0x + 64 hex characters = 66 total)
-      if (!txHash || !txHash.startsWith('0x') || txHash.length !== 66) {
-        logger.error(`Invalid transaction hash format for payment ${payment.id}: ${txHash}`);
-        throw new Error(`Invalid transaction hash: expected 66 characters (0x + 64 hex), got ${txHash?.length || 0}`);
-      }
-
-      transactionHashes.push(txHash);
-      
-      // Update payment status and transaction hash
       await prisma.outboundPayment.update({
         where: { id: payment.id },
-        data: {
-          status: PaymentStatus.ONCHAIN_PAID,
-          txHash: txHash, // Store the full transaction hash
-        },
+        data: { attempts: { increment: 1 }, lastAttemptAt: new Date() },
       });
 
-      logger.info(`Payment ${payment.id} executed on-chain. TX: ${txHash}`);
+      // Persist the hash as soon as the tx is broadcast so an interrupted run can be reconciled
+      const outcome = await executeOnchainPayment(
+        payerAddress,
+        payment.recipient!,
+        amount,
+        tokenAddress,
+        (txHash) => prisma.outboundPayment.update({
+          where: { id: payment.id },
+          data: { txHash },
+        }),
+      );
+      assertTxHash(payment.id, outcome.txHash);
+
+      if (outcome.status === "EXECUTED") {
+        transactionHashes.push(outcome.txHash);
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.ONCHAIN_PAID,
+          { actor: PayrollEventActor.SYSTEM, reason: `executePayment tx ${outcome.txHash}` },
+          { failureReason: null, networkFee: outcome.fee?.toString() },
+        );
+        logger.info(`Payment ${payment.id} executed on-chain. TX: ${outcome.txHash}`);
+      } else {
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.FAILED,
+          { actor: PayrollEventActor.SYSTEM, reason: outcome.reason ?? `executePayment tx ${outcome.txHash} failed` },
+          { failureReason: outcome.reason ?? null },
+        );
+        logger.warn(`Payment ${payment.id} failed on-chain (${outcome.reason}). TX: ${outcome.txHash}`);
+      }
     } catch (error) {
       logger.error(`Failed to execute payment ${payment.id} on-chain`, error);
       
-      // Mark payment as failed
-      await prisma.outboundPayment.update({
-        where: { id: payment.id },
-        data: {
-          status: PaymentStatus.FAILED,
-        },
-      });
+      // Mark payment as failed; a stored txHash is reconciled on the next retry
+      await transitionPayment(
+        payment.id,
+        PaymentStatus.FAILED,
+        { actor: PayrollEventActor.SYSTEM, reason: errorReason(error) },
+        { failureReason: errorReason(error) },
+      );
     }
   }
 
-  // Update payroll status based on payment results
+  const payrollStatus = await updatePayrollStatusFromPayments(payrollId);
+
+  logger.info(
+    `Executed ${transactionHashes.length} payments on-chain for payroll: ${payrollId} (${payrollStatus})`
+  );
+  return transactionHashes;
+}
+
+/**
+ * Recompute and store a payroll's status from its payments
+ * @param payrollId - Payroll ID
+ * @returns New payroll status
+ */
+export async function updatePayrollStatusFromPayments(payrollId: string) {
   const payments = await prisma.outboundPayment.findMany({
     where: { payrollId },
+    select: { status: true },
   });
+  const statuses = payments.map((p) => p.status);
+  const status = derivePayrollStatus(statuses);
+  const settled = statuses.filter((s) => SETTLED_PAYMENT_STATUSES.includes(s)).length;
 
-  type PaymentWithStatus = {
-    status: string;
-  };
-  const allPaid = payments.every((p: PaymentWithStatus) => p.status === PaymentStatus.ONCHAIN_PAID);
-  const anyFailed = payments.some((p: PaymentWithStatus) => p.status === PaymentStatus.FAILED);
+  await transitionPayroll(payrollId, status, {
+    actor: PayrollEventActor.SYSTEM,
+    reason: `${settled} of ${payments.length} payments settled`,
+  });
+  return status;
+}
 
-  let payrollStatus: string = PayrollStatus.ONCHAIN_PAID;
-  if (anyFailed) {
-    payrollStatus = allPaid ? PayrollStatus.PARTIALLY_PAID : PayrollStatus.FAILED;
-  }
+// Gas estimate for one payment; a null estimate means the call would revert
+export type PaymentGasEstimate = {
+  requestPayment: bigint | null;
+  executePayment: bigint | null;
+  error?: string;
+};
 
-  await prisma.payroll.update({
-    where: { id: payrollId },
-    data: { status: payrollStatus },
-  });
+/**
+ * Estimate gas for requesting and executing payments (eth_estimateGas, nothing is sent)
+ * @param currency - Payroll currency
+ * @param payments - Recipients and amounts (cents in the payroll currency)
+ * @returns Per-payment estimates (same order as payments) and the current gas price
+ */
+export async function estimatePaymentsGas(
+  currency: string,
+  payments: { recipient: string; amount: number }[],
+): Promise<{ estimates: PaymentGasEstimate[]; gasPrice: bigint | null }> {
+  const tokenAddress = getTokenAddress(currency);
+  const tokenDecimals = 6; // USDC has 6 decimals
+  const contract = getTreasuryContractReadOnly();
+  const payerAddress = await contract.owner();
 
-  logger.info(`Executed ${transactionHashes.length} payments on-chain for payroll: ${payrollId}`);
-  return transactionHashes;
+  const estimates: PaymentGasEstimate[] = [];
+  for (const payment of payments) {
+    const amount = usdCentsToTokenAmount(payment.amount, tokenDecimals);
+    const estimate: PaymentGasEstimate = { requestPayment: null, executePayment: null };
+
+    try {
+      estimate.requestPayment = await contract.requestPayment.estimateGas(
+        payment.recipient,
+        amount,
+        tokenAddress,
+        { from: payerAddress },
+      );
+      estimate.executePayment = await contract.executePayment.estimateGas(
+        payerAddress,
+        payment.recipient,
+        amount,
+        tokenAddress,
+        { from: payerAddress },
+      );
+    } catch (error) {
+      estimate.error = errorReason(error);
+    }
+    estimates.push(estimate);
+  }
+
+  const feeData = await getProvider().getFeeData();
+  return { estimates, gasPrice: feeData.maxFeePerGas ?? feeData.gasPrice };
 }
 
 /**
@@ -275,21 +446,26 @@ export function startContractEventListener() {
   contract.on("PaymentExecuted", async (payer, payee, amount, token, event) => {
     logger.info(`PaymentExecuted event: ${payee} received ${amount} of token ${token}`);
     
-    // Find payment by recipient address
+    // Find payment by its executePayment transaction
     const payment = await prisma.outboundPayment.findFirst({
       where: {
-        recipient: payee.toLowerCase(),
-        status: { in: [PaymentStatus.ONCHAIN_REQUESTED, PaymentStatus.PENDING] },
+        txHash: event.log.transactionHash,
+        status: { notIn: [...SETTLED_PAYMENT_STATUSES] },
       },
-      orderBy: { createdAt: "desc" },
     });
 
     if (payment) {
-      await prisma.outboundPayment.update({
-        where: { id: payment.id },
-        data: { status: PaymentStatus.ONCHAIN_PAID },
-      });
-      logger.info(`Updated payment ${payment.id} status to ONCHAIN_PAID`);
+      try {
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.ONCHAIN_PAID,
+          { actor: PayrollEventActor.CONTRACT_LISTENER, reason: "PaymentExecuted event" },
+          { failureReason: null },
+        );
+        logger.info(`Updated payment ${payment.id} status to ONCHAIN_PAID`);
+      } catch (error) {
+        logger.warn(`Ignored PaymentExecuted event for payment ${payment.id}`, error);
+      }
     }
   });
 
@@ -297,21 +473,26 @@ export function startContractEventListener() {
   contract.on("PaymentFailed", async (payer, payee, amount, token, reason, event) => {
     logger.warn(`PaymentFailed event: ${payee}, reason: ${reason}`);
     
-    // Find payment by recipient address
+    // Find payment by its executePayment transaction
     const payment = await prisma.outboundPayment.findFirst({
       where: {
-        recipient: payee.toLowerCase(),
-        status: { in: [PaymentStatus.ONCHAIN_REQUESTED, PaymentStatus.PENDING] },
+        txHash: event.log.transactionHash,
+        status: { notIn: [...SETTLED_PAYMENT_STATUSES] },
       },
-      orderBy: { createdAt: "desc" },
     });
 
     if (payment) {
-      await prisma.outboundPayment.update({
-        where: { id: payment.id },
-        data: { status: PaymentStatus.FAILED },
-      });
-      logger.info(`Updated payment ${payment.id} status to FAILED`);
+      try {
+        await transitionPayment(
+          payment.id,
+          PaymentStatus.FAILED,
+          { actor: PayrollEventActor.CONTRACT_LISTENER, reason: `PaymentFailed event: ${reason}` },
+          { failureReason: String(reason) },
+        );
+        logger.info(`Updated payment ${payment.id} status to FAILED`);
+      } catch (error) {
+        logger.warn(`Ignored PaymentFailed event for payment ${payment.id}`, error);
+      }
     }
   });
 
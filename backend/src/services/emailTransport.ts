@@ -0,0 +1,125 @@
+/**
+ * Email Transport
+ * Sends the emails of the notification service. The transport is pluggable: any SMTP server
+ * (mailpit or MailHog locally, a provider's relay in production) or .eml files written to a
+ * directory for local development and tests.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+
+export type EmailAttachment = {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+};
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+};
+
+// What the transport reports for an accepted email
+export type EmailDelivery = {
+  messageId: string;
+  response: string; // SMTP server response, or the file the email was written to
+};
+
+// Destination of outgoing emails
+export type EmailTransport = {
+  name: string;
+  // Resolves once the email is accepted; rejects when it is not
+  send(message: EmailMessage): Promise<EmailDelivery>;
+};
+
+function toMailOptions(message: EmailMessage) {
+  return {
+    from: config.emailFrom,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments,
+  };
+}
+
+/**
+ * SMTP transport (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD)
+ * Mailpit accepts mail on localhost:1025 without authentication.
+ */
+export function createSmtpEmailTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPassword } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail(toMailOptions(message));
+      return { messageId: info.messageId, response: info.response };
+    },
+  };
+}
+
+/**
+ * File transport: every email is written as an .eml file (openable in any mail client)
+ * @param dir - Directory the files are written to (defaults to EMAIL_FILE_DIR)
+ */
+export function createFileEmailTransport(dir: string = config.emailFileDir): EmailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transporter.sendMail(toMailOptions(message));
+      const file = path.join(
+        dir,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^a-zA-Z0-9-]/g, "")}.eml`,
+      );
+      await mkdir(dir, { recursive: true });
+      await writeFile(file, info.message as Buffer);
+      logger.info(`Email "${message.subject}" to ${message.to} written to ${file}`);
+      return { messageId: info.messageId, response: file };
+    },
+  };
+}
+
+let transport: EmailTransport | null | undefined;
+
+/**
+ * Configured transport (EMAIL_TRANSPORT), or null when notifications are disabled
+ */
+export function getEmailTransport(): EmailTransport | null {
+  if (transport === undefined) {
+    switch (config.emailTransport) {
+      case "smtp":
+        transport = createSmtpEmailTransport();
+        break;
+      case "file":
+        transport = createFileEmailTransport();
+        break;
+      case "none":
+        transport = null;
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT: ${config.emailTransport}`);
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport (e.g. with a file transport in tests); undefined restores the configured one
+ */
+export function setEmailTransport(next: EmailTransport | null | undefined): void {
+  transport = next;
+}
@@ -0,0 +1,238 @@
+/**
+ * FX Service
+ * Quotes exchange rates for payroll lines paid out in another currency than the payroll.
+ * The rate source is pluggable: ECB reference rates (Frankfurter) or a static fixture.
+ */
+
+import { readFileSync } from "fs";
+import { config } from "../config/env.js";
+import { summarizeLineItems, type GrossToNet } from "../domain/payment.js";
+import { ServiceUnavailableError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Type alias for Fetch API Response to avoid conflict with Express Response
+type FetchResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text(): Promise<string>;
+  json(): Promise<any>;
+};
+
+// Source of exchange rates
+export type FxRateProvider = {
+  name: string;
+  // Units of `to` for one unit of `from`
+  getRate(from: string, to: string): Promise<number>;
+};
+
+export type FxQuote = {
+  from: string;
+  to: string;
+  rate: string; // Decimal string, units of `to` per unit of `from`
+  source: string;
+  quotedAt: Date;
+};
+
+// Settlement of one payroll line in the payroll currency
+export type PayrollLineQuote = {
+  settlementAmount: number; // Cents in the payroll currency
+  fx: FxQuote | null; // null when the line is in the payroll currency
+};
+
+// Decimals kept on quoted rates (settlement amounts are computed from the rounded rate)
+const RATE_DECIMALS = 8;
+
+// Cache duration for live rates: 5 minutes
+const CACHE_DURATION_MS = 5 * 60 * 1000;
+
+// USD value of one unit of each currency, used when no fixture file is configured
+const DEFAULT_FIXTURE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  MXN: 0.058,
+};
+
+function loadFixtureRates(): Record<string, number> {
+  if (!config.fxFixturePath) {
+    return DEFAULT_FIXTURE_RATES;
+  }
+  const rates = JSON.parse(readFileSync(config.fxFixturePath, "utf8")) as Record<string, number>;
+  return { USD: 1, ...rates };
+}
+
+/**
+ * Static rate source (local development and tests)
+ * @param usdRates - USD value of one unit of each currency (defaults to FX_FIXTURE_PATH or built-in rates)
+ */
+export function createFixtureFxProvider(usdRates: Record<string, number> = loadFixtureRates()): FxRateProvider {
+  return {
+    name: "fixture",
+    async getRate(from, to) {
+      const fromUsd = usdRates[from];
+      const toUsd = usdRates[to];
+      if (!fromUsd || !toUsd) {
+        throw new Error(`No fixture FX rate for ${from}/${to}`);
+      }
+      return fromUsd / toUsd;
+    },
+  };
+}
+
+/**
+ * ECB reference rates from the Frankfurter API
+ * @param baseUrl - API base URL (FX_API_URL)
+ */
+export function createFrankfurterFxProvider(baseUrl: string = config.fxApiUrl): FxRateProvider {
+  const rateCache = new Map<string, { rate: number; timestamp: number }>();
+
+  return {
+    name: "frankfurter",
+    async getRate(from, to) {
+      const key = `${from}/${to}`;
+      const cached = rateCache.get(key);
+      if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
+        return cached.rate;
+      }
+
+      const response = (await fetch(`${baseUrl}/latest?from=${from}&to=${to}`, {
+        headers: { Accept: "application/json" },
+      })) as unknown as FetchResponse;
+
+      if (!response.ok) {
+        throw new Error(`FX API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { rates?: Record<string, number> };
+      const rate = data.rates?.[to];
+      if (typeof rate !== "number" || rate <= 0) {
+        throw new Error(`Invalid FX rate data for ${key}`);
+      }
+
+      rateCache.set(key, { rate, timestamp: Date.now() });
+      logger.info(`Fetched FX rate ${key}: ${rate}`);
+      return rate;
+    },
+  };
+}
+
+let provider: FxRateProvider | null = null;
+
+/**
+ * Configured rate source (FX_PROVIDER)
+ */
+export function getFxRateProvider(): FxRateProvider {
+  if (!provider) {
+    switch (config.fxProvider) {
+      case "fixture":
+        provider = createFixtureFxProvider();
+        break;
+      case "frankfurter":
+        provider = createFrankfurterFxProvider();
+        break;
+      default:
+        throw new Error(`Unknown FX_PROVIDER: ${config.fxProvider}`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the rate source (e.g. with a fixture in tests); null restores the configured one
+ */
+export function setFxRateProvider(next: FxRateProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Quote the exchange rate between two currencies
+ * @throws ServiceUnavailableError when the rate source cannot quote the pair
+ */
+export async function quoteFxRate(from: string, to: string): Promise<FxQuote> {
+  const source = getFxRateProvider();
+  try {
+    const rate = await source.getRate(from, to);
+    return {
+      from,
+      to,
+      rate: String(Number(rate.toFixed(RATE_DECIMALS))),
+      source: source.name,
+      quotedAt: new Date(),
+    };
+  } catch (error) {
+    logger.error(`Failed to quote FX rate ${from}/${to}`, error);
+    throw new ServiceUnavailableError(
+      `FX rate ${from}/${to} unavailable: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "FX_RATE_UNAVAILABLE",
+    );
+  }
+}
+
+/**
+ * Convert an amount in cents with a quoted rate
+ */
+export function convertAmount(amount: number, rate: string): number {
+  return Math.round(amount * Number(rate));
+}
+
+/**
+ * Gross-to-net totals of a payment in the payroll currency
+ * Components are converted at the payment's locked rate; gross absorbs the rounding, so the
+ * totals always net to the settlement amount. Payments without line items are all gross.
+ * @param payment - Payment amount, settlement, locked rate and line items (line currency cents)
+ */
+export function settlementGrossToNet(payment: {
+  amount: number;
+  settlementAmount: number;
+  fxRate: string | null;
+  lineItems?: ReadonlyArray<{ type: string; amount: number }>;
+}): GrossToNet {
+  const items = payment.lineItems?.length ? summarizeLineItems(payment.lineItems) : null;
+  const convert = (amount: number) => (payment.fxRate ? convertAmount(amount, payment.fxRate) : amount);
+  const withholding = items ? convert(items.withholding) : 0;
+  const deductions = items ? convert(items.deductions) : 0;
+  const reimbursements = items ? convert(items.reimbursements) : 0;
+  return {
+    gross: payment.settlementAmount + withholding + deductions - reimbursements,
+    withholding,
+    deductions,
+    reimbursements,
+    net: payment.settlementAmount,
+  };
+}
+
+/**
+ * Quote the settlement of payroll lines in the payroll currency
+ * Lines in the payroll currency settle 1:1; every other currency is quoted once.
+ * @param payrollCurrency - Currency the treasury pays in
+ * @param lines - Payroll lines (amounts in cents of their own currency)
+ * @returns Lines with their settlement and the payroll total in the payroll currency
+ */
+export async function quotePayrollLines<T extends { amount: number; currency?: string }>(
+  payrollCurrency: string,
+  lines: T[],
+): Promise<{ total: number; lines: (T & PayrollLineQuote)[] }> {
+  const foreign = [...new Set(lines.map((l) => l.currency ?? payrollCurrency))].filter(
+    (currency) => currency !== payrollCurrency,
+  );
+
+  const quotes = new Map<string, FxQuote>();
+  for (const currency of foreign) {
+    quotes.set(currency, await quoteFxRate(currency, payrollCurrency));
+  }
+
+  const quoted = lines.map((line) => {
+    const fx = quotes.get(line.currency ?? payrollCurrency) ?? null;
+    return {
+      ...line,
+      settlementAmount: fx ? convertAmount(line.amount, fx.rate) : line.amount,
+      fx,
+    };
+  });
+
+  return {
+    total: quoted.reduce((sum, l) => sum + l.settlementAmount, 0),
+    lines: quoted,
+  };
+}
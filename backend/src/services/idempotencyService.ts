@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import { ConflictError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Idempotency Service
+ * Stores the result of requests sent with an Idempotency-Key header, so a client that
+ * retries after a network error gets the original response instead of a second payroll
+ * or payment.
+ */
+
+export const IdempotencyKeyStatus = {
+  IN_PROGRESS: "IN_PROGRESS", // First request still running
+  COMPLETED: "COMPLETED", // Response stored; replayed for the same key
+} as const;
+
+export type IdempotentRequest = {
+  scope: string; // Route, e.g. "payroll_execute"
+  owner: string; // Company of an authenticated caller, "" for public routes
+  key: string;
+  fingerprint: string;
+};
+
+// First request with a key runs; a repeated request replays the stored response
+export type IdempotencyClaim =
+  | { replay: false; id: string }
+  | { replay: true; responseStatus: number; responseBody: unknown };
+
+// JSON with object keys sorted, so the same body always has the same fingerprint
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Fingerprint of a request body (SHA-256 of its canonical JSON)
+ */
+export function fingerprintRequest(body: unknown): string {
+  return createHash("sha256").update(canonicalJson(body)).digest("hex");
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Claim an idempotency key before running the request
+ * An expired key is treated as unused.
+ * @returns The stored response when the key was already used for the same request
+ * @throws ConflictError IDEMPOTENCY_KEY_REUSED when the key was used with a different body,
+ * IDEMPOTENCY_REQUEST_IN_PROGRESS when the first request with the key is still running
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest): Promise<IdempotencyClaim> {
+  const { scope, owner, key, fingerprint } = request;
+
+  // Two attempts: the second one runs after an expired record was removed
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          scope,
+          owner,
+          key,
+          fingerprint,
+          expiresAt: new Date(Date.now() + config.idempotencyKeyTtlHours * 60 * 60 * 1000),
+        },
+      });
+      return { replay: false, id: record.id };
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { scope_owner_key: { scope, owner, key } },
+    });
+    if (!existing) {
+      continue; // Released concurrently
+    }
+    if (existing.expiresAt <= new Date()) {
+      await prisma.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lte: new Date() } } });
+      continue;
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new ConflictError(
+        "Idempotency-Key was already used with a different request body",
+        "IDEMPOTENCY_KEY_REUSED",
+      );
+    }
+    if (existing.status !== IdempotencyKeyStatus.COMPLETED || existing.responseStatus === null) {
+      throw new ConflictError(
+        "A request with this Idempotency-Key is still being processed",
+        "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+      );
+    }
+
+    logger.info(`Replaying ${scope} response for Idempotency-Key ${key}`);
+    return { replay: true, responseStatus: existing.responseStatus, responseBody: existing.responseBody };
+  }
+
+  throw new ConflictError(
+    "A request with this Idempotency-Key is still being processed",
+    "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+  );
+}
+
+/**
+ * Store the response of a claimed key; later requests with the key replay it
+ */
+export async function completeIdempotencyKey(id: string, responseStatus: number, responseBody: unknown) {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      status: IdempotencyKeyStatus.COMPLETED,
+      responseStatus,
+      responseBody: (responseBody ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Release a claimed key without storing a response, so the request can be retried with it
+ */
+export async function releaseIdempotencyKey(id: string) {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+}
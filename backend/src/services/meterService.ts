@@ -0,0 +1,378 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import { networks } from "../config/networkConfig.js";
+import type { PayrollValidationError } from "./payrollValidation.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Meter Service
+ * Admin management of the x402 meters (x402/metering.ts reads them). A price change adds a
+ * new MeterPrice version instead of editing the current one, so the price history is kept;
+ * a version with a future effectiveFrom is a scheduled change and can be cancelled until
+ * it takes effect.
+ */
+
+const METER_ID_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+const ASSET_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+// Asset units with at most 6 decimals (the stablecoins' precision)
+const PRICE_PATTERN = /^\d{1,12}(\.\d{1,6})?$/;
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_REASON_LENGTH = 500;
+
+type MeterRecord = NonNullable<Awaited<ReturnType<typeof prisma.meter.findUnique>>>;
+
+type MeterPriceRecord = NonNullable<Awaited<ReturnType<typeof prisma.meterPrice.findUnique>>>;
+
+// Validated meter fields
+export type MeterInput = {
+  asset: string;
+  chain: string;
+  resource: string;
+  description: string | null;
+  version: string;
+};
+
+// Validated price change
+export type MeterPriceInput = {
+  price: string;
+  effectiveFrom: Date | null; // null: effective immediately
+  reason: string | null;
+};
+
+export type MeterValidationResult =
+  | { valid: true; input: MeterInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+export type MeterPriceValidationResult =
+  | { valid: true; input: MeterPriceInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function optionalText(
+  raw: unknown,
+  field: string,
+  maxLength: number,
+  errors: PayrollValidationError[],
+): string | null {
+  if (raw === null || raw === undefined) {
+    return null;
+  }
+  if (typeof raw !== "string") {
+    errors.push({ field, message: `${field} must be a string` });
+    return null;
+  }
+  if (raw.trim().length > maxLength) {
+    errors.push({ field, message: `${field} must be at most ${maxLength} characters` });
+    return null;
+  }
+  return raw.trim() === "" ? null : raw.trim();
+}
+
+/**
+ * Validate the fields of a meter (not its price)
+ * @param body - Raw request body
+ * @param existing - Current meter when updating (missing fields fall back to it)
+ */
+export function validateMeterInput(body: unknown, existing?: MeterRecord | null): MeterValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+
+  const errors: PayrollValidationError[] = [];
+
+  const asset = pick("asset", existing?.asset);
+  if (typeof asset !== "string" || !ASSET_PATTERN.test(asset.trim().toUpperCase())) {
+    errors.push({ field: "asset", message: "asset must be a token symbol, e.g. USDC" });
+  }
+
+  const chain = pick("chain", existing?.chain);
+  if (typeof chain !== "string" || !networks[chain]) {
+    errors.push({ field: "chain", message: `chain must be one of: ${Object.keys(networks).join(", ")}` });
+  } else if (typeof asset === "string" && !(asset.trim().toLowerCase() in networks[chain].stablecoins)) {
+    errors.push({ field: "asset", message: `${asset} is not supported on ${chain}` });
+  }
+
+  const resource = pick("resource", existing?.resource);
+  if (typeof resource !== "string" || resource.trim() === "") {
+    errors.push({ field: "resource", message: "resource is required" });
+  } else if (resource.trim().length > MAX_TEXT_LENGTH) {
+    errors.push({ field: "resource", message: `resource must be at most ${MAX_TEXT_LENGTH} characters` });
+  }
+
+  const description = optionalText(pick("description", existing?.description), "description", MAX_DESCRIPTION_LENGTH, errors);
+  const version = optionalText(pick("version", existing?.version), "version", MAX_TEXT_LENGTH, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      asset: (asset as string).trim().toUpperCase(),
+      chain: chain as string,
+      resource: (resource as string).trim(),
+      description,
+      version: version ?? "8004-alpha",
+    },
+  };
+}
+
+/**
+ * Validate a price change
+ * @param body - Raw request body: { price, effectiveFrom?, reason? }
+ */
+export function validateMeterPriceInput(body: unknown): MeterPriceValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const errors: PayrollValidationError[] = [];
+
+  const price = typeof raw.price === "number" ? String(raw.price) : raw.price;
+  if (typeof price !== "string" || !PRICE_PATTERN.test(price.trim()) || Number(price) <= 0) {
+    errors.push({ field: "price", message: "price must be a positive amount of the asset with at most 6 decimals" });
+  }
+
+  let effectiveFrom: Date | null = null;
+  if (raw.effectiveFrom !== undefined && raw.effectiveFrom !== null) {
+    const date = typeof raw.effectiveFrom === "string" ? new Date(raw.effectiveFrom) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ field: "effectiveFrom", message: "effectiveFrom must be an ISO 8601 date" });
+    } else if (date.getTime() < Date.now()) {
+      errors.push({ field: "effectiveFrom", message: "effectiveFrom must not be in the past" });
+    } else {
+      effectiveFrom = date;
+    }
+  }
+
+  const reason = optionalText(raw.reason, "reason", MAX_REASON_LENGTH, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: { price: (price as string).trim(), effectiveFrom, reason },
+  };
+}
+
+function formatPrice(price: MeterPriceRecord) {
+  return {
+    version: price.version,
+    price: price.price,
+    effectiveFrom: price.effectiveFrom,
+    createdBy: price.createdBy,
+    reason: price.reason,
+    createdAt: price.createdAt,
+  };
+}
+
+/**
+ * Meter with its current price and scheduled changes (and its full price history)
+ */
+function formatMeter(meter: MeterRecord & { prices: MeterPriceRecord[] }, withHistory: boolean) {
+  const now = new Date();
+  // Prices are ordered by effectiveFrom, then version, newest first
+  const current = meter.prices.find((p) => p.effectiveFrom <= now) ?? null;
+  const scheduled = meter.prices.filter((p) => p.effectiveFrom > now).reverse();
+
+  return {
+    id: meter.id,
+    asset: meter.asset,
+    chain: meter.chain,
+    resource: meter.resource,
+    description: meter.description,
+    version: meter.version,
+    currentPrice: current ? formatPrice(current) : null,
+    scheduledPrices: scheduled.map(formatPrice),
+    ...(withHistory ? { prices: meter.prices.map(formatPrice) } : {}),
+    updatedBy: meter.updatedBy,
+    createdAt: meter.createdAt,
+    updatedAt: meter.updatedAt,
+  };
+}
+
+const PRICES_NEWEST_FIRST = {
+  orderBy: [{ effectiveFrom: "desc" as const }, { version: "desc" as const }],
+};
+
+// List all meters with their current price and scheduled changes
+export async function listMeterDetails() {
+  const meters = await prisma.meter.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { prices: PRICES_NEWEST_FIRST },
+  });
+  return meters.map((meter) => formatMeter(meter, false));
+}
+
+/**
+ * Get a meter with its full price history
+ * @throws NotFoundError when the meter does not exist
+ */
+export async function getMeterDetails(meterId: string) {
+  const meter = await prisma.meter.findUnique({
+    where: { id: meterId },
+    include: { prices: PRICES_NEWEST_FIRST },
+  });
+  if (!meter) {
+    throw new NotFoundError(`Meter not found: ${meterId}`);
+  }
+  return formatMeter(meter, true);
+}
+
+// Get the stored meter (for validating updates against it)
+export async function getMeterRecord(meterId: string) {
+  return prisma.meter.findUnique({ where: { id: meterId } });
+}
+
+/**
+ * Whether a string can be used as a meter ID
+ */
+export function isValidMeterId(meterId: unknown): meterId is string {
+  return typeof meterId === "string" && METER_ID_PATTERN.test(meterId);
+}
+
+/**
+ * Create a meter with its first price
+ * @throws ConflictError METER_EXISTS when a meter with the ID exists
+ */
+export async function createMeter(meterId: string, input: MeterInput, price: MeterPriceInput, actor: string) {
+  try {
+    await prisma.meter.create({
+      data: {
+        id: meterId,
+        ...input,
+        updatedBy: actor,
+        prices: {
+          create: {
+            version: 1,
+            price: price.price,
+            effectiveFrom: price.effectiveFrom ?? new Date(),
+            createdBy: actor,
+            reason: price.reason,
+          },
+        },
+      },
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError(`Meter already exists: ${meterId}`, "METER_EXISTS");
+    }
+    throw error;
+  }
+
+  logger.info(`Meter ${meterId} created by ${actor} at ${price.price} ${input.asset}`);
+  return getMeterDetails(meterId);
+}
+
+/**
+ * Update the fields of a meter; its price is changed with addMeterPrice
+ * @throws NotFoundError when the meter does not exist
+ */
+export async function updateMeter(meterId: string, input: MeterInput, actor: string) {
+  const { count } = await prisma.meter.updateMany({
+    where: { id: meterId },
+    data: { ...input, updatedBy: actor },
+  });
+  if (count === 0) {
+    throw new NotFoundError(`Meter not found: ${meterId}`);
+  }
+
+  logger.info(`Meter ${meterId} updated by ${actor}`);
+  return getMeterDetails(meterId);
+}
+
+/**
+ * Delete a meter and its prices; routes protected by it answer 500 METER_NOT_CONFIGURED
+ * @throws NotFoundError when the meter does not exist
+ */
+export async function deleteMeter(meterId: string, actor: string) {
+  const { count } = await prisma.meter.deleteMany({ where: { id: meterId } });
+  if (count === 0) {
+    throw new NotFoundError(`Meter not found: ${meterId}`);
+  }
+  logger.info(`Meter ${meterId} deleted by ${actor}`);
+}
+
+/**
+ * Add a price version: effective immediately, or scheduled at effectiveFrom
+ * @throws NotFoundError when the meter does not exist
+ * @throws ConflictError METER_PRICE_CONFLICT when another price was added at the same time
+ */
+export async function addMeterPrice(meterId: string, input: MeterPriceInput, actor: string) {
+  try {
+    const price = await prisma.$transaction(async (tx) => {
+      const meter = await tx.meter.findUnique({ where: { id: meterId }, select: { id: true } });
+      if (!meter) {
+        throw new NotFoundError(`Meter not found: ${meterId}`);
+      }
+      const latest = await tx.meterPrice.aggregate({ where: { meterId }, _max: { version: true } });
+      return tx.meterPrice.create({
+        data: {
+          meterId,
+          version: (latest._max.version ?? 0) + 1,
+          price: input.price,
+          effectiveFrom: input.effectiveFrom ?? new Date(),
+          createdBy: actor,
+          reason: input.reason,
+        },
+      });
+    });
+
+    logger.info(
+      `Meter ${meterId} price v${price.version} ${price.price} from ${price.effectiveFrom.toISOString()} set by ${actor}`,
+    );
+    return formatPrice(price);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ConflictError("Another price of this meter was added at the same time; try again", "METER_PRICE_CONFLICT");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancel a scheduled price change
+ * @throws NotFoundError when the meter has no such price version
+ * @throws ConflictError METER_PRICE_IN_EFFECT when the price already took effect
+ */
+export async function cancelMeterPrice(meterId: string, version: number, actor: string) {
+  const price = await prisma.meterPrice.findUnique({
+    where: { meterId_version: { meterId, version } },
+  });
+  if (!price) {
+    throw new NotFoundError(`Meter ${meterId} has no price version ${version}`);
+  }
+
+  // The effectiveFrom condition keeps a price that took effect meanwhile
+  const { count } = await prisma.meterPrice.deleteMany({
+    where: { id: price.id, effectiveFrom: { gt: new Date() } },
+  });
+  if (count === 0) {
+    throw new ConflictError(
+      `Price version ${version} of meter ${meterId} is already in effect; add a new price instead`,
+      "METER_PRICE_IN_EFFECT",
+    );
+  }
+
+  logger.info(`Scheduled price v${version} of meter ${meterId} cancelled by ${actor}`);
+}
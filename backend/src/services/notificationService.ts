@@ -0,0 +1,261 @@
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import { NotificationStatus, notificationEventFor } from "../domain/notification.js";
+import { getEmailTransport, type EmailTransport } from "./emailTransport.js";
+import {
+  notificationTemplateFor,
+  renderNotificationTemplate,
+  type NotificationTemplateVariables,
+} from "./notificationTemplates.js";
+import { withPaidAt } from "./payrollExportService.js";
+import { getPayslipsByPayment, type PayslipFile } from "./payslipService.js";
+import { NotFoundError, ServiceUnavailableError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Notification Service
+ * Emails payees when their payment settles: when the funds leave the treasury while a Rail
+ * withdrawal is still on its way (ONCHAIN_PAID), and when the payment is PAID. Each email
+ * has the amount, the transaction link, the Arweave receipt once stored, and the payslip.
+ * Runs as the NOTIFY step of the payroll pipeline. Every notification and each delivery
+ * attempt is recorded; failed deliveries are attempted again the next time the step runs
+ * (or on POST /api/payroll/:id/notifications/send) until NOTIFICATION_MAX_ATTEMPTS.
+ */
+
+// Length of a delivery error kept on the notification and its attempt
+const MAX_ERROR_LENGTH = 500;
+
+// Withdrawal rails as payees know them
+const RAIL_LABELS: Record<string, string> = {
+  ACH: "ACH transfer",
+  FEDWIRE: "wire transfer (Fedwire)",
+  SEPA_CT: "SEPA transfer",
+  SWIFT: "SWIFT transfer",
+};
+
+type NotificationPayroll = NonNullable<Awaited<ReturnType<typeof loadPayroll>>>;
+
+type NotificationPayment = NotificationPayroll["payments"][number] & {
+  paidAt: Date;
+};
+
+type PaymentNotificationRecord = NonNullable<Awaited<ReturnType<typeof prisma.paymentNotification.findUnique>>>;
+
+async function loadPayroll(payrollId: string) {
+  return prisma.payroll.findUnique({
+    where: { id: payrollId },
+    include: {
+      company: { select: { legalName: true, tradeName: true } },
+      payments: {
+        orderBy: { createdAt: "asc" },
+        include: { payee: { select: { name: true, email: true } } },
+      },
+    },
+  });
+}
+
+function formatMoney(cents: number, currency: string): string {
+  const amount = (cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount} ${currency}`;
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+function errorReason(error: unknown): string {
+  return (error instanceof Error ? error.message : "Unknown error").slice(0, MAX_ERROR_LENGTH);
+}
+
+function templateVariables(payroll: NotificationPayroll, payment: NotificationPayment): NotificationTemplateVariables {
+  const network = getCurrentNetworkConfig();
+  const rail = payment.railWithdrawalId && payment.withdrawalRail
+    ? RAIL_LABELS[payment.withdrawalRail] ?? payment.withdrawalRail
+    : null;
+  return {
+    payeeName: payment.payee?.name,
+    companyName: payroll.company?.tradeName ?? payroll.company?.legalName,
+    amount: formatMoney(payment.amount, payment.currency),
+    paidAt: formatDateTime(payment.paidAt),
+    paymentId: payment.id,
+    memo: payroll.memo,
+    txHash: payment.txHash,
+    txUrl: payment.txHash ? `${network.explorerUrl}/tx/${payment.txHash}` : null,
+    rail,
+    railReference: rail ? `${rail} ${payment.railWithdrawalId}` : null,
+    receiptId: payroll.receiptTxId,
+    receiptUrl: payroll.receiptTxId ? `https://arweave.net/${payroll.receiptTxId}` : null,
+  };
+}
+
+/**
+ * Send one notification and record the attempt
+ * @returns Whether the email was accepted by the transport
+ */
+async function deliver(
+  transport: EmailTransport,
+  notification: PaymentNotificationRecord,
+  variables: NotificationTemplateVariables,
+  payslip: PayslipFile | undefined,
+): Promise<boolean> {
+  const email = renderNotificationTemplate(notification.template, variables);
+  try {
+    const delivery = await transport.send({
+      to: notification.recipient,
+      ...email,
+      attachments: payslip
+        ? [{ filename: payslip.filename, contentType: payslip.contentType, content: payslip.body }]
+        : undefined,
+    });
+    await prisma.$transaction([
+      prisma.notificationAttempt.create({
+        data: {
+          notificationId: notification.id,
+          transport: transport.name,
+          success: true,
+          messageId: delivery.messageId,
+          response: delivery.response,
+        },
+      }),
+      prisma.paymentNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: NotificationStatus.SENT,
+          subject: email.subject,
+          attempts: { increment: 1 },
+          lastError: null,
+          sentAt: new Date(),
+        },
+      }),
+    ]);
+    logger.info(`Notification ${notification.id} (${notification.event}) sent to ${notification.recipient}`);
+    return true;
+  } catch (error) {
+    const reason = errorReason(error);
+    logger.warn(`Notification ${notification.id} to ${notification.recipient} failed: ${reason}`);
+    await prisma.$transaction([
+      prisma.notificationAttempt.create({
+        data: { notificationId: notification.id, transport: transport.name, success: false, error: reason },
+      }),
+      prisma.paymentNotification.update({
+        where: { id: notification.id },
+        data: { status: NotificationStatus.FAILED, attempts: { increment: 1 }, lastError: reason },
+      }),
+    ]);
+    return false;
+  }
+}
+
+/**
+ * Email the payees of a payroll whose payments settled
+ * Creates the notifications owed (one per payment and event, for payees with an email) and
+ * delivers those not sent yet that have attempts left. Does nothing when EMAIL_TRANSPORT=none
+ * or the payroll has no company (legacy /api/payment/process payrolls have no payees).
+ * @returns Number of emails sent
+ * @throws NotFoundError when the payroll does not exist
+ */
+export async function notifyPayrollPayees(payrollId: string): Promise<number> {
+  const transport = getEmailTransport();
+  if (!transport) {
+    return 0;
+  }
+
+  const payroll = await loadPayroll(payrollId);
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  if (!payroll.companyId) {
+    return 0;
+  }
+
+  const owed = payroll.payments.filter((p) => p.payee?.email && notificationEventFor(p.status));
+  const payments = new Map((await withPaidAt(payroll.id, owed)).map((p) => [p.id, p]));
+  if (payments.size > 0) {
+    await prisma.paymentNotification.createMany({
+      data: [...payments.values()].map((payment) => {
+        const event = notificationEventFor(payment.status)!;
+        const template = notificationTemplateFor(event);
+        return {
+          payrollId: payroll.id,
+          paymentId: payment.id,
+          event,
+          recipient: payment.payee!.email!,
+          template,
+          subject: renderNotificationTemplate(template, templateVariables(payroll, payment)).subject,
+        };
+      }),
+      skipDuplicates: true,
+    });
+  }
+
+  // A notification superseded by a later event (ONCHAIN_PAID once the payment is PAID) is not sent
+  const due = (
+    await prisma.paymentNotification.findMany({
+      where: {
+        payrollId: payroll.id,
+        status: { in: [NotificationStatus.PENDING, NotificationStatus.FAILED] },
+        attempts: { lt: config.notificationMaxAttempts },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+  ).filter((n) => {
+    const payment = payments.get(n.paymentId);
+    return payment && notificationEventFor(payment.status) === n.event;
+  });
+  if (due.length === 0) {
+    return 0;
+  }
+
+  const payslips = await getPayslipsByPayment(payroll.companyId, payroll.id, due.map((n) => n.paymentId));
+  let sent = 0;
+  for (const notification of due) {
+    const payment = payments.get(notification.paymentId)!;
+    if (await deliver(transport, notification, templateVariables(payroll, payment), payslips.get(payment.id))) {
+      sent++;
+    }
+  }
+
+  logger.info(`Payroll ${payroll.id}: ${sent} of ${due.length} notification(s) sent via ${transport.name}`);
+  return sent;
+}
+
+/**
+ * Deliver the due notifications of a company's payroll now
+ * @returns Number of emails sent
+ * @throws NotFoundError when the payroll does not belong to the company
+ * @throws ServiceUnavailableError NOTIFICATIONS_DISABLED when EMAIL_TRANSPORT=none
+ */
+export async function sendPayrollNotifications(companyId: string, payrollId: string): Promise<number> {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: { id: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  if (!getEmailTransport()) {
+    throw new ServiceUnavailableError("Email notifications are disabled (EMAIL_TRANSPORT=none)", "NOTIFICATIONS_DISABLED");
+  }
+  return notifyPayrollPayees(payroll.id);
+}
+
+/**
+ * Notifications of a company's payroll with their delivery attempts, oldest first
+ * @throws NotFoundError when the payroll does not belong to the company
+ */
+export async function listPayrollNotifications(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: { id: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+
+  return prisma.paymentNotification.findMany({
+    where: { payrollId: payroll.id },
+    orderBy: { createdAt: "asc" },
+    include: { deliveries: { orderBy: { createdAt: "asc" } } },
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Notification Templates
+ * Subject, plain-text and HTML bodies of the emails sent to payees. Placeholders are written
+ * {{name}}; a body line whose placeholders are not all set is left out, so optional details
+ * (memo, Rail reference, receipt) only appear when the payment has them; every HTML line is
+ * a complete element for that reason. Values are HTML-escaped in the HTML body.
+ */
+
+import { NotificationEvent, type NotificationEventType } from "../domain/notification.js";
+
+export const NotificationTemplate = {
+  PAYMENT_ONCHAIN_PAID: "payment-onchain-paid",
+  PAYMENT_PAID: "payment-paid",
+} as const;
+
+export type NotificationTemplateName = (typeof NotificationTemplate)[keyof typeof NotificationTemplate];
+
+// Values a template can reference; null or empty values drop the lines that use them
+export type NotificationTemplateVariables = Record<string, string | null | undefined>;
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type EmailTemplate = {
+  subject: string;
+  text: string[];
+  html: string[];
+};
+
+const SIGNATURE = "SnowRail Payroll";
+
+const TEMPLATES: Record<NotificationTemplateName, EmailTemplate> = {
+  [NotificationTemplate.PAYMENT_ONCHAIN_PAID]: {
+    subject: "{{companyName}} sent you {{amount}}",
+    text: [
+      "Hi {{payeeName}},",
+      "",
+      "{{companyName}} sent you {{amount}}. The funds left the payroll treasury on {{paidAt}}.",
+      "They are on their way to your bank account by {{rail}}; we will email you again once they arrive.",
+      "",
+      "Payment: {{paymentId}}",
+      "Memo: {{memo}}",
+      "Transaction: {{txUrl}}",
+      "",
+      "Your payslip is attached.",
+      "",
+      SIGNATURE,
+    ],
+    html: [
+      "<p>Hi {{payeeName}},</p>",
+      "<p>{{companyName}} sent you <strong>{{amount}}</strong>. The funds left the payroll treasury on {{paidAt}}.</p>",
+      "<p>They are on their way to your bank account by {{rail}}; we will email you again once they arrive.</p>",
+      "<table>",
+      "<tr><td>Payment</td><td>{{paymentId}}</td></tr>",
+      "<tr><td>Memo</td><td>{{memo}}</td></tr>",
+      "<tr><td>Transaction</td><td><a href=\"{{txUrl}}\">{{txHash}}</a></td></tr>",
+      "</table>",
+      "<p>Your payslip is attached.</p>",
+      `<p>${SIGNATURE}</p>`,
+    ],
+  },
+  [NotificationTemplate.PAYMENT_PAID]: {
+    subject: "Your payment of {{amount}} from {{companyName}} is complete",
+    text: [
+      "Hi {{payeeName}},",
+      "",
+      "Your payment of {{amount}} from {{companyName}} is complete.",
+      "",
+      "Payment: {{paymentId}}",
+      "Memo: {{memo}}",
+      "Paid at: {{paidAt}}",
+      "Transaction: {{txUrl}}",
+      "Bank transfer: {{railReference}}",
+      "Receipt: {{receiptUrl}}",
+      "",
+      "Your payslip is attached as proof of payment.",
+      "",
+      SIGNATURE,
+    ],
+    html: [
+      "<p>Hi {{payeeName}},</p>",
+      "<p>Your payment of <strong>{{amount}}</strong> from {{companyName}} is complete.</p>",
+      "<table>",
+      "<tr><td>Payment</td><td>{{paymentId}}</td></tr>",
+      "<tr><td>Memo</td><td>{{memo}}</td></tr>",
+      "<tr><td>Paid at</td><td>{{paidAt}}</td></tr>",
+      "<tr><td>Transaction</td><td><a href=\"{{txUrl}}\">{{txHash}}</a></td></tr>",
+      "<tr><td>Bank transfer</td><td>{{railReference}}</td></tr>",
+      "<tr><td>Receipt</td><td><a href=\"{{receiptUrl}}\">{{receiptId}}</a></td></tr>",
+      "</table>",
+      "<p>Your payslip is attached as proof of payment.</p>",
+      `<p>${SIGNATURE}</p>`,
+    ],
+  },
+};
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Fill the placeholders of one line, or null when one of them has no value
+function fillLine(line: string, variables: NotificationTemplateVariables, escape: (value: string) => string) {
+  let missing = false;
+  const filled = line.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = variables[name];
+    if (value === null || value === undefined || value === "") {
+      missing = true;
+      return "";
+    }
+    return escape(value);
+  });
+  return missing ? null : filled;
+}
+
+function fillLines(lines: string[], variables: NotificationTemplateVariables, escape: (value: string) => string) {
+  return lines.flatMap((line) => {
+    const filled = fillLine(line, variables, escape);
+    return filled === null ? [] : [filled];
+  });
+}
+
+/**
+ * Template announcing a payment event
+ */
+export function notificationTemplateFor(event: NotificationEventType): NotificationTemplateName {
+  return event === NotificationEvent.PAID
+    ? NotificationTemplate.PAYMENT_PAID
+    : NotificationTemplate.PAYMENT_ONCHAIN_PAID;
+}
+
+/**
+ * Render an email template
+ * @param name - Template name
+ * @param variables - Placeholder values
+ * @throws Error when the template does not exist
+ */
+export function renderNotificationTemplate(
+  name: string,
+  variables: NotificationTemplateVariables,
+): RenderedEmail {
+  const template = TEMPLATES[name as NotificationTemplateName];
+  if (!template) {
+    throw new Error(`Unknown notification template: ${name}`);
+  }
+
+  const identity = (value: string) => value;
+  const html = fillLines(template.html, variables, escapeHtml);
+  return {
+    subject: fillLine(template.subject, variables, identity) ?? template.subject.replace(PLACEHOLDER, ""),
+    text: fillLines(template.text, variables, identity).join("\n"),
+    html: `<!DOCTYPE html>\n<html><body style="font-family: sans-serif">\n${html.join("\n")}\n</body></html>`,
+  };
+}
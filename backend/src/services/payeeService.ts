@@ -0,0 +1,293 @@
+import { ethers } from "ethers";
+import { prisma } from "../dbClient.js";
+import { BankRail, PayoutPreference, selectWithdrawalRail } from "../domain/payee.js";
+import type {
+  CreatePayrollInput,
+  PayrollValidationError,
+  PayrollValidationResult,
+} from "./payrollValidation.js";
+import type { RailPaymentInput } from "./railClient.js";
+import { applyWithholding } from "./withholdingService.js";
+import { ConflictError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payee Service
+ * Company-scoped directory of payroll recipients (wallet, payout preference, Rail counterparty).
+ * Payroll lines reference payees by id; their wallet becomes the on-chain recipient.
+ */
+
+// Maximum length of free-text payee fields
+const MAX_NAME_LENGTH = 200;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ISO 3166-1 alpha-2 country code
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+type PayeeRecord = NonNullable<Awaited<ReturnType<typeof prisma.payee.findUnique>>>;
+
+// Validated payee fields
+export type PayeeInput = {
+  name: string;
+  email: string | null;
+  walletAddress: string;
+  country: string | null;
+  payoutPreference: string;
+  railCounterpartyId: string | null;
+  bankRail: string | null;
+};
+
+export type PayeeValidationResult =
+  | { valid: true; input: PayeeInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+/**
+ * Validate a payee submission
+ * @param body - Raw request body
+ * @param existing - Current payee when updating (missing fields fall back to it)
+ */
+export function validatePayeeInput(body: unknown, existing?: PayeeRecord): PayeeValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+  const optionalString = (value: unknown) =>
+    typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+
+  const errors: PayrollValidationError[] = [];
+
+  const name = pick("name", existing?.name);
+  if (typeof name !== "string" || name.trim() === "") {
+    errors.push({ field: "name", message: "Name is required" });
+  } else if (name.trim().length > MAX_NAME_LENGTH) {
+    errors.push({ field: "name", message: `Name must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  const email = pick("email", existing?.email ?? null);
+  if (email !== null && (typeof email !== "string" || (email.trim() !== "" && !EMAIL_PATTERN.test(email.trim())))) {
+    errors.push({ field: "email", message: "Email must be a valid email address" });
+  }
+
+  const walletAddress = pick("walletAddress", existing?.walletAddress);
+  if (typeof walletAddress !== "string" || !ethers.isAddress(walletAddress.trim())) {
+    errors.push({ field: "walletAddress", message: "walletAddress must be a valid EVM address" });
+  }
+
+  const country = pick("country", existing?.country ?? null);
+  const normalizedCountry = typeof country === "string" && country.trim() !== "" ? country.trim().toUpperCase() : null;
+  if (country !== null && (typeof country !== "string" || (normalizedCountry !== null && !COUNTRY_PATTERN.test(normalizedCountry)))) {
+    errors.push({ field: "country", message: "country must be an ISO 3166-1 alpha-2 code (e.g. DE)" });
+  }
+
+  const preference = pick("payoutPreference", existing?.payoutPreference ?? PayoutPreference.CRYPTO);
+  const preferences = Object.values(PayoutPreference) as string[];
+  const normalizedPreference = typeof preference === "string" ? preference.toUpperCase() : "";
+  if (!preferences.includes(normalizedPreference)) {
+    errors.push({
+      field: "payoutPreference",
+      message: `payoutPreference must be one of: ${preferences.join(", ")}`,
+    });
+  }
+
+  const railCounterpartyId = pick("railCounterpartyId", existing?.railCounterpartyId ?? null);
+  if (railCounterpartyId !== null && typeof railCounterpartyId !== "string") {
+    errors.push({ field: "railCounterpartyId", message: "railCounterpartyId must be a string" });
+  }
+
+  const bankRail = pick("bankRail", existing?.bankRail ?? null);
+  const rails = Object.values(BankRail) as string[];
+  const normalizedRail = typeof bankRail === "string" && bankRail.trim() !== "" ? bankRail.toUpperCase() : null;
+  if (bankRail !== null && (typeof bankRail !== "string" || (normalizedRail !== null && !rails.includes(normalizedRail)))) {
+    errors.push({ field: "bankRail", message: `bankRail must be one of: ${rails.join(", ")}` });
+  }
+
+  // Fiat payouts need somewhere to send the Rail withdrawal (the rail is chosen per payment)
+  if (normalizedPreference === PayoutPreference.FIAT && !optionalString(railCounterpartyId)) {
+    errors.push({ field: "railCounterpartyId", message: "railCounterpartyId is required for FIAT payees" });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      name: (name as string).trim(),
+      email: optionalString(email)?.toLowerCase() ?? null,
+      walletAddress: (walletAddress as string).trim().toLowerCase(),
+      country: normalizedCountry,
+      payoutPreference: normalizedPreference,
+      railCounterpartyId: optionalString(railCounterpartyId),
+      bankRail: normalizedRail,
+    },
+  };
+}
+
+async function assertWalletAvailable(companyId: string, walletAddress: string, payeeId?: string) {
+  const duplicate = await prisma.payee.findFirst({
+    where: { companyId, walletAddress, ...(payeeId ? { id: { not: payeeId } } : {}) },
+    select: { id: true },
+  });
+  if (duplicate) {
+    throw new ConflictError(
+      `Another payee already uses wallet ${walletAddress}`,
+      "PAYEE_WALLET_EXISTS",
+    );
+  }
+}
+
+/**
+ * Create a payee for a company
+ * @returns Created payee
+ */
+export async function createPayee(companyId: string, input: PayeeInput) {
+  await assertWalletAvailable(companyId, input.walletAddress);
+  const payee = await prisma.payee.create({
+    data: { companyId, ...input },
+  });
+  logger.info(`Payee created: ${payee.id} (company ${companyId})`);
+  return payee;
+}
+
+/**
+ * Update a payee
+ * Past payments keep the wallet they were paid to.
+ */
+export async function updatePayee(existing: PayeeRecord, input: PayeeInput) {
+  await assertWalletAvailable(existing.companyId, input.walletAddress, existing.id);
+  return prisma.payee.update({
+    where: { id: existing.id },
+    data: input,
+  });
+}
+
+// Get a company's payee by id
+export async function getPayee(companyId: string, id: string) {
+  return prisma.payee.findFirst({
+    where: { id, companyId },
+  });
+}
+
+// List a company's payees, optionally filtered by name, email or wallet
+export async function listPayees(companyId: string, search?: string) {
+  const term = search?.trim();
+  return prisma.payee.findMany({
+    where: {
+      companyId,
+      ...(term
+        ? {
+            OR: [
+              { name: { contains: term, mode: "insensitive" as const } },
+              { email: { contains: term, mode: "insensitive" as const } },
+              { walletAddress: { contains: term.toLowerCase() } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Look up a company's payees by id and by wallet
+ * @param companyId - Company that owns the payees
+ * @param ids - Payee ids referenced by payroll lines
+ * @param wallets - Lower-case wallets of lines without a payee id
+ */
+export async function lookupPayees(companyId: string, ids: string[], wallets: string[] = []) {
+  const payees =
+    ids.length > 0 || wallets.length > 0
+      ? await prisma.payee.findMany({
+          where: {
+            companyId,
+            OR: [{ id: { in: ids } }, { walletAddress: { in: wallets } }],
+          },
+        })
+      : [];
+  return {
+    byId: new Map(payees.map((p) => [p.id, p])),
+    byWallet: new Map(payees.map((p) => [p.walletAddress, p])),
+  };
+}
+
+/**
+ * Rail destination of a payment made to a payee
+ * The withdrawal rail is picked from the payee's country and the payment currency
+ * (see selectWithdrawalRail). CRYPTO payees are settled by the on-chain payment alone
+ * (null). Payments without a payee fall back to the default counterparty (RAIL_COUNTERPARTY_ID).
+ * @param payee - Payee linked to the payment, if any
+ * @param payout - Payment currency and amount (cents)
+ */
+export function getPayeeRailDestination(
+  payee: Pick<PayeeRecord, "payoutPreference" | "railCounterpartyId" | "bankRail" | "country"> | null,
+  payout: { currency: string; amount: number },
+): Pick<RailPaymentInput, "counterpartyId" | "withdrawalRail"> | null {
+  if (payee && payee.payoutPreference !== PayoutPreference.FIAT) {
+    return null;
+  }
+  return {
+    counterpartyId: payee?.railCounterpartyId ?? undefined,
+    withdrawalRail: selectWithdrawalRail({
+      ...payout,
+      country: payee?.country,
+      preferred: payee?.bankRail,
+    }),
+  };
+}
+
+// Delete a payee (payments keep their recipient; their payee link is cleared)
+export async function deletePayee(id: string) {
+  await prisma.payee.delete({ where: { id } });
+}
+
+/**
+ * Resolve the payees referenced by a validated payroll
+ * Payee lines get the payee's wallet as recipient; raw wallet lines are linked to
+ * the payee that owns that wallet, if any. Itemized lines are then paid net of the
+ * withholding rules of their payee's country (see applyWithholding).
+ * @param companyId - Company submitting the payroll
+ * @param input - Output of validatePayrollInput
+ */
+export async function resolvePayrollPayees(
+  companyId: string,
+  input: CreatePayrollInput,
+): Promise<PayrollValidationResult> {
+  const payeeIds = input.payments.flatMap((p) => (p.payeeId ? [p.payeeId] : []));
+  const wallets = input.payments.flatMap((p) => (!p.payeeId && p.recipient ? [p.recipient] : []));
+
+  const { byId, byWallet } = await lookupPayees(companyId, payeeIds, wallets);
+
+  const errors: PayrollValidationError[] = [];
+  const payments = input.payments.map((line, index) => {
+    if (!line.payeeId) {
+      return { ...line, payeeId: byWallet.get(line.recipient ?? "")?.id };
+    }
+
+    const payee = byId.get(line.payeeId);
+    if (!payee) {
+      errors.push({ index, field: "payeeId", message: `Payee not found: ${line.payeeId}` });
+      return line;
+    }
+    if (line.recipient && line.recipient !== payee.walletAddress) {
+      errors.push({
+        index,
+        field: "recipient",
+        message: `Recipient ${line.recipient} does not match the wallet of payee ${line.payeeId}`,
+      });
+    }
+    return { ...line, recipient: payee.walletAddress };
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return applyWithholding(companyId, { ...input, payments });
+}
@@ -1,38 +1,58 @@
 import { prisma } from "../dbClient.js";
 import { PaymentStatus } from "../domain/payment.js";
+import type { FxQuote } from "./fxService.js";
+import type { PayrollLineItemInput } from "./payrollValidation.js";
 
 // Input type to create payments for a payroll
 export type CreatePaymentInput = {
   payrollId: string;
   amount: number;
   currency: string;
+  settlementAmount?: number; // Payroll currency cents (defaults to amount)
+  fx?: FxQuote | null; // Quote used when the payment currency differs from the payroll's
   recipient?: string;
+  payeeId?: string;
+  items?: PayrollLineItemInput[]; // Gross-to-net line items (amount is their net)
 };
 
+function paymentData(p: CreatePaymentInput) {
+  return {
+    payrollId: p.payrollId,
+    amount: p.amount,
+    currency: p.currency,
+    settlementAmount: p.settlementAmount ?? p.amount,
+    fxRate: p.fx?.rate,
+    fxSource: p.fx?.source,
+    fxQuotedAt: p.fx?.quotedAt,
+    status: PaymentStatus.PENDING,
+    recipient: p.recipient,
+    payeeId: p.payeeId,
+  };
+}
+
 // Create many payments for a given payroll
+// Payments with line items are created one by one (in order) with their items
 export async function createManyPayments(
   inputs: CreatePaymentInput[],
 ) {
-  return prisma.outboundPayment.createMany({
-    data: inputs.map((p) => ({
-      payrollId: p.payrollId,
-      amount: p.amount,
-      currency: p.currency,
-      status: PaymentStatus.PENDING,
-      recipient: p.recipient,
-    })),
-  });
-}
+  if (!inputs.some((p) => p.items)) {
+    return prisma.outboundPayment.createMany({ data: inputs.map(paymentData) });
+  }
 
-// Update status for all payments of a payroll
-export async function updatePayrollPaymentsStatus(
-  payrollId: string,
-  status: string,
-) {
-  return prisma.outboundPayment.updateMany({
-    where: { payrollId },
-    data: { status },
-  });
+  const created = await prisma.$transaction(
+    inputs.map((p) =>
+      prisma.outboundPayment.create({
+        data: {
+          ...paymentData(p),
+          lineItems: p.items
+            ? { create: p.items.map((item, position) => ({ position, ...item })) }
+            : undefined,
+        },
+        select: { id: true },
+      }),
+    ),
+  );
+  return { count: created.length };
 }
 
 // Get all payments for a payroll (used by payroll detail)
@@ -0,0 +1,307 @@
+import { prisma } from "../dbClient.js";
+import {
+  PayrollApprovalDecision,
+  PayrollEventActor,
+  PayrollStatus,
+  userActor,
+  type PayrollApprovalDecisionType,
+  type PayrollStatusType,
+} from "../domain/payroll.js";
+import { PayrollJobType } from "../domain/payrollJob.js";
+import { UserRole } from "../domain/user.js";
+import { createPayroll, getPayrollById } from "./payrollService.js";
+import { transitionPayroll } from "./payrollStateService.js";
+import { enqueuePayrollJob } from "./payrollJobService.js";
+import { checkPayrollSpendingLimits, lockCompanySpending } from "./spendingLimitService.js";
+import type { CreatePayrollInput } from "./payrollValidation.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll Approval Service
+ * Company payrolls start as DRAFT and need N-of-M approvals from company users
+ * (N = Company.payrollApprovalsRequired, M = company users) before execution.
+ * The submitter of a draft cannot approve it, unless no other company user can (a company with a
+ * single user), and N is capped at the number of users who can; a single rejection rejects the
+ * payroll.
+ * Only the company owner can change N, and each change is recorded.
+ */
+
+// Policy changes returned with the policy
+const RECENT_POLICY_CHANGES = 20;
+
+/**
+ * Create a DRAFT payroll awaiting approvals
+ * @param companyId - Owning company
+ * @param input - Validated payroll submission (amounts in cents)
+ * @param createdById - Submitting user (omitted for scheduled payrolls)
+ */
+export async function createPayrollDraft(
+  companyId: string,
+  input: CreatePayrollInput,
+  createdById?: string,
+) {
+  const payroll = await createPayroll(input, {
+    companyId,
+    createdById,
+    status: PayrollStatus.DRAFT,
+    actor: createdById ? userActor(createdById) : PayrollEventActor.SCHEDULER,
+  });
+  logger.info(`Payroll draft ${payroll.id} submitted for approval (company ${companyId})`);
+  return payroll;
+}
+
+/**
+ * Get the approval policy of a company
+ * @returns Required approvals (N) and number of users who can approve (M)
+ */
+export async function getApprovalPolicy(companyId: string) {
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { payrollApprovalsRequired: true, _count: { select: { users: true } } },
+  });
+  if (!company) {
+    throw new NotFoundError(`Company not found: ${companyId}`, "COMPANY_NOT_FOUND");
+  }
+  return {
+    approvalsRequired: company.payrollApprovalsRequired,
+    approvers: company._count.users,
+  };
+}
+
+/**
+ * Approval policy of a company with its most recent changes
+ */
+export async function getApprovalPolicyWithHistory(companyId: string) {
+  const policy = await getApprovalPolicy(companyId);
+  const changes = await prisma.payrollApprovalPolicyChange.findMany({
+    where: { companyId },
+    orderBy: { createdAt: "desc" },
+    take: RECENT_POLICY_CHANGES,
+  });
+  return {
+    ...policy,
+    changes: changes.map((change) => ({
+      previousApprovalsRequired: change.previousApprovalsRequired,
+      approvalsRequired: change.approvalsRequired,
+      changedBy: change.changedBy,
+      createdAt: change.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Set the number of approvals a company requires
+ * @param userId - Company user making the change; must be the company owner
+ * @param approvalsRequired - N, between 1 and the number of company users
+ * @throws ForbiddenError when the user is not the company owner
+ */
+export async function setApprovalPolicy(companyId: string, userId: string, approvalsRequired: unknown) {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, companyId },
+    select: { role: true },
+  });
+  if (user?.role !== UserRole.OWNER) {
+    throw new ForbiddenError("Only the company owner can change the approval policy", "OWNER_REQUIRED");
+  }
+
+  const { approvalsRequired: previous, approvers } = await getApprovalPolicy(companyId);
+  if (
+    typeof approvalsRequired !== "number" ||
+    !Number.isInteger(approvalsRequired) ||
+    approvalsRequired < 1 ||
+    approvalsRequired > approvers
+  ) {
+    throw new BadRequestError(
+      `approvalsRequired must be an integer between 1 and ${approvers} (company users)`,
+      "INVALID_APPROVAL_POLICY",
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.company.update({
+      where: { id: companyId },
+      data: { payrollApprovalsRequired: approvalsRequired },
+    }),
+    prisma.payrollApprovalPolicyChange.create({
+      data: {
+        companyId,
+        previousApprovalsRequired: previous,
+        approvalsRequired,
+        changedBy: userActor(userId),
+      },
+    }),
+  ]);
+  logger.info(
+    `Payroll approval policy for company ${companyId} changed from ${previous} to ${approvalsRequired}-of-${approvers} by user ${userId}`,
+  );
+  return getApprovalPolicyWithHistory(companyId);
+}
+
+/**
+ * Approval inbox of a user
+ * @returns Drafts submitted by others that the user has not decided on yet, and approved
+ *          payrolls awaiting execution
+ */
+export async function getApprovalInbox(companyId: string, userId: string) {
+  const { approvalsRequired, approvers } = await getApprovalPolicy(companyId);
+
+  const include = {
+    payments: true,
+    approvals: {
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: "asc" as const },
+    },
+  };
+
+  const [pending, approved] = await Promise.all([
+    prisma.payroll.findMany({
+      where: {
+        companyId,
+        status: PayrollStatus.DRAFT,
+        approvals: { none: { userId } },
+        // The sole user of a company approves their own drafts
+        ...(approvers > 1 ? { OR: [{ createdById: null }, { createdById: { not: userId } }] } : {}),
+      },
+      include,
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.payroll.findMany({
+      where: { companyId, status: PayrollStatus.APPROVED },
+      include,
+      orderBy: { updatedAt: "asc" },
+    }),
+  ]);
+
+  return { approvalsRequired, approvers, pending, approved };
+}
+
+/**
+ * Record a user's approval or rejection of a DRAFT payroll
+ * The payroll becomes APPROVED once enough distinct users approve, REJECTED on any rejection.
+ * The submitter of a draft can reject it (to withdraw it) but only approve it when no other
+ * company user can. Approvals needed are capped at the users who can approve the draft, so a
+ * policy set before the submitter could not approve never leaves a draft stuck.
+ * @returns Updated payroll
+ * @throws ForbiddenError when the submitter approves their own draft while another user can
+ */
+export async function decidePayroll(
+  companyId: string,
+  userId: string,
+  payrollId: string,
+  decision: PayrollApprovalDecisionType,
+  comment?: string,
+) {
+  const { approvalsRequired, approvers } = await getApprovalPolicy(companyId);
+
+  const status = await prisma.$transaction(async (tx) => {
+    const payroll = await tx.payroll.findFirst({
+      where: { id: payrollId, companyId },
+    });
+    if (!payroll) {
+      throw new NotFoundError(`Payroll not found: ${payrollId}`);
+    }
+    if (payroll.status !== PayrollStatus.DRAFT) {
+      throw new ConflictError(
+        `Payroll ${payrollId} is ${payroll.status} and no longer accepts decisions`,
+        "PAYROLL_NOT_DRAFT",
+      );
+    }
+    const otherApprovers = payroll.createdById ? approvers - 1 : approvers;
+    if (decision === PayrollApprovalDecision.APPROVED && payroll.createdById === userId && otherApprovers > 0) {
+      throw new ForbiddenError(
+        "The submitter of a payroll cannot approve it; another company user must",
+        "SELF_APPROVAL_NOT_ALLOWED",
+      );
+    }
+
+    const existing = await tx.payrollApproval.findUnique({
+      where: { payrollId_userId: { payrollId, userId } },
+    });
+    if (existing) {
+      throw new ConflictError(
+        `You already ${existing.decision.toLowerCase()} payroll ${payrollId}`,
+        "ALREADY_DECIDED",
+      );
+    }
+
+    await tx.payrollApproval.create({
+      data: { payrollId, userId, decision, comment },
+    });
+
+    let nextStatus: PayrollStatusType = PayrollStatus.DRAFT;
+    if (decision === PayrollApprovalDecision.REJECTED) {
+      nextStatus = PayrollStatus.REJECTED;
+    } else {
+      const approvals = await tx.payrollApproval.count({
+        where: { payrollId, decision: PayrollApprovalDecision.APPROVED },
+      });
+      if (approvals >= Math.max(1, Math.min(approvalsRequired, otherApprovers))) {
+        nextStatus = PayrollStatus.APPROVED;
+      }
+    }
+
+    if (nextStatus !== PayrollStatus.DRAFT) {
+      // Guard on DRAFT so a concurrent decision cannot flip the outcome twice
+      await transitionPayroll(
+        payrollId,
+        nextStatus,
+        { actor: userActor(userId), reason: comment },
+        { from: [PayrollStatus.DRAFT], code: "PAYROLL_NOT_DRAFT", tx },
+      );
+    }
+    return nextStatus;
+  });
+
+  logger.info(`Payroll ${payrollId} ${decision.toLowerCase()} by user ${userId} (status: ${status})`);
+  return getPayrollById(payrollId);
+}
+
+/**
+ * Queue the execution of an APPROVED payroll
+ * The payroll is claimed atomically (APPROVED -> PENDING) together with its job, so it can
+ * only be executed once; the job worker runs the pipeline (see runPayrollJob).
+ * @param actor - Who requested the execution (recorded on the timeline)
+ * @returns Payroll with payments and the queued job
+ * @throws SpendingLimitExceededError when the payroll would exceed the company's spending limits
+ */
+export async function executeApprovedPayroll(
+  companyId: string,
+  payrollId: string,
+  actor: string = PayrollEventActor.SYSTEM,
+) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: { status: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  if (payroll.status !== PayrollStatus.APPROVED) {
+    throw new ConflictError(
+      `Payroll ${payrollId} is ${payroll.status}; only APPROVED payrolls can be executed`,
+      "PAYROLL_NOT_APPROVED",
+    );
+  }
+
+  const job = await prisma.$transaction(async (tx) => {
+    // Runs of a company are checked one at a time, so they cannot jointly exceed a limit
+    await lockCompanySpending(tx, companyId);
+    await checkPayrollSpendingLimits(payrollId, tx);
+    await transitionPayroll(
+      payrollId,
+      PayrollStatus.PENDING,
+      { actor, reason: "Execution requested" },
+      { from: [PayrollStatus.APPROVED], code: "PAYROLL_NOT_APPROVED", tx },
+    );
+    return enqueuePayrollJob(payrollId, PayrollJobType.EXECUTE, actor, tx);
+  });
+
+  logger.info(`Execution of approved payroll ${payrollId} queued (job ${job.id})`);
+  return { payroll: (await getPayrollById(payrollId))!, job };
+}
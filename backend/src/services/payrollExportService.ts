@@ -0,0 +1,315 @@
+import { formatUnits } from "ethers";
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import { PayrollEventEntity } from "../domain/payroll.js";
+import { PaymentStatus, SETTLED_PAYMENT_STATUSES, summarizeLineItems } from "../domain/payment.js";
+import { settlementGrossToNet } from "./fxService.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+
+/**
+ * Payroll Export Service
+ * Renders a payroll and its payments for accounting tools: a detailed CSV, a QuickBooks IIF
+ * general journal, a Xero bank statement CSV and a double-entry journal CSV.
+ * Ledger amounts are the settlement amounts in the payroll currency; the accounting formats
+ * only contain payments whose funds left the treasury (ONCHAIN_PAID, RAIL_PROCESSING, PAID).
+ * Payments with line items are booked gross to net: gross pay to salaries expense, withheld
+ * tax and deductions to liability accounts, reimbursements to their own expense account.
+ */
+
+export const PayrollExportFormat = {
+  CSV: "csv", // Every payment with its on-chain, FX and Rail details
+  QUICKBOOKS_IIF: "iif", // QuickBooks Desktop general journal
+  XERO_CSV: "xero", // Xero bank statement import for the treasury account
+  JOURNAL: "journal", // Double-entry journal (debit salaries expense, credit treasury)
+} as const;
+
+export type PayrollExportFormatType = (typeof PayrollExportFormat)[keyof typeof PayrollExportFormat];
+
+export type PayrollExportFile = {
+  filename: string;
+  contentType: string;
+  body: string;
+};
+
+type ExportPayroll = Awaited<ReturnType<typeof loadPayroll>>;
+
+type ExportPayment = ExportPayroll["payments"][number] & {
+  paidAt: Date;
+};
+
+/**
+ * Whether a string is a supported export format
+ */
+export function isPayrollExportFormat(format: string): format is PayrollExportFormatType {
+  return (Object.values(PayrollExportFormat) as string[]).includes(format);
+}
+
+async function loadPayroll(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    include: {
+      payments: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          payee: { select: { name: true } },
+          lineItems: { orderBy: { position: "asc" } },
+        },
+      },
+    },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  return payroll;
+}
+
+/**
+ * Add the time each payment settled on-chain, from the payroll timeline (falls back to its last update)
+ */
+export async function withPaidAt<T extends { id: string; updatedAt: Date }>(
+  payrollId: string,
+  payments: T[],
+): Promise<Array<T & { paidAt: Date }>> {
+  const events = await prisma.payrollEvent.findMany({
+    where: { payrollId, entity: PayrollEventEntity.PAYMENT, toStatus: PaymentStatus.ONCHAIN_PAID },
+    orderBy: { createdAt: "asc" },
+    select: { paymentId: true, createdAt: true },
+  });
+  const paidAt = new Map(events.map((e) => [e.paymentId, e.createdAt]));
+  return payments.map((p) => ({ ...p, paidAt: paidAt.get(p.id) ?? p.updatedAt }));
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function formatNetworkFee(fee: string | null): string {
+  return fee ? formatUnits(BigInt(fee), getCurrentNetworkConfig().nativeCurrency.decimals) : "";
+}
+
+// Gross-to-net and treasury transaction details carried into memo and description fields
+function paymentReference(payment: ExportPayment): string {
+  const fee = formatNetworkFee(payment.networkFee);
+  const totals = payment.lineItems.length > 0 ? summarizeLineItems(payment.lineItems) : null;
+  return [
+    totals &&
+      `gross ${formatCents(totals.gross)} ${payment.currency}, withholding ${formatCents(totals.withholding)}, deductions ${formatCents(totals.deductions)}, reimbursements ${formatCents(totals.reimbursements)}`,
+    payment.txHash && `tx ${payment.txHash}`,
+    fee && `fee ${fee} ${getCurrentNetworkConfig().nativeCurrency.symbol}`,
+    payment.fxRate && `${formatCents(payment.amount)} ${payment.currency} at ${payment.fxRate}`,
+    payment.railWithdrawalId && `Rail ${payment.railWithdrawalId}`,
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+function payeeLabel(payment: ExportPayment): string {
+  return payment.payee?.name ?? payment.recipient ?? "Unknown";
+}
+
+// Line items as one text cell, e.g. "EARNING Salary 5000.00; WITHHOLDING Income tax 1000.00"
+function lineItemsText(payment: ExportPayment): string {
+  return payment.lineItems
+    .map((item) => `${item.type} ${item.description} ${formatCents(item.amount)}`)
+    .join("; ");
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// CSV cell, quoted when needed; text that a spreadsheet would run as a formula is prefixed with '
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// IIF fields are tab-separated and cannot contain tabs or line breaks
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
+
+function settledPayments(payrollId: string, payments: ExportPayment[]): ExportPayment[] {
+  const settled = payments.filter((p) => SETTLED_PAYMENT_STATUSES.includes(p.status));
+  if (settled.length === 0) {
+    throw new ConflictError(
+      `Payroll ${payrollId} has no settled payments to export`,
+      "PAYROLL_NOT_SETTLED",
+    );
+  }
+  return settled;
+}
+
+function renderCsv(payroll: ExportPayroll, payments: ExportPayment[]): string {
+  const feeSymbol = getCurrentNetworkConfig().nativeCurrency.symbol;
+  return toCsv([
+    [
+      "Payroll ID", "Payroll status", "Payment ID", "Payment status", "Payee", "Recipient",
+      "Amount", "Currency", "Gross", "Withholding", "Deductions", "Reimbursements", "Line items",
+      "Settlement amount", "Settlement currency", "FX rate", "FX source",
+      "Tx hash", "Request tx hash", `Network fee (${feeSymbol})`, "Withdrawal rail",
+      "Rail withdrawal ID", "Rail status", "Failure reason", "Paid at",
+    ],
+    ...payments.map((p) => {
+      const totals = p.lineItems.length > 0 ? summarizeLineItems(p.lineItems) : null;
+      return [
+        payroll.id,
+        payroll.status,
+        p.id,
+        p.status,
+        p.payee?.name,
+        p.recipient,
+        formatCents(p.amount),
+        p.currency,
+        formatCents(totals?.gross ?? p.amount),
+        formatCents(totals?.withholding ?? 0),
+        formatCents(totals?.deductions ?? 0),
+        formatCents(totals?.reimbursements ?? 0),
+        lineItemsText(p),
+        formatCents(p.settlementAmount),
+        payroll.currency,
+        p.fxRate,
+        p.fxSource,
+        p.txHash,
+        p.requestTxHash,
+        formatNetworkFee(p.networkFee),
+        p.withdrawalRail,
+        p.railWithdrawalId,
+        p.railStatus,
+        p.failureReason,
+        SETTLED_PAYMENT_STATUSES.includes(p.status) ? p.paidAt.toISOString() : "",
+      ];
+    }),
+  ]);
+}
+
+// Ledger lines of a settled payment in the payroll currency, positive for debits: gross pay and
+// reimbursements are expenses, withheld tax and deductions are owed to third parties.
+// They sum to the settlement amount credited to the treasury.
+function ledgerLines(payment: ExportPayment): Array<{ account: string; amount: number }> {
+  const totals = settlementGrossToNet(payment);
+  return [
+    { account: config.accountingExpenseAccount, amount: totals.gross },
+    { account: config.accountingReimbursementAccount, amount: totals.reimbursements },
+    { account: config.accountingWithholdingAccount, amount: -totals.withholding },
+    { account: config.accountingDeductionsAccount, amount: -totals.deductions },
+  ].filter((line, index) => index === 0 || line.amount !== 0);
+}
+
+// One GENERAL JOURNAL transaction: treasury credit on the TRNS line, expense and liability
+// splits per payment
+function renderIif(payroll: ExportPayroll, payments: ExportPayment[]): string {
+  const settled = settledPayments(payroll.id, payments);
+  const total = settled.reduce((sum, p) => sum + p.settlementAmount, 0);
+  const last = settled.reduce((latest, p) => (p.paidAt > latest ? p.paidAt : latest), settled[0].paidAt);
+  const date = `${String(last.getUTCMonth() + 1).padStart(2, "0")}/${String(last.getUTCDate()).padStart(2, "0")}/${last.getUTCFullYear()}`;
+  const memo = iifField(`Payroll ${payroll.id}${payroll.memo ? ` - ${payroll.memo}` : ""}`);
+
+  const lines = [
+    ["!TRNS", "TRNSID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!SPL", "SPLID", "TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM", "MEMO"],
+    ["!ENDTRNS"],
+    ["TRNS", "", "GENERAL JOURNAL", date, iifField(config.accountingTreasuryAccount), "", `-${formatCents(total)}`, payroll.id, memo],
+    ...settled.flatMap((p) =>
+      ledgerLines(p).map(({ account, amount }) => [
+        "SPL",
+        "",
+        "GENERAL JOURNAL",
+        date,
+        iifField(account),
+        iifField(payeeLabel(p)),
+        formatCents(amount),
+        payroll.id,
+        iifField(paymentReference(p)),
+      ]),
+    ),
+    ["ENDTRNS"],
+  ];
+  return lines.map((line) => line.join("\t")).join("\r\n") + "\r\n";
+}
+
+// Xero precoded bank statement: one withdrawal from the treasury account per payment
+function renderXero(payroll: ExportPayroll, payments: ExportPayment[]): string {
+  const settled = settledPayments(payroll.id, payments);
+  return toCsv([
+    ["*Date", "*Amount", "Payee", "Description", "Reference"],
+    ...settled.map((p) => [
+      `${String(p.paidAt.getUTCDate()).padStart(2, "0")}/${String(p.paidAt.getUTCMonth() + 1).padStart(2, "0")}/${p.paidAt.getUTCFullYear()}`,
+      `-${formatCents(p.settlementAmount)}`,
+      payeeLabel(p),
+      paymentReference(p) || `Payroll payment ${p.id}`,
+      payroll.id,
+    ]),
+  ]);
+}
+
+// Balanced entries: each payment debits salaries expense (gross) and reimbursements, credits
+// withheld tax, deductions and the treasury (net) in the payroll currency; its network fee
+// debits the fee account and credits the treasury in the native token
+function renderJournal(payroll: ExportPayroll, payments: ExportPayment[]): string {
+  const settled = settledPayments(payroll.id, payments);
+  const { symbol, decimals } = getCurrentNetworkConfig().nativeCurrency;
+  const rows: Array<Array<string | number | null>> = [
+    ["Date", "Entry", "Account", "Debit", "Credit", "Currency", "Description", "Payroll ID", "Payment ID", "Tx hash"],
+  ];
+
+  settled.forEach((p, index) => {
+    const entry = `${payroll.id}-${index + 1}`;
+    const description = `${payeeLabel(p)}${p.fxRate ? ` (${formatCents(p.amount)} ${p.currency} at ${p.fxRate})` : ""}${p.railWithdrawalId ? ` Rail ${p.railWithdrawalId}` : ""}`;
+    const date = isoDate(p.paidAt);
+    for (const { account, amount } of ledgerLines(p)) {
+      const [debit, credit] = amount >= 0 ? [formatCents(amount), ""] : ["", formatCents(-amount)];
+      rows.push([date, entry, account, debit, credit, payroll.currency, description, payroll.id, p.id, p.txHash]);
+    }
+    const amount = formatCents(p.settlementAmount);
+    rows.push([date, entry, config.accountingTreasuryAccount, "", amount, payroll.currency, description, payroll.id, p.id, p.txHash]);
+
+    if (p.networkFee && BigInt(p.networkFee) > 0n) {
+      const fee = formatUnits(BigInt(p.networkFee), decimals);
+      const feeDescription = `Network fee for ${p.id}`;
+      rows.push([date, `${entry}-fee`, config.accountingFeeAccount, fee, "", symbol, feeDescription, payroll.id, p.id, p.txHash]);
+      rows.push([date, `${entry}-fee`, config.accountingTreasuryAccount, "", fee, symbol, feeDescription, payroll.id, p.id, p.txHash]);
+    }
+  });
+
+  return toCsv(rows);
+}
+
+/**
+ * Export a payroll of a company in an accounting format
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ * @param format - Export format
+ * @throws NotFoundError when the payroll does not belong to the company
+ * @throws ConflictError PAYROLL_NOT_SETTLED when an accounting format has no settled payment to book
+ */
+export async function exportPayroll(
+  companyId: string,
+  payrollId: string,
+  format: PayrollExportFormatType,
+): Promise<PayrollExportFile> {
+  const payroll = await loadPayroll(companyId, payrollId);
+  const payments = await withPaidAt(payroll.id, payroll.payments);
+
+  switch (format) {
+    case PayrollExportFormat.CSV:
+      return { filename: `payroll-${payroll.id}.csv`, contentType: "text/csv; charset=utf-8", body: renderCsv(payroll, payments) };
+    case PayrollExportFormat.QUICKBOOKS_IIF:
+      return { filename: `payroll-${payroll.id}.iif`, contentType: "text/plain; charset=utf-8", body: renderIif(payroll, payments) };
+    case PayrollExportFormat.XERO_CSV:
+      return { filename: `payroll-${payroll.id}-xero.csv`, contentType: "text/csv; charset=utf-8", body: renderXero(payroll, payments) };
+    case PayrollExportFormat.JOURNAL:
+      return { filename: `payroll-${payroll.id}-journal.csv`, contentType: "text/csv; charset=utf-8", body: renderJournal(payroll, payments) };
+  }
+}
@@ -0,0 +1,299 @@
+import { parse } from "csv-parse/sync";
+import ExcelJS from "exceljs";
+import { logger } from "../utils/logger.js";
+import {
+  isSupportedPayrollCurrency,
+  validatePayrollLine,
+  type CreatePayrollInput,
+  type PayrollValidationError,
+} from "./payrollValidation.js";
+
+/**
+ * Payroll Import Service
+ * Parses CSV/XLSX spreadsheets into payroll drafts with a per-row validation report.
+ * Nothing is written to the database here; a valid draft is submitted separately.
+ */
+
+// Maximum data rows accepted in one spreadsheet
+export const MAX_IMPORT_ROWS = 1000;
+
+export type PayrollImportFormat = "csv" | "xlsx";
+
+// Header aliases accepted for each column (compared lower-cased and trimmed)
+const COLUMN_ALIASES: Record<"recipient" | "amount" | "currency", string[]> = {
+  recipient: ["recipient", "wallet", "address", "wallet_address", "payee", "email"],
+  amount: ["amount", "amount_usd", "net_amount"],
+  currency: ["currency"],
+};
+
+type RawRow = Record<string, string>;
+
+// Directory entry used to resolve recipient cells holding a payee email or name
+export type ImportPayee = {
+  id: string;
+  name: string;
+  email: string | null;
+  walletAddress: string;
+};
+
+// One row of the validation report
+export type PayrollImportRow = {
+  row: number; // Spreadsheet row number (header is row 1)
+  recipient: string; // Wallet address (resolved from the payee when the cell names one)
+  payeeId: string | null;
+  payeeName: string | null;
+  amount: number | null; // Cents, null when the amount could not be parsed
+  currency: string;
+  valid: boolean;
+  errors: PayrollValidationError[];
+};
+
+export type PayrollImportReport = {
+  format: PayrollImportFormat;
+  currency: string;
+  valid: boolean;
+  summary: {
+    rows: number;
+    validRows: number;
+    invalidRows: number;
+    totals: Record<string, number>; // Sum of valid rows per currency, in cents
+  };
+  rows: PayrollImportRow[];
+  errors: PayrollValidationError[]; // File-level problems (missing columns, too many rows)
+  draft: CreatePayrollInput | null; // Ready to submit only when every row is valid
+};
+
+/**
+ * Detect spreadsheet format from file name or MIME type
+ * @returns Format, or null when unsupported
+ */
+export function detectImportFormat(
+  filename: string,
+  mimeType?: string,
+): PayrollImportFormat | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".csv") || mimeType === "text/csv") {
+    return "csv";
+  }
+  if (
+    lower.endsWith(".xlsx") ||
+    mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  ) {
+    return "xlsx";
+  }
+  return null;
+}
+
+/**
+ * Parse CSV content into header-keyed rows
+ */
+function parseCsv(buffer: Buffer): RawRow[] {
+  return parse(buffer, {
+    columns: (header: string[]) => header.map((h) => h.trim().toLowerCase()),
+    skip_empty_lines: true,
+    trim: true,
+    bom: true,
+  }) as RawRow[];
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook into header-keyed rows
+ */
+async function parseXlsx(buffer: Buffer): Promise<RawRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, col) => {
+    headers[col] = cell.text.trim().toLowerCase();
+  });
+
+  const rows: RawRow[] = [];
+  for (let i = 2; i <= sheet.rowCount; i++) {
+    const row = sheet.getRow(i);
+    if (!row.hasValues) {
+      continue;
+    }
+    const record: RawRow = {};
+    headers.forEach((header, col) => {
+      if (header) {
+        record[header] = row.getCell(col).text.trim();
+      }
+    });
+    rows.push(record);
+  }
+  return rows;
+}
+
+/**
+ * Pick the value of a column using its aliases
+ */
+function pickColumn(row: RawRow, column: keyof typeof COLUMN_ALIASES): string {
+  for (const alias of COLUMN_ALIASES[column]) {
+    if (row[alias] !== undefined) {
+      return row[alias];
+    }
+  }
+  return "";
+}
+
+/**
+ * Convert a spreadsheet amount (major units, e.g. "1,250.50") to cents
+ * @returns Cents, or an error message
+ */
+function parseAmountToCents(value: string): { cents: number } | { error: string } {
+  const normalized = value.replace(/[,\s$]/g, "");
+  if (normalized === "") {
+    return { error: "Amount is required" };
+  }
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) {
+    return { error: `Amount is not a number: ${value}` };
+  }
+  const [, decimals = ""] = normalized.split(".");
+  if (decimals.length > 2) {
+    return { error: `Amount has more than 2 decimal places: ${value}` };
+  }
+  const cents = Math.round(Number(normalized) * 100);
+  if (cents <= 0) {
+    return { error: "Amount must be greater than 0" };
+  }
+  return { cents };
+}
+
+/**
+ * Find the payee a recipient cell refers to (wallet, email or exact name, case-insensitive)
+ */
+function matchPayee(value: string, payees: ImportPayee[]): ImportPayee | undefined {
+  const needle = value.trim().toLowerCase();
+  if (needle === "") {
+    return undefined;
+  }
+  return (
+    payees.find((p) => p.walletAddress === needle) ??
+    payees.find((p) => p.email === needle) ??
+    payees.find((p) => p.name.toLowerCase() === needle)
+  );
+}
+
+/**
+ * Parse a payroll spreadsheet and validate every row
+ * @param buffer - Uploaded file contents
+ * @param format - Spreadsheet format
+ * @param currency - Payroll currency (rows without a currency column inherit it)
+ * @param payees - Company payee directory; recipient cells may hold a payee's wallet, email or name
+ * @returns Validation report with a draft when all rows are valid
+ */
+export async function importPayrollSpreadsheet(
+  buffer: Buffer,
+  format: PayrollImportFormat,
+  currency: string = "USD",
+  payees: ImportPayee[] = [],
+): Promise<PayrollImportReport> {
+  const payrollCurrency = currency.toUpperCase();
+  const fileErrors: PayrollValidationError[] = [];
+
+  if (!isSupportedPayrollCurrency(payrollCurrency)) {
+    fileErrors.push({ field: "currency", message: `Unsupported payroll currency: ${currency}` });
+  }
+
+  let rawRows: RawRow[] = [];
+  try {
+    rawRows = format === "csv" ? parseCsv(buffer) : await parseXlsx(buffer);
+  } catch (error) {
+    logger.warn(`Failed to parse ${format} payroll file`, error);
+    fileErrors.push({
+      field: "file",
+      message: `Could not parse ${format.toUpperCase()} file: ${error instanceof Error ? error.message : "Unknown error"}`,
+    });
+  }
+
+  if (rawRows.length === 0 && fileErrors.length === 0) {
+    fileErrors.push({ field: "file", message: "File contains no payroll rows" });
+  }
+
+  if (rawRows.length > MAX_IMPORT_ROWS) {
+    fileErrors.push({
+      field: "file",
+      message: `File has ${rawRows.length} rows; the maximum is ${MAX_IMPORT_ROWS}`,
+    });
+  }
+
+  if (rawRows.length > 0) {
+    const sample = rawRows[0];
+    for (const column of ["recipient", "amount"] as const) {
+      if (!COLUMN_ALIASES[column].some((alias) => alias in sample)) {
+        fileErrors.push({ field: column, message: `Missing required column: ${column}` });
+      }
+    }
+  }
+
+  const rows: PayrollImportRow[] =
+    fileErrors.length > 0
+      ? []
+      : rawRows.map((raw, i) => {
+          const rowNumber = i + 2;
+          const cell = pickColumn(raw, "recipient");
+          const payee = matchPayee(cell, payees);
+          const recipient = payee?.walletAddress ?? cell;
+          const rowCurrency = (pickColumn(raw, "currency") || payrollCurrency).toUpperCase();
+          const errors: PayrollValidationError[] = [];
+
+          const parsedAmount = parseAmountToCents(pickColumn(raw, "amount"));
+          const amount = "cents" in parsedAmount ? parsedAmount.cents : null;
+          if ("error" in parsedAmount) {
+            errors.push({ field: "amount", message: parsedAmount.error });
+          }
+
+          // Reuse JSON payroll validation for recipient/currency (amount checked above)
+          errors.push(
+            ...validatePayrollLine({ recipient, amount: amount ?? 1, currency: rowCurrency }),
+          );
+
+          return {
+            row: rowNumber,
+            recipient,
+            payeeId: payee?.id ?? null,
+            payeeName: payee?.name ?? null,
+            amount,
+            currency: rowCurrency,
+            valid: errors.length === 0,
+            errors,
+          };
+        });
+
+  const validRows = rows.filter((r) => r.valid);
+  const valid = fileErrors.length === 0 && validRows.length === rows.length;
+
+  return {
+    format,
+    currency: payrollCurrency,
+    valid,
+    summary: {
+      rows: rows.length,
+      validRows: validRows.length,
+      invalidRows: rows.length - validRows.length,
+      totals: validRows.reduce<Record<string, number>>((totals, r) => {
+        totals[r.currency] = (totals[r.currency] ?? 0) + (r.amount ?? 0);
+        return totals;
+      }, {}),
+    },
+    rows,
+    errors: fileErrors,
+    draft: valid
+      ? {
+          currency: payrollCurrency,
+          payments: rows.map((r) => ({
+            payeeId: r.payeeId ?? undefined,
+            recipient: r.recipient.toLowerCase(),
+            amount: r.amount as number,
+            currency: r.currency,
+          })),
+        }
+      : null,
+  };
+}
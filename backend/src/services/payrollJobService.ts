@@ -0,0 +1,216 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import {
+  ACTIVE_PAYROLL_JOB_STATUSES,
+  PayrollJobStatus,
+  getPayrollJobRetryDelayMs,
+  type PayrollJobStatusType,
+  type PayrollJobStepType,
+  type PayrollJobTypeValue,
+} from "../domain/payrollJob.js";
+import { SETTLED_PAYMENT_STATUSES } from "../domain/payment.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll Job Service
+ * DB-backed queue of payroll pipeline runs. A worker claims a job with a lease, records a
+ * checkpoint after every pipeline step and renews the lease while it runs; a job whose
+ * worker died is resumed from its checkpoint once the lease expires.
+ */
+
+function leaseUntil(): Date {
+  return new Date(Date.now() + config.payrollJobLeaseMs);
+}
+
+function errorMessage(error: unknown): string {
+  return (error instanceof Error ? error.message : "Unknown error").slice(0, 500);
+}
+
+/**
+ * Queue a pipeline run for a PENDING payroll
+ * @param requestedBy - Actor recorded on the payroll timeline
+ * @param tx - Run inside the caller's transaction (e.g. together with the PENDING claim)
+ * @throws ConflictError when the payroll already has a queued or running job
+ */
+export async function enqueuePayrollJob(
+  payrollId: string,
+  type: PayrollJobTypeValue,
+  requestedBy: string,
+  tx?: Prisma.TransactionClient,
+) {
+  const db = tx ?? prisma;
+
+  const active = await db.payrollJob.findFirst({
+    where: { payrollId, status: { in: [...ACTIVE_PAYROLL_JOB_STATUSES] } },
+  });
+  if (active) {
+    throw new ConflictError(
+      `Payroll ${payrollId} already has a ${active.status} job (${active.id})`,
+      "PAYROLL_JOB_ACTIVE",
+    );
+  }
+
+  const job = await db.payrollJob.create({
+    data: {
+      payrollId,
+      type,
+      requestedBy,
+      maxAttempts: config.payrollJobMaxAttempts,
+    },
+  });
+  logger.info(`Payroll job ${job.id} queued (${type} payroll ${payrollId})`);
+  return job;
+}
+
+/**
+ * Claim the next runnable job
+ * Picks a QUEUED job that is due, or a RUNNING job whose worker let its lease expire.
+ * @param workerId - Worker taking the lease
+ * @returns Claimed job, or null when there is nothing to run (or another worker won the race)
+ */
+export async function claimPayrollJob(workerId: string) {
+  const now = new Date();
+  const candidate = await prisma.payrollJob.findFirst({
+    where: {
+      OR: [
+        { status: PayrollJobStatus.QUEUED, runAfter: { lte: now } },
+        { status: PayrollJobStatus.RUNNING, lockedUntil: { lt: now } },
+      ],
+    },
+    orderBy: { runAfter: "asc" },
+  });
+  if (!candidate) {
+    return null;
+  }
+
+  // Guard on the values read so two workers cannot claim the same job
+  const claimed = await prisma.payrollJob.updateMany({
+    where: { id: candidate.id, status: candidate.status, lockedUntil: candidate.lockedUntil },
+    data: {
+      status: PayrollJobStatus.RUNNING,
+      lockedBy: workerId,
+      lockedUntil: leaseUntil(),
+      attempts: { increment: 1 },
+      startedAt: candidate.startedAt ?? now,
+    },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  if (candidate.status === PayrollJobStatus.RUNNING) {
+    logger.warn(`Resuming payroll job ${candidate.id} at ${candidate.step} (lease of ${candidate.lockedBy} expired)`);
+  }
+  return prisma.payrollJob.findUniqueOrThrow({ where: { id: candidate.id } });
+}
+
+/**
+ * Extend the lease of a running job
+ * @returns false when the worker no longer holds the job
+ */
+export async function renewPayrollJobLease(jobId: string, workerId: string): Promise<boolean> {
+  const renewed = await prisma.payrollJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: PayrollJobStatus.RUNNING },
+    data: { lockedUntil: leaseUntil() },
+  });
+  return renewed.count > 0;
+}
+
+/**
+ * Record the next step to run and renew the lease
+ * @throws ConflictError when the lease was lost (another worker resumed the job)
+ */
+export async function checkpointPayrollJob(jobId: string, workerId: string, step: PayrollJobStepType) {
+  const updated = await prisma.payrollJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: PayrollJobStatus.RUNNING },
+    data: { step, lockedUntil: leaseUntil() },
+  });
+  if (updated.count === 0) {
+    throw new ConflictError(`Lost the lease on payroll job ${jobId}`, "PAYROLL_JOB_LEASE_LOST");
+  }
+}
+
+/**
+ * Mark a job as SUCCEEDED
+ */
+export async function completePayrollJob(jobId: string, workerId: string) {
+  await prisma.payrollJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: PayrollJobStatus.RUNNING },
+    data: {
+      status: PayrollJobStatus.SUCCEEDED,
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: null,
+      finishedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Record a failed attempt: the job is queued again with backoff until maxAttempts,
+ * then marked FAILED. It keeps its checkpoint, so the next attempt resumes there.
+ * @returns New job status, or null when the worker no longer held the job
+ */
+export async function failPayrollJob(
+  job: { id: string; attempts: number; maxAttempts: number },
+  workerId: string,
+  error: unknown,
+): Promise<PayrollJobStatusType | null> {
+  const exhausted = job.attempts >= job.maxAttempts;
+  const status = exhausted ? PayrollJobStatus.FAILED : PayrollJobStatus.QUEUED;
+
+  const updated = await prisma.payrollJob.updateMany({
+    where: { id: job.id, lockedBy: workerId, status: PayrollJobStatus.RUNNING },
+    data: {
+      status,
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: errorMessage(error),
+      runAfter: exhausted ? undefined : new Date(Date.now() + getPayrollJobRetryDelayMs(job.attempts)),
+      finishedAt: exhausted ? new Date() : undefined,
+    },
+  });
+  if (updated.count === 0) {
+    return null;
+  }
+
+  logger.warn(`Payroll job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed (${status})`, error);
+  return status;
+}
+
+/**
+ * Execution progress of a payroll: its latest job and how many payments have settled
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ */
+export async function getPayrollProgress(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: {
+      id: true,
+      status: true,
+      payments: { select: { status: true } },
+      jobs: { orderBy: { createdAt: "desc" }, take: 1 },
+    },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+
+  const byStatus: Record<string, number> = {};
+  for (const payment of payroll.payments) {
+    byStatus[payment.status] = (byStatus[payment.status] ?? 0) + 1;
+  }
+
+  return {
+    payroll: { id: payroll.id, status: payroll.status },
+    job: payroll.jobs[0] ?? null,
+    payments: {
+      total: payroll.payments.length,
+      settled: payroll.payments.filter((p) => SETTLED_PAYMENT_STATUSES.includes(p.status)).length,
+      byStatus,
+    },
+  };
+}
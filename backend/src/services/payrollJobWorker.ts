@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { claimPayrollJob } from "./payrollJobService.js";
+import { runPayrollJob } from "./payrollService.js";
+
+/**
+ * Payroll Job Worker
+ * Background loop that runs queued payroll jobs.
+ * This should be called when the server starts (not on serverless deployments, where
+ * POST /internal/payroll-jobs/run drains the queue instead).
+ */
+
+// Identifies this process as the holder of a job lease
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+/**
+ * Claim and run queued jobs until the queue is empty or the deadline passes
+ * A job that is still running at the deadline keeps going; the deadline only stops new claims.
+ * @param deadline - Epoch milliseconds after which no new job is claimed
+ * @returns Number of jobs run
+ */
+export async function runQueuedPayrollJobs(deadline?: number): Promise<number> {
+  let processed = 0;
+  while (deadline === undefined || Date.now() < deadline) {
+    const job = await claimPayrollJob(workerId);
+    if (!job) {
+      break;
+    }
+    await runPayrollJob(job, workerId);
+    processed++;
+  }
+  return processed;
+}
+
+async function tick() {
+  // Skip this tick if the previous one is still running
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+  try {
+    const processed = await runQueuedPayrollJobs();
+    if (processed > 0) {
+      logger.info(`Payroll job worker ran ${processed} job(s)`);
+    }
+  } catch (error) {
+    logger.error("Payroll job worker tick failed", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the payroll job worker
+ */
+export function startPayrollJobWorker() {
+  if (!config.payrollJobWorkerEnabled) {
+    logger.info("Payroll job worker disabled (PAYROLL_JOB_WORKER_ENABLED=false)");
+    return;
+  }
+  if (timer) {
+    return;
+  }
+
+  logger.info(`Starting payroll job worker ${workerId} (every ${config.payrollJobPollIntervalMs}ms)`);
+  timer = setInterval(() => void tick(), config.payrollJobPollIntervalMs);
+  void tick();
+}
+
+/**
+ * Pick up a newly queued job without waiting for the next poll (no-op when the worker is not running)
+ */
+export function wakePayrollJobWorker() {
+  if (timer) {
+    void tick();
+  }
+}
+
+/**
+ * Stop the payroll job worker
+ */
+export function stopPayrollJobWorker() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info("Payroll job worker stopped");
+  }
+}
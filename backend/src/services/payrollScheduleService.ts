@@ -0,0 +1,543 @@
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import {
+  InsufficientFundsPolicy,
+  ScheduleFrequency,
+  ScheduleRunStatus,
+  getFirstRunAfter,
+  getNextOccurrence,
+  type ScheduleRunStatusType,
+  type ScheduleTiming,
+} from "../domain/payrollSchedule.js";
+import { PayrollEventActor, PayrollStatus } from "../domain/payroll.js";
+import { checkTreasuryBalance, usdCentsToTokenAmount } from "./contractHook.js";
+import { quotePayrollLines } from "./fxService.js";
+import { createPayrollDraft, executeApprovedPayroll } from "./payrollApprovalService.js";
+import { resolvePayrollPayees } from "./payeeService.js";
+import {
+  validatePayrollInput,
+  type CreatePayrollInput,
+  type PayrollLineInput,
+  type PayrollValidationError,
+} from "./payrollValidation.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll Schedule Service
+ * Stores recurring payroll schedules and creates the payrolls that are due.
+ * Each run submits a DRAFT payroll for approval; the scheduler queues it once approved,
+ * after checking the treasury balance again.
+ * Runs are driven by the background scheduler (payrollScheduler.ts).
+ */
+
+// Maximum schedules processed per scheduler tick
+const MAX_DUE_SCHEDULES_PER_TICK = 20;
+
+type PayrollScheduleRecord = NonNullable<Awaited<ReturnType<typeof prisma.payrollSchedule.findUnique>>>;
+type PayrollScheduleRunRecord = NonNullable<Awaited<ReturnType<typeof prisma.payrollScheduleRun.findUnique>>>;
+
+// Validated schedule fields
+export type PayrollScheduleInput = ScheduleTiming & {
+  name: string;
+  insufficientFundsPolicy: string;
+  active: boolean;
+  startAt: Date | null;
+  payroll: CreatePayrollInput;
+};
+
+export type PayrollScheduleValidationResult =
+  | { valid: true; input: PayrollScheduleInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a schedule submission
+ * @param body - Raw request body
+ * @param existing - Current schedule when updating (missing fields fall back to it)
+ */
+export function validatePayrollScheduleInput(
+  body: unknown,
+  existing?: PayrollScheduleRecord,
+): PayrollScheduleValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+
+  const errors: PayrollValidationError[] = [];
+
+  const name = pick("name", existing?.name);
+  if (typeof name !== "string" || name.trim() === "") {
+    errors.push({ field: "name", message: "Name is required" });
+  }
+
+  const frequency = pick("frequency", existing?.frequency);
+  const frequencies = Object.values(ScheduleFrequency) as string[];
+  if (typeof frequency !== "string" || !frequencies.includes(frequency.toUpperCase())) {
+    errors.push({ field: "frequency", message: `Frequency must be one of: ${frequencies.join(", ")}` });
+  }
+  const normalizedFrequency = typeof frequency === "string" ? frequency.toUpperCase() : "";
+
+  const dayOfWeek = pick("dayOfWeek", existing?.dayOfWeek ?? null);
+  const dayOfMonth = pick("dayOfMonth", existing?.dayOfMonth ?? null);
+  if (normalizedFrequency === ScheduleFrequency.MONTHLY) {
+    if (!isIntegerInRange(dayOfMonth, 1, 31)) {
+      errors.push({ field: "dayOfMonth", message: "dayOfMonth must be an integer between 1 and 31" });
+    }
+  } else if (normalizedFrequency !== "" && !isIntegerInRange(dayOfWeek, 0, 6)) {
+    errors.push({ field: "dayOfWeek", message: "dayOfWeek must be an integer between 0 (Sunday) and 6 (Saturday)" });
+  }
+
+  const runAtHour = pick("runAtHour", existing?.runAtHour ?? 9);
+  if (!isIntegerInRange(runAtHour, 0, 23)) {
+    errors.push({ field: "runAtHour", message: "runAtHour must be an integer between 0 and 23 (UTC)" });
+  }
+
+  const policy = pick("insufficientFundsPolicy", existing?.insufficientFundsPolicy ?? InsufficientFundsPolicy.DEFER);
+  const policies = Object.values(InsufficientFundsPolicy) as string[];
+  if (typeof policy !== "string" || !policies.includes(policy.toUpperCase())) {
+    errors.push({
+      field: "insufficientFundsPolicy",
+      message: `insufficientFundsPolicy must be one of: ${policies.join(", ")}`,
+    });
+  }
+
+  const active = pick("active", existing?.active ?? true);
+  if (typeof active !== "boolean") {
+    errors.push({ field: "active", message: "active must be a boolean" });
+  }
+
+  const startAt = raw.startAt;
+  let startDate: Date | null = null;
+  if (startAt !== undefined && startAt !== null) {
+    startDate = typeof startAt === "string" ? new Date(startAt) : null;
+    if (!startDate || Number.isNaN(startDate.getTime())) {
+      errors.push({ field: "startAt", message: "startAt must be an ISO 8601 date" });
+    }
+  }
+
+  const payroll = validatePayrollInput({
+    currency: pick("currency", existing?.currency),
+    memo: pick("memo", existing?.memo ?? undefined),
+    payments: pick("payments", existing ? parseTemplate(existing.template) : undefined),
+  });
+  if (!payroll.valid) {
+    errors.push(...payroll.errors);
+  }
+
+  if (errors.length > 0 || !payroll.valid) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      name: (name as string).trim(),
+      frequency: normalizedFrequency as ScheduleTiming["frequency"],
+      dayOfWeek: normalizedFrequency === ScheduleFrequency.MONTHLY ? null : (dayOfWeek as number),
+      dayOfMonth: normalizedFrequency === ScheduleFrequency.MONTHLY ? (dayOfMonth as number) : null,
+      runAtHour: runAtHour as number,
+      insufficientFundsPolicy: (policy as string).toUpperCase(),
+      active: active as boolean,
+      startAt: startDate,
+      payroll: payroll.input,
+    },
+  };
+}
+
+function parseTemplate(template: string): PayrollLineInput[] {
+  return JSON.parse(template) as PayrollLineInput[];
+}
+
+function toTiming(schedule: PayrollScheduleRecord): ScheduleTiming {
+  return {
+    frequency: schedule.frequency as ScheduleTiming["frequency"],
+    dayOfWeek: schedule.dayOfWeek,
+    dayOfMonth: schedule.dayOfMonth,
+    runAtHour: schedule.runAtHour,
+  };
+}
+
+/**
+ * Format a schedule for API responses (template parsed back into payment lines)
+ */
+export function formatPayrollSchedule(schedule: PayrollScheduleRecord) {
+  const { template, ...rest } = schedule;
+  return {
+    ...rest,
+    payments: parseTemplate(template),
+  };
+}
+
+/**
+ * Create a schedule for a company
+ * @returns Created schedule
+ */
+export async function createPayrollSchedule(companyId: string, input: PayrollScheduleInput) {
+  const now = new Date();
+  const from = input.startAt && input.startAt > now ? input.startAt : now;
+  const nextRunAt = getFirstRunAfter(input, from);
+
+  const schedule = await prisma.payrollSchedule.create({
+    data: {
+      companyId,
+      name: input.name,
+      frequency: input.frequency,
+      dayOfWeek: input.dayOfWeek,
+      dayOfMonth: input.dayOfMonth,
+      runAtHour: input.runAtHour,
+      currency: input.payroll.currency,
+      memo: input.payroll.memo,
+      template: JSON.stringify(input.payroll.payments),
+      insufficientFundsPolicy: input.insufficientFundsPolicy,
+      active: input.active,
+      nextRunAt,
+    },
+  });
+
+  logger.info(`Payroll schedule created: ${schedule.id} (${schedule.frequency}, next run ${nextRunAt.toISOString()})`);
+  return schedule;
+}
+
+/**
+ * Update a schedule
+ * The next run is recomputed when timing changes or the schedule is re-activated.
+ */
+export async function updatePayrollSchedule(
+  existing: PayrollScheduleRecord,
+  input: PayrollScheduleInput,
+) {
+  const timingChanged =
+    input.frequency !== existing.frequency ||
+    input.dayOfWeek !== existing.dayOfWeek ||
+    input.dayOfMonth !== existing.dayOfMonth ||
+    input.runAtHour !== existing.runAtHour;
+  const reactivated = input.active && !existing.active;
+
+  let nextRunAt = existing.nextRunAt;
+  let deferredFrom = existing.deferredFrom;
+  if (timingChanged || reactivated || input.startAt) {
+    const now = new Date();
+    const from = input.startAt && input.startAt > now ? input.startAt : now;
+    nextRunAt = getFirstRunAfter(input, from);
+    deferredFrom = null;
+  }
+
+  return prisma.payrollSchedule.update({
+    where: { id: existing.id },
+    data: {
+      name: input.name,
+      frequency: input.frequency,
+      dayOfWeek: input.dayOfWeek,
+      dayOfMonth: input.dayOfMonth,
+      runAtHour: input.runAtHour,
+      currency: input.payroll.currency,
+      memo: input.payroll.memo ?? null,
+      template: JSON.stringify(input.payroll.payments),
+      insufficientFundsPolicy: input.insufficientFundsPolicy,
+      active: input.active,
+      nextRunAt,
+      deferredFrom,
+    },
+  });
+}
+
+// Get a company's schedule by id
+export async function getPayrollSchedule(companyId: string, id: string) {
+  return prisma.payrollSchedule.findFirst({
+    where: { id, companyId },
+  });
+}
+
+// List a company's schedules
+export async function listPayrollSchedules(companyId: string) {
+  return prisma.payrollSchedule.findMany({
+    where: { companyId },
+    orderBy: { nextRunAt: "asc" },
+  });
+}
+
+// Delete a schedule (its run history is removed with it)
+export async function deletePayrollSchedule(id: string) {
+  await prisma.payrollSchedule.delete({ where: { id } });
+}
+
+// List the most recent runs of a schedule
+export async function listPayrollScheduleRuns(scheduleId: string, take: number = 50) {
+  return prisma.payrollScheduleRun.findMany({
+    where: { scheduleId },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+}
+
+async function recordRun(
+  scheduleId: string,
+  scheduledFor: Date,
+  status: ScheduleRunStatusType,
+  message?: string,
+  payrollId?: string,
+) {
+  await prisma.payrollScheduleRun.create({
+    data: { scheduleId, scheduledFor, status, message, payrollId },
+  });
+  logger.info(`Payroll schedule ${scheduleId} run for ${scheduledFor.toISOString()}: ${status}${message ? ` (${message})` : ""}`);
+}
+
+/**
+ * Check whether the treasury can cover a payroll
+ * @param getTotal - Payroll total in cents of the payroll currency
+ * @returns Reason the run cannot proceed, or null when funds are sufficient
+ */
+async function findFundingShortfall(currency: string, getTotal: () => Promise<number>): Promise<string | null> {
+  try {
+    const total = await getTotal();
+    const balance = await checkTreasuryBalance(currency);
+    if (balance.balance < usdCentsToTokenAmount(total, balance.decimals)) {
+      return `Treasury balance ${balance.formatted} is below payroll total ${(total / 100).toFixed(2)} ${currency}`;
+    }
+    return null;
+  } catch (error) {
+    return `Funding check failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+  }
+}
+
+/**
+ * Execute one due schedule
+ * The schedule is claimed first (nextRunAt moved forward) so concurrent
+ * scheduler instances never run the same occurrence twice.
+ * @param schedule - Schedule whose nextRunAt has passed
+ * @param now - Current time
+ */
+export async function runPayrollSchedule(schedule: PayrollScheduleRecord, now: Date = new Date()) {
+  const timing = toTiming(schedule);
+  const occurrence = schedule.deferredFrom ?? schedule.nextRunAt;
+
+  // Occurrences missed while the scheduler was down are skipped, not paid in bulk
+  const missed: Date[] = [];
+  let nextOccurrence = getNextOccurrence(timing, occurrence);
+  while (nextOccurrence <= now) {
+    missed.push(nextOccurrence);
+    nextOccurrence = getNextOccurrence(timing, nextOccurrence);
+  }
+
+  const claimed = await prisma.payrollSchedule.updateMany({
+    where: { id: schedule.id, active: true, nextRunAt: schedule.nextRunAt },
+    data: { nextRunAt: nextOccurrence, deferredFrom: null, lastRunAt: now },
+  });
+  if (claimed.count === 0) {
+    logger.debug(`Payroll schedule ${schedule.id} already claimed`);
+    return;
+  }
+
+  for (const missedOccurrence of missed) {
+    await recordRun(schedule.id, missedOccurrence, ScheduleRunStatus.SKIPPED, "Missed while the scheduler was not running");
+  }
+
+  let validation = validatePayrollInput({
+    currency: schedule.currency,
+    memo: schedule.memo ?? undefined,
+    payments: parseTemplate(schedule.template),
+  });
+  if (validation.valid) {
+    validation = await resolvePayrollPayees(schedule.companyId, validation.input);
+  }
+  if (!validation.valid) {
+    await recordRun(
+      schedule.id,
+      occurrence,
+      ScheduleRunStatus.FAILED,
+      `Invalid template: ${validation.errors.map((e) => e.message).join("; ")}`,
+    );
+    return;
+  }
+
+  // Foreign-currency lines count at today's rate (the draft locks its own quote)
+  const { input } = validation;
+  const shortfall = await findFundingShortfall(
+    input.currency,
+    async () => (await quotePayrollLines(input.currency, input.payments)).total,
+  );
+  if (shortfall) {
+    if (schedule.insufficientFundsPolicy === InsufficientFundsPolicy.DEFER) {
+      const retryAt = new Date(now.getTime() + config.payrollScheduleDeferMinutes * 60 * 1000);
+      if (retryAt < nextOccurrence) {
+        await prisma.payrollSchedule.update({
+          where: { id: schedule.id },
+          data: { nextRunAt: retryAt, deferredFrom: occurrence },
+        });
+        await recordRun(schedule.id, occurrence, ScheduleRunStatus.DEFERRED, `${shortfall}; retrying at ${retryAt.toISOString()}`);
+        return;
+      }
+      await recordRun(schedule.id, occurrence, ScheduleRunStatus.SKIPPED, `${shortfall}; deferral window elapsed`);
+      return;
+    }
+    await recordRun(schedule.id, occurrence, ScheduleRunStatus.SKIPPED, shortfall);
+    return;
+  }
+
+  // Scheduled payrolls go through the same approval workflow as manual ones
+  try {
+    const payroll = await createPayrollDraft(schedule.companyId, validation.input);
+    await recordRun(
+      schedule.id,
+      occurrence,
+      ScheduleRunStatus.AWAITING_APPROVAL,
+      "Payroll draft submitted for approval",
+      payroll.id,
+    );
+  } catch (error) {
+    logger.error(`Scheduled payroll failed for schedule ${schedule.id}`, error);
+    await recordRun(
+      schedule.id,
+      occurrence,
+      ScheduleRunStatus.FAILED,
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  }
+}
+
+// Move a run to a new status, unless another scheduler instance already did
+async function updateRun(
+  run: PayrollScheduleRunRecord,
+  status: ScheduleRunStatusType,
+  message: string,
+  retryAt: Date | null = null,
+): Promise<boolean> {
+  const { count } = await prisma.payrollScheduleRun.updateMany({
+    where: { id: run.id, status: run.status, retryAt: run.retryAt },
+    data: { status, message, retryAt },
+  });
+  if (count > 0) {
+    logger.info(`Payroll schedule ${run.scheduleId} run for ${run.scheduledFor.toISOString()}: ${status} (${message})`);
+  }
+  return count > 0;
+}
+
+/**
+ * Queue the approved payroll of a scheduled run
+ * Approval can come long after the draft, so the treasury balance is checked again and a
+ * shortfall defers or skips the execution per the schedule's policy. A skipped payroll stays
+ * APPROVED and can still be executed manually.
+ */
+async function queueScheduledPayroll(
+  run: PayrollScheduleRunRecord & { schedule: PayrollScheduleRecord },
+  payroll: { id: string; status: string; total: number; currency: string },
+  now: Date,
+) {
+  if (payroll.status === PayrollStatus.REJECTED) {
+    await updateRun(run, ScheduleRunStatus.SKIPPED, "Payroll draft was rejected");
+    return;
+  }
+  if (payroll.status !== PayrollStatus.APPROVED) {
+    await updateRun(run, ScheduleRunStatus.QUEUED, "Payroll was executed manually");
+    return;
+  }
+
+  const shortfall = await findFundingShortfall(payroll.currency, async () => payroll.total);
+  if (shortfall) {
+    if (run.schedule.insufficientFundsPolicy === InsufficientFundsPolicy.DEFER) {
+      const retryAt = new Date(now.getTime() + config.payrollScheduleDeferMinutes * 60 * 1000);
+      if (retryAt < getNextOccurrence(toTiming(run.schedule), run.scheduledFor)) {
+        await updateRun(run, ScheduleRunStatus.DEFERRED, `${shortfall}; retrying at ${retryAt.toISOString()}`, retryAt);
+        return;
+      }
+      await updateRun(run, ScheduleRunStatus.SKIPPED, `${shortfall}; deferral window elapsed`);
+      return;
+    }
+    await updateRun(run, ScheduleRunStatus.SKIPPED, shortfall);
+    return;
+  }
+
+  if (!(await updateRun(run, ScheduleRunStatus.QUEUED, "Approved payroll queued for execution"))) {
+    return;
+  }
+  try {
+    await executeApprovedPayroll(run.schedule.companyId, payroll.id, PayrollEventActor.SCHEDULER);
+  } catch (error) {
+    logger.error(`Failed to queue scheduled payroll ${payroll.id}`, error);
+    await prisma.payrollScheduleRun.update({
+      where: { id: run.id },
+      data: {
+        status: ScheduleRunStatus.FAILED,
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+  }
+}
+
+/**
+ * Queue the approved payrolls of active schedules
+ * Runs whose draft is still awaiting approvals are left as they are.
+ * @param now - Current time
+ * @returns Number of runs processed
+ */
+export async function queueApprovedScheduledPayrolls(now: Date = new Date()): Promise<number> {
+  const runs = await prisma.payrollScheduleRun.findMany({
+    where: {
+      status: { in: [ScheduleRunStatus.AWAITING_APPROVAL, ScheduleRunStatus.DEFERRED] },
+      payrollId: { not: null },
+      OR: [{ retryAt: null }, { retryAt: { lte: now } }],
+      schedule: { active: true },
+    },
+    include: { schedule: true },
+    orderBy: { createdAt: "asc" },
+  });
+  if (runs.length === 0) {
+    return 0;
+  }
+
+  const payrolls = await prisma.payroll.findMany({
+    where: { id: { in: runs.map((run) => run.payrollId!) }, status: { not: PayrollStatus.DRAFT } },
+    select: { id: true, status: true, total: true, currency: true },
+  });
+  const payrollsById = new Map(payrolls.map((payroll) => [payroll.id, payroll]));
+
+  let processed = 0;
+  for (const run of runs) {
+    const payroll = payrollsById.get(run.payrollId!);
+    if (!payroll) {
+      continue;
+    }
+    processed++;
+    try {
+      await queueScheduledPayroll(run, payroll, now);
+    } catch (error) {
+      logger.error(`Failed to queue payroll of schedule run ${run.id}`, error);
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Run every active schedule whose next run is due
+ * @param now - Current time
+ * @returns Number of schedules processed
+ */
+export async function runDuePayrollSchedules(now: Date = new Date()): Promise<number> {
+  const due = await prisma.payrollSchedule.findMany({
+    where: { active: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+    take: MAX_DUE_SCHEDULES_PER_TICK,
+  });
+
+  for (const schedule of due) {
+    try {
+      await runPayrollSchedule(schedule, now);
+    } catch (error) {
+      logger.error(`Failed to run payroll schedule ${schedule.id}`, error);
+    }
+  }
+
+  return due.length;
+}
@@ -0,0 +1,68 @@
+import { config } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { queueApprovedScheduledPayrolls, runDuePayrollSchedules } from "./payrollScheduleService.js";
+import { reconcileRailWithdrawals } from "./payrollService.js";
+
+/**
+ * Payroll Scheduler
+ * Background loop that runs due payroll schedules, queues their approved payrolls and follows
+ * Rail withdrawals still in progress.
+ * This should be called when the server starts (not on serverless deployments).
+ */
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+async function tick() {
+  // Skip this tick if the previous one is still running
+  if (ticking) {
+    return;
+  }
+  ticking = true;
+  try {
+    const processed = await runDuePayrollSchedules();
+    if (processed > 0) {
+      logger.info(`Payroll scheduler processed ${processed} due schedule(s)`);
+    }
+    const queued = await queueApprovedScheduledPayrolls();
+    if (queued > 0) {
+      logger.info(`Payroll scheduler processed ${queued} approved scheduled payroll(s)`);
+    }
+    const reconciled = await reconcileRailWithdrawals();
+    if (reconciled > 0) {
+      logger.info(`Payroll scheduler reconciled ${reconciled} Rail withdrawal(s)`);
+    }
+  } catch (error) {
+    logger.error("Payroll scheduler tick failed", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the payroll scheduler
+ */
+export function startPayrollScheduler() {
+  if (!config.payrollSchedulerEnabled) {
+    logger.info("Payroll scheduler disabled (PAYROLL_SCHEDULER_ENABLED=false)");
+    return;
+  }
+  if (timer) {
+    return;
+  }
+
+  logger.info(`Starting payroll scheduler (every ${config.payrollSchedulerIntervalMs}ms)`);
+  timer = setInterval(() => void tick(), config.payrollSchedulerIntervalMs);
+  void tick();
+}
+
+/**
+ * Stop the payroll scheduler
+ */
+export function stopPayrollScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info("Payroll scheduler stopped");
+  }
+}
@@ -1,214 +1,519 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../dbClient.js";
-import { PayrollStatus, type PayrollStatusType } from "../domain/payroll.js";
-import { PaymentStatus, type PaymentStatusType } from "../domain/payment.js";
-import { createRailPayment } from "./railClient.js";
 import {
-  createManyPayments,
-  updatePayrollPaymentsStatus,
-} from "./paymentService.js";
+  PayrollEventActor,
+  PayrollEventEntity,
+  PayrollStatus,
+  RETRYABLE_PAYROLL_STATUSES,
+  type PayrollStatusType,
+} from "../domain/payroll.js";
+import { PaymentStatus, RAIL_STATUS_SUBMITTING } from "../domain/payment.js";
+import { createRailPayment, findRailWithdrawal, getRailWithdrawal } from "./railClient.js";
+import { createManyPayments } from "./paymentService.js";
+import { getPayeeRailDestination } from "./payeeService.js";
+import { checkPayrollSpendingLimits, lockCompanySpending } from "./spendingLimitService.js";
+import { quotePayrollLines, settlementGrossToNet } from "./fxService.js";
+import { transitionPayment, transitionPayroll } from "./payrollStateService.js";
+import {
+  PayrollJobStatus,
+  PayrollJobStep,
+  PayrollJobType,
+  nextPayrollJobStep,
+  type PayrollJobStepType,
+} from "../domain/payrollJob.js";
+import {
+  checkpointPayrollJob,
+  claimPayrollJob,
+  completePayrollJob,
+  enqueuePayrollJob,
+  failPayrollJob,
+  renewPayrollJobLease,
+} from "./payrollJobService.js";
 import {
   requestPayrollPayments,
   executePayrollPayments,
   checkTreasuryBalance,
+  updatePayrollStatusFromPayments,
 } from "./contractHook.js";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
 import { saveReceiptToArweave, type PayrollReceipt } from "./arweaveService.js";
+import { notifyPayrollPayees } from "./notificationService.js";
 import { config } from "../config/env.js";
+import type { CreatePayrollInput, PayrollListQuery } from "./payrollValidation.js";
 
-// Demo payments (amounts in cents)
-const DEMO_PAYMENTS = [
-  { amount: 50000, currency: "USD", recipient: "0xFreelancer1" },
-  { amount: 75000, currency: "USD", recipient: "0xFreelancer2" },
-  { amount: 60000, currency: "USD", recipient: "0xFreelancer3" },
-  { amount: 45000, currency: "USD", recipient: "0xFreelancer4" },
-  { amount: 80000, currency: "USD", recipient: "0xFreelancer5" },
-  { amount: 55000, currency: "USD", recipient: "0xFreelancer6" },
-  { amount: 70000, currency: "USD", recipient: "0xFreelancer7" },
-  { amount: 65000, currency: "USD", recipient: "0xFreelancer8" },
-  { amount: 48000, currency: "USD", recipient: "0xFreelancer9" },
-  { amount: 52000, currency: "USD", recipient: "0xFreelancer10" },
-];
+// Ownership and initial status of a new payroll
+export type CreatePayrollOptions = {
+  companyId?: string;
+  createdById?: string;
+  status?: PayrollStatusType;
+  actor?: string; // Recorded on the creation event (default system)
+};
 
 /**
- * Execute a demo payroll
- * Creates a payroll with 10 payments and processes them through the pipeline
- * 
- * Flow:
- * 1. Create Payroll (PENDING)
- * 2. Create Payments (PENDING)
- * 3. Request payments on-chain (ONCHAIN_REQUESTED)
- * 4. Execute payments on-chain (ONCHAIN_PAID)
- * 5. Process through Rail (RAIL_PROCESSING -> PAID) [optional]
- * 
- * @returns Complete payroll with payments
+ * Create a payroll with its payments
+ * Lines in another currency than the payroll are converted with an FX quote that is
+ * locked on the payment; the payroll total is in the payroll currency.
+ * @param input - Validated payroll submission (amounts in cents)
+ * @param options - Owning company, submitting user, initial status (default PENDING) and actor
+ * @returns Created payroll
  */
-export async function executePayrollDemo() {
-  const total = DEMO_PAYMENTS.reduce((sum, p) => sum + p.amount, 0);
-  const currency = "USD";
+export async function createPayroll(input: CreatePayrollInput, options: CreatePayrollOptions = {}) {
+  const { total, lines } = await quotePayrollLines(input.currency, input.payments);
+  const status = options.status ?? PayrollStatus.PENDING;
 
-  // Create payroll
+  // Create payroll with the first event of its timeline
   const payroll = await prisma.payroll.create({
     data: {
       total,
-      currency,
-      status: PayrollStatus.PENDING,
+      currency: input.currency,
+      memo: input.memo,
+      companyId: options.companyId,
+      createdById: options.createdById,
+      status,
+      events: {
+        create: {
+          entity: PayrollEventEntity.PAYROLL,
+          toStatus: status,
+          actor: options.actor ?? PayrollEventActor.SYSTEM,
+          reason: `Created with ${input.payments.length} payments`,
+        },
+      },
     },
   });
 
   // Create payments
   await createManyPayments(
-    DEMO_PAYMENTS.map((p) => ({
+    lines.map((p) => ({
       payrollId: payroll.id,
       amount: p.amount,
-      currency: p.currency,
+      currency: p.currency || input.currency,
+      settlementAmount: p.settlementAmount,
+      fx: p.fx,
       recipient: p.recipient,
+      payeeId: p.payeeId,
+      items: p.items,
     })),
   );
 
-  // Check treasury balance before proceeding
-  try {
-    const balance = await checkTreasuryBalance(currency);
-    logger.info(`Treasury balance: ${balance.formatted} ${currency}`);
-  } catch (error) {
-    logger.warn("Could not check treasury balance", error);
+  logger.info(`Payroll created: ${payroll.id} (${input.payments.length} payments, ${total} ${input.currency} cents)`);
+  return payroll;
+}
+
+/**
+ * Run one step of the payroll pipeline for a PENDING payroll
+ * Callers are responsible for approval checks (see executeApprovedPayroll); steps are
+ * normally run by the job worker (see runPayrollJob). Every step can safely run again
+ * after an interruption: settled payments are left untouched and earlier transactions
+ * are reconciled before anything is re-sent.
+ *
+ * Steps:
+ * 1. ONCHAIN_REQUEST: request payments on-chain (ONCHAIN_REQUESTED)
+ * 2. ONCHAIN_EXECUTE: execute payments on-chain (ONCHAIN_PAID or FAILED per payment)
+ * 3. RAIL_WITHDRAWALS: one Rail withdrawal per on-chain paid payment (RAIL_PROCESSING -> PAID)
+ * 4. FINALIZE: derive the payroll status from its payments (PAID, PARTIALLY_PAID, ...)
+ * 5. RECEIPT: save receipt to Arweave when PAID
+ * 6. NOTIFY: email payees whose payments settled (ONCHAIN_PAID / PAID)
+ *
+ * @param payrollId - Payroll ID
+ * @param step - Step to run
+ */
+export async function runPayrollStep(payrollId: string, step: PayrollJobStepType) {
+  const payroll = await prisma.payroll.findUnique({
+    where: { id: payrollId },
+  });
+
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
   }
 
-  // Request payments on-chain
-  try {
-    logger.info("Requesting payments on-chain...");
-    const requestTxHashes = await requestPayrollPayments(payroll.id);
-    logger.info(`Requested ${requestTxHashes.length} payments on-chain`);
-  } catch (error) {
-    logger.error("Failed to request payments on-chain", error);
-    throw error;
+  const { currency } = payroll;
+
+  // On-chain failures are recorded per payment; the payroll status is derived in FINALIZE.
+  switch (step) {
+    case PayrollJobStep.ONCHAIN_REQUEST: {
+      // Check treasury balance before proceeding
+      try {
+        const balance = await checkTreasuryBalance(currency);
+        logger.info(`Treasury balance: ${balance.formatted} ${currency}`);
+      } catch (error) {
+        logger.warn("Could not check treasury balance", error);
+      }
+
+      try {
+        logger.info("Requesting payments on-chain...");
+        const requestTxHashes = await requestPayrollPayments(payroll.id);
+        logger.info(`Requested ${requestTxHashes.length} payments on-chain`);
+      } catch (error) {
+        logger.error("On-chain payment request failed", error);
+      }
+      return;
+    }
+
+    case PayrollJobStep.ONCHAIN_EXECUTE: {
+      try {
+        logger.info("Executing payments on-chain...");
+        const executeTxHashes = await executePayrollPayments(payroll.id);
+        logger.info(`Executed ${executeTxHashes.length} payments on-chain`);
+      } catch (error) {
+        logger.error("On-chain payment execution failed", error);
+      }
+      return;
+    }
+
+    case PayrollJobStep.RAIL_WITHDRAWALS:
+      // Pay out each on-chain paid payment through Rail
+      await processRailWithdrawals(payroll.id, payroll.memo);
+      return;
+
+    case PayrollJobStep.FINALIZE: {
+      const finalStatus = await updatePayrollStatusFromPayments(payroll.id);
+      logger.info(`Payroll completed with status: ${finalStatus}`);
+      return;
+    }
+
+    case PayrollJobStep.RECEIPT:
+      if (payroll.status === PayrollStatus.PAID) {
+        await savePayrollReceipt(payroll.id);
+      }
+      return;
+
+    case PayrollJobStep.NOTIFY:
+      // Email payees whose payments settled; delivery failures never fail the payroll
+      try {
+        await notifyPayrollPayees(payroll.id);
+      } catch (error) {
+        logger.warn(`Could not notify the payees of payroll ${payroll.id}`, error);
+      }
+      return;
+
+    case PayrollJobStep.DONE:
+      return;
   }
+}
 
-  // Execute payments on-chain
-  let onchainSuccess = false;
+/**
+ * Save a permanent receipt of a PAID payroll to Arweave (Sovereign Agent Stack: Memory Layer)
+ * Failures are logged; the payroll stays PAID either way.
+ */
+async function savePayrollReceipt(payrollId: string) {
   try {
-    logger.info("Executing payments on-chain...");
-    const executeTxHashes = await executePayrollPayments(payroll.id);
-    logger.info(`Executed ${executeTxHashes.length} payments on-chain`);
-    onchainSuccess = executeTxHashes.length > 0;
-    
-    // If on-chain execution was successful, mark as ONCHAIN_PAID
-    if (onchainSuccess) {
-      await prisma.payroll.update({
-        where: { id: payroll.id },
-        data: { status: PayrollStatus.ONCHAIN_PAID },
-      });
-      await updatePayrollPaymentsStatus(payroll.id, PaymentStatus.ONCHAIN_PAID);
-      logger.info("Payroll marked as ONCHAIN_PAID");
+    // Fetch payroll with payments for complete receipt
+    const payrollWithPayments = await prisma.payroll.findUnique({
+      where: { id: payrollId },
+      include: { payments: { include: { lineItems: true } } }
+    });
+
+    if (payrollWithPayments) {
+      const grossToNet = payrollWithPayments.payments
+        .map(settlementGrossToNet)
+        .reduce(
+          (sum, p) => ({
+            gross: sum.gross + p.gross,
+            withholding: sum.withholding + p.withholding,
+            deductions: sum.deductions + p.deductions,
+            reimbursements: sum.reimbursements + p.reimbursements,
+            net: sum.net + p.net,
+          }),
+          { gross: 0, withholding: 0, deductions: 0, reimbursements: 0, net: 0 },
+        );
+      const receipt: PayrollReceipt = {
+        payrollId,
+        status: PayrollStatus.PAID,
+        totalAmount: payrollWithPayments.total.toString(),
+        currency: payrollWithPayments.currency,
+        recipientCount: payrollWithPayments.payments.length,
+        network: config.network,
+        treasuryContract: config.treasuryContractAddress,
+        onchainTxHash: undefined, // Transaction hashes are individual per payment
+        createdAt: payrollWithPayments.createdAt.toISOString(),
+        completedAt: new Date().toISOString(),
+        grossToNet: {
+          gross: grossToNet.gross.toString(),
+          withholding: grossToNet.withholding.toString(),
+          deductions: grossToNet.deductions.toString(),
+          reimbursements: grossToNet.reimbursements.toString(),
+          net: grossToNet.net.toString(),
+        },
+        version: '1.0.0',
+        protocol: 'snowrail-payroll-v1',
+        agentId: 'snowrail-treasury-v1',
+        x402MeterId: 'payroll_execute',
+      };
+
+      const arweaveResult = await saveReceiptToArweave(receipt);
+      if (arweaveResult.success) {
+        logger.info(`📦 Receipt saved to Arweave: ${arweaveResult.url}`);
+        if (arweaveResult.txId) {
+          // Referenced by the payslips of the payroll's payments
+          await prisma.payroll.update({
+            where: { id: payrollId },
+            data: { receiptTxId: arweaveResult.txId },
+          });
+        }
+      }
     }
-  } catch (error) {
-    logger.error("Failed to execute payments on-chain", error);
-    // Continue even if execution fails, status will be updated accordingly
+  } catch (arweaveError) {
+    logger.warn('Failed to save receipt to Arweave, but payroll completed', arweaveError);
   }
+}
+
+// Claimed job as returned by claimPayrollJob
+type ClaimedPayrollJob = NonNullable<Awaited<ReturnType<typeof claimPayrollJob>>>;
+
+/**
+ * Run a claimed job from its checkpoint to the end of the pipeline
+ * The lease is renewed while a step runs and the checkpoint is saved after every step,
+ * so a job interrupted by a crash or a serverless timeout resumes at the step it was in.
+ * A job that exhausts its attempts is marked FAILED and the payroll status is derived
+ * from whatever its payments reached, so it can be retried.
+ * @param job - Job claimed by this worker
+ * @param workerId - Worker holding the lease
+ */
+export async function runPayrollJob(job: ClaimedPayrollJob, workerId: string) {
+  const heartbeat = setInterval(() => {
+    renewPayrollJobLease(job.id, workerId).catch((error) =>
+      logger.warn(`Could not renew the lease on payroll job ${job.id}`, error),
+    );
+  }, Math.max(config.payrollJobLeaseMs / 3, 1000));
 
-  // Process through Rail (optional - can be done asynchronously)
   try {
-    if (onchainSuccess) {
-      await prisma.payroll.update({
-        where: { id: payroll.id },
-        data: { status: PayrollStatus.RAIL_PROCESSING },
-      });
-      await updatePayrollPaymentsStatus(payroll.id, PaymentStatus.RAIL_PROCESSING);
+    if (job.attempts > job.maxAttempts) {
+      throw new Error(`Worker stopped during the last attempt at ${job.step}`);
     }
-    logger.info("Processing through Rail");
 
-    // Call Rail API (mock or real)
-    const railResult = await createRailPayment({
-      payrollId: payroll.id,
-      amount: total,
-      currency,
-    });
+    let step = job.step as PayrollJobStepType;
+    while (step !== PayrollJobStep.DONE) {
+      logger.info(`Payroll job ${job.id}: ${step} (attempt ${job.attempts}/${job.maxAttempts})`);
+      await runPayrollStep(job.payrollId, step);
+      step = nextPayrollJobStep(step);
+      await checkpointPayrollJob(job.id, workerId, step);
+    }
 
-    logger.info(`Rail result: status=${railResult.status}, onchainSuccess=${onchainSuccess}`);
+    await completePayrollJob(job.id, workerId);
+    logger.info(`Payroll job ${job.id} succeeded`);
+  } catch (error) {
+    const status = await failPayrollJob(job, workerId, error);
+    if (status === PayrollJobStatus.FAILED) {
+      try {
+        await updatePayrollStatusFromPayments(job.payrollId);
+      } catch (finalizeError) {
+        logger.error(`Could not finalize payroll ${job.payrollId} after job ${job.id} failed`, finalizeError);
+      }
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
 
-    // Final status based on Rail result and on-chain success
-    // Priority: If on-chain succeeded, at minimum mark as ONCHAIN_PAID
-    // If Rail also succeeded, mark as PAID
-    let finalStatus: PayrollStatusType;
-    let finalPaymentStatus: PaymentStatusType;
-    
-    if (onchainSuccess) {
-      // On-chain payment was successful
-      if (railResult.status === "PAID") {
-        // Both succeeded - mark as PAID
-        finalStatus = PayrollStatus.PAID;
-        finalPaymentStatus = PaymentStatus.PAID;
-        logger.info("Both on-chain and Rail succeeded - marking as PAID");
+/**
+ * Create one Rail withdrawal per ONCHAIN_PAID payment of a payroll
+ * Each withdrawal pays the payment amount in its own currency to the payee's counterparty,
+ * over the rail picked from the payee's country and that currency; payments of CRYPTO
+ * payees are already settled on-chain and become PAID without a withdrawal.
+ * The rail, withdrawal ID and status are stored on the payment. A payment is marked
+ * SUBMITTING before its withdrawal is sent, with the payment ID and Rail attempt as idempotency
+ * key: a SUBMITTING payment reuses its attempt, one whose withdrawal failed makes a new attempt.
+ */
+async function processRailWithdrawals(payrollId: string, memo: string | null) {
+  const onchainPaid = await prisma.outboundPayment.findMany({
+    where: { payrollId, status: PaymentStatus.ONCHAIN_PAID },
+    include: { payee: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (onchainPaid.length === 0) {
+    return;
+  }
+
+  logger.info(`Processing ${onchainPaid.length} payments through Rail`);
+
+  for (const payment of onchainPaid) {
+    const destination = getPayeeRailDestination(payment.payee, payment);
+    if (!destination) {
+      await transitionPayment(
+        payment.id,
+        PaymentStatus.PAID,
+        { actor: PayrollEventActor.SYSTEM, reason: "Crypto payee settled on-chain" },
+        { failureReason: null },
+      );
+      continue;
+    }
+
+    try {
+      // Rail never creates two withdrawals for one attempt; only a failed withdrawal starts a new one
+      const submitting = payment.railStatus === RAIL_STATUS_SUBMITTING;
+      const attempt = submitting ? Math.max(payment.railAttempts, 1) : payment.railAttempts + 1;
+      const railInput = {
+        payrollId,
+        paymentId: payment.id,
+        idempotencyKey: `${payment.id}:${attempt}`,
+        attempt,
+        amount: payment.amount,
+        currency: payment.currency,
+        memo: memo ?? undefined,
+        ...destination,
+      };
+
+      // An interrupted run may have sent the withdrawal without recording the answer
+      let railResult = submitting ? await findRailWithdrawal(railInput) : null;
+      if (railResult) {
+        logger.info(`Reconciled Rail withdrawal ${railResult.id} of payment ${payment.id}`);
       } else {
-        // On-chain succeeded but Rail failed/processing - mark as ONCHAIN_PAID
-        finalStatus = PayrollStatus.ONCHAIN_PAID;
-        finalPaymentStatus = PaymentStatus.ONCHAIN_PAID;
-        logger.info(`Rail status: ${railResult.status}, but on-chain succeeded - marking as ONCHAIN_PAID`);
+        await prisma.outboundPayment.update({
+          where: { id: payment.id },
+          data: {
+            withdrawalRail: destination.withdrawalRail,
+            railStatus: RAIL_STATUS_SUBMITTING,
+            railAttempts: attempt,
+          },
+        });
+        // Call Rail API (mock or real)
+        railResult = await createRailPayment(railInput);
       }
-    } else {
-      // On-chain failed
-      if (railResult.status === "PAID") {
-        // Rail succeeded but on-chain failed - this shouldn't happen, but mark as FAILED
-        finalStatus = PayrollStatus.FAILED;
-        finalPaymentStatus = PaymentStatus.FAILED;
-        logger.warn("Rail succeeded but on-chain failed - marking as FAILED");
+
+      logger.info(`Rail result for payment ${payment.id}: id=${railResult.id} status=${railResult.status}`);
+
+      const railData = {
+        withdrawalRail: destination.withdrawalRail,
+        railWithdrawalId: railResult.id,
+        railStatus: railResult.status,
+      };
+      const context = {
+        actor: PayrollEventActor.SYSTEM,
+        reason: `Rail withdrawal ${railResult.id} ${railResult.status} (${destination.withdrawalRail})`,
+      };
+      if (railResult.status === "UNKNOWN") {
+        // Rail may have created the withdrawal: stay SUBMITTING so the next run or retry looks it up
+        logger.warn(`Rail withdrawal of payment ${payment.id} has an unknown outcome: ${railResult.failureReason}`);
+        await prisma.outboundPayment.update({
+          where: { id: payment.id },
+          data: { failureReason: railResult.failureReason ?? "RAIL_UNKNOWN" },
+        });
+      } else if (railResult.status === "PAID") {
+        await transitionPayment(payment.id, PaymentStatus.PAID, context, { ...railData, failureReason: null });
+      } else if (railResult.status === "FAILED") {
+        // Stay ONCHAIN_PAID so a retry only re-attempts the Rail withdrawal (as a new attempt)
+        await prisma.outboundPayment.update({
+          where: { id: payment.id },
+          data: { ...railData, failureReason: railResult.failureReason ?? "RAIL_FAILED" },
+        });
       } else {
-        // Both failed
-        finalStatus = PayrollStatus.FAILED;
-        finalPaymentStatus = PaymentStatus.FAILED;
-        logger.warn("Both on-chain and Rail failed - marking as FAILED");
+        // Withdrawal accepted by Rail; reconcileRailWithdrawals follows it until it settles or fails
+        await transitionPayment(payment.id, PaymentStatus.RAIL_PROCESSING, context, { ...railData, failureReason: null });
       }
+    } catch (error) {
+      // A SUBMITTING payment is looked up again by the next run or retry
+      logger.warn(`Rail processing failed for payment ${payment.id}, but it was executed on-chain`, error);
     }
+  }
+}
 
-    const updatedPayroll = await prisma.payroll.update({
-      where: { id: payroll.id },
-      data: { status: finalStatus },
-    });
-    await updatePayrollPaymentsStatus(payroll.id, finalPaymentStatus);
-    logger.info(`Payroll completed with status: ${finalStatus}`);
+/**
+ * Follow the Rail withdrawals of RAIL_PROCESSING payrolls until they settle or fail
+ * A paid withdrawal makes its payment PAID; a failed one returns it to ONCHAIN_PAID, so a retry
+ * of the payroll sends a new Rail attempt. Affected payrolls are finalized again, and the
+ * receipt and payee emails follow as in the pipeline.
+ * Called by the payroll scheduler and POST /internal/payroll-jobs/run.
+ * @returns Number of payments whose withdrawal settled or failed
+ */
+export async function reconcileRailWithdrawals(): Promise<number> {
+  const processing = await prisma.outboundPayment.findMany({
+    where: {
+      status: PaymentStatus.RAIL_PROCESSING,
+      railWithdrawalId: { not: null },
+      payroll: { status: PayrollStatus.RAIL_PROCESSING },
+    },
+    orderBy: { createdAt: "asc" },
+  });
 
-    // Save permanent receipt to Arweave (Sovereign Agent Stack: Memory Layer)
-    if (finalStatus === PayrollStatus.PAID) {
-      try {
-        // Fetch payroll with payments for complete receipt
-        const payrollWithPayments = await prisma.payroll.findUnique({
-          where: { id: payroll.id },
-          include: { payments: true }
+  let reconciled = 0;
+  const payrollIds = new Set<string>();
+  for (const payment of processing) {
+    try {
+      const railResult = await getRailWithdrawal(payment.railWithdrawalId!);
+      const context = {
+        actor: PayrollEventActor.SYSTEM,
+        reason: `Rail withdrawal ${railResult.id} ${railResult.status}`,
+      };
+      if (railResult.status === "PAID") {
+        await transitionPayment(payment.id, PaymentStatus.PAID, context, { railStatus: railResult.status });
+      } else if (railResult.status === "FAILED") {
+        await transitionPayment(payment.id, PaymentStatus.ONCHAIN_PAID, context, {
+          railStatus: railResult.status,
+          failureReason: railResult.failureReason ?? "RAIL_FAILED",
         });
-
-        if (payrollWithPayments) {
-          const receipt: PayrollReceipt = {
-            payrollId: payroll.id,
-            status: finalStatus,
-            totalAmount: total.toString(),
-            currency,
-            recipientCount: payrollWithPayments.payments.length,
-            network: config.network,
-            treasuryContract: config.treasuryContractAddress,
-            onchainTxHash: undefined, // Transaction hashes are individual per payment
-            createdAt: payroll.createdAt.toISOString(),
-            completedAt: new Date().toISOString(),
-            version: '1.0.0',
-            protocol: 'snowrail-payroll-v1',
-            agentId: 'snowrail-treasury-v1',
-            x402MeterId: 'payroll_execute',
-          };
-
-          const arweaveResult = await saveReceiptToArweave(receipt);
-          if (arweaveResult.success) {
-            logger.info(`📦 Receipt saved to Arweave: ${arweaveResult.url}`);
-            // Optionally store the arweave URL in the database
-            // You'd need to add arweaveUrl field to your Prisma schema
-          }
+      } else {
+        if (railResult.status !== payment.railStatus) {
+          await prisma.outboundPayment.update({
+            where: { id: payment.id },
+            data: { railStatus: railResult.status },
+          });
         }
-      } catch (arweaveError) {
-        logger.warn('Failed to save receipt to Arweave, but payroll completed', arweaveError);
+        continue;
       }
+      reconciled++;
+      payrollIds.add(payment.payrollId);
+    } catch (error) {
+      logger.warn(`Could not reconcile the Rail withdrawal of payment ${payment.id}`, error);
     }
-  } catch (error) {
-    logger.warn("Rail processing failed, but on-chain payments were executed", error);
   }
 
-  return getPayrollById(payroll.id);
+  for (const payrollId of payrollIds) {
+    try {
+      const status = await updatePayrollStatusFromPayments(payrollId);
+      logger.info(`Payroll ${payrollId} is ${status} after Rail reconciliation`);
+      if (status === PayrollStatus.PAID) {
+        await savePayrollReceipt(payrollId);
+      }
+      await notifyPayrollPayees(payrollId);
+    } catch (error) {
+      logger.warn(`Could not finalize payroll ${payrollId} after Rail reconciliation`, error);
+    }
+  }
+
+  return reconciled;
+}
+
+/**
+ * Queue a retry of the unsettled payments of a partially paid or failed payroll
+ * Payments that are already paid are never re-executed (see executePayrollPayments).
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ * @param actor - Who requested the retry (recorded on the timeline)
+ * @returns Payroll with payments and the queued job
+ * @throws SpendingLimitExceededError when the retry would exceed the company's spending limits
+ */
+export async function retryPayroll(companyId: string, payrollId: string, actor: string = PayrollEventActor.SYSTEM) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: { status: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  if (!RETRYABLE_PAYROLL_STATUSES.includes(payroll.status)) {
+    throw new ConflictError(
+      `Payroll ${payrollId} is ${payroll.status}; only ${RETRYABLE_PAYROLL_STATUSES.join(", ")} payrolls can be retried`,
+      "PAYROLL_NOT_RETRYABLE",
+    );
+  }
+
+  // Claim the payroll and queue the job together so concurrent retries cannot process it twice
+  const job = await prisma.$transaction(async (tx) => {
+    await lockCompanySpending(tx, companyId);
+    await checkPayrollSpendingLimits(payrollId, tx);
+    await transitionPayroll(
+      payrollId,
+      PayrollStatus.PENDING,
+      { actor, reason: "Retry requested" },
+      { from: RETRYABLE_PAYROLL_STATUSES, code: "PAYROLL_NOT_RETRYABLE", tx },
+    );
+    return enqueuePayrollJob(payrollId, PayrollJobType.RETRY, actor, tx);
+  });
+
+  logger.info(`Retry of payroll ${payrollId} queued (job ${job.id})`);
+  return { payroll: (await getPayrollById(payrollId))!, job };
 }
 
 // Get payroll by id with payments
@@ -219,5 +524,64 @@ export async function getPayrollById(id: string) {
   });
 }
 
+// Get a payroll of a company by id with payments (null when it belongs to another company)
+export async function getCompanyPayrollById(companyId: string, id: string) {
+  return prisma.payroll.findFirst({
+    where: { id, companyId },
+    include: { payments: { include: { lineItems: { orderBy: { position: "asc" } } } } },
+  });
+}
+
+/**
+ * List the payrolls of a company, one page at a time
+ * Pages are keyed by the ID of the last payroll of the previous page; ties on the sort
+ * field are broken by ID, so pages never overlap or skip payrolls.
+ * @param companyId - Company that owns the payrolls
+ * @param query - Validated filters, sort and page (see validatePayrollListQuery)
+ * @returns Payrolls with their payment count and the cursor of the next page (null on the last page)
+ * @throws BadRequestError when the cursor is not a payroll of the company
+ */
+export async function listPayrolls(companyId: string, query: PayrollListQuery) {
+  const where: Prisma.PayrollWhereInput = { companyId };
+  if (query.statuses) {
+    where.status = { in: query.statuses };
+  }
+  if (query.from || query.to) {
+    where.createdAt = { gte: query.from, lt: query.to };
+  }
+  if (query.search) {
+    where.OR = [
+      { id: query.search },
+      { memo: { contains: query.search, mode: "insensitive" } },
+    ];
+  }
+
+  if (query.cursor) {
+    const cursor = await prisma.payroll.findFirst({
+      where: { id: query.cursor, companyId },
+      select: { id: true },
+    });
+    if (!cursor) {
+      throw new BadRequestError(`Invalid cursor: ${query.cursor}`, "INVALID_CURSOR");
+    }
+  }
+
+  // One extra row tells whether there is a next page
+  const rows = await prisma.payroll.findMany({
+    where,
+    orderBy: [{ [query.sort]: query.order }, { id: query.order }],
+    cursor: query.cursor ? { id: query.cursor } : undefined,
+    skip: query.cursor ? 1 : 0,
+    take: query.limit + 1,
+    include: { _count: { select: { payments: true } } },
+  });
+
+  const payrolls = rows.slice(0, query.limit);
+  return {
+    payrolls,
+    nextCursor: rows.length > query.limit ? payrolls[payrolls.length - 1].id : null,
+  };
+}
+
 
 
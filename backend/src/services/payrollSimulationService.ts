@@ -0,0 +1,343 @@
+import { ethers } from "ethers";
+import { prisma } from "../dbClient.js";
+import { SETTLED_PAYMENT_STATUSES } from "../domain/payment.js";
+import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import {
+  checkTreasuryBalance,
+  estimatePaymentsGas,
+  getTokenAddress,
+  usdCentsToTokenAmount,
+} from "./contractHook.js";
+import { previewRailPayment, type RailWithdrawalPreview } from "./railClient.js";
+import {
+  normalizeLineItems,
+  validatePayrollLine,
+  type PayrollLineItemInput,
+  type PayrollValidationError,
+} from "./payrollValidation.js";
+import { getPayeeRailDestination, lookupPayees } from "./payeeService.js";
+import { listWithholdingRules, withholdLineItems } from "./withholdingService.js";
+import { quotePayrollLines } from "./fxService.js";
+import { NotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll Simulation Service
+ * Dry run of the payroll pipeline: validates recipients, quotes FX for foreign-currency
+ * lines, checks treasury balances, estimates gas and previews each payment's Rail withdrawal.
+ * Nothing is written to the database and no transaction is sent.
+ */
+
+// Payroll to simulate (amounts in cents); lines are validated individually
+export type PayrollSimulationInput = {
+  currency: string;
+  memo?: string;
+  payments: unknown[];
+};
+
+export type PayrollSimulationLine = {
+  index: number;
+  paymentId?: string; // Set when simulating a stored payroll
+  recipient: string | null;
+  payeeId: string | null;
+  amount: number | null; // Cents in the line currency (net of withholding for itemized lines)
+  currency: string;
+  items: PayrollLineItemInput[] | null; // Line items with the withholding that would apply
+  settlementAmount: number | null; // Cents in the payroll currency (null when not quoted)
+  fxRate: string | null; // Payroll currency per unit of the line currency
+  valid: boolean;
+  errors: PayrollValidationError[];
+  gas: {
+    requestPayment: string | null;
+    executePayment: string | null;
+  } | null;
+  gasError?: string; // Why a gas estimate failed (the call would revert)
+  rail: RailWithdrawalPreview | null; // null for CRYPTO payees and invalid lines
+};
+
+export type PayrollSimulationReport = {
+  payrollId: string | null;
+  currency: string;
+  memo: string | null;
+  total: number; // Settlement of the valid lines in the payroll currency (cents)
+  feasible: boolean;
+  lines: PayrollSimulationLine[];
+  skippedPayments: number; // Already settled payments of a stored payroll
+  treasury: {
+    currency: string;
+    token: string;
+    decimals: number;
+    required: string;
+    available: string;
+    sufficient: boolean;
+  }[];
+  gas: {
+    requestPayment: string;
+    executePayment: string;
+    total: string;
+    gasPrice: string | null;
+    estimatedCost: string | null; // In the network's native currency
+    nativeCurrency: string;
+  } | null;
+  railWithdrawals: number; // Rail withdrawals the payroll would create
+  warnings: string[];
+};
+
+// Stored payroll being simulated
+type StoredPayrollContext = {
+  payrollId: string;
+  paymentIds: string[]; // Same order as the simulated lines
+  settlements: { settlementAmount: number; fxRate: string | null }[]; // Locked when the payroll was created
+  skippedPayments: number;
+};
+
+/**
+ * Simulate a payroll submission
+ * @param companyId - Company whose payee directory resolves payeeId lines
+ * @param input - Payroll lines (amounts in cents)
+ * @param stored - Set when simulating a stored payroll
+ */
+export async function simulatePayroll(
+  companyId: string,
+  input: PayrollSimulationInput,
+  stored?: StoredPayrollContext,
+): Promise<PayrollSimulationReport> {
+  const { currency } = input;
+  const payrollId = stored?.payrollId ?? null;
+  const warnings: string[] = [];
+
+  const fields = input.payments.map(
+    (line) => (line && typeof line === "object" ? line : {}) as Record<string, unknown>,
+  );
+  const payees = await lookupPayees(
+    companyId,
+    fields.flatMap(({ payeeId }) => (typeof payeeId === "string" ? [payeeId] : [])),
+    fields.flatMap(({ payeeId, recipient }) =>
+      payeeId === undefined && typeof recipient === "string" ? [recipient.trim().toLowerCase()] : [],
+    ),
+  );
+
+  // Withholding rules of the company, needed for itemized lines
+  const rules = fields.some(({ items }) => items !== undefined) ? await listWithholdingRules(companyId) : [];
+
+  const lines: PayrollSimulationLine[] = input.payments.map((line, index) => {
+    const errors = validatePayrollLine(line, index);
+    const { recipient, payeeId, amount: rawAmount, currency: lineCurrency, items: rawItems } = fields[index];
+    const payoutCurrency = typeof lineCurrency === "string" ? lineCurrency.toUpperCase() : currency;
+
+    // Payee lines are paid to the payee's wallet unless a stored recipient is given
+    let resolvedRecipient = typeof recipient === "string" && recipient.trim() !== "" ? recipient.trim() : null;
+    let payee = resolvedRecipient ? payees.byWallet.get(resolvedRecipient.toLowerCase()) ?? null : null;
+    if (typeof payeeId === "string" && errors.length === 0) {
+      payee = payees.byId.get(payeeId) ?? null;
+      if (!payee) {
+        errors.push({ index, field: "payeeId", message: `Payee not found: ${payeeId}` });
+      } else if (!stored && resolvedRecipient && resolvedRecipient.toLowerCase() !== payee.walletAddress) {
+        errors.push({
+          index,
+          field: "recipient",
+          message: `Recipient ${resolvedRecipient} does not match the wallet of payee ${payeeId}`,
+        });
+      } else {
+        resolvedRecipient = resolvedRecipient ?? payee.walletAddress;
+      }
+    }
+
+    // Itemized lines are paid net of the withholding rules of the payee's country
+    let amount = rawAmount;
+    let items: PayrollLineItemInput[] | null = null;
+    if (errors.length === 0 && Array.isArray(rawItems)) {
+      const country = payee?.country;
+      const withheld = withholdLineItems(
+        normalizeLineItems(rawItems),
+        country ? rules.filter((r) => r.country === country) : [],
+      );
+      items = withheld.items;
+      amount = withheld.net;
+      if (withheld.net <= 0) {
+        errors.push({ index, field: "items", message: `Withholding for ${country} leaves nothing to pay` });
+      }
+    }
+
+    const valid = errors.length === 0;
+    const destination = valid
+      ? getPayeeRailDestination(payee, { currency: payoutCurrency, amount: amount as number })
+      : null;
+
+    return {
+      index,
+      paymentId: stored?.paymentIds[index],
+      recipient: resolvedRecipient,
+      payeeId: payee?.id ?? null,
+      amount: typeof amount === "number" ? amount : null,
+      currency: payoutCurrency,
+      items,
+      settlementAmount: null,
+      fxRate: null,
+      valid,
+      errors,
+      gas: null,
+      rail: destination
+        ? previewRailPayment({
+            payrollId: payrollId ?? "simulation",
+            paymentId: stored?.paymentIds[index],
+            amount: amount as number,
+            currency: payoutCurrency,
+            memo: input.memo,
+            ...destination,
+          })
+        : null,
+    };
+  });
+
+  const validLines = lines.filter((l) => l.valid);
+
+  // Settlement of each line in the payroll currency (stored payrolls keep their locked quote)
+  let quoted = false;
+  try {
+    if (stored) {
+      validLines.forEach((l) => {
+        l.settlementAmount = stored.settlements[l.index].settlementAmount;
+        l.fxRate = stored.settlements[l.index].fxRate;
+      });
+    } else {
+      const quote = await quotePayrollLines(
+        currency,
+        validLines.map((l) => ({ amount: l.amount!, currency: l.currency })),
+      );
+      quote.lines.forEach((q, i) => {
+        validLines[i].settlementAmount = q.settlementAmount;
+        validLines[i].fxRate = q.fx?.rate ?? null;
+      });
+    }
+    quoted = true;
+  } catch (error) {
+    logger.warn("Simulation could not quote FX rates", error);
+    warnings.push(error instanceof Error ? error.message : "FX rates unavailable");
+  }
+  const total = validLines.reduce((sum, l) => sum + (l.settlementAmount ?? 0), 0);
+
+  // Treasury balance per token
+  const treasury: PayrollSimulationReport["treasury"] = [];
+  try {
+    const balance = await checkTreasuryBalance(currency);
+    const required = usdCentsToTokenAmount(total, balance.decimals);
+    treasury.push({
+      currency,
+      token: getTokenAddress(currency),
+      decimals: balance.decimals,
+      required: ethers.formatUnits(required, balance.decimals),
+      available: balance.formatted,
+      sufficient: balance.balance >= required,
+    });
+  } catch (error) {
+    logger.warn("Simulation could not check treasury balance", error);
+    warnings.push(`Treasury balance unavailable: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+
+  // Gas estimates for requestPayment and executePayment
+  let gas: PayrollSimulationReport["gas"] = null;
+  if (validLines.length > 0 && quoted) {
+    try {
+      const { estimates, gasPrice } = await estimatePaymentsGas(
+        currency,
+        validLines.map((l) => ({ recipient: l.recipient!, amount: l.settlementAmount! })),
+      );
+
+      let requestGas = BigInt(0);
+      let executeGas = BigInt(0);
+      estimates.forEach((estimate, i) => {
+        const line = validLines[i];
+        line.gas = {
+          requestPayment: estimate.requestPayment?.toString() ?? null,
+          executePayment: estimate.executePayment?.toString() ?? null,
+        };
+        if (estimate.error) {
+          line.gasError = estimate.error;
+        }
+        requestGas += estimate.requestPayment ?? BigInt(0);
+        executeGas += estimate.executePayment ?? BigInt(0);
+      });
+
+      const totalGas = requestGas + executeGas;
+      gas = {
+        requestPayment: requestGas.toString(),
+        executePayment: executeGas.toString(),
+        total: totalGas.toString(),
+        gasPrice: gasPrice?.toString() ?? null,
+        estimatedCost: gasPrice !== null ? ethers.formatEther(totalGas * gasPrice) : null,
+        nativeCurrency: getCurrentNetworkConfig().nativeCurrency.symbol,
+      };
+    } catch (error) {
+      logger.warn("Simulation could not estimate gas", error);
+      warnings.push(`Gas estimation unavailable: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  const unready = validLines.filter((l) => l.rail && !l.rail.ready);
+  if (unready.length > 0) {
+    const missing = [...new Set(unready.flatMap((l) => l.rail!.missing))];
+    warnings.push(`${unready.length} Rail withdrawal(s) cannot be created; missing ${missing.join(", ")}`);
+  }
+
+  const feasible =
+    lines.length > 0 &&
+    lines.every((l) => l.valid && !l.gasError) &&
+    quoted &&
+    treasury.length > 0 &&
+    treasury.every((t) => t.sufficient) &&
+    gas !== null;
+
+  return {
+    payrollId,
+    currency,
+    memo: input.memo ?? null,
+    total,
+    feasible,
+    lines,
+    skippedPayments: stored?.skippedPayments ?? 0,
+    treasury,
+    gas,
+    railWithdrawals: validLines.filter((l) => l.rail !== null).length,
+    warnings,
+  };
+}
+
+/**
+ * Simulate the unsettled payments of a stored payroll
+ * Useful before executing an approved payroll or retrying a partially paid one.
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ */
+export async function simulateStoredPayroll(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    include: { payments: { orderBy: { createdAt: "asc" } } },
+  });
+
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+
+  const unsettled = payroll.payments.filter((p) => !SETTLED_PAYMENT_STATUSES.includes(p.status));
+
+  return simulatePayroll(
+    companyId,
+    {
+      currency: payroll.currency,
+      memo: payroll.memo ?? undefined,
+      payments: unsettled.map((p) => ({
+        recipient: p.recipient ?? "",
+        payeeId: p.payeeId ?? undefined,
+        amount: p.amount,
+        currency: p.currency,
+      })),
+    },
+    {
+      payrollId: payroll.id,
+      paymentIds: unsettled.map((p) => p.id),
+      settlements: unsettled.map((p) => ({ settlementAmount: p.settlementAmount, fxRate: p.fxRate })),
+      skippedPayments: payroll.payments.length - unsettled.length,
+    },
+  );
+}
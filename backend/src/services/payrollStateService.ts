@@ -0,0 +1,222 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import {
+  PayrollEventEntity,
+  canTransitionPayroll,
+  type PayrollStatusType,
+  type TreasurySwapStatusType,
+} from "../domain/payroll.js";
+import { canTransitionPayment, type PaymentStatusType } from "../domain/payment.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll State Service
+ * All payroll and payment status changes go through this service: illegal transitions are
+ * rejected and every transition is recorded as a PayrollEvent (the payroll timeline), next to
+ * the treasury swaps made for the payroll.
+ */
+
+// Who moved the status and why
+export type TransitionContext = {
+  actor: string; // See PayrollEventActor / userActor
+  reason?: string;
+};
+
+export type TransitionOptions = {
+  from?: readonly string[]; // Statuses the entity must currently be in
+  code?: string; // Error code when it is not (default INVALID_STATUS_TRANSITION)
+  tx?: Prisma.TransactionClient; // Run inside the caller's transaction
+};
+
+const INVALID_TRANSITION = "INVALID_STATUS_TRANSITION";
+
+function inTransaction<T>(
+  tx: Prisma.TransactionClient | undefined,
+  fn: (db: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+  return tx ? fn(tx) : prisma.$transaction(fn);
+}
+
+/**
+ * Move a payroll to a new status
+ * The update is guarded on the status that was read, so concurrent writers cannot both
+ * move the payroll. Moving to the current status is a no-op and records nothing.
+ * @throws NotFoundError when the payroll does not exist
+ * @throws ConflictError when the transition is illegal or the status changed concurrently
+ */
+export async function transitionPayroll(
+  payrollId: string,
+  to: PayrollStatusType,
+  context: TransitionContext,
+  options: TransitionOptions = {},
+): Promise<PayrollStatusType> {
+  const code = options.code ?? INVALID_TRANSITION;
+
+  return inTransaction(options.tx, async (db) => {
+    const payroll = await db.payroll.findUnique({
+      where: { id: payrollId },
+      select: { status: true },
+    });
+    if (!payroll) {
+      throw new NotFoundError(`Payroll not found: ${payrollId}`);
+    }
+
+    const from = payroll.status;
+    if (options.from && !options.from.includes(from)) {
+      throw new ConflictError(`Payroll ${payrollId} is ${from}; expected ${options.from.join(" or ")}`, code);
+    }
+    if (from === to) {
+      return to;
+    }
+    if (!canTransitionPayroll(from, to)) {
+      throw new ConflictError(`Payroll ${payrollId} cannot move from ${from} to ${to}`, code);
+    }
+
+    const updated = await db.payroll.updateMany({
+      where: { id: payrollId, status: from },
+      data: { status: to },
+    });
+    if (updated.count === 0) {
+      throw new ConflictError(`Payroll ${payrollId} changed status concurrently`, code);
+    }
+
+    await db.payrollEvent.create({
+      data: {
+        payrollId,
+        entity: PayrollEventEntity.PAYROLL,
+        fromStatus: from,
+        toStatus: to,
+        actor: context.actor,
+        reason: context.reason,
+      },
+    });
+    logger.info(`Payroll ${payrollId}: ${from} -> ${to} (${context.actor})`);
+    return to;
+  });
+}
+
+/**
+ * Move a payment to a new status, optionally updating other payment fields with it
+ * Moving to the current status only applies `data` and records nothing.
+ * @param data - Fields written together with the status (e.g. failureReason)
+ * @throws NotFoundError when the payment does not exist
+ * @throws ConflictError when the transition is illegal or the status changed concurrently
+ */
+export async function transitionPayment(
+  paymentId: string,
+  to: PaymentStatusType,
+  context: TransitionContext,
+  data: Omit<Prisma.OutboundPaymentUpdateManyMutationInput, "status"> = {},
+  options: TransitionOptions = {},
+): Promise<PaymentStatusType> {
+  const code = options.code ?? INVALID_TRANSITION;
+
+  return inTransaction(options.tx, async (db) => {
+    const payment = await db.outboundPayment.findUnique({
+      where: { id: paymentId },
+      select: { status: true, payrollId: true },
+    });
+    if (!payment) {
+      throw new NotFoundError(`Payment not found: ${paymentId}`, "PAYMENT_NOT_FOUND");
+    }
+
+    const from = payment.status;
+    if (options.from && !options.from.includes(from)) {
+      throw new ConflictError(`Payment ${paymentId} is ${from}; expected ${options.from.join(" or ")}`, code);
+    }
+    if (from !== to && !canTransitionPayment(from, to)) {
+      throw new ConflictError(`Payment ${paymentId} cannot move from ${from} to ${to}`, code);
+    }
+
+    const updated = await db.outboundPayment.updateMany({
+      where: { id: paymentId, status: from },
+      data: { ...data, status: to },
+    });
+    if (updated.count === 0) {
+      throw new ConflictError(`Payment ${paymentId} changed status concurrently`, code);
+    }
+
+    if (from !== to) {
+      await db.payrollEvent.create({
+        data: {
+          payrollId: payment.payrollId,
+          paymentId,
+          entity: PayrollEventEntity.PAYMENT,
+          fromStatus: from,
+          toStatus: to,
+          actor: context.actor,
+          reason: context.reason,
+        },
+      });
+    }
+    return to;
+  });
+}
+
+/**
+ * Move every payment of a payroll to the same status
+ * Each payment is checked individually; the first illegal transition stops the update.
+ * @returns Number of payments that changed status
+ */
+export async function transitionPayrollPayments(
+  payrollId: string,
+  to: PaymentStatusType,
+  context: TransitionContext,
+): Promise<number> {
+  const payments = await prisma.outboundPayment.findMany({
+    where: { payrollId, status: { not: to } },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const payment of payments) {
+    await transitionPayment(payment.id, to, context);
+  }
+  return payments.length;
+}
+
+/**
+ * Record a treasury swap made for a payroll on its timeline
+ * Swaps have no status of their own to move; the event records the outcome.
+ * @param status - EXECUTED or FAILED
+ * @param context - Who swapped, and the amounts, rate and transaction in the reason
+ */
+export async function recordTreasurySwap(
+  payrollId: string,
+  status: TreasurySwapStatusType,
+  context: TransitionContext,
+) {
+  await prisma.payrollEvent.create({
+    data: {
+      payrollId,
+      entity: PayrollEventEntity.SWAP,
+      toStatus: status,
+      actor: context.actor,
+      reason: context.reason,
+    },
+  });
+  logger.info(`Payroll ${payrollId}: treasury swap ${status} (${context.actor})`);
+}
+
+/**
+ * Status history of a payroll and its payments, oldest first
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ */
+export async function getPayrollTimeline(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    select: { id: true, status: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+
+  const events = await prisma.payrollEvent.findMany({
+    where: { payrollId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return { payroll, events };
+}
@@ -0,0 +1,213 @@
+import { prisma } from "../dbClient.js";
+import { PaymentLineItemType, summarizeLineItems } from "../domain/payment.js";
+import {
+  validatePayrollInput,
+  type CreatePayrollInput,
+  type PayrollLineInput,
+  type PayrollValidationError,
+} from "./payrollValidation.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Payroll Template Service
+ * Saved payrolls a company reuses (named lists of payees with default amounts), and
+ * drafts pre-filled from a past payroll. Neither creates a payroll: the caller adjusts
+ * the lines and submits them with POST /api/payroll/drafts.
+ */
+
+// Maximum length of a template name
+const MAX_NAME_LENGTH = 200;
+
+type PayrollTemplateRecord = NonNullable<Awaited<ReturnType<typeof prisma.payrollTemplate.findUnique>>>;
+
+// Validated template fields
+export type PayrollTemplateInput = {
+  name: string;
+  payroll: CreatePayrollInput;
+};
+
+export type PayrollTemplateValidationResult =
+  | { valid: true; input: PayrollTemplateInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+/**
+ * Validate a template submission
+ * The lines are validated like a payroll submission (POST /api/payroll/drafts).
+ * @param body - Raw request body
+ * @param existing - Current template when updating (missing fields fall back to it)
+ */
+export function validatePayrollTemplateInput(
+  body: unknown,
+  existing?: PayrollTemplateRecord,
+): PayrollTemplateValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+
+  const errors: PayrollValidationError[] = [];
+
+  const name = pick("name", existing?.name);
+  if (typeof name !== "string" || name.trim() === "") {
+    errors.push({ field: "name", message: "Name is required" });
+  } else if (name.trim().length > MAX_NAME_LENGTH) {
+    errors.push({ field: "name", message: `Name must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  const payroll = validatePayrollInput({
+    currency: pick("currency", existing?.currency),
+    memo: pick("memo", existing?.memo ?? undefined),
+    payments: pick("payments", existing ? parseLines(existing.lines) : undefined),
+  });
+  if (!payroll.valid) {
+    errors.push(...payroll.errors);
+  }
+
+  if (errors.length > 0 || !payroll.valid) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      name: (name as string).trim(),
+      payroll: payroll.input,
+    },
+  };
+}
+
+function parseLines(lines: string): PayrollLineInput[] {
+  return JSON.parse(lines) as PayrollLineInput[];
+}
+
+/**
+ * Format a template for API responses (lines parsed back into payment lines)
+ */
+export function formatPayrollTemplate(template: PayrollTemplateRecord) {
+  const { lines, ...rest } = template;
+  return {
+    ...rest,
+    payments: parseLines(lines),
+  };
+}
+
+async function assertNameAvailable(companyId: string, name: string, templateId?: string) {
+  const duplicate = await prisma.payrollTemplate.findFirst({
+    where: {
+      companyId,
+      name,
+      ...(templateId ? { id: { not: templateId } } : {}),
+    },
+    select: { id: true },
+  });
+  if (duplicate) {
+    throw new ConflictError(`A payroll template named "${name}" already exists`, "PAYROLL_TEMPLATE_EXISTS");
+  }
+}
+
+/**
+ * Create a template for a company
+ * @returns Created template
+ */
+export async function createPayrollTemplate(companyId: string, input: PayrollTemplateInput) {
+  await assertNameAvailable(companyId, input.name);
+  const template = await prisma.payrollTemplate.create({
+    data: {
+      companyId,
+      name: input.name,
+      currency: input.payroll.currency,
+      memo: input.payroll.memo,
+      lines: JSON.stringify(input.payroll.payments),
+    },
+  });
+  logger.info(`Payroll template created: ${template.id} (${input.payroll.payments.length} lines, company ${companyId})`);
+  return template;
+}
+
+/**
+ * Update a template
+ */
+export async function updatePayrollTemplate(existing: PayrollTemplateRecord, input: PayrollTemplateInput) {
+  await assertNameAvailable(existing.companyId, input.name, existing.id);
+  return prisma.payrollTemplate.update({
+    where: { id: existing.id },
+    data: {
+      name: input.name,
+      currency: input.payroll.currency,
+      memo: input.payroll.memo ?? null,
+      lines: JSON.stringify(input.payroll.payments),
+    },
+  });
+}
+
+// Get a company's template by id
+export async function getPayrollTemplate(companyId: string, id: string) {
+  return prisma.payrollTemplate.findFirst({
+    where: { id, companyId },
+  });
+}
+
+// List a company's templates by name
+export async function listPayrollTemplates(companyId: string) {
+  return prisma.payrollTemplate.findMany({
+    where: { companyId },
+    orderBy: { name: "asc" },
+  });
+}
+
+// Delete a template
+export async function deletePayrollTemplate(id: string) {
+  await prisma.payrollTemplate.delete({ where: { id } });
+}
+
+/**
+ * Payroll lines pre-filled from a past payroll of the company
+ * Payee lines reference the payee (its current wallet is used when the draft is submitted);
+ * itemized lines keep their earnings, deductions and reimbursements, and withholding is
+ * computed again from the current rules. Payments without a payee or recipient are skipped.
+ * @throws NotFoundError when the payroll does not belong to the company
+ */
+export async function clonePayroll(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    include: {
+      payments: {
+        orderBy: { createdAt: "asc" },
+        include: { lineItems: { orderBy: { position: "asc" } } },
+      },
+    },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+
+  const payments: PayrollLineInput[] = payroll.payments.flatMap((payment) => {
+    if (!payment.payeeId && !payment.recipient) {
+      return [];
+    }
+    const items = payment.lineItems
+      .filter((item) => item.type !== PaymentLineItemType.WITHHOLDING)
+      .map(({ type, description, amount }) => ({ type, description, amount }));
+    return [{
+      ...(payment.payeeId ? { payeeId: payment.payeeId } : { recipient: payment.recipient! }),
+      amount: items.length > 0 ? summarizeLineItems(items).net : payment.amount,
+      currency: payment.currency,
+      ...(items.length > 0 ? { items } : {}),
+    }];
+  });
+
+  return {
+    sourcePayrollId: payroll.id,
+    currency: payroll.currency,
+    memo: payroll.memo,
+    payments,
+    skippedPayments: payroll.payments.length - payments.length,
+  };
+}
@@ -0,0 +1,394 @@
+import { ethers } from "ethers";
+import { PaymentLineItemType, summarizeLineItems } from "../domain/payment.js";
+import {
+  PayrollStatus,
+  SUPPORTED_PAYOUT_CURRENCIES,
+  SUPPORTED_PAYROLL_CURRENCIES,
+  type PayrollStatusType,
+} from "../domain/payroll.js";
+
+/**
+ * Payroll Validation
+ * Validates payroll submissions before anything is written to the database
+ */
+
+// Maximum memo length accepted on a payroll
+const MAX_MEMO_LENGTH = 500;
+
+// Line items accepted on one payroll line, and the length of their description
+const MAX_LINE_ITEMS = 50;
+const MAX_ITEM_DESCRIPTION_LENGTH = 200;
+
+// Line item types a submission may contain (WITHHOLDING items are computed, see withholdingService)
+const SUBMITTED_LINE_ITEM_TYPES: readonly string[] = [
+  PaymentLineItemType.EARNING,
+  PaymentLineItemType.REIMBURSEMENT,
+  PaymentLineItemType.DEDUCTION,
+];
+
+// Page size of GET /api/payroll
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// Fields GET /api/payroll can sort by
+export const PAYROLL_SORT_FIELDS = ["createdAt", "updatedAt", "total"] as const;
+
+export type PayrollSortField = (typeof PAYROLL_SORT_FIELDS)[number];
+
+// Gross-to-net line item of a payroll line (amount in cents of the line currency)
+// withholdingRuleId and rateBps are set on the WITHHOLDING items added by applyWithholding.
+export type PayrollLineItemInput = {
+  type: string;
+  description: string;
+  amount: number;
+  withholdingRuleId?: string;
+  rateBps?: number;
+};
+
+// One payroll line (amount in cents of the line currency)
+// Lines reference a payee from the company directory or a raw wallet address;
+// payee lines get their recipient filled in by resolvePayrollPayees.
+// The line currency defaults to the payroll currency.
+// Itemized lines get their amount from their items: net of deductions after validation,
+// net of withholding once resolvePayrollPayees has applied the company's withholding rules.
+export type PayrollLineInput = {
+  recipient?: string;
+  payeeId?: string;
+  amount: number;
+  currency?: string;
+  items?: PayrollLineItemInput[];
+};
+
+// Validated payroll submission
+export type CreatePayrollInput = {
+  currency: string;
+  memo?: string;
+  payments: PayrollLineInput[];
+};
+
+// Single validation problem, pointing at the offending line when possible
+export type PayrollValidationError = {
+  index?: number;
+  field: string;
+  message: string;
+};
+
+export type PayrollValidationResult =
+  | { valid: true; input: CreatePayrollInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+// Validated GET /api/payroll query
+export type PayrollListQuery = {
+  statuses?: PayrollStatusType[];
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+  search?: string; // Payroll ID or part of the memo
+  cursor?: string; // ID of the last payroll of the previous page
+  limit: number;
+  sort: PayrollSortField;
+  order: "asc" | "desc";
+};
+
+export type PayrollListQueryResult =
+  | { valid: true; query: PayrollListQuery }
+  | { valid: false; errors: PayrollValidationError[] };
+
+/**
+ * Check whether a currency code is supported for payroll
+ * @param currency - ISO currency code
+ */
+export function isSupportedPayrollCurrency(currency: string): boolean {
+  return (SUPPORTED_PAYROLL_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * Check whether a currency code is supported for payroll lines
+ * @param currency - ISO currency code
+ */
+export function isSupportedPayoutCurrency(currency: string): boolean {
+  return (SUPPORTED_PAYOUT_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * Validate the line items of a payroll line
+ * @param items - Raw items
+ * @param index - Position of the line (used in error reports)
+ * @returns List of problems found (empty when valid)
+ */
+function validateLineItems(items: unknown, index?: number): PayrollValidationError[] {
+  if (!Array.isArray(items) || items.length === 0) {
+    return [{ index, field: "items", message: "items must be a non-empty array" }];
+  }
+  if (items.length > MAX_LINE_ITEMS) {
+    return [{ index, field: "items", message: `A payment can have at most ${MAX_LINE_ITEMS} line items` }];
+  }
+
+  const errors: PayrollValidationError[] = [];
+  items.forEach((item, position) => {
+    const field = `items[${position}]`;
+    if (!item || typeof item !== "object") {
+      errors.push({ index, field, message: "Line item must be an object" });
+      return;
+    }
+    const { type, description, amount } = item as Record<string, unknown>;
+    if (typeof type === "string" && type.toUpperCase() === PaymentLineItemType.WITHHOLDING) {
+      errors.push({
+        index,
+        field: `${field}.type`,
+        message: "WITHHOLDING items are computed from the company's withholding rules",
+      });
+    } else if (typeof type !== "string" || !SUBMITTED_LINE_ITEM_TYPES.includes(type.toUpperCase())) {
+      errors.push({
+        index,
+        field: `${field}.type`,
+        message: `Line item type must be one of: ${SUBMITTED_LINE_ITEM_TYPES.join(", ")}`,
+      });
+    }
+    if (typeof description !== "string" || description.trim() === "") {
+      errors.push({ index, field: `${field}.description`, message: "Line item description is required" });
+    } else if (description.trim().length > MAX_ITEM_DESCRIPTION_LENGTH) {
+      errors.push({
+        index,
+        field: `${field}.description`,
+        message: `Line item description must be at most ${MAX_ITEM_DESCRIPTION_LENGTH} characters`,
+      });
+    }
+    if (typeof amount !== "number" || !Number.isInteger(amount) || amount <= 0) {
+      errors.push({ index, field: `${field}.amount`, message: "Line item amount must be a whole number of cents greater than 0" });
+    }
+  });
+
+  if (errors.length === 0 && summarizeLineItems(normalizeLineItems(items)).net <= 0) {
+    errors.push({ index, field: "items", message: "Deductions must be less than earnings and reimbursements" });
+  }
+  return errors;
+}
+
+/**
+ * Normalize validated line items (upper-case types, trimmed descriptions)
+ * @param items - Items that passed validatePayrollLine
+ */
+export function normalizeLineItems(items: unknown[]): PayrollLineItemInput[] {
+  return (items as PayrollLineItemInput[]).map((item) => ({
+    type: item.type.toUpperCase(),
+    description: item.description.trim(),
+    amount: item.amount,
+  }));
+}
+
+/**
+ * Validate a single payroll line
+ * @param line - Raw line data
+ * @param index - Position of the line (used in error reports)
+ * @returns List of problems found (empty when valid)
+ */
+export function validatePayrollLine(line: unknown, index?: number): PayrollValidationError[] {
+  const errors: PayrollValidationError[] = [];
+
+  if (!line || typeof line !== "object") {
+    errors.push({ index, field: "payment", message: "Payment must be an object" });
+    return errors;
+  }
+
+  const { recipient, payeeId, amount, currency, items } = line as Record<string, unknown>;
+
+  if (payeeId !== undefined && (typeof payeeId !== "string" || payeeId.trim() === "")) {
+    errors.push({ index, field: "payeeId", message: "payeeId must be a non-empty string" });
+  }
+
+  if (payeeId !== undefined && recipient === undefined) {
+    // Recipient comes from the payee's wallet
+  } else if (typeof recipient !== "string" || recipient.trim() === "") {
+    errors.push({ index, field: "recipient", message: "Recipient or payeeId is required" });
+  } else if (!ethers.isAddress(recipient.trim())) {
+    errors.push({
+      index,
+      field: "recipient",
+      message: `Recipient is not a valid EVM address: ${recipient}`,
+    });
+  }
+
+  if (items !== undefined) {
+    const itemErrors = validateLineItems(items, index);
+    errors.push(...itemErrors);
+    // Amount is optional on itemized lines; when given it must match the items
+    if (itemErrors.length === 0 && amount !== undefined) {
+      const { net } = summarizeLineItems(normalizeLineItems(items as unknown[]));
+      if (amount !== net) {
+        errors.push({
+          index,
+          field: "amount",
+          message: `Amount must equal the net of the line items before withholding (${net})`,
+        });
+      }
+    }
+  } else if (typeof amount !== "number" || !Number.isFinite(amount)) {
+    errors.push({ index, field: "amount", message: "Amount must be a number (in cents)" });
+  } else if (!Number.isInteger(amount)) {
+    errors.push({ index, field: "amount", message: "Amount must be a whole number of cents" });
+  } else if (amount <= 0) {
+    errors.push({ index, field: "amount", message: "Amount must be greater than 0" });
+  }
+
+  if (currency !== undefined && (typeof currency !== "string" || !isSupportedPayoutCurrency(currency.toUpperCase()))) {
+    errors.push({
+      index,
+      field: "currency",
+      message: `Currency must be one of: ${SUPPORTED_PAYOUT_CURRENCIES.join(", ")}`,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a payroll submission
+ * Normalizes currencies to upper case and recipients to lower-case addresses
+ * (the contract event listener matches payments by lower-case payee).
+ * @param body - Raw request body
+ */
+export function validatePayrollInput(body: unknown): PayrollValidationResult {
+  const errors: PayrollValidationError[] = [];
+
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const { currency: rawCurrency, memo, payments } = body as Record<string, unknown>;
+  const currency = typeof rawCurrency === "string" ? rawCurrency.toUpperCase() : "USD";
+
+  if (rawCurrency !== undefined && (typeof rawCurrency !== "string" || !isSupportedPayrollCurrency(currency))) {
+    errors.push({
+      field: "currency",
+      message: `Currency must be one of: ${SUPPORTED_PAYROLL_CURRENCIES.join(", ")}`,
+    });
+  }
+
+  if (memo !== undefined && memo !== null) {
+    if (typeof memo !== "string") {
+      errors.push({ field: "memo", message: "Memo must be a string" });
+    } else if (memo.length > MAX_MEMO_LENGTH) {
+      errors.push({ field: "memo", message: `Memo must be at most ${MAX_MEMO_LENGTH} characters` });
+    }
+  }
+
+  if (!Array.isArray(payments) || payments.length === 0) {
+    errors.push({ field: "payments", message: "At least one payment is required" });
+  } else {
+    payments.forEach((line, index) => {
+      errors.push(...validatePayrollLine(line, index));
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      currency,
+      memo: typeof memo === "string" && memo.trim() !== "" ? memo.trim() : undefined,
+      payments: (payments as PayrollLineInput[]).map((p) => {
+        const items = p.items ? normalizeLineItems(p.items) : undefined;
+        return {
+          payeeId: p.payeeId?.trim(),
+          recipient: p.recipient?.trim().toLowerCase(),
+          amount: items ? summarizeLineItems(items).net : p.amount,
+          currency: p.currency?.toUpperCase() ?? currency,
+          items,
+        };
+      }),
+    },
+  };
+}
+
+// Single query string value (undefined when missing, empty or repeated)
+function queryString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+/**
+ * Validate the query string of GET /api/payroll
+ * `status` accepts a comma-separated list or a repeated parameter.
+ * @param query - Raw Express query object
+ */
+export function validatePayrollListQuery(query: Record<string, unknown>): PayrollListQueryResult {
+  const errors: PayrollValidationError[] = [];
+  const allStatuses: readonly string[] = Object.values(PayrollStatus);
+
+  let statuses: PayrollStatusType[] | undefined;
+  if (query.status !== undefined) {
+    const values = (Array.isArray(query.status) ? query.status : [query.status])
+      .flatMap((v) => (typeof v === "string" ? v.split(",") : [""]))
+      .map((v) => v.trim().toUpperCase())
+      .filter((v) => v !== "");
+    const unknown = values.filter((v) => !allStatuses.includes(v));
+    if (values.length === 0 || unknown.length > 0) {
+      errors.push({ field: "status", message: `Status must be one of: ${allStatuses.join(", ")}` });
+    } else {
+      statuses = [...new Set(values)] as PayrollStatusType[];
+    }
+  }
+
+  const dates: { from?: Date; to?: Date } = {};
+  for (const field of ["from", "to"] as const) {
+    if (query[field] === undefined) {
+      continue;
+    }
+    const raw = queryString(query[field]);
+    const date = raw ? new Date(raw) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ field, message: `${field} must be an ISO 8601 date` });
+    } else {
+      dates[field] = date;
+    }
+  }
+  if (dates.from && dates.to && dates.from >= dates.to) {
+    errors.push({ field: "to", message: "to must be after from" });
+  }
+
+  let limit = DEFAULT_LIST_LIMIT;
+  if (query.limit !== undefined) {
+    limit = Number(queryString(query.limit));
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      errors.push({ field: "limit", message: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}` });
+    }
+  }
+
+  const sort = queryString(query.sort) ?? "createdAt";
+  if (!(PAYROLL_SORT_FIELDS as readonly string[]).includes(sort)) {
+    errors.push({ field: "sort", message: `sort must be one of: ${PAYROLL_SORT_FIELDS.join(", ")}` });
+  }
+
+  const order = (queryString(query.order) ?? "desc").toLowerCase();
+  if (order !== "asc" && order !== "desc") {
+    errors.push({ field: "order", message: "order must be asc or desc" });
+  }
+
+  const cursor = queryString(query.cursor);
+  if (query.cursor !== undefined && !cursor) {
+    errors.push({ field: "cursor", message: "cursor must be a payroll ID" });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    query: {
+      statuses,
+      from: dates.from,
+      to: dates.to,
+      search: queryString(query.q),
+      cursor,
+      limit,
+      sort: sort as PayrollSortField,
+      order: order as "asc" | "desc",
+    },
+  };
+}
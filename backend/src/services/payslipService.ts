@@ -0,0 +1,233 @@
+import JSZip from "jszip";
+import { formatUnits } from "ethers";
+import { prisma } from "../dbClient.js";
+import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import { PaymentLineItemType, SETTLED_PAYMENT_STATUSES, summarizeLineItems } from "../domain/payment.js";
+import { ConflictError, NotFoundError } from "../utils/errors.js";
+import { renderPdf, type PdfLine } from "../utils/pdf.js";
+import { withPaidAt } from "./payrollExportService.js";
+
+/**
+ * Payslip Service
+ * PDF payslips giving each recipient proof of payment: payer company, amount and period,
+ * the gross-to-net line items, the on-chain transaction, the Rail withdrawal reference and the
+ * payroll's Arweave receipt.
+ * Only payments whose funds left the treasury (ONCHAIN_PAID, RAIL_PROCESSING, PAID) get a payslip.
+ */
+
+export type PayslipFile = {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+};
+
+// Characters that fit the label column at the default font size
+const MAX_LABEL_LENGTH = 28;
+
+type PayslipPayroll = Awaited<ReturnType<typeof loadPayroll>>;
+
+type PayslipPayment = PayslipPayroll["payments"][number] & {
+  paidAt: Date;
+};
+
+async function loadPayroll(companyId: string, payrollId: string) {
+  const payroll = await prisma.payroll.findFirst({
+    where: { id: payrollId, companyId },
+    include: {
+      company: { select: { legalName: true, tradeName: true, country: true, businessEmail: true } },
+      payments: {
+        orderBy: { createdAt: "asc" },
+        include: {
+          payee: { select: { name: true, email: true, country: true } },
+          lineItems: { orderBy: { position: "asc" } },
+        },
+      },
+    },
+  });
+  if (!payroll || !payroll.company) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  return { ...payroll, company: payroll.company };
+}
+
+function formatMoney(cents: number, currency: string): string {
+  const amount = (cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount} ${currency}`;
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+// Pay period: the calendar month the payment settled in
+function formatPeriod(date: Date): string {
+  return date.toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+// Labels longer than the label column would run into the value
+function truncate(label: string): string {
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 3)}...` : label;
+}
+
+// Gross-to-net section: one line per item (deductions negative), then gross and net pay
+function lineItemLines(payment: PayslipPayment): PdfLine[] {
+  if (payment.lineItems.length === 0) {
+    return [];
+  }
+  const totals = summarizeLineItems(payment.lineItems);
+  const subtracted: string[] = [PaymentLineItemType.WITHHOLDING, PaymentLineItemType.DEDUCTION];
+  return [
+    { rule: true, spaceBefore: 8 },
+    { text: "Earnings and deductions", size: 12, bold: true },
+    ...payment.lineItems.map((item) => ({
+      label: truncate(item.rateBps !== null ? `${item.description} (${item.rateBps / 100}%)` : item.description),
+      text: `${subtracted.includes(item.type) ? "-" : ""}${formatMoney(item.amount, payment.currency)} (${item.type.toLowerCase()})`,
+    })),
+    { label: "Gross pay", text: formatMoney(totals.gross, payment.currency), spaceBefore: 4 },
+    { label: "Net pay", text: formatMoney(totals.net, payment.currency), bold: true },
+  ];
+}
+
+function renderPayslip(payroll: PayslipPayroll, payment: PayslipPayment): Buffer {
+  const network = getCurrentNetworkConfig();
+  const { company } = payroll;
+  const section = (title: string): PdfLine[] => [
+    { rule: true, spaceBefore: 8 },
+    { text: title, size: 12, bold: true },
+  ];
+
+  const lines: PdfLine[] = [
+    { text: "Payslip", size: 20, bold: true },
+    { text: `Proof of payment ${payment.id}`, size: 9 },
+
+    ...section("Payer"),
+    { label: "Company", text: company.tradeName ? `${company.legalName} (${company.tradeName})` : company.legalName },
+    { label: "Country", text: company.country },
+    { label: "Contact", text: company.businessEmail },
+
+    ...section("Recipient"),
+    { label: "Name", text: payment.payee?.name ?? "-" },
+    ...(payment.payee?.email ? [{ label: "Email", text: payment.payee.email }] : []),
+    ...(payment.payee?.country ? [{ label: "Country", text: payment.payee.country }] : []),
+    { label: "Wallet", text: payment.recipient ?? "-" },
+
+    ...lineItemLines(payment),
+
+    ...section("Payment"),
+    { label: "Period", text: formatPeriod(payment.paidAt) },
+    { label: "Amount", text: formatMoney(payment.amount, payment.currency), bold: true },
+    ...(payment.fxRate
+      ? [{
+          label: "Paid by treasury",
+          text: `${formatMoney(payment.settlementAmount, payroll.currency)} (rate ${payment.fxRate}${payment.fxSource ? `, ${payment.fxSource}` : ""})`,
+        }]
+      : []),
+    { label: "Paid at", text: formatDateTime(payment.paidAt) },
+    { label: "Status", text: payment.status },
+    { label: "Payroll", text: payroll.memo ? `${payroll.id} - ${payroll.memo}` : payroll.id },
+
+    ...section("References"),
+    { label: "Network", text: network.name },
+    payment.txHash
+      ? { label: "On-chain transaction", text: `${network.explorerUrl}/tx/${payment.txHash}`, link: `${network.explorerUrl}/tx/${payment.txHash}` }
+      : { label: "On-chain transaction", text: "-" },
+    ...(payment.networkFee
+      ? [{ label: "Network fee", text: `${formatUnits(BigInt(payment.networkFee), network.nativeCurrency.decimals)} ${network.nativeCurrency.symbol}` }]
+      : []),
+    {
+      label: "Rail reference",
+      text: payment.railWithdrawalId
+        ? `${payment.railWithdrawalId}${payment.withdrawalRail ? ` (${payment.withdrawalRail}${payment.railStatus ? `, ${payment.railStatus}` : ""})` : ""}`
+        : "- (paid to wallet)",
+    },
+    payroll.receiptTxId
+      ? { label: "Receipt ID", text: payroll.receiptTxId, link: `https://arweave.net/${payroll.receiptTxId}` }
+      : { label: "Receipt ID", text: "- (receipt is stored once the payroll is paid)" },
+
+    { rule: true, spaceBefore: 8 },
+    { text: `Generated ${formatDateTime(new Date())} by SnowRail. The transaction can be verified on ${network.explorerUrl}.`, size: 8 },
+  ];
+
+  return renderPdf(lines, `Payslip ${payment.id}`);
+}
+
+/**
+ * Payslip of one payment of a company's payroll
+ * @param companyId - Company that owns the payroll
+ * @param payrollId - Payroll ID
+ * @param paymentId - Outbound payment ID
+ * @throws NotFoundError when the payroll or payment does not belong to the company
+ * @throws ConflictError PAYMENT_NOT_SETTLED when the funds have not left the treasury yet
+ */
+export async function getPayslip(companyId: string, payrollId: string, paymentId: string): Promise<PayslipFile> {
+  const payroll = await loadPayroll(companyId, payrollId);
+  const payment = payroll.payments.find((p) => p.id === paymentId);
+  if (!payment) {
+    throw new NotFoundError(`Payment not found: ${paymentId}`);
+  }
+  if (!SETTLED_PAYMENT_STATUSES.includes(payment.status)) {
+    throw new ConflictError(
+      `Payment ${paymentId} has not been paid yet (status ${payment.status})`,
+      "PAYMENT_NOT_SETTLED",
+    );
+  }
+
+  const [withDate] = await withPaidAt(payroll.id, [payment]);
+  return {
+    filename: `payslip-${payment.id}.pdf`,
+    contentType: "application/pdf",
+    body: renderPayslip(payroll, withDate),
+  };
+}
+
+/**
+ * Zip with the payslip of every settled payment of a company's payroll
+ * @throws NotFoundError when the payroll does not belong to the company
+ * @throws ConflictError PAYROLL_NOT_SETTLED when no payment has been paid yet
+ */
+export async function getPayrollPayslips(companyId: string, payrollId: string): Promise<PayslipFile> {
+  const payroll = await loadPayroll(companyId, payrollId);
+  const settled = payroll.payments.filter((p) => SETTLED_PAYMENT_STATUSES.includes(p.status));
+  if (settled.length === 0) {
+    throw new ConflictError(
+      `Payroll ${payrollId} has no settled payments to issue payslips for`,
+      "PAYROLL_NOT_SETTLED",
+    );
+  }
+
+  const zip = new JSZip();
+  for (const payment of await withPaidAt(payroll.id, settled)) {
+    zip.file(`payslip-${payment.id}.pdf`, renderPayslip(payroll, payment));
+  }
+  return {
+    filename: `payslips-${payroll.id}.zip`,
+    contentType: "application/zip",
+    body: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+  };
+}
+
+/**
+ * Payslips of some payments of a company's payroll, keyed by payment ID
+ * Payments that have not settled or are not part of the payroll are left out.
+ * @throws NotFoundError when the payroll does not belong to the company
+ */
+export async function getPayslipsByPayment(
+  companyId: string,
+  payrollId: string,
+  paymentIds: string[],
+): Promise<Map<string, PayslipFile>> {
+  const payroll = await loadPayroll(companyId, payrollId);
+  const settled = payroll.payments.filter(
+    (p) => paymentIds.includes(p.id) && SETTLED_PAYMENT_STATUSES.includes(p.status),
+  );
+
+  const payslips = new Map<string, PayslipFile>();
+  for (const payment of await withPaidAt(payroll.id, settled)) {
+    payslips.set(payment.id, {
+      filename: `payslip-${payment.id}.pdf`,
+      contentType: "application/pdf",
+      body: renderPayslip(payroll, payment),
+    });
+  }
+  return payslips;
+}
@@ -17,16 +17,23 @@ type FetchResponse = {
 // Types based on Rail OpenAPI spec
 export type RailPaymentInput = {
   payrollId: string;
+  paymentId?: string; // OutboundPayment paid by this withdrawal
+  idempotencyKey?: string; // Deterministic key (payment ID and attempt): Rail answers a repeated key with the original withdrawal
+  attempt?: number; // Withdrawal attempt for the payment (1 = first); later attempts are named in the description
   amount: number;
   currency: string;
   recipient?: string;
+  memo?: string;
   sourceAccountId?: string;
   counterpartyId?: string;
+  withdrawalRail?: RailWithdrawalRequest["withdrawal_rail"]; // Defaults to ACH
 };
 
+// UNKNOWN: the request may have reached Rail but no answer came back (network error, timeout,
+// 5xx); the withdrawal must be looked up before anything is sent again
 export type RailPaymentResult = {
   id: string;
-  status: "PROCESSING" | "PAID" | "FAILED" | "PENDING";
+  status: "PROCESSING" | "PAID" | "FAILED" | "PENDING" | "UNKNOWN";
   createdAt: string;
   failureReason?: string;
 };
@@ -40,7 +47,7 @@ type RailTokenResponse = {
 };
 
 // Rail API types (simplified from OpenAPI spec)
-type RailWithdrawalRequest = {
+export type RailWithdrawalRequest = {
   withdrawal_rail: "ACH" | "FEDWIRE" | "SEPA_CT" | "SWIFT" | "CRYPTO";
   description: string;
   source_account_id: string;
@@ -50,20 +57,38 @@ type RailWithdrawalRequest = {
   memo?: string;
 };
 
-type RailWithdrawalResponse = {
-  data: {
+type RailWithdrawal = {
   id: string;
   status: string;
-    created_timestamp?: string;
+  created_timestamp?: string;
   updated_timestamp?: string;
-    amount?: number;
-    source_account_id?: string;
-    destination_counterparty_id?: string;
-    withdrawal_rail?: string;
-    purpose?: string;
-  };
+  amount?: number;
+  source_account_id?: string;
+  destination_counterparty_id?: string;
+  withdrawal_rail?: string;
+  purpose?: string;
+  description?: string;
+};
+
+type RailWithdrawalResponse = {
+  data: RailWithdrawal;
+};
+
+type RailWithdrawalListResponse = {
+  data: RailWithdrawal[];
 };
 
+type RailWithdrawalStatusResponse = {
+  data: Pick<RailWithdrawal, "id" | "status">;
+};
+
+// Withdrawals fetched per page when looking one up, and pages read before giving up
+const RAIL_LIST_PAGE_SIZE = 100;
+const RAIL_LIST_MAX_PAGES = 50;
+
+// Milliseconds before a Rail request is abandoned (its outcome is then unknown)
+const RAIL_REQUEST_TIMEOUT_MS = 30000;
+
 type RailError = {
   errors: Array<{
     code: string;
@@ -154,14 +179,16 @@ export async function getRailAccessToken(): Promise<string> {
   }
 }
 
-/**
- * Create a Rail withdrawal (fiat payout)
- * @param input - Payment input data
- * @returns Promise<RailPaymentResult>
- */
-export async function createRailPayment(
-  input: RailPaymentInput,
-): Promise<RailPaymentResult> {
+// Resolved Rail connection settings
+type RailSettings = {
+  baseUrl: string | undefined;
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  isMockUrl: boolean;
+  isMockMode: boolean;
+};
+
+function getRailSettings(): RailSettings {
   // Read from config, but also check process.env directly as fallback
   const baseUrl = config.railApiBaseUrl || process.env.RAIL_API_BASE_URL;
   const clientId = config.railClientId || process.env.RAIL_CLIENT_ID;
@@ -170,8 +197,115 @@ export async function createRailPayment(
   // Check if Rail is properly configured (not using mock)
   // Only use mock if explicitly set to mock URL or if credentials are missing
   const isMockUrl = !baseUrl || baseUrl === "https://rail.mock" || baseUrl.includes("rail.mock");
-  const hasCredentials = clientId && clientId.trim() !== "" && clientSecret && clientSecret.trim() !== "";
-  const isMockMode = isMockUrl || !hasCredentials;
+  const hasCredentials = !!clientId && clientId.trim() !== "" && !!clientSecret && clientSecret.trim() !== "";
+
+  return { baseUrl, clientId, clientSecret, isMockUrl, isMockMode: isMockUrl || !hasCredentials };
+}
+
+// Source account and counterparty for a withdrawal, with the env vars still missing
+function resolveRailAccounts(input: RailPaymentInput) {
+  // For MVP: assume we have source_account_id and counterparty_id
+  // In production, these should be configured per customer/recipient
+  // Non-USD payouts can use a source account in their currency (RAIL_SOURCE_ACCOUNT_ID_EUR, ...)
+  const sourceAccountId =
+    input.sourceAccountId ||
+    process.env[`RAIL_SOURCE_ACCOUNT_ID_${input.currency.toUpperCase()}`] ||
+    process.env.RAIL_SOURCE_ACCOUNT_ID;
+  const counterpartyId = input.counterpartyId || process.env.RAIL_COUNTERPARTY_ID;
+
+  const missingVars: string[] = [];
+  if (!sourceAccountId) missingVars.push("RAIL_SOURCE_ACCOUNT_ID");
+  if (!counterpartyId) missingVars.push("RAIL_COUNTERPARTY_ID");
+
+  return { sourceAccountId, counterpartyId, missingVars };
+}
+
+// Withdrawal request body sent to Rail (Rail API expects amount as string)
+function buildWithdrawalRequest(
+  input: RailPaymentInput,
+  sourceAccountId: string,
+  counterpartyId: string,
+): RailWithdrawalRequest {
+  return {
+    withdrawal_rail: input.withdrawalRail ?? "ACH",
+    description: input.paymentId
+      ? `Payroll payment ${input.paymentId} for ${input.payrollId}${
+          input.attempt && input.attempt > 1 ? ` (attempt ${input.attempt})` : ""
+        }`
+      : `Payroll payment for ${input.payrollId}`,
+    source_account_id: sourceAccountId,
+    amount: (input.amount / 100).toString(), // Convert from cents to dollars, then to string
+    destination_counterparty_id: counterpartyId,
+    purpose: "PAYROLL", // Required by Rail API
+    memo: input.memo || `Payroll-${input.payrollId}`,
+  };
+}
+
+// Map Rail status to our status
+const RAIL_STATUS_MAP: Record<string, RailPaymentResult["status"]> = {
+  PENDING: "PENDING",
+  REQUESTED: "PENDING",
+  ACCEPTED: "PROCESSING",
+  PROCESSING: "PROCESSING",
+  EXECUTED: "PAID",
+  COMPLETED: "PAID",
+  FAILED: "FAILED",
+  REJECTED: "FAILED",
+  EXPIRED: "FAILED",
+  CANCELLED: "FAILED",
+};
+
+function toRailPaymentResult(withdrawal: Pick<RailWithdrawal, "id" | "status" | "created_timestamp">): RailPaymentResult {
+  const status = RAIL_STATUS_MAP[withdrawal.status] || "PROCESSING";
+  return {
+    id: withdrawal.id,
+    status,
+    createdAt: withdrawal.created_timestamp || new Date().toISOString(),
+    ...(status === "FAILED" ? { failureReason: `RAIL_${withdrawal.status}` } : {}),
+  };
+}
+
+// Rail answered with an error, so the request was not carried out
+class RailRejectedError extends Error {}
+
+// Whether Rail may still have acted on a request that returned this HTTP status
+function isRailOutcomeUnknown(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Withdrawal that createRailPayment would send, without calling Rail
+export type RailWithdrawalPreview = {
+  mode: "mock" | "live";
+  ready: boolean; // false when live mode is missing account configuration
+  missing: string[];
+  withdrawal: RailWithdrawalRequest;
+};
+
+/**
+ * Preview the Rail withdrawal for a payment (no API calls)
+ * @param input - Payment input data
+ */
+export function previewRailPayment(input: RailPaymentInput): RailWithdrawalPreview {
+  const { isMockMode } = getRailSettings();
+  const { sourceAccountId, counterpartyId, missingVars } = resolveRailAccounts(input);
+
+  return {
+    mode: isMockMode ? "mock" : "live",
+    ready: isMockMode || missingVars.length === 0,
+    missing: isMockMode ? [] : missingVars,
+    withdrawal: buildWithdrawalRequest(input, sourceAccountId ?? "", counterpartyId ?? ""),
+  };
+}
+
+/**
+ * Create a Rail withdrawal (fiat payout)
+ * @param input - Payment input data
+ * @returns Promise<RailPaymentResult>
+ */
+export async function createRailPayment(
+  input: RailPaymentInput,
+): Promise<RailPaymentResult> {
+  const { baseUrl, clientId, clientSecret, isMockUrl, isMockMode } = getRailSettings();
 
   if (isMockMode) {
     // Fallback to mock if not configured
@@ -190,25 +324,21 @@ export async function createRailPayment(
   if (process.env.NODE_ENV === "development") {
     console.log("✅ Using Rail API (sandbox):", {
       baseUrl,
-      clientId: clientId.substring(0, 10) + "...",
+      clientId: clientId?.substring(0, 10) + "...",
       hasCredentials: true,
     });
   }
 
+  // Nothing is sent to Rail until the token and accounts are resolved, so these errors are failures
+  let accessToken: string;
+  let withdrawalRequest: RailWithdrawalRequest;
   try {
     // Get OAuth2 access token
-    const accessToken = await getRailAccessToken();
+    accessToken = await getRailAccessToken();
 
-    // For MVP: assume we have source_account_id and counterparty_id
-    // In production, these should be configured per customer/recipient
-    const sourceAccountId = input.sourceAccountId || process.env.RAIL_SOURCE_ACCOUNT_ID;
-    const counterpartyId = input.counterpartyId || process.env.RAIL_COUNTERPARTY_ID;
+    const { sourceAccountId, counterpartyId, missingVars } = resolveRailAccounts(input);
 
     if (!sourceAccountId || !counterpartyId) {
-      const missingVars = [];
-      if (!sourceAccountId) missingVars.push("RAIL_SOURCE_ACCOUNT_ID");
-      if (!counterpartyId) missingVars.push("RAIL_COUNTERPARTY_ID");
-      
       throw new Error(
         `Rail configuration incomplete. Missing in .env: ${missingVars.join(", ")}. ` +
         `To get these values: 1) Create a customer/application in Rail sandbox, ` +
@@ -216,40 +346,46 @@ export async function createRailPayment(
       );
     }
 
-    // Create withdrawal request (Rail API expects amount as string)
-    const withdrawalRequest: RailWithdrawalRequest = {
-      withdrawal_rail: "ACH", // Default to ACH, can be configured
-      description: `Payroll payment for ${input.payrollId}`,
-      source_account_id: sourceAccountId,
-      amount: (input.amount / 100).toString(), // Convert from cents to dollars, then to string
-      destination_counterparty_id: counterpartyId,
-      purpose: "PAYROLL", // Required by Rail API
-      memo: `Payroll-${input.payrollId}`,
+    // Create withdrawal request
+    withdrawalRequest = buildWithdrawalRequest(input, sourceAccountId, counterpartyId);
+  } catch (error) {
+    console.error("Rail API error:", error);
+    return {
+      id: `rail_error_${Date.now()}`,
+      status: "FAILED",
+      createdAt: new Date().toISOString(),
+      failureReason: error instanceof Error ? error.message : "Unknown error",
     };
+  }
 
+  try {
     const response = (await fetch(`${baseUrl}/v1/withdrawals`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${accessToken}`,
         "X-L2f-Request-Id": `snowrail-${Date.now()}`,
+        ...(input.idempotencyKey ? { "X-L2f-Idempotency-Id": input.idempotencyKey } : {}),
       },
       body: JSON.stringify(withdrawalRequest),
+      signal: AbortSignal.timeout(RAIL_REQUEST_TIMEOUT_MS),
     })) as unknown as FetchResponse;
 
     if (!response.ok) {
       let errorMsg = `Rail API error: ${response.status} ${response.statusText}`;
       try {
-      const errorData = (await response.json()) as RailError;
+        const errorData = (await response.json()) as RailError;
         errorMsg = errorData.errors?.[0]?.description || errorMsg;
       } catch {
         // If response is not JSON, use the status text
       }
-      throw new Error(errorMsg);
+      if (isRailOutcomeUnknown(response.status)) {
+        throw new Error(errorMsg);
+      }
+      throw new RailRejectedError(errorMsg);
     }
 
     const responseData = (await response.json()) as RailWithdrawalResponse;
-    const withdrawalData = responseData.data;
 
     // Note: Withdrawals in Rail need to be accepted before execution
     // For now, we'll leave it in REQUESTED/PENDING status
@@ -260,34 +396,104 @@ export async function createRailPayment(
     
     // The withdrawal is created successfully and will remain in REQUESTED status
     // until manually accepted via dashboard or with proper signature
-
-    // Map Rail status to our status
-    const statusMap: Record<string, RailPaymentResult["status"]> = {
-      PENDING: "PENDING",
-      REQUESTED: "PENDING",
-      ACCEPTED: "PROCESSING",
-      PROCESSING: "PROCESSING",
-      COMPLETED: "PAID",
-      FAILED: "FAILED",
-      CANCELLED: "FAILED",
-    };
-
-    return {
-      id: withdrawalData.id,
-      status: statusMap[withdrawalData.status] || "PROCESSING",
-      createdAt: withdrawalData.created_timestamp || new Date().toISOString(),
-    };
+    return toRailPaymentResult(responseData.data);
   } catch (error) {
     console.error("Rail API error:", error);
+    // Network errors and timeouts may hide a withdrawal Rail created: report it as unknown
     return {
-      id: `rail_error_${Date.now()}`,
-      status: "FAILED",
+      id: `rail_${error instanceof RailRejectedError ? "error" : "unknown"}_${Date.now()}`,
+      status: error instanceof RailRejectedError ? "FAILED" : "UNKNOWN",
       createdAt: new Date().toISOString(),
       failureReason: error instanceof Error ? error.message : "Unknown error",
     };
   }
 }
 
+/**
+ * Find the withdrawal createRailPayment sent for a payment, e.g. after a run was interrupted
+ * between sending it and recording the answer
+ * Withdrawals are matched on their description, which names the payment and attempt; every
+ * page of the source account's withdrawals is searched.
+ * @param input - Same input as the createRailPayment call
+ * @returns The withdrawal, or null when Rail never received it
+ * @throws Error when Rail cannot be queried (the outcome is still unknown)
+ */
+export async function findRailWithdrawal(input: RailPaymentInput): Promise<RailPaymentResult | null> {
+  const { baseUrl, isMockMode } = getRailSettings();
+
+  if (isMockMode) {
+    return input.idempotencyKey ? mockWithdrawals.get(input.idempotencyKey) ?? null : null;
+  }
+
+  const { sourceAccountId, counterpartyId, missingVars } = resolveRailAccounts(input);
+  if (!sourceAccountId || !counterpartyId) {
+    throw new Error(`Rail configuration incomplete. Missing in .env: ${missingVars.join(", ")}`);
+  }
+  const { description } = buildWithdrawalRequest(input, sourceAccountId, counterpartyId);
+
+  const accessToken = await getRailAccessToken();
+  for (let page = 0; page < RAIL_LIST_MAX_PAGES; page++) {
+    const query = new URLSearchParams({
+      source_account_id: sourceAccountId,
+      page: String(page),
+      page_size: String(RAIL_LIST_PAGE_SIZE),
+    });
+    const response = (await fetch(`${baseUrl}/v1/withdrawals?${query}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "X-L2f-Request-Id": `snowrail-lookup-${Date.now()}`,
+      },
+      signal: AbortSignal.timeout(RAIL_REQUEST_TIMEOUT_MS),
+    })) as unknown as FetchResponse;
+
+    if (!response.ok) {
+      throw new Error(`Rail API error: ${response.status} ${response.statusText}`);
+    }
+
+    const { data } = (await response.json()) as RailWithdrawalListResponse;
+    const withdrawal = data.find(
+      (w) => w.description === description && w.destination_counterparty_id === counterpartyId,
+    );
+    if (withdrawal) {
+      return toRailPaymentResult(withdrawal);
+    }
+    if (data.length < RAIL_LIST_PAGE_SIZE) {
+      return null;
+    }
+  }
+  throw new Error(`Rail withdrawal lookup gave up after ${RAIL_LIST_MAX_PAGES} pages`);
+}
+
+/**
+ * Get the current status of a Rail withdrawal, to reconcile withdrawals still in progress
+ * @param withdrawalId - Withdrawal ID from Rail
+ * @throws Error when Rail cannot be queried
+ */
+export async function getRailWithdrawal(withdrawalId: string): Promise<RailPaymentResult> {
+  const { baseUrl, isMockMode } = getRailSettings();
+
+  if (isMockMode) {
+    const existing = [...mockWithdrawals.values()].find((w) => w.id === withdrawalId);
+    return existing ?? { id: withdrawalId, status: "PAID", createdAt: new Date().toISOString() };
+  }
+
+  const accessToken = await getRailAccessToken();
+  const response = (await fetch(`${baseUrl}/v1/withdrawals/${encodeURIComponent(withdrawalId)}/status`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "X-L2f-Request-Id": `snowrail-status-${Date.now()}`,
+    },
+    signal: AbortSignal.timeout(RAIL_REQUEST_TIMEOUT_MS),
+  })) as unknown as FetchResponse;
+
+  if (!response.ok) {
+    throw new Error(`Rail API error: ${response.status} ${response.statusText}`);
+  }
+
+  const { data } = (await response.json()) as RailWithdrawalStatusResponse;
+  return toRailPaymentResult(data);
+}
+
 /**
  * Accept a Rail withdrawal
  * @param withdrawalId - Withdrawal ID from Rail
@@ -312,6 +518,9 @@ async function acceptRailWithdrawal(withdrawalId: string): Promise<void> {
   }
 }
 
+// Mock withdrawals by idempotency key, so a repeated key returns the original withdrawal
+const mockWithdrawals = new Map<string, RailPaymentResult>();
+
 /**
  * Mock implementation (fallback)
  * In demo/test mode, always return PAID to avoid false failures
@@ -319,6 +528,11 @@ async function acceptRailWithdrawal(withdrawalId: string): Promise<void> {
 async function createMockRailPayment(
   input: RailPaymentInput,
 ): Promise<RailPaymentResult> {
+  const existing = input.idempotencyKey ? mockWithdrawals.get(input.idempotencyKey) : undefined;
+  if (existing) {
+    return existing;
+  }
+
   const delay = 1000 + Math.random() * 1000;
   await new Promise((resolve) => setTimeout(resolve, delay));
 
@@ -326,9 +540,13 @@ async function createMockRailPayment(
   
   // In mock mode, always succeed (demo/test behavior)
   // Real Rail API will return actual status
-  return {
+  const result: RailPaymentResult = {
     id,
     status: "PAID",
     createdAt: new Date().toISOString(),
   };
+  if (input.idempotencyKey) {
+    mockWithdrawals.set(input.idempotencyKey, result);
+  }
+  return result;
 }
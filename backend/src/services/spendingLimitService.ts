@@ -0,0 +1,391 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import { PaymentStatus, SETTLED_PAYMENT_STATUSES } from "../domain/payment.js";
+import { PayrollEventEntity } from "../domain/payroll.js";
+import { ACTIVE_PAYROLL_JOB_STATUSES } from "../domain/payrollJob.js";
+import {
+  NO_SPENDING_LIMITS,
+  findSpendingLimitViolations,
+  startOfUtcDay,
+  startOfUtcMonth,
+  type SpendingLimits,
+  type SpendingLimitViolation,
+} from "../domain/spendingLimit.js";
+import type { PayrollValidationError } from "./payrollValidation.js";
+import { NotFoundError, SpendingLimitExceededError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Spending Limit Service
+ * Payout guardrails tiered by Company.kybLevel: a cap per payroll, per UTC day and month,
+ * and per payee per month. Runs that would exceed a cap are refused before any payment
+ * leaves the treasury. Payments of runs already queued or executing count as spent, and
+ * runs of a company are checked one at a time (see lockCompanySpending), so concurrent runs
+ * cannot each pass a limit they exceed together. Tiers are changed through the admin API;
+ * every change is recorded in SpendingLimitChange.
+ */
+
+// Maximum length of the reason recorded with a change
+const MAX_REASON_LENGTH = 500;
+
+// Changes returned by one audit trail request
+const MAX_CHANGES = 200;
+
+const LIMIT_FIELDS = ["perPayroll", "daily", "monthly", "perPayeeMonthly"] as const;
+
+type SpendingLimitTierRecord = NonNullable<Awaited<ReturnType<typeof prisma.spendingLimitTier.findUnique>>>;
+
+// Validated limits of a tier, with the reason recorded in the audit trail
+export type SpendingLimitTierInput = SpendingLimits & {
+  reason: string | null;
+};
+
+export type SpendingLimitValidationResult =
+  | { valid: true; input: SpendingLimitTierInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+// Payment of a run, as far as the limits are concerned
+type LimitedPayment = {
+  payeeId: string | null;
+  recipient: string | null;
+  settlementAmount: number;
+};
+
+function toLimits(tier: SpendingLimitTierRecord | null): SpendingLimits {
+  if (!tier) {
+    return NO_SPENDING_LIMITS;
+  }
+  return {
+    perPayroll: tier.perPayroll,
+    daily: tier.daily,
+    monthly: tier.monthly,
+    perPayeeMonthly: tier.perPayeeMonthly,
+  };
+}
+
+// Lines without a payee are limited per recipient wallet
+function payeeKey(payment: LimitedPayment): string {
+  return payment.payeeId ?? payment.recipient?.toLowerCase() ?? "";
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Validate the limits of a tier
+ * @param body - Raw request body; a limit set to null is removed
+ * @param existing - Current tier (missing fields fall back to it)
+ */
+export function validateSpendingLimitInput(
+  body: unknown,
+  existing?: SpendingLimitTierRecord | null,
+): SpendingLimitValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+
+  const errors: PayrollValidationError[] = [];
+  const limits = { ...NO_SPENDING_LIMITS };
+
+  for (const field of LIMIT_FIELDS) {
+    const value = pick(field, existing?.[field] ?? null);
+    if (value === null) {
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isSafeInteger(value) || value <= 0) {
+      errors.push({ field, message: `${field} must be a positive whole number of cents, or null for no limit` });
+      continue;
+    }
+    limits[field] = value;
+  }
+
+  const reason = raw.reason ?? null;
+  if (reason !== null && typeof reason !== "string") {
+    errors.push({ field: "reason", message: "reason must be a string" });
+  } else if (typeof reason === "string" && reason.trim().length > MAX_REASON_LENGTH) {
+    errors.push({ field: "reason", message: `reason must be at most ${MAX_REASON_LENGTH} characters` });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      ...limits,
+      reason: typeof reason === "string" && reason.trim() !== "" ? reason.trim() : null,
+    },
+  };
+}
+
+// List all tiers
+export async function listSpendingLimitTiers() {
+  return prisma.spendingLimitTier.findMany({
+    orderBy: { kybLevel: "asc" },
+  });
+}
+
+// Get the tier of a KYB level
+export async function getSpendingLimitTier(kybLevel: number) {
+  return prisma.spendingLimitTier.findUnique({
+    where: { kybLevel },
+  });
+}
+
+/**
+ * Create or replace the limits of a KYB level
+ * @param kybLevel - KYB level the limits apply to
+ * @param input - Validated limits
+ * @param actor - Admin making the change ("admin:<name>")
+ * @returns Saved tier
+ */
+export async function setSpendingLimitTier(kybLevel: number, input: SpendingLimitTierInput, actor: string) {
+  const { reason, ...limits } = input;
+  const tier = await prisma.$transaction(async (tx) => {
+    const existing = await tx.spendingLimitTier.findUnique({ where: { kybLevel } });
+    const saved = await tx.spendingLimitTier.upsert({
+      where: { kybLevel },
+      create: { kybLevel, ...limits, updatedBy: actor },
+      update: { ...limits, updatedBy: actor },
+    });
+    await tx.spendingLimitChange.create({
+      data: {
+        kybLevel,
+        actor,
+        reason,
+        before: existing ? toLimits(existing) : undefined,
+        after: limits,
+      },
+    });
+    return saved;
+  });
+
+  logger.info(`Spending limits of KYB level ${kybLevel} set by ${actor}`, limits);
+  return tier;
+}
+
+/**
+ * Remove the limits of a KYB level; its companies are no longer limited
+ * @throws NotFoundError when the level has no tier
+ */
+export async function deleteSpendingLimitTier(kybLevel: number, actor: string, reason: string | null) {
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.spendingLimitTier.findUnique({ where: { kybLevel } });
+    if (!existing) {
+      throw new NotFoundError(`No spending limits for KYB level ${kybLevel}`);
+    }
+    await tx.spendingLimitTier.delete({ where: { kybLevel } });
+    await tx.spendingLimitChange.create({
+      data: { kybLevel, actor, reason, before: toLimits(existing) },
+    });
+  });
+
+  logger.info(`Spending limits of KYB level ${kybLevel} removed by ${actor}`);
+}
+
+/**
+ * Audit trail of limit changes, newest first
+ * @param kybLevel - Only changes of this level
+ * @param limit - Number of changes (at most 200)
+ */
+export async function listSpendingLimitChanges(kybLevel?: number, limit: number = 50) {
+  return prisma.spendingLimitChange.findMany({
+    where: kybLevel !== undefined ? { kybLevel } : {},
+    orderBy: { createdAt: "desc" },
+    take: Math.min(Math.max(limit, 1), MAX_CHANGES),
+  });
+}
+
+// Database client of a check: the caller's transaction, or the default client
+type SpendingDb = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * What a company paid out this UTC month and day, in cents of the payroll currency
+ * A payment counts from the moment it settled on-chain (see the payroll timeline). Unsettled
+ * payments of payrolls with a queued or running job count as paid today: they are about to
+ * leave the treasury.
+ * @param excludePayrollId - Payroll being checked, whose own payments are the requested amount
+ */
+async function getCompanySpending(db: SpendingDb, companyId: string, now: Date, excludePayrollId?: string) {
+  const dayStart = startOfUtcDay(now);
+  const events = await db.payrollEvent.findMany({
+    where: {
+      entity: PayrollEventEntity.PAYMENT,
+      toStatus: PaymentStatus.ONCHAIN_PAID,
+      createdAt: { gte: startOfUtcMonth(now) },
+      payroll: { companyId },
+    },
+    select: { paymentId: true, createdAt: true },
+  });
+
+  const paidAt = new Map<string, Date>();
+  for (const event of events) {
+    if (event.paymentId && !paidAt.has(event.paymentId)) {
+      paidAt.set(event.paymentId, event.createdAt);
+    }
+  }
+
+  const [payments, inFlightPayments] = await Promise.all([
+    db.outboundPayment.findMany({
+      where: { id: { in: [...paidAt.keys()] }, status: { in: [...SETTLED_PAYMENT_STATUSES] } },
+      select: { id: true, payeeId: true, recipient: true, settlementAmount: true },
+    }),
+    db.outboundPayment.findMany({
+      where: {
+        status: { in: [PaymentStatus.PENDING, PaymentStatus.ONCHAIN_REQUESTED] },
+        recipient: { not: null },
+        payroll: {
+          companyId,
+          ...(excludePayrollId ? { id: { not: excludePayrollId } } : {}),
+          jobs: { some: { status: { in: [...ACTIVE_PAYROLL_JOB_STATUSES] } } },
+        },
+      },
+      select: { id: true, payeeId: true, recipient: true, settlementAmount: true },
+    }),
+  ]);
+
+  let paidToday = 0;
+  let paidThisMonth = 0;
+  let inFlight = 0;
+  const byPayee = new Map<string, number>();
+  for (const payment of [...payments, ...inFlightPayments]) {
+    const settledAt = paidAt.get(payment.id);
+    paidThisMonth += payment.settlementAmount;
+    if (!settledAt || settledAt >= dayStart) {
+      paidToday += payment.settlementAmount;
+    }
+    if (!settledAt) {
+      inFlight += payment.settlementAmount;
+    }
+    const key = payeeKey(payment);
+    byPayee.set(key, (byPayee.get(key) ?? 0) + payment.settlementAmount);
+  }
+  return { paidToday, paidThisMonth, inFlight, byPayee };
+}
+
+/**
+ * Serialize the spending limit checks of a company until the transaction ends
+ * Call it in the transaction that queues a run, before checking the limits: a concurrent
+ * run then sees the payments of this one as in flight.
+ */
+export async function lockCompanySpending(tx: Prisma.TransactionClient, companyId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Company" WHERE "id" = ${companyId} FOR UPDATE`;
+}
+
+/**
+ * Limits of a company and what it paid out against them
+ * @throws NotFoundError when the company does not exist
+ */
+export async function getCompanySpendingLimits(companyId: string) {
+  const company = await prisma.company.findUnique({
+    where: { id: companyId },
+    select: { kybLevel: true },
+  });
+  if (!company) {
+    throw new NotFoundError(`Company not found: ${companyId}`);
+  }
+
+  const [tier, spending] = await Promise.all([
+    getSpendingLimitTier(company.kybLevel),
+    getCompanySpending(prisma, companyId, new Date()),
+  ]);
+  return {
+    kybLevel: company.kybLevel,
+    limits: toLimits(tier),
+    paidToday: spending.paidToday,
+    paidThisMonth: spending.paidThisMonth,
+    inFlight: spending.inFlight,
+  };
+}
+
+function describeViolation(violation: SpendingLimitViolation, currency: string): string {
+  const payee = violation.payee ? ` for payee ${violation.payee}` : "";
+  return `${violation.limit} limit${payee} of ${formatCents(violation.cap)} ${currency} (paid ${formatCents(violation.paid)}, requested ${formatCents(violation.requested)})`;
+}
+
+/**
+ * Refuse a payroll run that would exceed the spending limits of the company's KYB tier
+ * Payrolls without a company (legacy /api/payment/process) are not limited.
+ * @param payroll - Payroll being run
+ * @param payments - Payments the run would pay out
+ * @param tx - Transaction of the caller (see lockCompanySpending)
+ * @throws SpendingLimitExceededError listing every limit the run would exceed
+ */
+export async function assertWithinSpendingLimits(
+  payroll: { id: string; companyId: string | null; total: number; currency: string },
+  payments: LimitedPayment[],
+  tx?: Prisma.TransactionClient,
+) {
+  if (!payroll.companyId || payments.length === 0) {
+    return;
+  }
+
+  const db = tx ?? prisma;
+  const company = await db.company.findUnique({
+    where: { id: payroll.companyId },
+    select: { kybLevel: true },
+  });
+  const tier = company ? await db.spendingLimitTier.findUnique({ where: { kybLevel: company.kybLevel } }) : null;
+  if (!company || !tier) {
+    return;
+  }
+
+  const spending = await getCompanySpending(db, payroll.companyId, new Date(), payroll.id);
+  const requestedByPayee = new Map<string, number>();
+  for (const payment of payments) {
+    const key = payeeKey(payment);
+    requestedByPayee.set(key, (requestedByPayee.get(key) ?? 0) + payment.settlementAmount);
+  }
+
+  const violations = findSpendingLimitViolations(toLimits(tier), {
+    payrollTotal: payroll.total,
+    requested: payments.reduce((sum, p) => sum + p.settlementAmount, 0),
+    paidToday: spending.paidToday,
+    paidThisMonth: spending.paidThisMonth,
+    payees: [...requestedByPayee].map(([payee, requested]) => ({
+      payee,
+      requested,
+      paidThisMonth: spending.byPayee.get(payee) ?? 0,
+    })),
+  });
+  if (violations.length === 0) {
+    return;
+  }
+
+  logger.warn(`Payroll ${payroll.id} exceeds ${violations.length} spending limit(s) of KYB level ${company.kybLevel}`);
+  throw new SpendingLimitExceededError(
+    `Payroll ${payroll.id} exceeds the ${describeViolation(violations[0], payroll.currency)}` +
+      (violations.length > 1 ? ` and ${violations.length - 1} more limit(s)` : ""),
+    violations.map((violation) => ({ ...violation, kybLevel: company.kybLevel, currency: payroll.currency })),
+  );
+}
+
+/**
+ * Check the unsettled payments of a payroll against the spending limits before queuing a run
+ * executePayrollPayments checks again when the payments are executed.
+ * @param tx - Transaction that queues the run, holding lockCompanySpending
+ * @throws SpendingLimitExceededError when the run would exceed a limit
+ */
+export async function checkPayrollSpendingLimits(payrollId: string, tx?: Prisma.TransactionClient) {
+  const payroll = await (tx ?? prisma).payroll.findUnique({
+    where: { id: payrollId },
+    include: { payments: true },
+  });
+  if (!payroll) {
+    throw new NotFoundError(`Payroll not found: ${payrollId}`);
+  }
+  await assertWithinSpendingLimits(
+    payroll,
+    payroll.payments.filter((p) => p.recipient && !SETTLED_PAYMENT_STATUSES.includes(p.status)),
+    tx,
+  );
+}
@@ -1,4 +1,7 @@
+import type { Contract, TransactionReceipt } from "ethers";
 import {
+  getProvider,
+  getSwapRouterReadOnly,
   getTreasuryContract,
   getTreasuryContractReadOnly,
 } from "../config/contractConfig.js";
@@ -23,20 +26,83 @@ export async function requestOnchainPayment(
   return receipt.hash as string;
 }
 
+// Result of an executePayment transaction.
+// The contract does not revert when a transfer fails; it emits PaymentFailed instead,
+// so the outcome is read from the receipt logs rather than from the tx status.
+export type OnchainPaymentOutcome = {
+  txHash: string;
+  status: "EXECUTED" | "FAILED" | "PENDING";
+  reason?: string; // PaymentFailed reason (INSUFFICIENT_FUNDS, TRANSFER_FAILED) or REVERTED
+  fee?: bigint; // Gas paid for the transaction (wei of the native token), once mined
+};
+
+function outcomeFromReceipt(contract: Contract, receipt: TransactionReceipt): OnchainPaymentOutcome {
+  if (receipt.status === 0) {
+    return { txHash: receipt.hash, status: "FAILED", reason: "REVERTED", fee: receipt.fee };
+  }
+
+  const contractAddress = String(contract.target).toLowerCase();
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== contractAddress) {
+      continue;
+    }
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "PaymentExecuted") {
+      return { txHash: receipt.hash, status: "EXECUTED", fee: receipt.fee };
+    }
+    if (parsed?.name === "PaymentFailed") {
+      return { txHash: receipt.hash, status: "FAILED", reason: String(parsed.args.reason), fee: receipt.fee };
+    }
+  }
+
+  return { txHash: receipt.hash, status: "FAILED", reason: "NO_PAYMENT_EVENT", fee: receipt.fee };
+}
+
 /**
  * Execute an onchain payment from treasury
- * NOTE: For MVP we do not yet inspect events.
+ * @param onSubmitted - Called with the tx hash before waiting for it to be mined,
+ *   so callers can persist it and reconcile the payment if the wait is interrupted
  */
 export async function executeOnchainPayment(
   payer: string,
   payee: string,
   amount: bigint,
   token: string,
-): Promise<string> {
+  onSubmitted?: (txHash: string) => Promise<unknown>,
+): Promise<OnchainPaymentOutcome> {
   const contract = getTreasuryContract();
   const tx = await contract.executePayment(payer, payee, amount, token);
-  const receipt = await tx.wait();
-  return receipt.hash as string;
+  if (onSubmitted) {
+    await onSubmitted(tx.hash as string);
+  }
+
+  try {
+    const receipt = await tx.wait();
+    return outcomeFromReceipt(contract, receipt);
+  } catch (error) {
+    // ethers throws CALL_EXCEPTION when the transaction is mined but reverted
+    if ((error as { code?: string }).code === "CALL_EXCEPTION") {
+      return { txHash: tx.hash as string, status: "FAILED", reason: "REVERTED" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Look up the outcome of a previously submitted executePayment transaction
+ * @returns Outcome, or null if the node does not know the transaction (dropped)
+ */
+export async function getOnchainPaymentOutcome(
+  txHash: string,
+): Promise<OnchainPaymentOutcome | null> {
+  const provider = getProvider();
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (receipt) {
+    return outcomeFromReceipt(getTreasuryContractReadOnly(), receipt);
+  }
+
+  const tx = await provider.getTransaction(txHash);
+  return tx ? { txHash, status: "PENDING" } : null;
 }
 
 /**
@@ -50,5 +116,51 @@ export async function getTreasuryBalance(
   return balance as bigint;
 }
 
+/**
+ * Quote a treasury swap on the DEX router (direct path, no intermediate token)
+ * @returns Amount of toToken the router would return for amountIn of fromToken
+ */
+export async function quoteTreasurySwap(
+  fromToken: string,
+  toToken: string,
+  amountIn: bigint,
+): Promise<bigint> {
+  const router = await getSwapRouterReadOnly();
+  const amounts = (await router.getAmountsOut(amountIn, [fromToken, toToken])) as bigint[];
+  return amounts[amounts.length - 1];
+}
+
+// Result of a mined executeSwap transaction
+export type TreasurySwapOutcome = {
+  txHash: string;
+  amountOut: bigint; // Increase of the treasury's toToken balance
+  fee?: bigint; // Gas paid for authorizeSwap and executeSwap (wei of the native token)
+};
+
+/**
+ * Swap treasury tokens through the DEX router
+ * The swap is authorized for exactly amountIn first (authorizeSwap is owner-only).
+ * @param amountOutMin - The swap reverts if the router would return less
+ * @throws When either transaction reverts
+ */
+export async function executeTreasurySwap(
+  fromToken: string,
+  toToken: string,
+  amountIn: bigint,
+  amountOutMin: bigint,
+): Promise<TreasurySwapOutcome> {
+  const contract = getTreasuryContract();
+  const authorizeTx = await contract.authorizeSwap(fromToken, toToken, amountIn);
+  const authorizeReceipt: TransactionReceipt = await authorizeTx.wait();
 
+  const balanceBefore = await getTreasuryBalance(toToken);
+  const swapTx = await contract.executeSwap(fromToken, toToken, amountIn, amountOutMin, [fromToken, toToken]);
+  const swapReceipt: TransactionReceipt = await swapTx.wait();
+  const balanceAfter = await getTreasuryBalance(toToken);
 
+  return {
+    txHash: swapReceipt.hash,
+    amountOut: balanceAfter - balanceBefore,
+    fee: authorizeReceipt.fee + swapReceipt.fee,
+  };
+}
@@ -0,0 +1,128 @@
+import { formatUnits } from "ethers";
+import { config } from "../config/env.js";
+import { getCurrentNetworkConfig } from "../config/networkConfig.js";
+import { PayrollEventActor, TreasurySwapStatus } from "../domain/payroll.js";
+import { recordTreasurySwap } from "./payrollStateService.js";
+import { executeTreasurySwap, getTreasuryBalance, quoteTreasurySwap } from "./treasuryClient.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Treasury Swap Service
+ * Covers a payroll token shortfall by swapping another stablecoin the treasury holds
+ * (e.g. USDT when payroll is paid in USDC) through the treasury's DEX router.
+ * The swap is sized from getAmountsOut so that even at the configured slippage it
+ * yields the shortfall, and every attempt is recorded on the payroll timeline.
+ */
+
+const BPS = BigInt(10_000);
+
+// Quotes taken to size the input before giving up on a source token
+const MAX_QUOTE_ROUNDS = 3;
+
+// Lowest amount the swap may return at the configured slippage
+function minimumOut(quoted: bigint): bigint {
+  const slippageBps = BigInt(Math.min(Math.max(config.treasurySwapSlippageBps, 0), 10_000));
+  return (quoted * (BPS - slippageBps)) / BPS;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - BigInt(1)) / b;
+}
+
+function errorReason(error: unknown): string {
+  return (error instanceof Error ? error.message : "Unknown error").slice(0, 300);
+}
+
+/**
+ * Size a swap of fromToken whose minimum output covers the shortfall
+ * Stablecoin pairs trade close to 1:1, so the first quote is for the shortfall itself and
+ * the input is scaled by the quoted rate until the minimum output covers it.
+ * @returns Input amount and quote, or null when no quote covers the shortfall
+ */
+async function sizeSwap(fromToken: string, toToken: string, shortfall: bigint) {
+  let amountIn = shortfall;
+  for (let round = 0; round < MAX_QUOTE_ROUNDS; round++) {
+    const quoted = await quoteTreasurySwap(fromToken, toToken, amountIn);
+    const amountOutMin = minimumOut(quoted);
+    if (amountOutMin >= shortfall) {
+      return { amountIn, quoted, amountOutMin };
+    }
+    if (amountOutMin === BigInt(0)) {
+      return null;
+    }
+    amountIn = ceilDiv(amountIn * shortfall, amountOutMin);
+  }
+  return null;
+}
+
+/**
+ * Swap another treasury stablecoin into the payroll token to cover a shortfall
+ * Source tokens are tried in network order; the first one holding enough is swapped.
+ * Does nothing when TREASURY_SWAP_ENABLED=false.
+ * @param payrollId - Payroll whose timeline records the swap
+ * @param toToken - Token the payroll is paid in
+ * @param shortfall - Missing amount of toToken (token units)
+ * @param decimals - Decimals of the treasury stablecoins
+ * @returns Whether a swap was executed
+ */
+export async function sourceTokensBySwap(
+  payrollId: string,
+  toToken: string,
+  shortfall: bigint,
+  decimals: number,
+): Promise<boolean> {
+  if (!config.treasurySwapEnabled || shortfall <= BigInt(0)) {
+    return false;
+  }
+
+  const stablecoins = Object.entries(getCurrentNetworkConfig().stablecoins);
+  const symbol = (token: string) =>
+    stablecoins.find(([, address]) => address.toLowerCase() === token.toLowerCase())?.[0].toUpperCase() ?? token;
+  const format = (amount: bigint) => formatUnits(amount, decimals);
+  const toSymbol = symbol(toToken);
+
+  for (const [, fromToken] of stablecoins) {
+    if (fromToken.toLowerCase() === toToken.toLowerCase()) {
+      continue;
+    }
+    const fromSymbol = symbol(fromToken);
+
+    let sized;
+    try {
+      const balance = await getTreasuryBalance(fromToken);
+      if (balance === BigInt(0)) {
+        continue;
+      }
+      sized = await sizeSwap(fromToken, toToken, shortfall);
+      if (!sized || sized.amountIn > balance) {
+        logger.info(
+          `Treasury ${fromSymbol} (${format(balance)}) cannot cover the ${format(shortfall)} ${toSymbol} shortfall of payroll ${payrollId}`,
+        );
+        continue;
+      }
+    } catch (error) {
+      logger.warn(`Could not quote a ${fromSymbol} -> ${toSymbol} swap for payroll ${payrollId}`, error);
+      continue;
+    }
+
+    const swap = `${format(sized.amountIn)} ${fromSymbol} for ${toSymbol}`;
+    const terms = `quote ${format(sized.quoted)}, min ${format(sized.amountOutMin)} at ${config.treasurySwapSlippageBps} bps slippage`;
+    try {
+      logger.info(`Swapping ${swap} to cover a ${format(shortfall)} ${toSymbol} shortfall of payroll ${payrollId}`);
+      const outcome = await executeTreasurySwap(fromToken, toToken, sized.amountIn, sized.amountOutMin);
+      await recordTreasurySwap(payrollId, TreasurySwapStatus.EXECUTED, {
+        actor: PayrollEventActor.SYSTEM,
+        reason: `Swapped ${format(sized.amountIn)} ${fromSymbol} for ${format(outcome.amountOut)} ${toSymbol} to cover a ${format(shortfall)} ${toSymbol} shortfall (${terms}, tx ${outcome.txHash})`,
+      });
+      return true;
+    } catch (error) {
+      logger.error(`Treasury swap of ${swap} failed for payroll ${payrollId}`, error);
+      await recordTreasurySwap(payrollId, TreasurySwapStatus.FAILED, {
+        actor: PayrollEventActor.SYSTEM,
+        reason: `Swap of ${swap} failed (${terms}): ${errorReason(error)}`,
+      });
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,229 @@
+import { prisma } from "../dbClient.js";
+import { PaymentLineItemType, summarizeLineItems } from "../domain/payment.js";
+import type {
+  CreatePayrollInput,
+  PayrollLineItemInput,
+  PayrollValidationError,
+  PayrollValidationResult,
+} from "./payrollValidation.js";
+import { ConflictError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Withholding Service
+ * Company-scoped withholding rules per payee country. Itemized payroll lines paid to a
+ * payee in a country with rules get one WITHHOLDING line item per rule (rate x gross
+ * earnings) and are paid the net amount. Lines without line items, or without a payee
+ * country, are paid as submitted.
+ */
+
+// Maximum length of a rule name (it becomes the line item description)
+const MAX_NAME_LENGTH = 200;
+
+// 100% in basis points
+const MAX_RATE_BPS = 10_000;
+
+// ISO 3166-1 alpha-2 country code
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+type WithholdingRuleRecord = NonNullable<Awaited<ReturnType<typeof prisma.withholdingRule.findUnique>>>;
+
+// Validated withholding rule fields
+export type WithholdingRuleInput = {
+  country: string;
+  name: string;
+  rateBps: number;
+};
+
+export type WithholdingRuleValidationResult =
+  | { valid: true; input: WithholdingRuleInput }
+  | { valid: false; errors: PayrollValidationError[] };
+
+/**
+ * Validate a withholding rule submission
+ * @param body - Raw request body
+ * @param existing - Current rule when updating (missing fields fall back to it)
+ */
+export function validateWithholdingRuleInput(
+  body: unknown,
+  existing?: WithholdingRuleRecord,
+): WithholdingRuleValidationResult {
+  if (!body || typeof body !== "object") {
+    return {
+      valid: false,
+      errors: [{ field: "body", message: "Request body must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const pick = (field: string, fallback: unknown) =>
+    raw[field] !== undefined ? raw[field] : fallback;
+
+  const errors: PayrollValidationError[] = [];
+
+  const country = pick("country", existing?.country);
+  const normalizedCountry = typeof country === "string" ? country.trim().toUpperCase() : "";
+  if (!COUNTRY_PATTERN.test(normalizedCountry)) {
+    errors.push({ field: "country", message: "country must be an ISO 3166-1 alpha-2 code (e.g. DE)" });
+  }
+
+  const name = pick("name", existing?.name);
+  if (typeof name !== "string" || name.trim() === "") {
+    errors.push({ field: "name", message: "Name is required" });
+  } else if (name.trim().length > MAX_NAME_LENGTH) {
+    errors.push({ field: "name", message: `Name must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  const rateBps = pick("rateBps", existing?.rateBps);
+  if (typeof rateBps !== "number" || !Number.isInteger(rateBps) || rateBps <= 0 || rateBps >= MAX_RATE_BPS) {
+    errors.push({
+      field: "rateBps",
+      message: `rateBps must be a whole number of basis points between 1 and ${MAX_RATE_BPS - 1}`,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    input: {
+      country: normalizedCountry,
+      name: (name as string).trim(),
+      rateBps: rateBps as number,
+    },
+  };
+}
+
+async function assertNameAvailable(companyId: string, input: WithholdingRuleInput, ruleId?: string) {
+  const duplicate = await prisma.withholdingRule.findFirst({
+    where: {
+      companyId,
+      country: input.country,
+      name: input.name,
+      ...(ruleId ? { id: { not: ruleId } } : {}),
+    },
+    select: { id: true },
+  });
+  if (duplicate) {
+    throw new ConflictError(
+      `A withholding rule named "${input.name}" already exists for ${input.country}`,
+      "WITHHOLDING_RULE_EXISTS",
+    );
+  }
+}
+
+/**
+ * Create a withholding rule for a company
+ * @returns Created rule
+ */
+export async function createWithholdingRule(companyId: string, input: WithholdingRuleInput) {
+  await assertNameAvailable(companyId, input);
+  const rule = await prisma.withholdingRule.create({
+    data: { companyId, ...input },
+  });
+  logger.info(`Withholding rule created: ${rule.id} (${rule.country} ${rule.rateBps} bps, company ${companyId})`);
+  return rule;
+}
+
+/**
+ * Update a withholding rule
+ * Payments already created keep the withholding they were computed with.
+ */
+export async function updateWithholdingRule(existing: WithholdingRuleRecord, input: WithholdingRuleInput) {
+  await assertNameAvailable(existing.companyId, input, existing.id);
+  return prisma.withholdingRule.update({
+    where: { id: existing.id },
+    data: input,
+  });
+}
+
+// Get a company's withholding rule by id
+export async function getWithholdingRule(companyId: string, id: string) {
+  return prisma.withholdingRule.findFirst({
+    where: { id, companyId },
+  });
+}
+
+// List a company's withholding rules, optionally for one country
+export async function listWithholdingRules(companyId: string, country?: string) {
+  return prisma.withholdingRule.findMany({
+    where: { companyId, ...(country ? { country: country.trim().toUpperCase() } : {}) },
+    orderBy: [{ country: "asc" }, { name: "asc" }],
+  });
+}
+
+// Delete a withholding rule (payments keep their WITHHOLDING items)
+export async function deleteWithholdingRule(id: string) {
+  await prisma.withholdingRule.delete({ where: { id } });
+}
+
+/**
+ * Add WITHHOLDING items to the line items of a payment
+ * Each rule withholds its rate of the gross earnings, rounded to the cent.
+ * @param items - Submitted line items (without WITHHOLDING items)
+ * @param rules - The company's rules for the payee country
+ * @returns Items with the withholding appended, and the net amount to pay
+ */
+export function withholdLineItems(
+  items: PayrollLineItemInput[],
+  rules: ReadonlyArray<Pick<WithholdingRuleRecord, "id" | "name" | "rateBps">>,
+): { items: PayrollLineItemInput[]; net: number } {
+  const { gross } = summarizeLineItems(items);
+  const withheld = rules
+    .map((rule) => ({
+      type: PaymentLineItemType.WITHHOLDING,
+      description: rule.name,
+      amount: Math.round((gross * rule.rateBps) / MAX_RATE_BPS),
+      withholdingRuleId: rule.id,
+      rateBps: rule.rateBps,
+    }))
+    .filter((item) => item.amount > 0);
+
+  const withItems = [...items, ...withheld];
+  return { items: withItems, net: summarizeLineItems(withItems).net };
+}
+
+/**
+ * Apply a company's withholding rules to the itemized lines of a payroll
+ * Runs after payees are resolved; the rules of the payee's country apply.
+ * @param companyId - Company submitting the payroll
+ * @param input - Validated payroll with resolved payees
+ * @returns Payroll whose itemized lines are paid net of withholding
+ */
+export async function applyWithholding(
+  companyId: string,
+  input: CreatePayrollInput,
+): Promise<PayrollValidationResult> {
+  const payeeIds = [...new Set(input.payments.flatMap((p) => (p.items && p.payeeId ? [p.payeeId] : [])))];
+  if (payeeIds.length === 0) {
+    return { valid: true, input };
+  }
+
+  const payees = await prisma.payee.findMany({
+    where: { companyId, id: { in: payeeIds } },
+    select: { id: true, country: true },
+  });
+  const countries = new Map(payees.map((p) => [p.id, p.country]));
+  const rules = await listWithholdingRules(companyId);
+
+  const errors: PayrollValidationError[] = [];
+  const payments = input.payments.map((line, index) => {
+    const country = line.payeeId ? countries.get(line.payeeId) : null;
+    if (!line.items || !country) {
+      return line;
+    }
+
+    const { items, net } = withholdLineItems(line.items, rules.filter((r) => r.country === country));
+    if (net <= 0) {
+      errors.push({ index, field: "items", message: `Withholding for ${country} leaves nothing to pay` });
+    }
+    return { ...line, items, amount: net };
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, input: { ...input, payments } };
+}
@@ -45,6 +45,13 @@ export class PaymentRequiredError extends AppError {
   }
 }
 
+// 403 Forbidden
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden", code = "FORBIDDEN") {
+    super(message, 403, code);
+  }
+}
+
 // 404 Not Found
 export class NotFoundError extends AppError {
   constructor(message = "Not Found", code = "NOT_FOUND") {
@@ -52,6 +59,27 @@ export class NotFoundError extends AppError {
   }
 }
 
+// 409 Conflict
+export class ConflictError extends AppError {
+  constructor(message = "Conflict", code = "CONFLICT") {
+    super(message, 409, code);
+  }
+}
+
+// 422 Unprocessable Entity: a payroll run would exceed a company spending limit
+export class SpendingLimitExceededError extends AppError {
+  public readonly violations: Array<Record<string, unknown>>;
+
+  constructor(
+    message = "Spending limit exceeded",
+    violations: Array<Record<string, unknown>> = [],
+    code = "SPENDING_LIMIT_EXCEEDED"
+  ) {
+    super(message, 422, code);
+    this.violations = violations;
+  }
+}
+
 // 500 Internal Server Error
 export class InternalError extends AppError {
   constructor(message = "Internal Server Error", code = "INTERNAL_ERROR") {
@@ -59,6 +87,13 @@ export class InternalError extends AppError {
   }
 }
 
+// 503 Service Unavailable
+export class ServiceUnavailableError extends AppError {
+  constructor(message = "Service Unavailable", code = "SERVICE_UNAVAILABLE") {
+    super(message, 503, code);
+  }
+}
+
 // Error response formatter
 export function formatErrorResponse(error: unknown): {
   error: string;
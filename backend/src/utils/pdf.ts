@@ -0,0 +1,122 @@
+/**
+ * Minimal PDF writer
+ * Renders a single A4 page of text lines with the standard Helvetica fonts (no font embedding),
+ * which is all payslips and similar documents need. Characters outside Latin-1 are printed as "?".
+ */
+
+export type PdfLine = {
+  text?: string;
+  label?: string; // Bold label in a left column, text printed next to it
+  size?: number; // Font size in points (default 10)
+  bold?: boolean;
+  link?: string; // URI opened when the text is clicked
+  spaceBefore?: number; // Extra space above the line in points
+  rule?: boolean; // Horizontal line instead of text
+};
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LABEL_WIDTH = 150;
+const DEFAULT_SIZE = 10;
+// Average Helvetica glyph width as a share of the font size, used to wrap long values
+const AVERAGE_GLYPH_WIDTH = 0.55;
+
+// Coordinate with at most two decimals
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// PDF literal string with WinAnsi (Latin-1) characters
+function pdfString(text: string): string {
+  const latin1 = Array.from(text, (char) => (char.charCodeAt(0) <= 0xff ? char : "?")).join("");
+  return `(${latin1.replace(/[\\()]/g, (c) => `\\${c}`).replace(/[\r\n\t]/g, " ")})`;
+}
+
+// Split text into chunks that fit the width, preferring breaks at spaces
+function wrap(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_GLYPH_WIDTH)));
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(" ", maxChars);
+    const cut = space > 0 ? space : maxChars;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  chunks.push(rest);
+  return chunks;
+}
+
+/**
+ * Render lines top to bottom on one page; lines that do not fit the page are dropped
+ * @param lines - Lines to print
+ * @param title - Document title shown by PDF viewers
+ * @returns PDF file contents
+ */
+export function renderPdf(lines: PdfLine[], title: string): Buffer {
+  const content: string[] = [];
+  const links: Array<{ rect: number[]; uri: string }> = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    y -= line.spaceBefore ?? 0;
+
+    if (line.rule) {
+      y -= size / 2;
+      content.push(`0.8 G 0.5 w ${MARGIN} ${num(y)} m ${PAGE_WIDTH - MARGIN} ${num(y)} l S`);
+      y -= size / 2;
+      continue;
+    }
+
+    const x = line.label !== undefined ? MARGIN + LABEL_WIDTH : MARGIN;
+    const chunks = wrap(line.text ?? "", PAGE_WIDTH - MARGIN - x, size);
+    chunks.forEach((chunk, index) => {
+      y -= size * 1.4;
+      if (y < MARGIN) {
+        return;
+      }
+      if (index === 0 && line.label !== undefined) {
+        content.push(`BT /F2 ${size} Tf 0.35 g ${MARGIN} ${num(y)} Td ${pdfString(line.label)} Tj ET`);
+      }
+      const font = line.bold ? "/F2" : "/F1";
+      const color = line.link ? "0 0 0.8 rg" : "0 g";
+      content.push(`BT ${font} ${size} Tf ${color} ${x} ${num(y)} Td ${pdfString(chunk)} Tj ET`);
+      if (line.link) {
+        const width = chunk.length * size * AVERAGE_GLYPH_WIDTH;
+        links.push({ rect: [x, y - 2, x + width, y + size], uri: line.link });
+      }
+    });
+  }
+
+  const stream = content.join("\n");
+  const linkObjects = links.map(
+    (link) =>
+      `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(num).join(" ")}] /Border [0 0 0] /A << /S /URI /URI ${pdfString(link.uri)} >> >>`,
+  );
+  const firstLinkId = 8;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R /Annots [${links.map((_, i) => `${firstLinkId + i} 0 R`).join(" ")}] >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`,
+    `<< /Title ${pdfString(title)} /Producer (SnowRail) >>`,
+    ...linkObjects,
+  ];
+
+  // Body, then the cross-reference table with the byte offset of every object
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
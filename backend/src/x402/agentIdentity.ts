@@ -7,6 +7,7 @@
  */
 
 import { config } from '../config/env.js';
+import { listMeters } from './metering.js';
 
 export interface ERC8004AgentCard {
   // Standard version
@@ -136,43 +137,7 @@ export const SNOWRAIL_AGENT_CARD: ERC8004AgentCard = {
   metering: {
     protocol: 'x402',
     version: '8004-alpha',
-    resources: [
-      {
-        id: 'payroll_execute',
-        price: '1',
-        asset: 'USDC',
-        chain: config.network,
-        description: 'Execute international payroll for up to 10 freelancers'
-      },
-      {
-        id: 'payment_process',
-        price: '0.1',
-        asset: 'USDC',
-        chain: config.network,
-        description: 'Complete payment flow: Rail + Blockchain + Facilitator integration'
-      },
-      {
-        id: 'contract_test',
-        price: '0.1',
-        asset: 'USDC',
-        chain: config.network,
-        description: 'Test Treasury contract operations'
-      },
-      {
-        id: 'payment_single',
-        price: '0.1',
-        asset: 'USDC',
-        chain: config.network,
-        description: 'Execute a single payment to one recipient'
-      },
-      {
-        id: 'swap_execute',
-        price: '0.5',
-        asset: 'USDC',
-        chain: config.network,
-        description: 'Execute a token swap through DEX'
-      }
-    ]
+    resources: [] // Read from the meters by getAgentIdentity
   },
   
   contact: {
@@ -192,11 +157,22 @@ export const SNOWRAIL_AGENT_CARD: ERC8004AgentCard = {
 };
 
 /**
- * Get agent identity card (for API endpoint)
+ * Get agent identity card (for API endpoint), with the current price of every meter
  */
-export function getAgentIdentity(): ERC8004AgentCard {
+export async function getAgentIdentity(): Promise<ERC8004AgentCard> {
+  const meters = await listMeters();
   return {
     ...SNOWRAIL_AGENT_CARD,
+    metering: {
+      ...SNOWRAIL_AGENT_CARD.metering,
+      resources: meters.map((meter) => ({
+        id: meter.id,
+        price: meter.price,
+        asset: meter.asset,
+        chain: meter.chain,
+        description: meter.description ?? meter.resource
+      }))
+    },
     updatedAt: new Date().toISOString()
   };
 }
@@ -0,0 +1,423 @@
+import { Prisma } from "@prisma/client";
+import { ethers } from "ethers";
+import jwt from "jsonwebtoken";
+import { prisma } from "../dbClient.js";
+import { config } from "../config/env.js";
+import { networks } from "../config/networkConfig.js";
+import {
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+} from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+import type { MeterConfig } from "./metering.js";
+import { ASSET_DECIMALS } from "./paymentRequirements.js";
+
+/**
+ * x402 Prepaid Credit
+ * A payer settles one larger x402 payment (meter "credit_purchase") and receives a signed
+ * session token. Sent as the X-PAYMENT-SESSION header, the token lets x402Protect debit the
+ * meter price from the session's balance instead of settling a payment per call. The unused
+ * balance is refunded on-chain to the payer, which closes the session.
+ */
+
+export const CREDIT_METER_ID = "credit_purchase";
+
+export const CreditSessionStatus = {
+  ACTIVE: "ACTIVE",
+  REFUNDING: "REFUNDING", // Refund transfer signed or submitted; the balance can no longer be spent
+  REFUNDED: "REFUNDED",
+} as const;
+
+// JWT subject of session tokens, so a login token is never accepted as one (and vice versa)
+const TOKEN_SUBJECT = "x402-credit";
+
+// Debits returned with a session
+const RECENT_DEBITS = 50;
+
+type CreditSessionRecord = NonNullable<Awaited<ReturnType<typeof prisma.creditSession.findUnique>>>;
+
+export type CreditDebitResult =
+  | { ok: true; sessionId: string; balance: string }
+  | { ok: false; error: string; message: string; balance?: string };
+
+function tokenSecret(): string {
+  const secret = config.jwtSecret;
+  if (!secret || secret.trim() === "") {
+    throw new Error("JWT_SECRET is not configured");
+  }
+  return secret;
+}
+
+function signSessionToken(session: CreditSessionRecord): string {
+  return jwt.sign({ sessionId: session.id, payer: session.payer }, tokenSecret(), {
+    subject: TOKEN_SUBJECT,
+  });
+}
+
+/**
+ * Session ID of a session token
+ * @returns The session ID, or null when the token is not a valid session token
+ */
+export function readSessionToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, tokenSecret(), { subject: TOKEN_SUBJECT }) as {
+      sessionId?: unknown;
+    };
+    return typeof decoded.sessionId === "string" ? decoded.sessionId : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatDebit(debit: {
+  meterId: string;
+  priceVersion: number;
+  amount: Prisma.Decimal;
+  resource: string;
+  createdAt: Date;
+}) {
+  return {
+    meterId: debit.meterId,
+    priceVersion: debit.priceVersion,
+    amount: debit.amount.toString(),
+    resource: debit.resource,
+    createdAt: debit.createdAt.toISOString(),
+  };
+}
+
+function formatSession(session: CreditSessionRecord) {
+  return {
+    id: session.id,
+    payer: session.payer,
+    asset: session.asset,
+    chain: session.chain,
+    deposited: session.deposited.toString(),
+    balance: session.balance.toString(),
+    status: session.status,
+    depositTx: session.depositTx,
+    refundedAmount: session.refundedAmount?.toString() ?? null,
+    refundTx: session.refundTx,
+    refundedAt: session.refundedAt?.toISOString() ?? null,
+    expiresAt: session.expiresAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+  };
+}
+
+async function findSessionByToken(token: string | undefined): Promise<CreditSessionRecord> {
+  const sessionId = token ? readSessionToken(token) : null;
+  if (!sessionId) {
+    throw new UnauthorizedError("A valid X-PAYMENT-SESSION token is required", "CREDIT_SESSION_INVALID");
+  }
+  const session = await prisma.creditSession.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    throw new NotFoundError("Credit session not found", "CREDIT_SESSION_NOT_FOUND");
+  }
+  return session;
+}
+
+/**
+ * Open a credit session funded by a settled x402 payment
+ * @param deposit - Payer, asset and chain of the payment, amount in asset units and settlement transaction
+ * @returns The session and its token
+ * @throws ConflictError when the settlement already funded a session
+ */
+export async function openCreditSession(deposit: {
+  payer: string;
+  asset: string;
+  chain: string;
+  amount: string;
+  depositTx: string;
+}) {
+  try {
+    const session = await prisma.creditSession.create({
+      data: {
+        payer: deposit.payer.toLowerCase(),
+        asset: deposit.asset,
+        chain: deposit.chain,
+        deposited: deposit.amount,
+        balance: deposit.amount,
+        depositTx: deposit.depositTx,
+        expiresAt: new Date(Date.now() + config.x402CreditSessionTtlHours * 60 * 60 * 1000),
+      },
+    });
+
+    logger.info("Credit session opened", {
+      sessionId: session.id,
+      payer: session.payer,
+      deposited: session.deposited.toString(),
+      asset: session.asset,
+    });
+
+    return { token: signSessionToken(session), session: formatSession(session) };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ConflictError("This payment already funded a credit session", "CREDIT_DEPOSIT_USED");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Session of a token, with its most recent debits
+ * @throws UnauthorizedError when the token is invalid, NotFoundError when the session is gone
+ */
+export async function getCreditSession(token: string | undefined) {
+  const session = await findSessionByToken(token);
+  const debits = await prisma.creditDebit.findMany({
+    where: { sessionId: session.id },
+    orderBy: { createdAt: "desc" },
+    take: RECENT_DEBITS,
+  });
+  return { ...formatSession(session), debits: debits.map(formatDebit) };
+}
+
+/**
+ * Debit the price of a meter from the credit of a session token
+ * The balance is decremented atomically, so concurrent calls cannot overspend it.
+ * @param resource - Method and path of the call, recorded with the debit
+ */
+export async function debitCredit(
+  token: string,
+  meterId: string,
+  meter: MeterConfig,
+  resource: string,
+): Promise<CreditDebitResult> {
+  const sessionId = readSessionToken(token);
+  if (!sessionId) {
+    return {
+      ok: false,
+      error: "CREDIT_SESSION_INVALID",
+      message: "X-PAYMENT-SESSION is not a valid credit session token",
+    };
+  }
+
+  const now = new Date();
+  const debited = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.creditSession.updateMany({
+      where: {
+        id: sessionId,
+        status: CreditSessionStatus.ACTIVE,
+        asset: meter.asset,
+        chain: meter.chain,
+        expiresAt: { gt: now },
+        balance: { gte: meter.price },
+      },
+      data: { balance: { decrement: meter.price } },
+    });
+    if (count === 0) {
+      return null;
+    }
+    await tx.creditDebit.create({
+      data: {
+        sessionId,
+        meterId,
+        priceVersion: meter.priceVersion,
+        amount: meter.price,
+        resource,
+      },
+    });
+    return tx.creditSession.findUnique({ where: { id: sessionId } });
+  });
+
+  if (debited) {
+    return { ok: true, sessionId, balance: debited.balance.toString() };
+  }
+
+  // Nothing was debited: tell the client why
+  const session = await prisma.creditSession.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    return { ok: false, error: "CREDIT_SESSION_INVALID", message: "Credit session not found" };
+  }
+  const balance = session.balance.toString();
+  if (session.status !== CreditSessionStatus.ACTIVE) {
+    return { ok: false, error: "CREDIT_SESSION_CLOSED", message: "Credit session was refunded", balance };
+  }
+  if (session.expiresAt <= now) {
+    return { ok: false, error: "CREDIT_SESSION_EXPIRED", message: "Credit session expired; refund the unused credit", balance };
+  }
+  if (session.asset !== meter.asset || session.chain !== meter.chain) {
+    return {
+      ok: false,
+      error: "CREDIT_ASSET_MISMATCH",
+      message: `Credit is in ${session.asset} on ${session.chain}; ${meterId} is paid in ${meter.asset} on ${meter.chain}`,
+      balance,
+    };
+  }
+  return {
+    ok: false,
+    error: "CREDIT_EXHAUSTED",
+    message: `Credit balance ${balance} ${session.asset} is below the price ${meter.price}`,
+    balance,
+  };
+}
+
+// Time to wait for a refund transfer to be mined before answering with the pending session
+const REFUND_CONFIRMATION_TIMEOUT_MS = 60_000;
+
+function refundProvider(chain: string): ethers.JsonRpcProvider {
+  const network = networks[chain];
+  if (!network) {
+    throw new Error(`Unsupported credit chain ${chain}`);
+  }
+  return new ethers.JsonRpcProvider(network.rpcUrl);
+}
+
+// Signed ERC20 transfer from the PRIVATE_KEY wallet; not broadcast
+async function signRefundTransfer(session: CreditSessionRecord): Promise<string> {
+  if (!config.privateKey) {
+    throw new Error("Private key not configured for refunds");
+  }
+  const network = networks[session.chain];
+  const assetAddress = network?.stablecoins[session.asset.toLowerCase() as keyof typeof network.stablecoins];
+  if (!network || !assetAddress) {
+    throw new Error(`Unsupported credit asset ${session.asset} on ${session.chain}`);
+  }
+
+  const wallet = new ethers.Wallet(config.privateKey, refundProvider(session.chain));
+  const token = new ethers.Contract(
+    assetAddress,
+    ["function transfer(address to, uint256 amount) public returns (bool)"],
+    wallet,
+  );
+
+  const transfer = await token.transfer.populateTransaction(
+    session.payer,
+    ethers.parseUnits(session.balance.toString(), ASSET_DECIMALS),
+  );
+  return wallet.signTransaction(await wallet.populateTransaction(transfer));
+}
+
+/**
+ * Resolve a submitted refund from its transaction receipt
+ * Mined: the session is refunded. Reverted, or dropped (its nonce was used by another
+ * transaction): nothing was transferred, so the session is active again. Otherwise the
+ * transfer is rebroadcast and the session stays REFUNDING.
+ */
+async function reconcileRefund(
+  session: CreditSessionRecord,
+  provider: ethers.JsonRpcProvider,
+): Promise<CreditSessionRecord> {
+  const signed = ethers.Transaction.from(session.refundSignedTx!);
+  const hash = signed.hash!;
+
+  let receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) {
+    try {
+      await provider.broadcastTransaction(session.refundSignedTx!);
+    } catch (error) {
+      logger.debug("Refund transfer rebroadcast rejected", { sessionId: session.id, refundTx: hash, error });
+    }
+    const minedNonce = await provider.getTransactionCount(signed.from!, "latest");
+    if (minedNonce <= signed.nonce) {
+      return session;
+    }
+    receipt = await provider.getTransactionReceipt(hash);
+  }
+
+  if (receipt?.status === 1) {
+    const refunded = await prisma.creditSession.update({
+      where: { id: session.id },
+      data: {
+        status: CreditSessionStatus.REFUNDED,
+        balance: 0,
+        refundedAmount: session.balance,
+        refundTx: receipt.hash,
+        refundedAt: new Date(),
+      },
+    });
+    logger.info("Credit session refunded", {
+      sessionId: refunded.id,
+      payer: refunded.payer,
+      refundedAmount: session.balance.toString(),
+      refundTx: receipt.hash,
+    });
+    return refunded;
+  }
+
+  // Reverted or dropped: the balance never left the wallet
+  await prisma.creditSession.update({
+    where: { id: session.id },
+    data: { status: CreditSessionStatus.ACTIVE, refundTx: null, refundSignedTx: null },
+  });
+  logger.warn("Credit refund transfer was not mined", { sessionId: session.id, refundTx: hash, reverted: !!receipt });
+  throw new ServiceUnavailableError(
+    `Refund transfer ${hash} ${receipt ? "reverted" : "was dropped"}; the session is active again`,
+    "CREDIT_REFUND_FAILED",
+  );
+}
+
+/**
+ * Refund the unused credit of a session token to the payer and close the session
+ * The signed transfer is stored before it is broadcast, and the session stays REFUNDING
+ * until its receipt is seen. Refunding a REFUNDING session again reconciles that transfer.
+ * @returns The session: REFUNDED, or REFUNDING while the transfer is not mined
+ * @throws ConflictError when the session is already refunded,
+ *         ServiceUnavailableError when the transfer cannot be signed or was reverted or dropped
+ */
+export async function refundCreditSession(token: string | undefined) {
+  const session = await findSessionByToken(token);
+  if (session.status === CreditSessionStatus.REFUNDED) {
+    throw new ConflictError("Credit session is already refunded", "CREDIT_SESSION_CLOSED");
+  }
+
+  // Freeze the balance: debits require an ACTIVE session
+  if (session.status === CreditSessionStatus.ACTIVE) {
+    const { count } = await prisma.creditSession.updateMany({
+      where: { id: session.id, status: CreditSessionStatus.ACTIVE },
+      data: { status: CreditSessionStatus.REFUNDING },
+    });
+    if (count === 0) {
+      return refundCreditSession(token);
+    }
+  }
+
+  let frozen = await prisma.creditSession.findUniqueOrThrow({ where: { id: session.id } });
+
+  if (!frozen.balance.gt(0)) {
+    const refunded = await prisma.creditSession.update({
+      where: { id: session.id },
+      data: { status: CreditSessionStatus.REFUNDED, refundedAmount: 0, refundedAt: new Date() },
+    });
+    return formatSession(refunded);
+  }
+
+  const provider = refundProvider(frozen.chain);
+
+  if (!frozen.refundSignedTx) {
+    // Nothing was broadcast yet, so a failure here leaves the session safe to refund again
+    let signedTx: string;
+    try {
+      signedTx = await signRefundTransfer(frozen);
+    } catch (error) {
+      logger.error("Failed to sign credit refund transfer", error);
+      throw new ServiceUnavailableError(
+        `Refund transfer failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "CREDIT_REFUND_FAILED",
+      );
+    }
+
+    // Record the transfer before broadcasting it; a concurrent refund that recorded one first wins
+    const refundTx = ethers.Transaction.from(signedTx).hash!;
+    const { count } = await prisma.creditSession.updateMany({
+      where: { id: session.id, status: CreditSessionStatus.REFUNDING, refundSignedTx: null },
+      data: { refundTx, refundSignedTx: signedTx },
+    });
+    frozen = await prisma.creditSession.findUniqueOrThrow({ where: { id: session.id } });
+    if (count === 1) {
+      try {
+        await provider.broadcastTransaction(signedTx);
+        await provider.waitForTransaction(refundTx, 1, REFUND_CONFIRMATION_TIMEOUT_MS);
+      } catch (error) {
+        // The transfer may still be mined: leave it to reconciliation
+        logger.error("Credit refund transfer not confirmed", { sessionId: session.id, refundTx, error });
+      }
+    }
+  }
+
+  if (frozen.status !== CreditSessionStatus.REFUNDING) {
+    return formatSession(frozen);
+  }
+  return formatSession(await reconcileRefund(frozen, provider));
+}
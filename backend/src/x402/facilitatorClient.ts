@@ -1,3 +1,4 @@
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
 import { config } from "../config/env.js";
 import { logger } from "../utils/logger.js";
 import { getMeter, MeterConfig } from "./metering.js";
@@ -121,6 +122,118 @@ export async function validateWithFacilitator(
   }
 }
 
+// Standard x402 facilitator /verify response
+export type FacilitatorVerifyResponse = {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+};
+
+// Standard x402 facilitator /settle response
+export type FacilitatorSettleResponse = {
+  success: boolean;
+  errorReason?: string;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+};
+
+// POST a standard payment to the facilitator; rejections come back as JSON, with a 4xx status or not
+async function postPayment(
+  endpoint: "verify" | "settle",
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements
+): Promise<any> {
+  const facilitatorUrl = config.x402FacilitatorUrl;
+  const response = (await fetch(`${facilitatorUrl}/${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({
+      x402Version: paymentPayload.x402Version,
+      paymentPayload,
+      paymentRequirements,
+    }),
+  })) as unknown as FetchResponse;
+
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`Facilitator ${endpoint} failed: ${response.status} ${text || response.statusText}`);
+  }
+}
+
+/**
+ * Verify a standard x402 payment payload against its payment requirements
+ * @param paymentPayload - Decoded X-PAYMENT header
+ * @param paymentRequirements - Requirements the payment was made for
+ * @returns Verification result from facilitator
+ */
+export async function verifyWithFacilitator(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements
+): Promise<FacilitatorVerifyResponse> {
+  if (config.x402FacilitatorUrl.includes("mock")) {
+    return {
+      isValid: false,
+      invalidReason: "MOCK_FACILITATOR",
+    };
+  }
+
+  try {
+    const result = await postPayment("verify", paymentPayload, paymentRequirements);
+    return {
+      isValid: result.isValid === true,
+      invalidReason: result.invalidReason ?? result.error,
+      payer: result.payer,
+    };
+  } catch (error) {
+    logger.error("Error verifying payment with facilitator", error);
+    return {
+      isValid: false,
+      invalidReason: "FACILITATOR_ERROR",
+    };
+  }
+}
+
+/**
+ * Settle a standard x402 payment payload (executes the transfer on-chain)
+ * @param paymentPayload - Decoded X-PAYMENT header
+ * @param paymentRequirements - Requirements the payment was made for
+ * @returns Settlement result from facilitator
+ */
+export async function settleWithFacilitator(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements
+): Promise<FacilitatorSettleResponse> {
+  try {
+    const result = await postPayment("settle", paymentPayload, paymentRequirements);
+    if (result.success === true) {
+      logger.info(`Payment settled by facilitator`, {
+        transaction: result.transaction,
+        payer: result.payer,
+      });
+    }
+    return {
+      success: result.success === true,
+      errorReason: result.errorReason ?? result.error,
+      transaction: result.transaction,
+      network: result.network ?? paymentRequirements.network,
+      payer: result.payer,
+    };
+  } catch (error) {
+    logger.error("Error settling payment with facilitator", error);
+    return {
+      success: false,
+      errorReason: "FACILITATOR_ERROR",
+      network: paymentRequirements.network,
+    };
+  }
+}
+
 /**
  * Get facilitator health status
  * @returns Health status of the facilitator
@@ -4,6 +4,15 @@ import { config } from "../config/env.js";
 import { getCurrentNetworkConfig } from "../config/networkConfig.js";
 import { logger } from "../utils/logger.js";
 import { getMeter, MeterConfig } from "./metering.js";
+import {
+  claimProofNonceForSettlement,
+  completeProofNonceSettlement,
+  isProofNonceSettled,
+  isProofNonceUsed,
+  proofNonceExpiry,
+  proofNonceKey,
+  releaseProofNonceSettlement,
+} from "./nonceStore.js";
 
 // Type alias for Fetch API Response to avoid conflict with Express Response
 type FetchResponse = {
@@ -59,6 +68,26 @@ interface SettleRequest {
   paymentRequirements: any;
 }
 
+// EIP-3009 proof of a payment payload: the authorization of a standard x402 "exact" payload
+// ({ payload: { signature, authorization } }), or a bare authorization
+function proofFromPayload(paymentPayload: any): PaymentProof | any {
+  if (paymentPayload?.payload?.authorization) {
+    return { ...paymentPayload.payload.authorization, signature: paymentPayload.payload.signature };
+  }
+  return paymentPayload?.authorization || paymentPayload;
+}
+
+// Meter of a payment: extra.meterId of requirements built by x402Protect, else the resource
+function meterIdOf(paymentRequirements: any): string {
+  return paymentRequirements?.extra?.meterId || paymentRequirements?.resource || "payroll_execute";
+}
+
+// Rejection of a proof whose nonce was already used
+const PROOF_REPLAYED = {
+  error: "PROOF_REPLAYED",
+  message: "Payment proof was already used; sign a new authorization with a fresh nonce",
+};
+
 /**
  * Create facilitator router (for mounting in main server)
  */
@@ -86,7 +115,7 @@ export function createFacilitatorRouter(): Router {
       });
 
       // Get meter configuration
-      const meter = getMeter(meterId);
+      const meter = await getMeter(meterId);
       if (!meter) {
         return res.status(400).json({
           valid: false,
@@ -126,13 +155,19 @@ export function createFacilitatorRouter(): Router {
       }
 
       // Validate payment proof on-chain
-      const validationResult = await validatePaymentOnChain(
+      let validationResult = await validatePaymentOnChain(
         paymentProof,
         expectedPrice,
         expectedAsset,
         expectedChain
       );
 
+      // Read-only: the resource server claims the proof when it grants access, /settle when
+      // it settles, so validating a proof never uses it up
+      if (validationResult.valid && (await isProofNonceUsed(proofNonceKey(paymentProof, expectedAsset)!))) {
+        validationResult = { valid: false, ...PROOF_REPLAYED };
+      }
+
       if (validationResult.valid) {
         logger.info(`Payment validated successfully`, {
           payer: validationResult.payer,
@@ -165,10 +200,10 @@ export function createFacilitatorRouter(): Router {
       logger.info("Verifying payment via facilitator");
 
       // Extract payment information
-      const proof = paymentPayload?.authorization || paymentPayload;
-      const meterId = paymentRequirements?.resource || "payroll_execute";
+      const proof = proofFromPayload(paymentPayload);
+      const meterId = meterIdOf(paymentRequirements);
 
-      const meter = getMeter(meterId);
+      const meter = await getMeter(meterId);
       if (!meter) {
         return res.status(400).json({
           valid: false,
@@ -181,18 +216,33 @@ export function createFacilitatorRouter(): Router {
         proof,
         meter.price,
         meter.asset,
-        meter.chain
+        meter.chain,
+        paymentRequirements?.payTo
       );
 
+      // A proof that was already settled cannot be settled again
+      if (validationResult.valid && (await isProofNonceSettled(proofNonceKey(proof, meter.asset)!))) {
+        return res.status(402).json({
+          valid: false,
+          isValid: false,
+          invalidReason: PROOF_REPLAYED.error,
+          ...PROOF_REPLAYED,
+        });
+      }
+
+      // valid/error for SnowRail clients, isValid/invalidReason for x402 clients
       if (validationResult.valid) {
         res.json({
           valid: true,
+          isValid: true,
           payer: validationResult.payer,
           amount: validationResult.amount,
         });
       } else {
         res.status(402).json({
           valid: false,
+          isValid: false,
+          invalidReason: validationResult.error,
           error: validationResult.error,
           message: validationResult.message,
         });
@@ -216,10 +266,10 @@ export function createFacilitatorRouter(): Router {
       logger.info("Settling payment via facilitator");
 
       // Extract payment information
-      const proof = paymentPayload?.authorization || paymentPayload;
-      const meterId = paymentRequirements?.resource || "payroll_execute";
+      const proof = proofFromPayload(paymentPayload);
+      const meterId = meterIdOf(paymentRequirements);
 
-      const meter = getMeter(meterId);
+      const meter = await getMeter(meterId);
       if (!meter) {
         return res.status(400).json({
           success: false,
@@ -232,25 +282,39 @@ export function createFacilitatorRouter(): Router {
         proof,
         meter.price,
         meter.asset,
-        meter.chain
+        meter.chain,
+        paymentRequirements?.payTo
       );
 
       if (!validationResult.valid) {
         return res.status(402).json({
           success: false,
+          errorReason: validationResult.error,
           error: validationResult.error,
           message: validationResult.message,
         });
       }
 
-      // Execute settlement on-chain
+      // A proof is settled once
+      const nonceKey = proofNonceKey(proof, meter.asset)!;
+      if (!(await claimProofNonceForSettlement(nonceKey, meterId, proofNonceExpiry(proof.validBefore)))) {
+        return res.status(402).json({
+          success: false,
+          errorReason: PROOF_REPLAYED.error,
+          ...PROOF_REPLAYED,
+        });
+      }
+
+      // Execute settlement on-chain, on the token contract of the requirements when given
       const settlementResult = await settlePaymentOnChain(
         proof,
-        meter.asset,
+        paymentRequirements?.asset || meter.asset,
         meter.chain
       );
 
       if (settlementResult.success && settlementResult.transactionHash) {
+        await completeProofNonceSettlement(nonceKey, settlementResult.transactionHash);
+
         // Extract paymentIntentId from paymentRequirements if present
         const paymentIntentId = (paymentRequirements as any)?.extra?.metadata?.paymentIntentId;
         
@@ -293,15 +357,20 @@ export function createFacilitatorRouter(): Router {
           }
         }
 
+        // transactionHash for SnowRail clients, transaction/network for x402 clients
         res.json({
           success: true,
           transactionHash: settlementResult.transactionHash,
+          transaction: settlementResult.transactionHash,
+          network: paymentRequirements?.network ?? meter.chain,
           payer: validationResult.payer,
           amount: validationResult.amount,
         });
       } else {
+        await releaseProofNonceSettlement(nonceKey);
         res.status(500).json({
           success: false,
+          errorReason: settlementResult.error,
           error: settlementResult.error,
           message: settlementResult.message,
         });
@@ -327,258 +396,8 @@ export function createFacilitatorServer(): Express {
   const app = express();
   app.use(express.json());
   
-  // Mount the router
+  // Same handlers as the router mounted in the main server
   app.use("/", createFacilitatorRouter());
-  
-  return app;
-
-  // Health check endpoint
-  app.get("/health", (req: Request, res: Response) => {
-    res.json({
-      status: "healthy",
-      network: config.network,
-      timestamp: new Date().toISOString(),
-    });
-  });
-
-  // Validate payment proof endpoint
-  app.post("/validate", async (req: Request, res: Response) => {
-    try {
-      const body: ValidationRequest = req.body;
-      const { proof, meterId, price, asset, chain } = body;
-
-      logger.info(`Validating payment proof for meter: ${meterId}`);
-
-      // Get meter configuration
-      const meter = getMeter(meterId);
-      if (!meter) {
-        return res.status(400).json({
-          valid: false,
-          error: "METER_NOT_FOUND",
-          message: `Meter ${meterId} not found`,
-        });
-      }
-
-      // Use provided values or meter defaults
-      const expectedPrice = price || meter.price;
-      const expectedAsset = asset || meter.asset;
-      const expectedChain = chain || meter.chain;
-
-      // Parse proof (can be string or object)
-      let paymentProof: PaymentProof;
-      if (typeof proof === "string") {
-        // Check for demo token first before trying to parse JSON
-          if (proof === "demo-token") {
-            return res.json({
-              valid: true,
-              payer: "0xDemoPayerAddress",
-              amount: expectedPrice,
-            });
-          }
-        
-        try {
-          paymentProof = JSON.parse(proof);
-        } catch {
-          return res.status(400).json({
-            valid: false,
-            error: "INVALID_PROOF_FORMAT",
-            message: "Proof must be valid JSON or payment proof object",
-          });
-        }
-      } else {
-        paymentProof = proof;
-      }
-
-      // Validate payment proof on-chain
-      const validationResult = await validatePaymentOnChain(
-        paymentProof,
-        expectedPrice,
-        expectedAsset,
-        expectedChain
-      );
-
-      if (validationResult.valid) {
-        logger.info(`Payment validated successfully`, {
-          payer: validationResult.payer,
-          amount: validationResult.amount,
-        });
-      } else {
-        logger.warn(`Payment validation failed`, {
-          error: validationResult.error,
-          message: validationResult.message,
-        });
-      }
-
-      res.json(validationResult);
-    } catch (error) {
-      logger.error("Error validating payment", error);
-      res.status(500).json({
-        valid: false,
-        error: "VALIDATION_ERROR",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  // Verify payment endpoint (for MerchantExecutor compatibility)
-  app.post("/verify", async (req: Request, res: Response) => {
-    try {
-      const body: VerifyRequest = req.body;
-      const { paymentPayload, paymentRequirements } = body;
-
-      logger.info("Verifying payment via facilitator");
-
-      // Extract payment information
-      const proof = paymentPayload?.authorization || paymentPayload;
-      const meterId = paymentRequirements?.resource || "payroll_execute";
-
-      const meter = getMeter(meterId);
-      if (!meter) {
-        return res.status(400).json({
-          valid: false,
-          error: "METER_NOT_FOUND",
-        });
-      }
-
-      // Validate the payment
-      const validationResult = await validatePaymentOnChain(
-        proof,
-        meter.price,
-        meter.asset,
-        meter.chain
-      );
-
-      if (validationResult.valid) {
-        res.json({
-          valid: true,
-          payer: validationResult.payer,
-          amount: validationResult.amount,
-        });
-      } else {
-        res.status(402).json({
-          valid: false,
-          error: validationResult.error,
-          message: validationResult.message,
-        });
-      }
-    } catch (error) {
-      logger.error("Error verifying payment", error);
-      res.status(500).json({
-        valid: false,
-        error: "VERIFICATION_ERROR",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
-
-  // Settle payment endpoint (execute on-chain)
-  app.post("/settle", async (req: Request, res: Response) => {
-    try {
-      const body: SettleRequest = req.body;
-      const { paymentPayload, paymentRequirements } = body;
-
-      logger.info("Settling payment via facilitator");
-
-      // Extract payment information
-      const proof = paymentPayload?.authorization || paymentPayload;
-      const meterId = paymentRequirements?.resource || "payroll_execute";
-
-      const meter = getMeter(meterId);
-      if (!meter) {
-        return res.status(400).json({
-          success: false,
-          error: "METER_NOT_FOUND",
-        });
-      }
-
-      // First verify the payment
-      const validationResult = await validatePaymentOnChain(
-        proof,
-        meter.price,
-        meter.asset,
-        meter.chain
-      );
-
-      if (!validationResult.valid) {
-        return res.status(402).json({
-          success: false,
-          error: validationResult.error,
-          message: validationResult.message,
-        });
-      }
-
-      // Execute settlement on-chain
-      const settlementResult = await settlePaymentOnChain(
-        proof,
-        meter.asset,
-        meter.chain
-      );
-
-      if (settlementResult.success && settlementResult.transactionHash) {
-        // Extract paymentIntentId from paymentRequirements if present
-        const paymentIntentId = (paymentRequirements as any)?.extra?.metadata?.paymentIntentId;
-        
-        // If this is a merchant payment (has paymentIntentId), call internal callback
-        if (paymentIntentId) {
-          try {
-            const callbackUrl = `${config.x402FacilitatorUrl.replace("/facilitator", "")}/internal/x402/callback`;
-            const callbackSecret = process.env.X402_CALLBACK_SECRET;
-            
-            // Extract token from requirements or use default
-            const token = (paymentRequirements as any)?.extra?.name || "xUSDC";
-            // Convert atomic amount back to token units (6 decimals for USDC)
-            const amount = Number(validationResult.amount || "0") / 1_000_000;
-            
-            const callbackResponse = (await fetch(callbackUrl, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                ...(callbackSecret ? { "X-Callback-Secret": callbackSecret } : {}),
-              },
-              body: JSON.stringify({
-                paymentIntentId,
-                token,
-                amount,
-                txHash: settlementResult.transactionHash,
-                timestamp: new Date().toISOString(),
-              }),
-            })) as unknown as FetchResponse;
-
-            if (callbackResponse.ok) {
-              logger.info(`Callback successful for payment intent: ${paymentIntentId}`);
-            } else {
-              logger.warn(`Callback failed for payment intent: ${paymentIntentId}`, {
-                status: callbackResponse.status,
-              });
-            }
-          } catch (callbackError) {
-            // Don't fail the settlement if callback fails
-            logger.error(`Error calling payment callback:`, callbackError);
-          }
-        }
-
-        res.json({
-          success: true,
-          transactionHash: settlementResult.transactionHash,
-          payer: validationResult.payer,
-          amount: validationResult.amount,
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: settlementResult.error,
-          message: settlementResult.message,
-        });
-      }
-    } catch (error) {
-      logger.error("Error settling payment", error);
-      res.status(500).json({
-        success: false,
-        error: "SETTLEMENT_ERROR",
-        message: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  });
 
   return app;
 }
@@ -590,7 +409,8 @@ async function validatePaymentOnChain(
   proof: PaymentProof | any,
   expectedPrice: string,
   expectedAsset: string,
-  expectedChain: string
+  expectedChain: string,
+  expectedPayTo?: string
 ): Promise<ValidationResponse> {
   try {
     const networkConfig = getCurrentNetworkConfig();
@@ -602,7 +422,7 @@ async function validatePaymentOnChain(
     const amount = proof.value || proof.amount;
     const signature = proof.signature;
 
-    if (!payer || !payee || !amount || !signature) {
+    if (!payer || !payee || !amount || !signature || !proof.nonce) {
       return {
         valid: false,
         error: "INCOMPLETE_PROOF",
@@ -610,6 +430,32 @@ async function validatePaymentOnChain(
       };
     }
 
+    // Authorization window (Unix seconds); expired proofs are rejected so their nonces can be forgotten
+    const now = Math.floor(Date.now() / 1000);
+    if (proof.validBefore && Number(proof.validBefore) <= now) {
+      return {
+        valid: false,
+        error: "PROOF_EXPIRED",
+        message: `Payment proof expired at ${proof.validBefore}`,
+      };
+    }
+    if (proof.validAfter && Number(proof.validAfter) > now) {
+      return {
+        valid: false,
+        error: "PROOF_NOT_YET_VALID",
+        message: `Payment proof is valid after ${proof.validAfter}`,
+      };
+    }
+
+    // Verify the authorization pays the expected wallet
+    if (expectedPayTo && String(payee).toLowerCase() !== expectedPayTo.toLowerCase()) {
+      return {
+        valid: false,
+        error: "RECIPIENT_MISMATCH",
+        message: `Payment is made to ${payee}, expected ${expectedPayTo}`,
+      };
+    }
+
     // Verify amount matches expected price
     const expectedAmount = ethers.parseUnits(expectedPrice, 6); // USDC has 6 decimals
     const proofAmount = BigInt(amount);
@@ -639,8 +485,7 @@ async function validatePaymentOnChain(
       };
     }
 
-    // Check nonce hasn't been used (basic check)
-    // In production, you'd check this against a database or on-chain state
+    // Nonce reuse is checked by the routes against the nonce store (nonceStore.ts)
 
     return {
       valid: true,
@@ -1,6 +1,11 @@
+import { prisma } from "../dbClient.js";
+
 /**
  * 8004 Protocol - Metering Configuration
  * Defines resources, prices, and usage metering for x402 payments
+ * Meters are stored in the database (Meter) with versioned prices (MeterPrice) and managed
+ * through the admin API; every lookup reads the price in effect at that moment, so a
+ * scheduled price change applies without a restart.
  */
 
 export type MeterConfig = {
@@ -10,59 +15,62 @@ export type MeterConfig = {
   resource: string;     // Logical resource name
   description?: string; // Human-readable description
   version: string;      // Protocol version
+  priceVersion: number; // Version of the price in effect (MeterPrice.version)
 };
 
-// Defined meters for SnowRail resources
-// NOTE: All configured for Fuji testnet
-export const meters: Record<string, MeterConfig> = {
-  payroll_execute: {
-    price: "1",
-    asset: "USDC",
-    chain: "fuji", // Fuji testnet
-    resource: "payroll_execution",
-    description: "Execute international payroll for up to 10 freelancers",
-    version: "8004-alpha",
-  },
-  payment_single: {
-    price: "0.1",
-    asset: "USDC",
-    chain: "fuji", // Fuji testnet
-    resource: "single_payment",
-    description: "Execute a single payment to one recipient",
-    version: "8004-alpha",
-  },
-  swap_execute: {
-    price: "0.5",
-    asset: "USDC",
-    chain: "fuji", // Fuji testnet
-    resource: "token_swap",
-    description: "Execute a token swap through DEX",
-    version: "8004-alpha",
-  },
-  contract_test: {
-    price: "0.1",
-    asset: "USDC",
-    chain: "fuji", // Fuji testnet
-    resource: "contract_test",
-    description: "Test Treasury contract operations (requestPayment, getTokenBalance, authorizeSwap, etc.)",
-    version: "8004-alpha",
-  },
-  payment_process: {
-    price: "0.1",
-    asset: "USDC",
-    chain: "fuji", // Fuji testnet
-    resource: "payment_processing",
-    description: "Complete payment flow: Rail + Blockchain + Facilitator integration",
-    version: "8004-alpha",
-  },
+type MeterRecord = NonNullable<Awaited<ReturnType<typeof prisma.meter.findUnique>>>;
+
+type MeterPriceRecord = {
+  version: number;
+  price: string;
 };
 
-// Get meter by ID
-export function getMeter(meterId: string): MeterConfig | undefined {
-  return meters[meterId];
+// Price in effect now: the latest price whose effectiveFrom has passed
+function currentPriceQuery() {
+  return {
+    where: { effectiveFrom: { lte: new Date() } },
+    orderBy: [{ effectiveFrom: "desc" as const }, { version: "desc" as const }],
+    take: 1,
+  };
+}
+
+function toMeterConfig(meter: MeterRecord, price: MeterPriceRecord | undefined): MeterConfig | undefined {
+  if (!price) {
+    return undefined; // Every price of the meter is still scheduled
+  }
+  return {
+    price: price.price,
+    asset: meter.asset,
+    chain: meter.chain,
+    resource: meter.resource,
+    description: meter.description ?? undefined,
+    version: meter.version,
+    priceVersion: price.version,
+  };
+}
+
+// Get meter by ID, with its current price
+export async function getMeter(meterId: string): Promise<MeterConfig | undefined> {
+  const meter = await prisma.meter.findUnique({
+    where: { id: meterId },
+    include: { prices: currentPriceQuery() },
+  });
+  return meter ? toMeterConfig(meter, meter.prices[0]) : undefined;
+}
+
+// All meters in effect, with their current price
+export async function listMeters(): Promise<Array<MeterConfig & { id: string }>> {
+  const meters = await prisma.meter.findMany({
+    orderBy: { createdAt: "asc" },
+    include: { prices: currentPriceQuery() },
+  });
+  return meters.flatMap((meter) => {
+    const config = toMeterConfig(meter, meter.prices[0]);
+    return config ? [{ id: meter.id, ...config }] : [];
+  });
 }
 
 // Validate meter exists
-export function meterExists(meterId: string): boolean {
-  return meterId in meters;
+export async function meterExists(meterId: string): Promise<boolean> {
+  return (await getMeter(meterId)) !== undefined;
 }
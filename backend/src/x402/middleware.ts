@@ -1,33 +1,106 @@
 import type { Request, Response, NextFunction } from "express";
+import { ethers } from "ethers";
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
 import { getMeter, type MeterConfig } from "./metering.js";
-import { validateXPaymentHeader } from "./validator.js";
+import { checkXPaymentHeader } from "./validator.js";
+import { settleWithFacilitator, verifyWithFacilitator } from "./facilitatorClient.js";
+import { debitCredit } from "./credits.js";
+import { claimProofNonce, proofNonceExpiry, proofNonceKey, releaseProofNonce } from "./nonceStore.js";
+import {
+  ASSET_DECIMALS,
+  buildPaymentRequirements,
+  decodePaymentHeader,
+  encodePaymentResponseHeader,
+  X402_VERSION,
+  type PaymentSettlement,
+} from "./paymentRequirements.js";
+import { logger } from "../utils/logger.js";
 
 // Extended request type with x402 metadata
 export interface X402Request extends Request {
   x402?: {
     meterId: string;
     meter: MeterConfig;
-    paymentHeader: string;
+    paymentHeader: string;           // Empty when the call was paid with credit
+    settlement?: PaymentSettlement;  // Standard x402 payments, with settleBeforeRoute only
+    amount?: string;                 // Amount authorized, in asset units (standard x402 payments)
+    creditSessionId?: string;        // Credit session debited (X-PAYMENT-SESSION)
   };
 }
 
+export type X402ProtectOptions = {
+  // Price of the request in asset units instead of the meter price, which is then the minimum
+  // (e.g. a credit top-up); undefined keeps the meter price
+  price?: (req: Request) => string | undefined;
+  // Accept prepaid credit (X-PAYMENT-SESSION) instead of a payment; default true
+  credits?: boolean;
+  // Settle standard payments before the route runs, for routes that need the settlement
+  // (req.x402.settlement); by default they are settled once the route succeeds
+  settleBeforeRoute?: boolean;
+};
+
+type PaymentAuthorization = { from?: string; nonce?: string; value?: unknown; validBefore?: unknown };
+
+function authorizationOf(paymentPayload: PaymentPayload): PaymentAuthorization {
+  return (paymentPayload.payload as { authorization?: PaymentAuthorization }).authorization ?? {};
+}
+
+// Authorized value of a standard payment payload, in atomic units
+function authorizedValue(paymentPayload: PaymentPayload): bigint | null {
+  const value = authorizationOf(paymentPayload).value;
+  try {
+    return typeof value === "string" || typeof value === "number" ? BigInt(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Absolute URL of the requested resource (resource of the payment requirements)
+function resourceUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+}
+
 /**
  * x402Protect
- * Minimal HTTP 402 + X-PAYMENT middleware for resource-level metering.
+ * HTTP 402 + X-PAYMENT middleware for resource-level metering, following the x402 spec.
  *
  * Flow:
- * - If no X-PAYMENT header → 402 with 8004 metering info
- * - If invalid header      → 402 with error + metering
+ * - If no X-PAYMENT header → 402 with { x402Version, error, accepts: [PaymentRequirements] }
+ *                            (plus the 8004 metering info)
+ * - Standard X-PAYMENT     → base64 payment payload, verified through the facilitator and
+ *                            claimed in the nonce store before the route runs (a concurrent
+ *                            replay gets PROOF_REPLAYED), then settled once the route responds
+ *                            with a status below 400 (routes respond with res.json); the
+ *                            settlement is returned in X-PAYMENT-RESPONSE. A route that fails is
+ *                            not charged and its payload can be sent again; a failed settlement
+ *                            replaces the response with a 402 and keeps the payload used
+ * - settleBeforeRoute      → standard payments are settled before the route runs instead
+ * - Legacy X-PAYMENT       → JSON EIP-3009 proof or demo-token, validated by the facilitator
+ * - X-PAYMENT-SESSION      → prepaid credit session token; the meter price is debited from
+ *                            its balance (402 CREDIT_EXHAUSTED etc. when it cannot be)
+ * - If invalid header      → 402 with error + requirements
+ *                            (PROOF_REPLAYED when the proof was already used)
  * - If valid               → attaches x402 data to request and calls next()
  */
-export function x402Protect(meterId: string) {
+export function x402Protect(meterId: string, options: X402ProtectOptions = {}) {
   return async (
     req: X402Request,
     res: Response,
     next: NextFunction,
   ): Promise<void> => {
     const paymentHeader = req.get("X-PAYMENT") || req.headers["x-payment"] as string | undefined;
-    const meter = getMeter(meterId);
+    const sessionToken = options.credits === false ? undefined : req.get("X-PAYMENT-SESSION");
+    let meter: MeterConfig | undefined;
+    try {
+      meter = await getMeter(meterId);
+    } catch (error) {
+      logger.error(`Cannot read meter: ${meterId}`, error);
+      res.status(503).json({
+        error: "METERING_UNAVAILABLE",
+        meterId,
+      });
+      return;
+    }
 
     if (!meter) {
       res.status(500).json({
@@ -37,24 +110,204 @@ export function x402Protect(meterId: string) {
       return;
     }
 
-    // No payment → 402 + metering info (8004)
-    if (!paymentHeader) {
-      res.status(402).json({
-        error: "PAYMENT_REQUIRED",
+    const price = options.price?.(req);
+    if (price !== undefined) {
+      if (!/^\d+(\.\d{1,6})?$/.test(price) || ethers.parseUnits(price, ASSET_DECIMALS) < ethers.parseUnits(meter.price, ASSET_DECIMALS)) {
+        res.status(400).json({
+          error: "INVALID_PAYMENT_AMOUNT",
+          message: `Amount must be a number of ${meter.asset} with up to ${ASSET_DECIMALS} decimals, at least ${meter.price}`,
+          meterId,
+        });
+        return;
+      }
+    }
+
+    let requirements: PaymentRequirements;
+    try {
+      requirements = buildPaymentRequirements(meterId, price ? { ...meter, price } : meter, resourceUrl(req));
+    } catch (error) {
+      logger.error(`Cannot build payment requirements for meter: ${meterId}`, error);
+      res.status(500).json({
+        error: "METER_NOT_CONFIGURED",
         meterId,
-        metering: meter,
+        message: error instanceof Error ? error.message : "Unknown error",
       });
       return;
     }
 
-    // Validate X-PAYMENT
-    const valid = await validateXPaymentHeader(paymentHeader, meterId);
-    if (!valid) {
+    const paymentRequired = (error: string, message?: string, creditBalance?: string) => {
       res.status(402).json({
-        error: "PAYMENT_INVALID",
+        x402Version: X402_VERSION,
+        error,
+        ...(message ? { message } : {}),
+        ...(creditBalance !== undefined ? { creditBalance } : {}),
+        accepts: [requirements],
         meterId,
         metering: meter,
       });
+    };
+
+    // Prepaid credit: debit the meter price from the session's balance
+    if (!paymentHeader && sessionToken) {
+      let debit;
+      try {
+        debit = await debitCredit(sessionToken, meterId, meter, `${req.method} ${req.path}`);
+      } catch (error) {
+        logger.error(`Cannot debit credit for meter: ${meterId}`, error);
+        res.status(503).json({
+          error: "METERING_UNAVAILABLE",
+          meterId,
+        });
+        return;
+      }
+      if (!debit.ok) {
+        paymentRequired(debit.error, debit.message, debit.balance);
+        return;
+      }
+
+      res.setHeader("X-PAYMENT-SESSION-BALANCE", debit.balance);
+      req.x402 = { meterId, meter, paymentHeader: "", creditSessionId: debit.sessionId };
+      next();
+      return;
+    }
+
+    // No payment → 402 + payment requirements
+    if (!paymentHeader) {
+      paymentRequired("PAYMENT_REQUIRED");
+      return;
+    }
+
+    // Standard x402 payment: verify before the route runs, settle once it succeeds
+    const paymentPayload = decodePaymentHeader(paymentHeader);
+    if (paymentPayload) {
+      if (paymentPayload.scheme !== requirements.scheme || paymentPayload.network !== requirements.network) {
+        paymentRequired(
+          "PAYMENT_INVALID",
+          `Expected a ${requirements.scheme} payment on ${requirements.network}`,
+        );
+        return;
+      }
+
+      // The facilitator checks the meter price; the requirements may ask for more
+      const value = authorizedValue(paymentPayload);
+      if (value === null || value < BigInt(requirements.maxAmountRequired)) {
+        paymentRequired(
+          "PAYMENT_INVALID",
+          `Payment must authorize at least ${requirements.maxAmountRequired} (atomic units)`,
+        );
+        return;
+      }
+
+      const verification = await verifyWithFacilitator(paymentPayload, requirements);
+      if (!verification.isValid) {
+        paymentRequired(
+          verification.invalidReason === "PROOF_REPLAYED" ? "PROOF_REPLAYED" : "PAYMENT_INVALID",
+          verification.invalidReason,
+        );
+        return;
+      }
+
+      // The route runs once per payload: claim its nonce first
+      const authorization = authorizationOf(paymentPayload);
+      const nonceKey = proofNonceKey(authorization, meter.asset);
+      if (!nonceKey) {
+        paymentRequired("PAYMENT_INVALID", "Payment authorization has no payer or nonce");
+        return;
+      }
+      let claimed: boolean;
+      try {
+        claimed = await claimProofNonce(nonceKey, meterId, proofNonceExpiry(authorization.validBefore));
+      } catch (error) {
+        logger.error(`Cannot claim payment proof for meter: ${meterId}`, error);
+        res.status(503).json({
+          error: "METERING_UNAVAILABLE",
+          meterId,
+        });
+        return;
+      }
+      if (!claimed) {
+        paymentRequired("PROOF_REPLAYED", "Payment proof was already used; sign a new authorization with a fresh nonce");
+        return;
+      }
+      // Free the payload for another request when this one had no effect
+      const release = () => {
+        releaseProofNonce(nonceKey).catch((error) =>
+          logger.warn(`Cannot release payment proof for meter: ${meterId}`, error),
+        );
+      };
+
+      // Settle the payment; on failure, answer 402 and return null
+      const settle = async (): Promise<PaymentSettlement | null> => {
+        const result = await settleWithFacilitator(paymentPayload, requirements);
+        if (!result.success || !result.transaction) {
+          paymentRequired(
+            result.errorReason === "PROOF_REPLAYED" ? "PROOF_REPLAYED" : "PAYMENT_SETTLEMENT_FAILED",
+            result.errorReason,
+          );
+          return null;
+        }
+        const settlement: PaymentSettlement = {
+          success: true,
+          transaction: result.transaction,
+          network: result.network ?? requirements.network,
+          payer: result.payer ?? verification.payer,
+        };
+        res.setHeader("X-PAYMENT-RESPONSE", encodePaymentResponseHeader(settlement));
+        return settlement;
+      };
+
+      req.x402 = {
+        meterId,
+        meter,
+        paymentHeader,
+        amount: ethers.formatUnits(value, ASSET_DECIMALS),
+      };
+
+      if (options.settleBeforeRoute) {
+        const settlement = await settle();
+        if (!settlement) {
+          release();
+          return;
+        }
+        req.x402.settlement = settlement;
+        next();
+        return;
+      }
+
+      // Hold the route's response until the payment is settled; error responses are sent as
+      // they are, the payment is never settled and the payload is released. Once the route
+      // succeeded the payload stays used, even when its settlement fails
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        res.json = json;
+        if (res.statusCode >= 400) {
+          release();
+          return json(body);
+        }
+        settle()
+          .then((settlement) => {
+            if (settlement) {
+              json(body);
+            }
+          })
+          .catch((error) => {
+            logger.error(`Cannot settle payment for meter: ${meterId}`, error);
+            paymentRequired("PAYMENT_SETTLEMENT_FAILED");
+          });
+        return res;
+      };
+      next();
+      return;
+    }
+
+    // Validate legacy X-PAYMENT
+    const result = await checkXPaymentHeader(paymentHeader, meterId);
+    if (!result.valid && result.error === "PROOF_REPLAYED") {
+      paymentRequired("PROOF_REPLAYED", result.message);
+      return;
+    }
+    if (!result.valid) {
+      paymentRequired("PAYMENT_INVALID");
       return;
     }
 
@@ -62,5 +315,3 @@ export function x402Protect(meterId: string) {
     next();
   };
 }
-
-
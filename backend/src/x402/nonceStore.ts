@@ -0,0 +1,200 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../dbClient.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * x402 Proof Nonce Store
+ * Remembers the EIP-3009 nonces of the payment proofs the facilitator accepted, keyed by
+ * payer, token and nonce, so a proof (X-PAYMENT header) cannot be replayed. A proof grants
+ * access once (claimed by x402Protect before the route runs) and is settled once
+ * (/settle); the facilitator's /validate only reads the store, so calling it never uses up a
+ * proof. Records expire at the proof's validBefore: the facilitator rejects expired proofs,
+ * so they cannot be replayed after.
+ */
+
+export const ProofNonceSettlement = {
+  SETTLING: "SETTLING", // transferWithAuthorization submitted
+  SETTLED: "SETTLED",
+} as const;
+
+export type ProofNonceKey = {
+  payer: string;
+  token: string;
+  nonce: string;
+};
+
+// Expired records are removed at most this often, while claiming a nonce
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Largest Unix time (seconds) a Date can hold; later validBefore values never expire
+const MAX_EXPIRY_SECONDS = 8.64e12;
+
+let lastPurgeAt = 0;
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+function whereKey(key: ProofNonceKey) {
+  return { payer_token_nonce: key };
+}
+
+/**
+ * Key of a payment proof, or null when it has no payer or nonce
+ * @param proof - EIP-3009 authorization (from, nonce)
+ * @param token - Asset the proof pays in
+ */
+export function proofNonceKey(
+  proof: { from?: string; spender?: string; payer?: string; nonce?: string },
+  token: string,
+): ProofNonceKey | null {
+  const payer = proof.from || proof.spender || proof.payer;
+  if (!payer || !proof.nonce) {
+    return null;
+  }
+  return {
+    payer: String(payer).toLowerCase(),
+    token: token.toLowerCase(),
+    nonce: String(proof.nonce).toLowerCase(),
+  };
+}
+
+/**
+ * Expiry of a nonce record from the proof's validBefore (Unix seconds)
+ */
+export function proofNonceExpiry(validBefore: unknown): Date | null {
+  const seconds = Number(validBefore);
+  if (!Number.isFinite(seconds) || seconds <= 0 || seconds > MAX_EXPIRY_SECONDS) {
+    return null;
+  }
+  return new Date(seconds * 1000);
+}
+
+function isExpired(record: { expiresAt: Date | null }): boolean {
+  return record.expiresAt !== null && record.expiresAt <= new Date();
+}
+
+/**
+ * Remove the records of expired proofs
+ * @returns Number of records removed
+ */
+export async function purgeExpiredProofNonces(): Promise<number> {
+  const { count } = await prisma.paymentProofNonce.deleteMany({
+    where: { expiresAt: { lte: new Date() } },
+  });
+  if (count > 0) {
+    logger.info(`Purged ${count} expired payment proof nonce(s)`);
+  }
+  return count;
+}
+
+function purgeExpiredInBackground() {
+  if (Date.now() - lastPurgeAt < PURGE_INTERVAL_MS) {
+    return;
+  }
+  lastPurgeAt = Date.now();
+  purgeExpiredProofNonces().catch((error) => logger.warn("Failed to purge expired payment proof nonces", error));
+}
+
+/**
+ * Record a proof as used to access a resource (legacy X-PAYMENT proofs)
+ * @returns false when the proof was already used (replay)
+ */
+export async function claimProofNonce(key: ProofNonceKey, meterId: string, expiresAt: Date | null): Promise<boolean> {
+  purgeExpiredInBackground();
+
+  // Two attempts: the second one runs after an expired record was removed
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await prisma.paymentProofNonce.create({
+        data: { ...key, meterId, expiresAt },
+      });
+      return true;
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.paymentProofNonce.findUnique({ where: whereKey(key) });
+    if (existing && !isExpired(existing)) {
+      return false;
+    }
+    if (existing) {
+      await prisma.paymentProofNonce.deleteMany({ where: { id: existing.id, expiresAt: { lte: new Date() } } });
+    }
+  }
+  return false;
+}
+
+/**
+ * Release a proof claimed for access whose request had no effect (the route failed, or the
+ * payment could not be settled before it ran), so the payer can send it again; a proof that is
+ * being settled or was settled stays recorded
+ */
+export async function releaseProofNonce(key: ProofNonceKey): Promise<void> {
+  await prisma.paymentProofNonce.deleteMany({ where: { ...key, settlement: null } });
+}
+
+/**
+ * Whether a proof was already used to access a resource or settled
+ */
+export async function isProofNonceUsed(key: ProofNonceKey): Promise<boolean> {
+  const existing = await prisma.paymentProofNonce.findUnique({ where: whereKey(key) });
+  return existing !== null && !isExpired(existing);
+}
+
+/**
+ * Whether a proof was already settled, or its settlement is in progress
+ */
+export async function isProofNonceSettled(key: ProofNonceKey): Promise<boolean> {
+  const existing = await prisma.paymentProofNonce.findUnique({ where: whereKey(key) });
+  return existing !== null && existing.settlement !== null && !isExpired(existing);
+}
+
+/**
+ * Reserve a proof for settlement (/settle); a proof already used for access can be settled once
+ * @returns false when the proof was already settled or is being settled (replay)
+ */
+export async function claimProofNonceForSettlement(
+  key: ProofNonceKey,
+  meterId: string,
+  expiresAt: Date | null,
+): Promise<boolean> {
+  try {
+    await prisma.paymentProofNonce.create({
+      data: { ...key, meterId, expiresAt, settlement: ProofNonceSettlement.SETTLING },
+    });
+    return true;
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+
+  const { count } = await prisma.paymentProofNonce.updateMany({
+    where: { ...key, settlement: null },
+    data: { settlement: ProofNonceSettlement.SETTLING },
+  });
+  return count > 0;
+}
+
+/**
+ * Record the settlement transaction of a reserved proof
+ */
+export async function completeProofNonceSettlement(key: ProofNonceKey, txHash: string): Promise<void> {
+  await prisma.paymentProofNonce.update({
+    where: whereKey(key),
+    data: { settlement: ProofNonceSettlement.SETTLED, txHash },
+  });
+}
+
+/**
+ * Release a reserved proof whose settlement failed, so it can be settled again
+ */
+export async function releaseProofNonceSettlement(key: ProofNonceKey): Promise<void> {
+  await prisma.paymentProofNonce.updateMany({
+    where: { ...key, settlement: ProofNonceSettlement.SETTLING },
+    data: { settlement: null },
+  });
+}
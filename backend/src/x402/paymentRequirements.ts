@@ -0,0 +1,108 @@
+import type { Network, PaymentPayload, PaymentRequirements } from "x402/types";
+import { ethers } from "ethers";
+import { config } from "../config/env.js";
+import { networks } from "../config/networkConfig.js";
+import type { MeterConfig } from "./metering.js";
+
+/**
+ * x402 Payment Requirements
+ * Standard x402 (version 1) payment requirements built from the meters, and the base64
+ * X-PAYMENT / X-PAYMENT-RESPONSE headers, so any x402 client can pay the routes protected
+ * by x402Protect.
+ */
+
+export const X402_VERSION = 1;
+
+// Stablecoins priced by the meters have 6 decimals (USDC, USDT)
+export const ASSET_DECIMALS = 6;
+
+// Seconds the client has to get its payment settled
+const MAX_TIMEOUT_SECONDS = 600;
+
+// x402 network of a meter chain
+const X402_NETWORKS: Record<string, Network> = {
+  fuji: "avalanche-fuji",
+  "avalanche-fuji": "avalanche-fuji",
+  avalanche: "avalanche",
+  polygon: "polygon",
+};
+
+// EIP-712 domain of the stablecoin contracts, signed by EIP-3009 authorizations
+const ASSET_DOMAINS: Record<string, { name: string; version: string }> = {
+  usdc: { name: "USD Coin", version: "2" },
+};
+
+// Settlement reported in the X-PAYMENT-RESPONSE header
+export type PaymentSettlement = {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer?: string;
+};
+
+/**
+ * Payment requirements ("exact" scheme) of a metered resource
+ * @param meterId - Meter of the resource (extra.meterId, read by the facilitator)
+ * @param meter - Meter configuration (price, asset symbol, chain)
+ * @param resource - URL of the resource
+ * @throws Error when the meter's chain or asset is not supported, or no payTo address is set
+ */
+export function buildPaymentRequirements(
+  meterId: string,
+  meter: MeterConfig,
+  resource: string,
+): PaymentRequirements {
+  const network = X402_NETWORKS[meter.chain];
+  const chain = networks[meter.chain];
+  if (!network || !chain) {
+    throw new Error(`Meter ${meterId}: unsupported chain ${meter.chain}`);
+  }
+  const assetKey = meter.asset.toLowerCase();
+  const asset = chain.stablecoins[assetKey as keyof typeof chain.stablecoins];
+  if (!asset) {
+    throw new Error(`Meter ${meterId}: unsupported asset ${meter.asset} on ${meter.chain}`);
+  }
+  if (!config.x402PayToAddress) {
+    throw new Error("X402_PAY_TO_ADDRESS (or PAY_TO_ADDRESS) is not configured");
+  }
+
+  return {
+    scheme: "exact",
+    network,
+    maxAmountRequired: ethers.parseUnits(meter.price, ASSET_DECIMALS).toString(),
+    resource,
+    description: meter.description ?? meter.resource,
+    mimeType: "application/json",
+    payTo: config.x402PayToAddress,
+    maxTimeoutSeconds: MAX_TIMEOUT_SECONDS,
+    asset,
+    extra: { ...ASSET_DOMAINS[assetKey], meterId },
+  };
+}
+
+/**
+ * Decode a standard X-PAYMENT header (base64 JSON payment payload)
+ * @returns The payment payload, or null when the header is not one (demo-token, JSON proof)
+ */
+export function decodePaymentHeader(header: string): PaymentPayload | null {
+  const value = header.trim();
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(value, "base64").toString("utf8"));
+    if (!payload || typeof payload !== "object" || !payload.payload || !payload.scheme) {
+      return null;
+    }
+    return payload as PaymentPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode a settlement as an X-PAYMENT-RESPONSE header (base64 JSON)
+ */
+export function encodePaymentResponseHeader(settlement: PaymentSettlement): string {
+  return Buffer.from(JSON.stringify(settlement)).toString("base64");
+}
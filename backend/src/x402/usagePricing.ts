@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import { ASSET_DECIMALS } from "./paymentRequirements.js";
+
+/**
+ * x402 Usage Pricing
+ * Prices AI requests (POST /process) from the token usage reported by the OpenAI-compatible
+ * API, for the "upto" scheme: the client authorizes a maximum and is charged the actual cost,
+ * prompt tokens plus completion tokens times the model's rates, capped at that maximum.
+ */
+
+const TOKENS_PER_RATE = 1_000_000n;
+
+// Rates in asset units per million tokens
+export type TokenRates = {
+  prompt: string;
+  completion: string;
+};
+
+// OpenAI list prices (USD per 1M tokens); other models need AI_PROMPT_PRICE_PER_MTOK and
+// AI_COMPLETION_PRICE_PER_MTOK
+const MODEL_RATES: Record<string, TokenRates> = {
+  "gpt-4o-mini": { prompt: "0.15", completion: "0.6" },
+  "gpt-4o": { prompt: "2.5", completion: "10" },
+  "gpt-4.1": { prompt: "2", completion: "8" },
+  "gpt-4.1-mini": { prompt: "0.4", completion: "1.6" },
+  "gpt-4.1-nano": { prompt: "0.1", completion: "0.4" },
+};
+
+// Token usage of one completion, as reported by the API
+export type TokenUsage = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type UsageLineItem = {
+  item: "prompt_tokens" | "completion_tokens";
+  tokens: number;
+  ratePerMillionTokens: string;
+  amount: string;
+};
+
+// Itemized charge of a request, returned in the task metadata (x402.payment.usage)
+export type UsageCharge = TokenUsage & {
+  lineItems: UsageLineItem[];
+  cost: string;          // Sum of the line items
+  maxAmount: string;     // Maximum the client authorized
+  charged: string;       // Amount settled: the cost, capped at maxAmount
+  capped: boolean;       // The cost exceeded maxAmount
+  atomicAmount: string;  // charged, in atomic units
+};
+
+function isRate(value: string | undefined): value is string {
+  return value !== undefined && /^\d+(\.\d{1,6})?$/.test(value);
+}
+
+/**
+ * Rates of a model: the overrides when both are set, else the built-in rates of the model
+ * @returns The rates, or undefined when the model cannot be priced
+ * @throws Error when an override is not a number with up to 6 decimals
+ */
+export function resolveTokenRates(
+  model: string,
+  overrides: { prompt?: string; completion?: string } = {},
+): TokenRates | undefined {
+  for (const rate of [overrides.prompt, overrides.completion]) {
+    if (rate !== undefined && !isRate(rate)) {
+      throw new Error(`Invalid token rate "${rate}": expected a number with up to ${ASSET_DECIMALS} decimals`);
+    }
+  }
+  if (isRate(overrides.prompt) && isRate(overrides.completion)) {
+    return { prompt: overrides.prompt, completion: overrides.completion };
+  }
+  return MODEL_RATES[model];
+}
+
+// Amount for a number of tokens at a rate per million, rounded up to the next atomic unit
+function lineAmount(tokens: number, rate: string): bigint {
+  const product = BigInt(tokens) * ethers.parseUnits(rate, ASSET_DECIMALS);
+  return (product + TOKENS_PER_RATE - 1n) / TOKENS_PER_RATE;
+}
+
+/**
+ * Itemized charge of a request
+ * @param usage - Token usage of the completion
+ * @param rates - Rates of the model
+ * @param maxAtomic - Maximum the client authorized, in atomic units
+ */
+export function priceUsage(usage: TokenUsage, rates: TokenRates, maxAtomic: bigint): UsageCharge {
+  const prompt = lineAmount(usage.promptTokens, rates.prompt);
+  const completion = lineAmount(usage.completionTokens, rates.completion);
+  const cost = prompt + completion;
+  const charged = cost > maxAtomic ? maxAtomic : cost;
+
+  return {
+    ...usage,
+    lineItems: [
+      {
+        item: "prompt_tokens",
+        tokens: usage.promptTokens,
+        ratePerMillionTokens: rates.prompt,
+        amount: ethers.formatUnits(prompt, ASSET_DECIMALS),
+      },
+      {
+        item: "completion_tokens",
+        tokens: usage.completionTokens,
+        ratePerMillionTokens: rates.completion,
+        amount: ethers.formatUnits(completion, ASSET_DECIMALS),
+      },
+    ],
+    cost: ethers.formatUnits(cost, ASSET_DECIMALS),
+    maxAmount: ethers.formatUnits(maxAtomic, ASSET_DECIMALS),
+    charged: ethers.formatUnits(charged, ASSET_DECIMALS),
+    capped: cost > maxAtomic,
+    atomicAmount: charged.toString(),
+  };
+}
@@ -2,6 +2,7 @@ import { config } from "../config/env.js";
 import { logger } from "../utils/logger.js";
 import { getMeter } from "./metering.js";
 import { validateWithFacilitator } from "./facilitatorClient.js";
+import { claimProofNonce, proofNonceExpiry, proofNonceKey } from "./nonceStore.js";
 
 /**
  * x402 Payment Validation
@@ -12,6 +13,7 @@ import { validateWithFacilitator } from "./facilitatorClient.js";
 export type ValidationResult = {
   valid: boolean;
   error?: string;
+  message?: string;
   payer?: string;
   amount?: string;
   facilitatorResponse?: any;
@@ -27,6 +29,36 @@ export async function validateXPaymentHeader(
   headerValue: string,
   meterId: string,
 ): Promise<boolean> {
+  return (await checkXPaymentHeader(headerValue, meterId)).valid;
+}
+
+// Record a validated JSON proof as used; false when it was already used
+async function claimLegacyProof(headerValue: string, meterId: string, asset: string): Promise<boolean> {
+  let proof: { from?: string; nonce?: string; validBefore?: unknown } | null;
+  try {
+    proof = JSON.parse(headerValue);
+  } catch {
+    proof = null;
+  }
+  // Not a JSON proof (e.g. demo-token): nothing to claim
+  if (!proof || typeof proof !== "object") {
+    return true;
+  }
+  const key = proofNonceKey(proof, asset);
+  return key ? claimProofNonce(key, meterId, proofNonceExpiry(proof.validBefore)) : true;
+}
+
+/**
+ * Validate X-PAYMENT header value, with the facilitator's error when it is rejected
+ * (e.g. PROOF_REPLAYED for a proof that was already used)
+ * @param headerValue - The X-PAYMENT header value (payment proof)
+ * @param meterId - The meter ID for the resource being accessed
+ * @returns Promise<ValidationResult> - Validation result
+ */
+export async function checkXPaymentHeader(
+  headerValue: string,
+  meterId: string,
+): Promise<ValidationResult> {
   logger.debug(`Validating X-PAYMENT for meter: ${meterId}`);
 
   // Accept demo-token in development mode, when using mock facilitator, or if explicitly allowed
@@ -36,27 +68,35 @@ export async function validateXPaymentHeader(
   
   if (headerValue === "demo-token" && allowDemoToken) {
     logger.info(`Demo token accepted for meter: ${meterId} (development: ${isDevelopment}, mock: ${isMockFacilitator}, allowed: ${config.x402AllowDemoToken})`);
-    return true;
+    return { valid: true };
   }
 
   // Production: Validate against Ultravioleta facilitator
   try {
-    const meter = getMeter(meterId);
+    const meter = await getMeter(meterId);
     if (!meter) {
       logger.error(`Meter not found: ${meterId}`);
       // Allow demo-token even if meter not found (if allowed)
       if (headerValue === "demo-token" && allowDemoToken) {
         logger.warn(`Meter not found, accepting demo-token (allowed: ${allowDemoToken})`);
-        return true;
+        return { valid: true };
       }
-      return false;
+      return { valid: false, error: "METER_NOT_FOUND" };
     }
 
     // Use facilitator client for validation
     const result = await validateWithFacilitator(headerValue, meterId, meter);
     
     if (result.valid === true) {
-      return true;
+      // The facilitator only validates; a proof grants access once
+      if (!(await claimLegacyProof(headerValue, meterId, meter.asset))) {
+        return {
+          valid: false,
+          error: "PROOF_REPLAYED",
+          message: "Payment proof was already used; sign a new authorization with a fresh nonce",
+        };
+      }
+      return { valid: true, payer: result.payer, amount: result.amount, facilitatorResponse: result };
     }
 
     // If validation failed but demo-token is allowed, accept it
@@ -65,24 +105,24 @@ export async function validateXPaymentHeader(
         error: result.error,
         message: result.message,
       });
-      return true;
+      return { valid: true };
     }
 
     logger.warn(`Payment validation failed for meter: ${meterId}`, {
       error: result.error,
       message: result.message,
     });
-    return false;
+    return { valid: false, error: result.error, message: result.message, facilitatorResponse: result };
   } catch (error) {
     logger.error(`Error validating payment with facilitator for meter: ${meterId}`, error);
     
       // If facilitator is unavailable and demo-token is allowed, accept it
     if (headerValue === "demo-token" && allowDemoToken) {
       logger.warn(`Facilitator unavailable, accepting demo-token (allowed: ${allowDemoToken})`);
-      return true;
+      return { valid: true };
     }
     
-    return false;
+    return { valid: false, error: "FACILITATOR_ERROR" };
   }
 }
 
@@ -107,7 +147,7 @@ export async function validatePaymentDetailed(
 
   // Production: Validate with Ultravioleta facilitator
   try {
-    const meter = getMeter(meterId);
+    const meter = await getMeter(meterId);
     if (!meter) {
       return {
         valid: false,
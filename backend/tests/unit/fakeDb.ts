@@ -0,0 +1,91 @@
+/**
+ * In-memory stand-in for the Prisma client
+ * Imported before the module under test, it is installed as the shared client of dbClient
+ * (globalThis.prisma), so no query engine or database is started. Tests give `db` the model
+ * methods they use with resetDb; $transaction runs interactive transactions on `db` itself.
+ */
+
+import { Prisma } from "@prisma/client";
+
+type FakeModel = Record<string, (...args: any[]) => any>;
+
+export const db: Record<string, any> = {};
+
+/**
+ * Replace the models of the fake client
+ */
+export function resetDb(models: Record<string, FakeModel> = {}): void {
+  for (const key of Object.keys(db)) {
+    delete db[key];
+  }
+  Object.assign(
+    db,
+    {
+      $transaction: async (arg: unknown) =>
+        typeof arg === "function" ? arg(db) : Promise.all(arg as Promise<unknown>[]),
+      $executeRaw: async () => 0,
+      $queryRaw: async () => [],
+    },
+    models,
+  );
+}
+
+type ProofNonceKey = { payer: string; token: string; nonce: string };
+
+export type ProofNonceRecord = ProofNonceKey & {
+  id: number;
+  meterId: string;
+  expiresAt: Date | null;
+  settlement: string | null;
+  txHash: string | null;
+};
+
+/**
+ * In-memory PaymentProofNonce model with its unique (payer, token, nonce) key
+ * @returns The model to give resetDb and its records
+ */
+export function fakeProofNonceTable(): { model: FakeModel; records: ProofNonceRecord[] } {
+  const records: ProofNonceRecord[] = [];
+  const matches = (record: ProofNonceRecord, where: Record<string, unknown>) =>
+    Object.entries(where).every(([field, value]) => {
+      if (value && typeof value === "object" && "lte" in value) {
+        return record.expiresAt !== null && record.expiresAt <= (value as { lte: Date }).lte;
+      }
+      return record[field as keyof ProofNonceRecord] === value;
+    });
+  const byKey = ({ payer, token, nonce }: ProofNonceKey) =>
+    records.find((record) => matches(record, { payer, token, nonce }));
+
+  const model: FakeModel = {
+    create: async ({ data }: { data: Omit<ProofNonceRecord, "id" | "settlement" | "txHash"> & { settlement?: string } }) => {
+      if (byKey(data)) {
+        throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: Prisma.prismaVersion.client,
+        });
+      }
+      const record = { id: records.length + 1, settlement: null, txHash: null, ...data };
+      records.push(record);
+      return record;
+    },
+    findUnique: async ({ where }: { where: { payer_token_nonce: ProofNonceKey } }) =>
+      byKey(where.payer_token_nonce) ?? null,
+    update: async ({ where, data }: { where: { payer_token_nonce: ProofNonceKey }; data: Partial<ProofNonceRecord> }) =>
+      Object.assign(byKey(where.payer_token_nonce)!, data),
+    updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Partial<ProofNonceRecord> }) => {
+      const matched = records.filter((record) => matches(record, where));
+      matched.forEach((record) => Object.assign(record, data));
+      return { count: matched.length };
+    },
+    deleteMany: async ({ where }: { where: Record<string, unknown> }) => {
+      const kept = records.filter((record) => !matches(record, where));
+      const count = records.length - kept.length;
+      records.splice(0, records.length, ...kept);
+      return { count };
+    },
+  };
+  return { model, records };
+}
+
+resetDb();
+(globalThis as { prisma?: unknown }).prisma = db;
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for FX quoting
+ */
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  convertAmount,
+  createFixtureFxProvider,
+  quoteFxRate,
+  quotePayrollLines,
+  setFxRateProvider,
+  settlementGrossToNet,
+} from "../../src/services/fxService.js";
+
+describe("createFixtureFxProvider", () => {
+  const provider = createFixtureFxProvider({ USD: 1, EUR: 1.08, MXN: 0.05 });
+
+  it("quotes units of the target currency per unit of the source", async () => {
+    assert.equal(await provider.getRate("EUR", "USD"), 1.08);
+    assert.equal(await provider.getRate("USD", "MXN"), 20);
+    assert.equal(await provider.getRate("USD", "USD"), 1);
+  });
+
+  it("rejects currencies without a fixture rate", async () => {
+    await assert.rejects(provider.getRate("JPY", "USD"), /No fixture FX rate for JPY\/USD/);
+  });
+});
+
+describe("quoteFxRate", () => {
+  afterEach(() => setFxRateProvider(null));
+
+  it("rounds the rate to 8 decimals and records the source", async () => {
+    setFxRateProvider({ name: "test", getRate: async () => 1 / 3 });
+    const quote = await quoteFxRate("EUR", "USD");
+    assert.equal(quote.rate, "0.33333333");
+    assert.equal(quote.source, "test");
+    assert.equal(quote.from, "EUR");
+    assert.equal(quote.to, "USD");
+  });
+
+  it("answers FX_RATE_UNAVAILABLE when the source fails", async () => {
+    setFxRateProvider(createFixtureFxProvider({ USD: 1 }));
+    await assert.rejects(quoteFxRate("EUR", "USD"), { statusCode: 503, code: "FX_RATE_UNAVAILABLE" });
+  });
+});
+
+describe("quotePayrollLines", () => {
+  afterEach(() => setFxRateProvider(null));
+
+  it("settles payroll-currency lines 1:1 and converts the others once per currency", async () => {
+    let calls = 0;
+    setFxRateProvider({
+      name: "test",
+      getRate: async () => {
+        calls++;
+        return 1.1;
+      },
+    });
+
+    const { total, lines } = await quotePayrollLines("USD", [
+      { amount: 1000 },
+      { amount: 1000, currency: "EUR" },
+      { amount: 2005, currency: "EUR" },
+    ]);
+
+    assert.equal(calls, 1);
+    assert.deepEqual(
+      lines.map((l) => l.settlementAmount),
+      [1000, 1100, 2206],
+    );
+    assert.equal(lines[0].fx, null);
+    assert.equal(lines[1].fx?.rate, "1.1");
+    assert.equal(total, 4306);
+  });
+});
+
+describe("convertAmount", () => {
+  it("rounds to the nearest cent", () => {
+    assert.equal(convertAmount(1005, "1.5"), 1508);
+    assert.equal(convertAmount(999, "0.5"), 500);
+  });
+});
+
+describe("settlementGrossToNet", () => {
+  it("treats payments without line items as all gross", () => {
+    assert.deepEqual(settlementGrossToNet({ amount: 500, settlementAmount: 500, fxRate: null }), {
+      gross: 500,
+      withholding: 0,
+      deductions: 0,
+      reimbursements: 0,
+      net: 500,
+    });
+  });
+
+  it("converts components at the locked rate and nets to the settlement amount", () => {
+    const totals = settlementGrossToNet({
+      amount: 8500,
+      settlementAmount: 9350,
+      fxRate: "1.1",
+      lineItems: [
+        { type: "EARNING", amount: 10000 },
+        { type: "WITHHOLDING", amount: 1000 },
+        { type: "DEDUCTION", amount: 1000 },
+        { type: "REIMBURSEMENT", amount: 500 },
+      ],
+    });
+    assert.deepEqual(totals, { gross: 11000, withholding: 1100, deductions: 1100, reimbursements: 550, net: 9350 });
+    assert.equal(totals.gross - totals.withholding - totals.deductions + totals.reimbursements, totals.net);
+  });
+});
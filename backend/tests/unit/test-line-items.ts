@@ -0,0 +1,76 @@
+/**
+ * Unit tests for gross-to-net line items
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { summarizeLineItems } from "../../src/domain/payment.js";
+import { validatePayrollInput, validatePayrollLine } from "../../src/services/payrollValidation.js";
+
+const WALLET = "0x22f6f000609d52a0b0efcd4349222cd9d70716ba";
+
+describe("summarizeLineItems", () => {
+  it("nets earnings less withholding and deductions plus reimbursements", () => {
+    assert.deepEqual(
+      summarizeLineItems([
+        { type: "EARNING", amount: 10000 },
+        { type: "EARNING", amount: 500 },
+        { type: "WITHHOLDING", amount: 2000 },
+        { type: "DEDUCTION", amount: 300 },
+        { type: "REIMBURSEMENT", amount: 150 },
+      ]),
+      { gross: 10500, withholding: 2000, deductions: 300, reimbursements: 150, net: 8350 },
+    );
+  });
+
+  it("is all zero without items", () => {
+    assert.deepEqual(summarizeLineItems([]), { gross: 0, withholding: 0, deductions: 0, reimbursements: 0, net: 0 });
+  });
+});
+
+describe("itemized payroll lines", () => {
+  it("take their amount from the net of their items", () => {
+    const result = validatePayrollInput({
+      payments: [
+        {
+          recipient: WALLET,
+          items: [
+            { type: "earning", description: " Salary ", amount: 5000 },
+            { type: "DEDUCTION", description: "Benefits", amount: 1000 },
+          ],
+        },
+      ],
+    });
+    assert.ok(result.valid);
+    assert.equal(result.input.payments[0].amount, 4000);
+    assert.deepEqual(result.input.payments[0].items?.[0], { type: "EARNING", description: "Salary", amount: 5000 });
+  });
+
+  it("reject submitted withholding", () => {
+    const errors = validatePayrollLine({
+      recipient: WALLET,
+      items: [{ type: "WITHHOLDING", description: "Tax", amount: 100 }],
+    });
+    assert.equal(errors[0].field, "items[0].type");
+  });
+
+  it("reject deductions that use up the earnings", () => {
+    const errors = validatePayrollLine({
+      recipient: WALLET,
+      items: [
+        { type: "EARNING", description: "Salary", amount: 100 },
+        { type: "DEDUCTION", description: "Benefits", amount: 100 },
+      ],
+    });
+    assert.equal(errors[0].field, "items");
+  });
+
+  it("require a given amount to match the net", () => {
+    const errors = validatePayrollLine({
+      recipient: WALLET,
+      amount: 999,
+      items: [{ type: "EARNING", description: "Salary", amount: 1000 }],
+    });
+    assert.equal(errors[0].field, "amount");
+  });
+});
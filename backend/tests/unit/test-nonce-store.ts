@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the x402 proof nonce store
+ */
+
+import { fakeProofNonceTable, resetDb, type ProofNonceRecord } from "./fakeDb.js";
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ProofNonceSettlement,
+  claimProofNonce,
+  claimProofNonceForSettlement,
+  completeProofNonceSettlement,
+  isProofNonceSettled,
+  isProofNonceUsed,
+  proofNonceExpiry,
+  proofNonceKey,
+  releaseProofNonce,
+  releaseProofNonceSettlement,
+  type ProofNonceKey,
+} from "../../src/x402/nonceStore.js";
+
+function useNonceTable(): ProofNonceRecord[] {
+  const table = fakeProofNonceTable();
+  resetDb({ paymentProofNonce: table.model });
+  return table.records;
+}
+
+const key: ProofNonceKey = { payer: "0xpayer", token: "0xtoken", nonce: "0x01" };
+const later = () => new Date(Date.now() + 60_000);
+
+describe("proofNonceKey", () => {
+  it("keys a proof by lower-case payer, token and nonce", () => {
+    assert.deepEqual(proofNonceKey({ from: "0xABC", nonce: "0xDEF" }, "0xToken"), {
+      payer: "0xabc",
+      token: "0xtoken",
+      nonce: "0xdef",
+    });
+  });
+
+  it("falls back to the spender or payer", () => {
+    assert.equal(proofNonceKey({ spender: "0xA", nonce: "1" }, "t")?.payer, "0xa");
+    assert.equal(proofNonceKey({ payer: "0xB", nonce: "1" }, "t")?.payer, "0xb");
+  });
+
+  it("is null without payer or nonce", () => {
+    assert.equal(proofNonceKey({ nonce: "1" }, "t"), null);
+    assert.equal(proofNonceKey({ from: "0xA" }, "t"), null);
+  });
+});
+
+describe("proofNonceExpiry", () => {
+  it("reads validBefore as Unix seconds", () => {
+    assert.equal(proofNonceExpiry("1735689600")?.toISOString(), "2025-01-01T00:00:00.000Z");
+    assert.equal(proofNonceExpiry(1735689600)?.toISOString(), "2025-01-01T00:00:00.000Z");
+  });
+
+  it("is null for missing, invalid or out-of-range values", () => {
+    for (const value of [undefined, "abc", 0, -1, 1e13]) {
+      assert.equal(proofNonceExpiry(value), null);
+    }
+  });
+});
+
+describe("claimProofNonce", () => {
+  beforeEach(() => {
+    useNonceTable();
+  });
+
+  it("grants access with a proof once", async () => {
+    assert.equal(await claimProofNonce(key, "payroll_execute", later()), true);
+    assert.equal(await claimProofNonce(key, "payroll_execute", later()), false);
+    assert.equal(await isProofNonceUsed(key), true);
+  });
+
+  it("lets a proof be claimed again once its record expired", async () => {
+    assert.equal(await claimProofNonce(key, "payroll_execute", new Date(Date.now() - 1000)), true);
+    assert.equal(await isProofNonceUsed(key), false);
+    assert.equal(await claimProofNonce(key, "payroll_execute", later()), true);
+  });
+
+  it("lets a released proof be claimed again", async () => {
+    await claimProofNonce(key, "payroll_execute", later());
+    await releaseProofNonce(key);
+    assert.equal(await isProofNonceUsed(key), false);
+    assert.equal(await claimProofNonce(key, "payroll_execute", later()), true);
+  });
+
+  it("never releases a proof being settled", async () => {
+    await claimProofNonceForSettlement(key, "payroll_execute", later());
+    await releaseProofNonce(key);
+    assert.equal(await isProofNonceUsed(key), true);
+  });
+
+  it("keys proofs by payer, token and nonce", async () => {
+    assert.equal(await claimProofNonce(key, "payroll_execute", null), true);
+    assert.equal(await claimProofNonce({ ...key, nonce: "0x02" }, "payroll_execute", null), true);
+    assert.equal(await claimProofNonce({ ...key, token: "0xother" }, "payroll_execute", null), true);
+  });
+});
+
+describe("proof settlement", () => {
+  let records: ProofNonceRecord[];
+
+  beforeEach(() => {
+    records = useNonceTable();
+  });
+
+  it("settles a proof once", async () => {
+    assert.equal(await claimProofNonceForSettlement(key, "payroll_execute", later()), true);
+    assert.equal(await isProofNonceSettled(key), true);
+    assert.equal(await claimProofNonceForSettlement(key, "payroll_execute", later()), false);
+
+    await completeProofNonceSettlement(key, "0xtx");
+    assert.equal(records[0].settlement, ProofNonceSettlement.SETTLED);
+    assert.equal(records[0].txHash, "0xtx");
+    assert.equal(await claimProofNonceForSettlement(key, "payroll_execute", later()), false);
+  });
+
+  it("settles a proof that was already used for access", async () => {
+    await claimProofNonce(key, "payroll_execute", later());
+    assert.equal(await isProofNonceSettled(key), false);
+    assert.equal(await claimProofNonceForSettlement(key, "payroll_execute", later()), true);
+    assert.equal(records.length, 1);
+  });
+
+  it("can settle a released proof again", async () => {
+    await claimProofNonceForSettlement(key, "payroll_execute", later());
+    await releaseProofNonceSettlement(key);
+    assert.equal(await isProofNonceSettled(key), false);
+    assert.equal(await claimProofNonceForSettlement(key, "payroll_execute", later()), true);
+  });
+
+  it("never releases a settled proof", async () => {
+    await claimProofNonceForSettlement(key, "payroll_execute", later());
+    await completeProofNonceSettlement(key, "0xtx");
+    await releaseProofNonceSettlement(key);
+    assert.equal(await isProofNonceSettled(key), true);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for withdrawal rail selection
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BankRail, FEDWIRE_MIN_AMOUNT, selectWithdrawalRail } from "../../src/domain/payee.js";
+
+describe("selectWithdrawalRail", () => {
+  it("sends domestic USD over ACH below the Fedwire threshold", () => {
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: 50_000, country: "US" }), BankRail.ACH);
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: FEDWIRE_MIN_AMOUNT - 1 }), BankRail.ACH);
+  });
+
+  it("sends large domestic USD payouts over Fedwire", () => {
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: FEDWIRE_MIN_AMOUNT, country: "us" }), BankRail.FEDWIRE);
+  });
+
+  it("sends EUR to SEPA countries over SEPA credit transfer", () => {
+    assert.equal(selectWithdrawalRail({ currency: "EUR", amount: 100, country: "de" }), BankRail.SEPA_CT);
+    assert.equal(selectWithdrawalRail({ currency: "EUR", amount: 100, country: null }), BankRail.SEPA_CT);
+  });
+
+  it("sends everything else over SWIFT", () => {
+    assert.equal(selectWithdrawalRail({ currency: "EUR", amount: 100, country: "US" }), BankRail.SWIFT);
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: 100, country: "MX" }), BankRail.SWIFT);
+    assert.equal(selectWithdrawalRail({ currency: "GBP", amount: 100, country: "GB" }), BankRail.SWIFT);
+  });
+
+  it("uses the preferred rail when it can carry the payment", () => {
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: 100, preferred: BankRail.FEDWIRE }), BankRail.FEDWIRE);
+    assert.equal(
+      selectWithdrawalRail({ currency: "USD", amount: FEDWIRE_MIN_AMOUNT, preferred: BankRail.ACH }),
+      BankRail.ACH,
+    );
+    assert.equal(selectWithdrawalRail({ currency: "EUR", amount: 100, country: "FR", preferred: BankRail.SWIFT }), BankRail.SWIFT);
+  });
+
+  it("ignores a preferred rail that cannot carry the payment", () => {
+    assert.equal(selectWithdrawalRail({ currency: "EUR", amount: 100, country: "FR", preferred: BankRail.ACH }), BankRail.SEPA_CT);
+    assert.equal(selectWithdrawalRail({ currency: "USD", amount: 100, country: "US", preferred: BankRail.SEPA_CT }), BankRail.ACH);
+    assert.equal(selectWithdrawalRail({ currency: "MXN", amount: 100, country: "MX", preferred: BankRail.FEDWIRE }), BankRail.SWIFT);
+  });
+});
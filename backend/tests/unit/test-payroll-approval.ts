@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the payroll approval workflow
+ */
+
+import { resetDb } from "./fakeDb.js";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decidePayroll } from "../../src/services/payrollApprovalService.js";
+import { PayrollApprovalDecision, PayrollStatus } from "../../src/domain/payroll.js";
+
+const { APPROVED, REJECTED } = PayrollApprovalDecision;
+
+// Company with `approvers` users and one DRAFT payroll submitted by user_1
+function setup(approvers: number, approvalsRequired: number) {
+  const payroll = { id: "pay_1", companyId: "co_1", status: PayrollStatus.DRAFT as string, createdById: "user_1" };
+  const approvals: Array<{ userId: string; decision: string }> = [];
+  const events: Array<{ fromStatus: string; toStatus: string }> = [];
+
+  resetDb({
+    company: {
+      findUnique: async () => ({ payrollApprovalsRequired: approvalsRequired, _count: { users: approvers } }),
+    },
+    payroll: {
+      findFirst: async () => ({ ...payroll }),
+      findUnique: async () => ({ ...payroll, payments: [] }),
+      updateMany: async ({ where, data }) => {
+        if (where.status !== payroll.status) {
+          return { count: 0 };
+        }
+        Object.assign(payroll, data);
+        return { count: 1 };
+      },
+    },
+    payrollApproval: {
+      findUnique: async ({ where }) =>
+        approvals.find((a) => a.userId === where.payrollId_userId.userId) ?? null,
+      create: async ({ data }) => {
+        approvals.push(data);
+        return data;
+      },
+      count: async ({ where }) => approvals.filter((a) => a.decision === where.decision).length,
+    },
+    payrollEvent: {
+      create: async ({ data }) => {
+        events.push(data);
+        return data;
+      },
+    },
+  });
+  return { payroll, events };
+}
+
+describe("decidePayroll", () => {
+  it("lets the sole user of a company approve their own draft", async () => {
+    const { payroll, events } = setup(1, 1);
+    const decided = await decidePayroll("co_1", "user_1", "pay_1", APPROVED);
+    assert.equal(decided?.status, PayrollStatus.APPROVED);
+    assert.equal(payroll.status, PayrollStatus.APPROVED);
+    assert.deepEqual(
+      events.map((e) => [e.fromStatus, e.toStatus]),
+      [[PayrollStatus.DRAFT, PayrollStatus.APPROVED]],
+    );
+  });
+
+  it("needs N approvals from other users", async () => {
+    const { payroll } = setup(3, 2);
+    await decidePayroll("co_1", "user_2", "pay_1", APPROVED);
+    assert.equal(payroll.status, PayrollStatus.DRAFT);
+    await decidePayroll("co_1", "user_3", "pay_1", APPROVED);
+    assert.equal(payroll.status, PayrollStatus.APPROVED);
+  });
+
+  it("blocks self-approval while another user can approve", async () => {
+    const { payroll } = setup(2, 1);
+    await assert.rejects(decidePayroll("co_1", "user_1", "pay_1", APPROVED), {
+      statusCode: 403,
+      code: "SELF_APPROVAL_NOT_ALLOWED",
+    });
+    assert.equal(payroll.status, PayrollStatus.DRAFT);
+  });
+
+  it("caps N at the users other than the submitter", async () => {
+    const { payroll } = setup(2, 2);
+    await decidePayroll("co_1", "user_2", "pay_1", APPROVED);
+    assert.equal(payroll.status, PayrollStatus.APPROVED);
+  });
+
+  it("rejects the draft on a single rejection", async () => {
+    const { payroll } = setup(3, 2);
+    await decidePayroll("co_1", "user_1", "pay_1", REJECTED);
+    assert.equal(payroll.status, PayrollStatus.REJECTED);
+    await assert.rejects(decidePayroll("co_1", "user_2", "pay_1", APPROVED), { code: "PAYROLL_NOT_DRAFT" });
+  });
+
+  it("answers ALREADY_DECIDED to a second decision", async () => {
+    setup(3, 2);
+    await decidePayroll("co_1", "user_2", "pay_1", APPROVED);
+    await assert.rejects(decidePayroll("co_1", "user_2", "pay_1", APPROVED), { code: "ALREADY_DECIDED" });
+  });
+});
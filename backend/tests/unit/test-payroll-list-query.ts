@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the payroll listing query
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validatePayrollListQuery } from "../../src/services/payrollValidation.js";
+
+describe("validatePayrollListQuery", () => {
+  it("applies defaults", () => {
+    const result = validatePayrollListQuery({});
+    assert.ok(result.valid);
+    assert.equal(result.query.limit, 20);
+    assert.equal(result.query.sort, "createdAt");
+    assert.equal(result.query.order, "desc");
+    assert.equal(result.query.statuses, undefined);
+  });
+
+  it("parses comma-separated and repeated statuses", () => {
+    const result = validatePayrollListQuery({ status: ["paid, failed", "PAID"] });
+    assert.ok(result.valid);
+    assert.deepEqual(result.query.statuses, ["PAID", "FAILED"]);
+  });
+
+  it("parses the date range, search, sort and cursor", () => {
+    const result = validatePayrollListQuery({
+      from: "2025-01-01",
+      to: "2025-02-01",
+      q: " march ",
+      sort: "total",
+      order: "ASC",
+      limit: "50",
+      cursor: "pay_1",
+    });
+    assert.ok(result.valid);
+    assert.equal(result.query.from?.toISOString(), "2025-01-01T00:00:00.000Z");
+    assert.equal(result.query.to?.toISOString(), "2025-02-01T00:00:00.000Z");
+    assert.equal(result.query.search, "march");
+    assert.equal(result.query.sort, "total");
+    assert.equal(result.query.order, "asc");
+    assert.equal(result.query.limit, 50);
+    assert.equal(result.query.cursor, "pay_1");
+  });
+
+  it("rejects unknown statuses, bad ranges, limits and sorts", () => {
+    const result = validatePayrollListQuery({
+      status: "DONE",
+      from: "2025-02-01",
+      to: "2025-01-01",
+      limit: "500",
+      sort: "memo",
+    });
+    assert.ok(!result.valid);
+    assert.deepEqual(
+      result.errors.map((e) => e.field),
+      ["status", "to", "limit", "sort"],
+    );
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for payroll and payment status transitions and the derived payroll status
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  PAYROLL_STATUS_TRANSITIONS,
+  PayrollStatus,
+  canTransitionPayroll,
+  derivePayrollStatus,
+} from "../../src/domain/payroll.js";
+import {
+  PAYMENT_STATUS_TRANSITIONS,
+  PaymentStatus,
+  SETTLED_PAYMENT_STATUSES,
+  canTransitionPayment,
+} from "../../src/domain/payment.js";
+
+describe("payroll status transitions", () => {
+  it("covers every status", () => {
+    assert.deepEqual(Object.keys(PAYROLL_STATUS_TRANSITIONS).sort(), Object.values(PayrollStatus).sort());
+  });
+
+  it("only executes approved payrolls", () => {
+    assert.ok(canTransitionPayroll(PayrollStatus.DRAFT, PayrollStatus.APPROVED));
+    assert.ok(canTransitionPayroll(PayrollStatus.APPROVED, PayrollStatus.PENDING));
+    assert.ok(!canTransitionPayroll(PayrollStatus.DRAFT, PayrollStatus.PENDING));
+    assert.ok(!canTransitionPayroll(PayrollStatus.REJECTED, PayrollStatus.PENDING));
+  });
+
+  it("keeps paid and rejected payrolls final", () => {
+    for (const to of Object.values(PayrollStatus)) {
+      assert.ok(!canTransitionPayroll(PayrollStatus.PAID, to));
+      assert.ok(!canTransitionPayroll(PayrollStatus.REJECTED, to));
+    }
+  });
+
+  it("rejects unknown statuses", () => {
+    assert.ok(!canTransitionPayroll("UNKNOWN", PayrollStatus.PENDING));
+    assert.ok(!canTransitionPayroll(PayrollStatus.PENDING, "UNKNOWN"));
+  });
+});
+
+describe("payment status transitions", () => {
+  it("covers every status", () => {
+    assert.deepEqual(Object.keys(PAYMENT_STATUS_TRANSITIONS).sort(), Object.values(PaymentStatus).sort());
+  });
+
+  it("never moves a settled payment back to an unsettled status", () => {
+    for (const from of SETTLED_PAYMENT_STATUSES) {
+      for (const to of Object.values(PaymentStatus)) {
+        if (!SETTLED_PAYMENT_STATUSES.includes(to)) {
+          assert.ok(!canTransitionPayment(from, to), `${from} -> ${to}`);
+        }
+      }
+    }
+  });
+
+  it("lets failed payments be retried", () => {
+    assert.ok(canTransitionPayment(PaymentStatus.FAILED, PaymentStatus.ONCHAIN_REQUESTED));
+    assert.ok(!canTransitionPayment(PaymentStatus.FAILED, PaymentStatus.PENDING));
+  });
+
+  it("returns a payment whose Rail withdrawal failed to ONCHAIN_PAID", () => {
+    assert.ok(canTransitionPayment(PaymentStatus.RAIL_PROCESSING, PaymentStatus.ONCHAIN_PAID));
+    assert.ok(canTransitionPayroll(PayrollStatus.RAIL_PROCESSING, PayrollStatus.ONCHAIN_PAID));
+  });
+});
+
+describe("derivePayrollStatus", () => {
+  it("is FAILED when nothing settled", () => {
+    assert.equal(derivePayrollStatus([PaymentStatus.FAILED, PaymentStatus.PENDING]), PayrollStatus.FAILED);
+  });
+
+  it("is PARTIALLY_PAID when only some payments settled", () => {
+    assert.equal(derivePayrollStatus([PaymentStatus.PAID, PaymentStatus.FAILED]), PayrollStatus.PARTIALLY_PAID);
+  });
+
+  it("follows the least advanced settled status", () => {
+    assert.equal(derivePayrollStatus([PaymentStatus.PAID, PaymentStatus.PAID]), PayrollStatus.PAID);
+    assert.equal(derivePayrollStatus([PaymentStatus.PAID, PaymentStatus.RAIL_PROCESSING]), PayrollStatus.RAIL_PROCESSING);
+    assert.equal(derivePayrollStatus([PaymentStatus.PAID, PaymentStatus.ONCHAIN_PAID]), PayrollStatus.ONCHAIN_PAID);
+  });
+});
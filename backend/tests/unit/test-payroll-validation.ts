@@ -0,0 +1,81 @@
+/**
+ * Unit tests for payroll validation
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validatePayrollInput, validatePayrollLine } from "../../src/services/payrollValidation.js";
+
+const WALLET = "0x22f6f000609d52a0b0efcd4349222cd9d70716ba";
+
+describe("validatePayrollInput", () => {
+  it("normalizes a valid submission", () => {
+    const result = validatePayrollInput({
+      currency: "usd",
+      memo: "  March  ",
+      payments: [{ recipient: ` ${WALLET.toUpperCase().replace("0X", "0x")} `, amount: 1000 }],
+    });
+
+    assert.ok(result.valid);
+    assert.equal(result.input.currency, "USD");
+    assert.equal(result.input.memo, "March");
+    assert.equal(result.input.payments[0].recipient, WALLET);
+    assert.equal(result.input.payments[0].amount, 1000);
+  });
+
+  it("defaults the currency to USD and drops an empty memo", () => {
+    const result = validatePayrollInput({ memo: " ", payments: [{ recipient: WALLET, amount: 1 }] });
+    assert.ok(result.valid);
+    assert.equal(result.input.currency, "USD");
+    assert.equal(result.input.memo, undefined);
+  });
+
+  it("requires at least one payment and a supported currency", () => {
+    const result = validatePayrollInput({ currency: "JPY", payments: [] });
+    assert.ok(!result.valid);
+    assert.deepEqual(
+      result.errors.map((e) => e.field),
+      ["currency", "payments"],
+    );
+  });
+
+  it("rejects long memos", () => {
+    const result = validatePayrollInput({ memo: "x".repeat(501), payments: [{ recipient: WALLET, amount: 1 }] });
+    assert.ok(!result.valid);
+    assert.equal(result.errors[0].field, "memo");
+  });
+
+  it("rejects a body that is not an object", () => {
+    const result = validatePayrollInput(null);
+    assert.ok(!result.valid);
+    assert.equal(result.errors[0].field, "body");
+  });
+});
+
+describe("validatePayrollLine", () => {
+  it("accepts a valid line", () => {
+    assert.deepEqual(validatePayrollLine({ recipient: WALLET, amount: 100 }), []);
+  });
+
+  it("reports invalid recipients and amounts with the line index", () => {
+    const errors = validatePayrollLine({ recipient: "0x123", amount: 10.5 }, 2);
+    assert.deepEqual(
+      errors.map((e) => [e.index, e.field]),
+      [
+        [2, "recipient"],
+        [2, "amount"],
+      ],
+    );
+  });
+
+  it("requires a positive amount in cents", () => {
+    for (const amount of [0, -5, "100", Number.NaN]) {
+      assert.equal(validatePayrollLine({ recipient: WALLET, amount })[0]?.field, "amount", String(amount));
+    }
+  });
+
+  it("requires a recipient", () => {
+    assert.equal(validatePayrollLine({ amount: 100 })[0].field, "recipient");
+    assert.equal(validatePayrollLine("bob")[0].field, "payment");
+  });
+});
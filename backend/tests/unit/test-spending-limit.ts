@@ -0,0 +1,59 @@
+/**
+ * Unit tests for spending limit checks
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  NO_SPENDING_LIMITS,
+  SpendingLimitType,
+  findSpendingLimitViolations,
+  startOfUtcDay,
+  startOfUtcMonth,
+  type SpendingUsage,
+} from "../../src/domain/spendingLimit.js";
+
+const usage: SpendingUsage = {
+  payrollTotal: 5000,
+  requested: 5000,
+  paidToday: 1000,
+  paidThisMonth: 20000,
+  payees: [
+    { payee: "payee_1", requested: 3000, paidThisMonth: 2000 },
+    { payee: "payee_2", requested: 2000, paidThisMonth: 0 },
+  ],
+};
+
+describe("findSpendingLimitViolations", () => {
+  it("allows everything without limits", () => {
+    assert.deepEqual(findSpendingLimitViolations(NO_SPENDING_LIMITS, usage), []);
+  });
+
+  it("allows a run that stays exactly at its caps", () => {
+    const limits = { perPayroll: 5000, daily: 6000, monthly: 25000, perPayeeMonthly: 5000 };
+    assert.deepEqual(findSpendingLimitViolations(limits, usage), []);
+  });
+
+  it("reports every limit the run would exceed", () => {
+    const limits = { perPayroll: 4999, daily: 5999, monthly: 24999, perPayeeMonthly: 4999 };
+    assert.deepEqual(findSpendingLimitViolations(limits, usage), [
+      { limit: SpendingLimitType.PER_PAYROLL, cap: 4999, paid: 0, requested: 5000 },
+      { limit: SpendingLimitType.DAILY, cap: 5999, paid: 1000, requested: 5000 },
+      { limit: SpendingLimitType.MONTHLY, cap: 24999, paid: 20000, requested: 5000 },
+      { limit: SpendingLimitType.PER_PAYEE_MONTHLY, cap: 4999, paid: 2000, requested: 3000, payee: "payee_1" },
+    ]);
+  });
+
+  it("ignores runs that pay nothing out", () => {
+    const limits = { perPayroll: 1, daily: 1, monthly: 1, perPayeeMonthly: 1 };
+    assert.deepEqual(findSpendingLimitViolations(limits, { ...usage, requested: 0 }), []);
+  });
+});
+
+describe("UTC windows", () => {
+  it("start at the UTC day and month", () => {
+    const date = new Date("2025-03-15T23:30:00-05:00");
+    assert.equal(startOfUtcDay(date).toISOString(), "2025-03-16T00:00:00.000Z");
+    assert.equal(startOfUtcMonth(date).toISOString(), "2025-03-01T00:00:00.000Z");
+  });
+});
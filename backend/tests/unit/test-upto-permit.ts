@@ -0,0 +1,61 @@
+/**
+ * Unit tests for recording "upto" permits in the proof nonce store
+ */
+
+import { fakeProofNonceTable, resetDb, type ProofNonceRecord } from "./fakeDb.js";
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MerchantExecutor, type UptoPaymentPayload } from "../../src/MerchantExecutor.js";
+
+const merchant = new MerchantExecutor({
+  payToAddress: "0x00000000000000000000000000000000000000bb",
+  network: "avalanche-fuji",
+  price: 0.01,
+  settlementMode: "direct",
+  rpcUrl: "http://127.0.0.1:8545",
+  privateKey: "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  upto: { maxPrice: "0.1" },
+});
+const spender = String(merchant.getUptoPaymentRequirements()?.extra?.spender);
+
+function permit(deadline: number, nonce = "0"): UptoPaymentPayload {
+  return {
+    x402Version: 1,
+    scheme: "upto",
+    network: "avalanche-fuji",
+    payload: {
+      signature: "0xsig",
+      authorization: {
+        owner: "0x00000000000000000000000000000000000000aa",
+        spender,
+        value: "100000",
+        nonce,
+        deadline: String(deadline),
+      },
+    },
+  };
+}
+
+describe("MerchantExecutor.claimUptoPayment", () => {
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+  let records: ProofNonceRecord[];
+
+  beforeEach(() => {
+    const table = fakeProofNonceTable();
+    records = table.records;
+    resetDb({ paymentProofNonce: table.model });
+  });
+
+  it("lets a permit pay for one request", async () => {
+    assert.equal(await merchant.claimUptoPayment(permit(deadline)), true);
+    assert.equal(await merchant.claimUptoPayment(permit(deadline)), false);
+    assert.equal(records[0].payer, "0x00000000000000000000000000000000000000aa");
+    assert.equal(records[0].expiresAt?.getTime(), deadline * 1000);
+  });
+
+  it("accepts a new permit reusing the nonce of one that was never submitted", async () => {
+    assert.equal(await merchant.claimUptoPayment(permit(deadline)), true);
+    assert.equal(await merchant.claimUptoPayment(permit(deadline + 60)), true);
+    assert.equal(await merchant.claimUptoPayment(permit(deadline, "1")), true);
+  });
+});
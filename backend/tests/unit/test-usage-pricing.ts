@@ -0,0 +1,57 @@
+/**
+ * Unit tests for x402 usage pricing
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { priceUsage, resolveTokenRates, type TokenUsage } from "../../src/x402/usagePricing.js";
+
+const usage: TokenUsage = { model: "gpt-4o-mini", promptTokens: 1000, completionTokens: 500, totalTokens: 1500 };
+
+describe("resolveTokenRates", () => {
+  it("uses the built-in rates of known models", () => {
+    assert.deepEqual(resolveTokenRates("gpt-4o-mini"), { prompt: "0.15", completion: "0.6" });
+    assert.equal(resolveTokenRates("llama-3"), undefined);
+  });
+
+  it("prefers overrides when both are set", () => {
+    assert.deepEqual(resolveTokenRates("llama-3", { prompt: "1", completion: "2.5" }), { prompt: "1", completion: "2.5" });
+    assert.deepEqual(resolveTokenRates("gpt-4o-mini", { prompt: "1" }), { prompt: "0.15", completion: "0.6" });
+  });
+
+  it("rejects invalid overrides", () => {
+    assert.throws(() => resolveTokenRates("gpt-4o", { prompt: "abc", completion: "1" }), /Invalid token rate "abc"/);
+    assert.throws(() => resolveTokenRates("gpt-4o", { prompt: "1", completion: "0.0000001" }), /Invalid token rate/);
+  });
+});
+
+describe("priceUsage", () => {
+  it("itemizes prompt and completion tokens", () => {
+    const charge = priceUsage(usage, { prompt: "0.15", completion: "0.6" }, 100_000n);
+    assert.deepEqual(
+      charge.lineItems.map((item) => [item.item, item.tokens, item.amount]),
+      [
+        ["prompt_tokens", 1000, "0.00015"],
+        ["completion_tokens", 500, "0.0003"],
+      ],
+    );
+    assert.equal(charge.cost, "0.00045");
+    assert.equal(charge.charged, "0.00045");
+    assert.equal(charge.atomicAmount, "450");
+    assert.equal(charge.maxAmount, "0.1");
+    assert.equal(charge.capped, false);
+  });
+
+  it("rounds each line up to the next atomic unit", () => {
+    const charge = priceUsage({ ...usage, promptTokens: 1, completionTokens: 0 }, { prompt: "0.15", completion: "0.6" }, 100_000n);
+    assert.equal(charge.atomicAmount, "1");
+  });
+
+  it("caps the charge at the authorized maximum", () => {
+    const charge = priceUsage(usage, { prompt: "1000", completion: "1000" }, 100_000n);
+    assert.equal(charge.cost, "1.5");
+    assert.equal(charge.charged, "0.1");
+    assert.equal(charge.atomicAmount, "100000");
+    assert.equal(charge.capped, true);
+  });
+});
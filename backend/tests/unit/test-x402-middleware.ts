@@ -0,0 +1,196 @@
+/**
+ * Unit tests for x402Protect with standard X-PAYMENT payloads
+ */
+
+import { fakeProofNonceTable, resetDb, type ProofNonceRecord } from "./fakeDb.js";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Response } from "express";
+import { config } from "../../src/config/env.js";
+import { x402Protect, type X402Request } from "../../src/x402/middleware.js";
+
+const METER_ID = "payroll_execute";
+
+type FakeResponse = {
+  statusCode: number;
+  body?: any;
+  headers: Record<string, string>;
+  done: Promise<void>;
+};
+
+// Request and response objects for one call of the middleware
+function call(paymentHeader: string) {
+  const headers: Record<string, string> = { "x-payment": paymentHeader, host: "api.test" };
+  const req = {
+    headers,
+    get: (name: string) => headers[name.toLowerCase()],
+    protocol: "https",
+    originalUrl: "/api/payroll/execute",
+    method: "POST",
+    path: "/api/payroll/execute",
+  } as unknown as X402Request;
+
+  let sent: () => void = () => undefined;
+  const fake: FakeResponse = {
+    statusCode: 200,
+    headers: {},
+    done: new Promise<void>((resolve) => {
+      sent = resolve;
+    }),
+  };
+  const res = {
+    status(code: number) {
+      fake.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      fake.body = body;
+      sent();
+      return this;
+    },
+    setHeader(name: string, value: string) {
+      fake.headers[name] = value;
+    },
+    get statusCode() {
+      return fake.statusCode;
+    },
+  } as unknown as Response;
+  return { req, res, fake };
+}
+
+// Base64 payload authorizing 1 USDC with the given nonce
+function paymentHeader(nonce: string): string {
+  return Buffer.from(
+    JSON.stringify({
+      x402Version: 1,
+      scheme: "exact",
+      network: "avalanche-fuji",
+      payload: {
+        signature: "0xsig",
+        authorization: {
+          from: "0x00000000000000000000000000000000000000aa",
+          to: "0x00000000000000000000000000000000000000bb",
+          value: "1000000",
+          validAfter: "0",
+          validBefore: String(Math.floor(Date.now() / 1000) + 600),
+          nonce,
+        },
+      },
+    }),
+  ).toString("base64");
+}
+
+// Run the middleware; the route answers with `status` after a tick when the request gets through
+async function run(header: string, route: { status: number; runs: number }, options = {}) {
+  const { req, res, fake } = call(header);
+  const next: NextFunction = () => {
+    route.runs++;
+    setImmediate(() => res.status(route.status).json({ ok: route.status < 400 }));
+  };
+  await x402Protect(METER_ID, options)(req, res, next);
+  await fake.done;
+  return fake;
+}
+
+describe("x402Protect with standard payments", () => {
+  const originalFetch = globalThis.fetch;
+  const originalConfig = { x402FacilitatorUrl: config.x402FacilitatorUrl, x402PayToAddress: config.x402PayToAddress };
+  let nonces: ProofNonceRecord[];
+  let settlements: number;
+  let settleResult: { success: boolean; transaction?: string; errorReason?: string };
+
+  beforeEach(() => {
+    const table = fakeProofNonceTable();
+    nonces = table.records;
+    settlements = 0;
+    settleResult = { success: true, transaction: "0xtx" };
+    resetDb({
+      paymentProofNonce: table.model,
+      meter: {
+        findUnique: async () => ({
+          asset: "USDC",
+          chain: "fuji",
+          resource: "payroll_execution",
+          description: null,
+          version: "1",
+          prices: [{ version: 1, price: "1" }],
+        }),
+      },
+    });
+    Object.assign(config, {
+      x402FacilitatorUrl: "https://facilitator.test",
+      x402PayToAddress: "0x00000000000000000000000000000000000000bb",
+    });
+    globalThis.fetch = (async (url: string) => {
+      // Answer after a tick, so concurrent requests are verified before either is claimed
+      await new Promise((resolve) => setImmediate(resolve));
+      const body = url.endsWith("/settle")
+        ? (settlements++, settleResult)
+        : { isValid: true, payer: "0x00000000000000000000000000000000000000aa" };
+      return { ok: true, status: 200, statusText: "OK", text: async () => JSON.stringify(body) };
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    Object.assign(config, originalConfig);
+  });
+
+  it("runs the route once for concurrent requests with one payload", async () => {
+    const route = { status: 200, runs: 0 };
+    const header = paymentHeader("0x01");
+    const responses = await Promise.all([run(header, route), run(header, route)]);
+
+    assert.equal(route.runs, 1);
+    assert.deepEqual(responses.map((r) => r.statusCode).sort(), [200, 402]);
+    assert.equal(responses.find((r) => r.statusCode === 402)?.body.error, "PROOF_REPLAYED");
+    assert.equal(settlements, 1);
+    assert.ok(responses.find((r) => r.statusCode === 200)?.headers["X-PAYMENT-RESPONSE"]);
+  });
+
+  it("rejects a payload that already ran the route", async () => {
+    const route = { status: 200, runs: 0 };
+    const header = paymentHeader("0x02");
+    await run(header, route);
+    const replay = await run(header, route);
+
+    assert.equal(replay.statusCode, 402);
+    assert.equal(replay.body.error, "PROOF_REPLAYED");
+    assert.equal(route.runs, 1);
+  });
+
+  it("releases the payload of a failed route without settling it", async () => {
+    const header = paymentHeader("0x03");
+    const refused = await run(header, { status: 409, runs: 0 });
+    assert.equal(refused.statusCode, 409);
+    assert.equal(settlements, 0);
+
+    // The release runs in the background
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(nonces.length, 0);
+    const retried = await run(header, { status: 200, runs: 0 });
+    assert.equal(retried.statusCode, 200);
+  });
+
+  it("keeps the payload used when its settlement fails after the route ran", async () => {
+    settleResult = { success: false, errorReason: "TRANSFER_FAILED" };
+    const header = paymentHeader("0x04");
+    const failed = await run(header, { status: 200, runs: 0 });
+    assert.equal(failed.statusCode, 402);
+    assert.equal(failed.body.error, "PAYMENT_SETTLEMENT_FAILED");
+
+    const replay = await run(header, { status: 200, runs: 0 });
+    assert.equal(replay.body.error, "PROOF_REPLAYED");
+  });
+
+  it("releases the payload when settlement before the route fails", async () => {
+    settleResult = { success: false, errorReason: "TRANSFER_FAILED" };
+    const route = { status: 200, runs: 0 };
+    const failed = await run(paymentHeader("0x05"), route, { settleBeforeRoute: true });
+    assert.equal(failed.body.error, "PAYMENT_SETTLEMENT_FAILED");
+    assert.equal(route.runs, 0);
+
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(nonces.length, 0);
+  });
+});
@@ -2,8 +2,7 @@
  * Main App component with routing
  */
 
-import { BrowserRouter, Routes, Route, Navigate, Link, useLocation, useNavigate } from "react-router-dom";
-import { useState } from "react";
+import { BrowserRouter, Routes, Route, Navigate, Link, useLocation, useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "./hooks/use-auth.js";
 import { CoreWalletProvider } from "./hooks/use-core-wallet.js";
 import { ProtectedRoute } from "./components/auth/protected-route.js";
@@ -12,7 +11,10 @@ import { SignupPage } from "./pages/signup.js";
 import Dashboard from "./pages/dashboard.js";
 import LegacyDashboard from "./components/Dashboard.js";
 import PaymentForm from "./components/PaymentForm";
-import PaymentFlow from "./components/PaymentFlow";
+import PayrollImport from "./components/PayrollImport";
+import PayrollEditor from "./components/PayrollEditor";
+import Payees from "./components/Payees";
+import PayrollDetail from "./components/PayrollDetail";
 import ContractTest from "./components/ContractTest";
 import { AgentIdentity } from "./components/AgentIdentity";
 import { ParticleBackground } from "./components/ParticleBackground";
@@ -25,39 +27,19 @@ import type { MeteringInfo } from "./lib/api.js";
 export type { MeteringInfo };
 
 /**
- * Dashboard with Payment Flow Handler
- * Wraps LegacyDashboard to handle payment flow state
+ * Payroll detail page for /payrolls/:id
  */
-function DashboardWithPaymentFlow() {
-  const [paymentRequired, setPaymentRequired] = useState<MeteringInfo | null>(null);
+function PayrollDetailPage() {
+  const { id } = useParams();
   const navigate = useNavigate();
 
-  const handlePaymentRequired = (metering: MeteringInfo) => {
-    setPaymentRequired(metering);
-  };
-
-  const handlePaymentSuccess = () => {
-    setPaymentRequired(null);
-    // Navigate to agent identity page to see the executed payroll
-    navigate("/agent-identity");
-  };
-
-  const handlePaymentCancel = () => {
-    setPaymentRequired(null);
-  };
-
-  if (paymentRequired) {
-    return (
-      <PaymentFlow
-        metering={paymentRequired}
-        meterId={paymentRequired.meterId || "payroll_execute"}
-        onSuccess={handlePaymentSuccess}
-        onCancel={handlePaymentCancel}
-      />
-    );
-  }
-
-  return <LegacyDashboard onPaymentRequired={handlePaymentRequired} />;
+  return (
+    <PayrollDetail
+      payrollId={id ?? ""}
+      onBack={() => navigate("/treasury-dashboard")}
+      onClone={(payrollId) => navigate(`/payroll-editor?clone=${payrollId}`)}
+    />
+  );
 }
 
 /**
@@ -82,7 +64,7 @@ function AppRoutes() {
           ) : isAuthenticated ? (
             <ProtectedRoute isAuthenticated={isAuthenticated} isLoading={isLoading}>
               <AppLayout>
-                <DashboardWithPaymentFlow />
+                <LegacyDashboard />
               </AppLayout>
             </ProtectedRoute>
           ) : (
@@ -107,6 +89,17 @@ function AppRoutes() {
         }
       />
 
+      <Route
+        path="/payrolls/:id"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated} isLoading={isLoading}>
+            <AppLayout>
+              <PayrollDetailPage />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
       {/* Legacy hash routes - keeping for backward compatibility */}
       <Route
         path="/payment-form"
@@ -119,6 +112,39 @@ function AppRoutes() {
         }
       />
 
+      <Route
+        path="/payroll-import"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated} isLoading={isLoading}>
+            <AppLayout>
+              <PayrollImport />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/payroll-editor"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated} isLoading={isLoading}>
+            <AppLayout>
+              <PayrollEditor />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/payees"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated} isLoading={isLoading}>
+            <AppLayout>
+              <Payees />
+            </AppLayout>
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/contract-test"
         element={
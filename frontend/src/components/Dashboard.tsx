@@ -1,46 +1,10 @@
-import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { executePayroll } from "../lib/api";
-import type { MeteringInfo } from "../App";
-import { CreditCard, Wallet, Box, ArrowRight, Zap, Shield, Activity, Globe, DollarSign, Sparkles, BarChart3 } from "lucide-react";
+import { CreditCard, Wallet, Box, ArrowRight, Zap, Shield, Activity, Globe, DollarSign, Sparkles, BarChart3, FileSpreadsheet, Users, ClipboardList } from "lucide-react";
 import { SpotlightCard } from "./ui/spotlight-card";
 import { motion } from "framer-motion";
 
-type DashboardProps = {
-  onPaymentRequired: (metering: MeteringInfo) => void;
-};
-
-function Dashboard({ onPaymentRequired }: DashboardProps) {
+function Dashboard() {
   const navigate = useNavigate();
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const handleExecutePayroll = async () => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      // First call without payment token - expect 402
-      const result = await executePayroll();
-
-      if (!result.success && result.status === 402) {
-        // Payment required - show payment flow
-        if (result.error.metering) {
-          const meteringInfo: MeteringInfo = {
-            ...(result.error.metering as MeteringInfo),
-            meterId: result.error.meterId || "payroll_execute",
-          };
-          onPaymentRequired(meteringInfo);
-        }
-      } else if (!result.success) {
-        setError(result.error.message || "Failed to execute payroll");
-      }
-    } catch (err) {
-      setError("Network error. Is the backend running?");
-    } finally {
-      setLoading(false);
-    }
-  };
 
   return (
     <div className="dashboard">
@@ -124,29 +88,34 @@ function Dashboard({ onPaymentRequired }: DashboardProps) {
             </div>
           </div>
 
-          {error && (
-            <div className="mb-4 p-3 bg-red-500/10 text-red-400 text-sm rounded-lg border border-red-500/20 flex items-center gap-2">
-              <Activity size={16} />
-              {error}
-            </div>
-          )}
-
+          {/* Payrolls are executed once approved, from the approval inbox */}
           <button
             className="btn btn-primary btn-large w-full mt-auto"
-            onClick={handleExecutePayroll}
-            disabled={loading}
+            onClick={() => navigate("/treasury-dashboard")}
+          >
+            <Zap size={18} />
+            Execute Approved Payrolls
+          </button>
+          <button
+            className="btn btn-secondary w-full mt-3 flex items-center justify-center gap-2"
+            onClick={() => navigate("/payroll-import")}
+          >
+            <FileSpreadsheet size={18} />
+            Import from CSV / XLSX
+          </button>
+          <button
+            className="btn btn-secondary w-full mt-3 flex items-center justify-center gap-2"
+            onClick={() => navigate("/payroll-editor")}
+          >
+            <ClipboardList size={18} />
+            Templates &amp; Drafts
+          </button>
+          <button
+            className="btn btn-secondary w-full mt-3 flex items-center justify-center gap-2"
+            onClick={() => navigate("/payees")}
           >
-            {loading ? (
-              <>
-                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                Processing...
-              </>
-            ) : (
-              <>
-                <Zap size={18} />
-                Execute Payroll
-              </>
-            )}
+            <Users size={18} />
+            Manage Payees
           </button>
         </SpotlightCard>
 
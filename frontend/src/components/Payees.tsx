@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useState } from "react";
+import { createPayee, deletePayee, listPayees, updatePayee } from "../lib/api";
+import type { Payee, PayeeInput } from "../lib/api";
+import { Users, Search, Loader2, AlertCircle, Pencil, Trash2, Plus, X } from "lucide-react";
+import { SpotlightCard } from "./ui/spotlight-card";
+import { motion } from "framer-motion";
+
+const EMPTY_FORM: PayeeInput = {
+  name: "",
+  email: "",
+  walletAddress: "",
+  country: "",
+  payoutPreference: "CRYPTO",
+  railCounterpartyId: "",
+  bankRail: null,
+};
+
+const BANK_RAILS: NonNullable<Payee["bankRail"]>[] = ["ACH", "FEDWIRE", "SEPA_CT", "SWIFT"];
+
+function Payees() {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<PayeeInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const fetchPayees = useCallback(async (term?: string) => {
+    setLoading(true);
+    try {
+      const response = await listPayees(term);
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to load payees");
+      }
+      setPayees(response.data.payees);
+    } catch (err: any) {
+      console.error("Payee list error:", err);
+      setError(err.message || "Failed to load payees");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPayees();
+  }, [fetchPayees]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    fetchPayees(search.trim() || undefined);
+  };
+
+  const handleEdit = (payee: Payee) => {
+    setEditingId(payee.id);
+    setError(null);
+    setForm({
+      name: payee.name,
+      email: payee.email ?? "",
+      walletAddress: payee.walletAddress,
+      country: payee.country ?? "",
+      payoutPreference: payee.payoutPreference,
+      railCounterpartyId: payee.railCounterpartyId ?? "",
+      bankRail: payee.bankRail,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = editingId ? await updatePayee(editingId, form) : await createPayee(form);
+      if (!response.success) {
+        const details = response.error.details?.map((d) => d.message).join("; ");
+        throw new Error(details || response.error.message || "Failed to save payee");
+      }
+      resetForm();
+      await fetchPayees(search.trim() || undefined);
+    } catch (err: any) {
+      console.error("Payee save error:", err);
+      setError(err.message || "Failed to save payee");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    if (!window.confirm(`Delete payee ${payee.name}?`)) return;
+    setError(null);
+
+    try {
+      const response = await deletePayee(payee.id);
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to delete payee");
+      }
+      if (editingId === payee.id) resetForm();
+      await fetchPayees(search.trim() || undefined);
+    } catch (err: any) {
+      console.error("Payee delete error:", err);
+      setError(err.message || "Failed to delete payee");
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-lg bg-navy-900/50 border border-white/10 text-white focus:border-electric-blue focus:ring-1 focus:ring-electric-blue transition-all placeholder-gray-600";
+  const labelClass = "text-sm font-medium text-gray-300 flex items-center gap-2";
+  const isFiat = form.payoutPreference === "FIAT";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4">
+      <div className="w-full max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <SpotlightCard className="overflow-hidden bg-navy-800/50">
+            <div className="p-8 border-b border-white/10 flex items-center gap-4 bg-white/5">
+              <div className="p-3 bg-electric-blue/10 rounded-xl text-electric-blue">
+                <Users size={28} />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Payees</h2>
+                <p className="text-gray-400">Recipients your payrolls can reference by name instead of wallet</p>
+              </div>
+            </div>
+
+            <div className="p-8">
+              {error && (
+                <div className="mb-6 p-5 bg-red-500/10 text-red-400 rounded-xl border border-red-500/20 flex items-start gap-3">
+                  <AlertCircle className="shrink-0 mt-0.5" size={20} />
+                  <div>
+                    <h4 className="font-bold">Error</h4>
+                    <p className="text-sm mt-1">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <label className={labelClass}>Name</label>
+                    <input
+                      className={inputClass}
+                      type="text"
+                      maxLength={200}
+                      required
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="e.g. Ada Lovelace"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Email (optional)</label>
+                    <input
+                      className={inputClass}
+                      type="email"
+                      value={form.email ?? ""}
+                      onChange={(e) => setForm({ ...form, email: e.target.value })}
+                      placeholder="ada@example.com"
+                    />
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    <label className={labelClass}>Wallet Address</label>
+                    <input
+                      className={`${inputClass} font-mono`}
+                      type="text"
+                      required
+                      value={form.walletAddress}
+                      onChange={(e) => setForm({ ...form, walletAddress: e.target.value })}
+                      placeholder="0x..."
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Bank Country (optional)</label>
+                    <input
+                      className={inputClass}
+                      type="text"
+                      maxLength={2}
+                      value={form.country ?? ""}
+                      onChange={(e) => setForm({ ...form, country: e.target.value.toUpperCase() })}
+                      placeholder="e.g. DE"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Payout Preference</label>
+                    <select
+                      className={inputClass}
+                      value={form.payoutPreference}
+                      onChange={(e) => setForm({ ...form, payoutPreference: e.target.value as PayeeInput["payoutPreference"] })}
+                    >
+                      <option value="CRYPTO">Crypto (wallet)</option>
+                      <option value="FIAT">Fiat (bank via Rail)</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Preferred Bank Rail (optional)</label>
+                    <select
+                      className={inputClass}
+                      value={form.bankRail ?? ""}
+                      onChange={(e) => setForm({ ...form, bankRail: (e.target.value || null) as Payee["bankRail"] })}
+                    >
+                      <option value="">Automatic (from country and currency)</option>
+                      {BANK_RAILS.map((rail) => (
+                        <option key={rail} value={rail}>{rail}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className={labelClass}>Rail Counterparty ID{isFiat ? "" : " (optional)"}</label>
+                    <input
+                      className={`${inputClass} font-mono`}
+                      type="text"
+                      value={form.railCounterpartyId ?? ""}
+                      onChange={(e) => setForm({ ...form, railCounterpartyId: e.target.value })}
+                      placeholder="Counterparty the fiat withdrawal is sent to"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    className="btn btn-primary flex-1 flex items-center justify-center gap-2"
+                    disabled={saving}
+                  >
+                    {saving ? <Loader2 className="animate-spin" size={20} /> : editingId ? <Pencil size={20} /> : <Plus size={20} />}
+                    {editingId ? "Save Changes" : "Add Payee"}
+                  </button>
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={resetForm}
+                      className="btn btn-secondary flex items-center justify-center gap-2"
+                    >
+                      <X size={20} />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </div>
+          </SpotlightCard>
+        </motion.div>
+
+        <SpotlightCard className="overflow-hidden mt-8 bg-navy-800/50">
+          <div className="p-6 border-b border-white/10 bg-white/5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <h3 className="font-bold text-white text-xl">Directory</h3>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <input
+                className="px-3 py-2 rounded-lg bg-navy-900/50 border border-white/10 text-sm text-white placeholder-gray-600 focus:border-electric-blue focus:ring-1 focus:ring-electric-blue"
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Name, email or wallet"
+              />
+              <button
+                type="submit"
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-electric-blue rounded-lg transition-colors border border-white/10"
+              >
+                <Search size={14} />
+                Search
+              </button>
+            </form>
+          </div>
+          <div className="p-8">
+            {loading ? (
+              <div className="h-16 bg-white/5 rounded animate-pulse"></div>
+            ) : payees.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p className="text-sm">No payees yet</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 uppercase tracking-wider text-xs border-b border-white/10">
+                      <th className="py-3 pr-4">Payee</th>
+                      <th className="py-3 pr-4">Wallet</th>
+                      <th className="py-3 pr-4">Payout</th>
+                      <th className="py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payees.map((payee) => (
+                      <tr key={payee.id} className="border-b border-white/5 align-top">
+                        <td className="py-3 pr-4">
+                          <span className="block text-white">{payee.name}</span>
+                          {payee.email && <span className="text-xs text-gray-500">{payee.email}</span>}
+                        </td>
+                        <td className="py-3 pr-4 font-mono text-gray-300 break-all">{payee.walletAddress}</td>
+                        <td className="py-3 pr-4 text-gray-300 whitespace-nowrap">
+                          {payee.payoutPreference}
+                          {payee.country && <span className="text-xs text-gray-500"> · {payee.country}</span>}
+                          {payee.bankRail && <span className="text-xs text-gray-500"> · {payee.bankRail}</span>}
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleEdit(payee)}
+                            className="p-2 text-gray-400 hover:text-electric-blue transition-colors"
+                            title="Edit payee"
+                          >
+                            <Pencil size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(payee)}
+                            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                            title="Delete payee"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </SpotlightCard>
+      </div>
+    </div>
+  );
+}
+
+export default Payees;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { executePayroll, getPaymentProofFromFacilitator, checkFacilitatorHealth } from "../lib/api";
+import { executePayroll, retryPayroll, getPaymentProofFromFacilitator, checkFacilitatorHealth } from "../lib/api";
 import { getApiBase } from "../utils/api-config.js";
 import type { MeteringInfo } from "../App";
 import { CreditCard, CheckCircle2, AlertCircle, Loader2, X, ArrowRight, ShieldCheck, Wifi, WifiOff } from "lucide-react";
@@ -7,15 +7,17 @@ import { SpotlightCard } from "./ui/spotlight-card";
 import { motion } from "framer-motion";
 
 type PaymentFlowProps = {
+  payrollId: string; // APPROVED payroll to execute, or retryable payroll to retry, once paid
   metering: MeteringInfo;
   meterId?: string;
+  action?: "execute" | "retry"; // Request paid for (default execute)
   onSuccess: (payrollId: string) => void;
   onCancel: () => void;
 };
 
 type FlowStep = "review" | "getting-proof" | "validating" | "executing" | "success";
 
-function PaymentFlow({ metering, meterId = "payroll_execute", onSuccess, onCancel }: PaymentFlowProps) {
+function PaymentFlow({ payrollId, metering, meterId = "payroll_execute", action = "execute", onSuccess, onCancel }: PaymentFlowProps) {
   const [step, setStep] = useState<FlowStep>("review");
   const [error, setError] = useState<string | null>(null);
   const [facilitatorStatus, setFacilitatorStatus] = useState<"checking" | "online" | "offline">("checking");
@@ -51,10 +53,10 @@ function PaymentFlow({ metering, meterId = "payroll_execute", onSuccess, onCance
       // Small delay to show validation step
       await new Promise((resolve) => setTimeout(resolve, 800));
       
-      // Execute payroll with payment proof
+      // Execute (or retry) payroll with payment proof
       setStep("executing");
-      console.log("Executing payroll with proof...");
-      const result = await executePayroll(proof);
+      console.log(`Sending payroll ${action} with proof...`);
+      const result = action === "retry" ? await retryPayroll(payrollId, proof) : await executePayroll(proof, payrollId);
       console.log("Payroll execution result:", result);
 
       if (result.success) {
@@ -178,7 +180,7 @@ function PaymentFlow({ metering, meterId = "payroll_execute", onSuccess, onCance
                 className="flex flex-col items-center gap-2 text-gray-300"
               >
                 <Loader2 className="animate-spin text-green-500" size={28} />
-                <span className="text-sm font-medium">Executing payroll...</span>
+                <span className="text-sm font-medium">{action === "retry" ? "Retrying payroll..." : "Executing payroll..."}</span>
               </motion.div>
             )}
 
@@ -228,7 +230,7 @@ function PaymentFlow({ metering, meterId = "payroll_execute", onSuccess, onCance
                 disabled={facilitatorStatus === "checking"}
               >
                 <CreditCard size={18} />
-                Pay & Execute
+                {action === "retry" ? "Pay & Retry" : "Pay & Execute"}
                 <ArrowRight size={16} />
               </button>
             </div>
@@ -1,16 +1,98 @@
 import { useState, useEffect } from "react";
-import { getPayroll, PayrollDetailResponse } from "../lib/api";
-import { ArrowLeft, CheckCircle, Clock, XCircle, DollarSign, Users, Calendar, ExternalLink } from "lucide-react";
+import { downloadPayrollExport, downloadPayrollPayslips, downloadPayslip, getPayroll, getPayrollProgress, getPayrollTimeline, retryPayroll, ApiError, MeteringInfo, PayrollDetailResponse, PayrollEvent, PayrollExportFormat, PayrollProgress, ACTIVE_PAYROLL_JOB_STATUSES, RETRYABLE_PAYROLL_STATUSES, SETTLED_PAYMENT_STATUSES } from "../lib/api";
+import PaymentFlow from "./PaymentFlow";
+import { ArrowLeft, CheckCircle, Clock, XCircle, DollarSign, Users, Calendar, ExternalLink, AlertTriangle, RotateCcw, History, Loader2, Download, FileText, Copy } from "lucide-react";
+
+const EXPORT_FORMATS: Array<{ format: PayrollExportFormat; label: string }> = [
+  { format: "csv", label: "CSV" },
+  { format: "iif", label: "QuickBooks" },
+  { format: "xero", label: "Xero" },
+  { format: "journal", label: "Journal" },
+];
 
 type PayrollDetailProps = {
   payrollId: string;
   onBack: () => void;
+  onClone?: (payrollId: string) => void; // Open a new draft pre-filled from this payroll
 };
 
-function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
+function PayrollDetail({ payrollId, onBack, onClone }: PayrollDetailProps) {
   const [payroll, setPayroll] = useState<PayrollDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  // x402 fee of the retry being paid
+  const [retryPayment, setRetryPayment] = useState<MeteringInfo | null>(null);
+  const [events, setEvents] = useState<PayrollEvent[]>([]);
+  const [progress, setProgress] = useState<PayrollProgress | null>(null);
+  // Bumped after a retry is queued to restart polling
+  const [pollKey, setPollKey] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Download the payroll in an accounting format
+  const handleExport = async (format: PayrollExportFormat) => {
+    setExportError(null);
+    const result = await downloadPayrollExport(payrollId, format).catch((err: Error) => ({
+      success: false as const,
+      status: 0,
+      error: { error: "NETWORK_ERROR", message: err.message },
+    }));
+    if (!result.success) {
+      setExportError(result.error.message || "Failed to export payroll");
+    }
+  };
+
+  // Download one payslip (paymentId) or a zip with the payslips of every settled payment
+  const handlePayslips = async (paymentId?: string) => {
+    setExportError(null);
+    const download = paymentId ? downloadPayslip(payrollId, paymentId) : downloadPayrollPayslips(payrollId);
+    const result = await download.catch((err: Error) => ({
+      success: false as const,
+      status: 0,
+      error: { error: "NETWORK_ERROR", message: err.message },
+    }));
+    if (!result.success) {
+      setExportError(result.error.message || "Failed to download payslips");
+    }
+  };
+
+  // Re-attempt failed or unpaid payments
+  const handleRetry = async () => {
+    setRetrying(true);
+    setRetryError(null);
+    // Without X-PAYMENT the backend answers 402 with the retry fee; pay it in PaymentFlow
+    const result = await retryPayroll(payrollId).catch((err: Error) => ({
+      success: false as const,
+      status: 0,
+      error: { error: "NETWORK_ERROR", message: err.message } as ApiError,
+    }));
+    if (result.success) {
+      setPollKey((key) => key + 1);
+    } else if (result.status === 402 && result.error.metering) {
+      setRetryPayment({ ...result.error.metering, meterId: result.error.meterId || "payroll_execute" });
+    } else {
+      setRetryError(result.error.message || "Failed to retry payroll");
+    }
+    setRetrying(false);
+  };
+
+  const handleRetryPaid = () => {
+    setRetryPayment(null);
+    setPollKey((key) => key + 1);
+  };
+
+  // Fetch the status history whenever the payroll changes (requires a company session)
+  useEffect(() => {
+    if (!payroll) return;
+    getPayrollTimeline(payrollId)
+      .then((result) => {
+        if (result.success) {
+          setEvents(result.data.events);
+        }
+      })
+      .catch((err) => console.error("Payroll timeline error:", err));
+  }, [payrollId, payroll?.status, payroll?.updatedAt]);
 
   // Fetch payroll data
   useEffect(() => {
@@ -27,20 +109,27 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
 
     fetchPayroll();
 
-    // Polling for status updates (every 3 seconds while not PAID/FAILED)
+    // Polling for job progress (every 3 seconds while the job is queued or running)
     const interval = setInterval(async () => {
-      const result = await getPayroll(payrollId);
+      const [result, progressResult] = await Promise.all([
+        getPayroll(payrollId),
+        getPayrollProgress(payrollId),
+      ]);
       if (result.success) {
         setPayroll(result.data);
-        // Stop polling if final state
-        if (result.data.status === "PAID" || result.data.status === "FAILED") {
+      }
+      if (progressResult.success) {
+        setProgress(progressResult.data);
+        // Stop polling once the job has finished
+        const job = progressResult.data.job;
+        if (!job || !ACTIVE_PAYROLL_JOB_STATUSES.includes(job.status)) {
           clearInterval(interval);
         }
       }
     }, 3000);
 
     return () => clearInterval(interval);
-  }, [payrollId]);
+  }, [payrollId, pollKey]);
 
   // Format currency
   const formatCurrency = (amount: number, currency: string) => {
@@ -60,6 +149,8 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
         return <span className="px-3 py-1 rounded-full bg-blue-50 text-blue-600 border border-blue-100 text-sm font-medium flex items-center gap-2"><Clock size={14} className="animate-pulse" /> Processing</span>;
       case "PAID":
         return <span className="px-3 py-1 rounded-full bg-green-50 text-green-600 border border-green-100 text-sm font-medium flex items-center gap-2"><CheckCircle size={14} /> Completed</span>;
+      case "PARTIALLY_PAID":
+        return <span className="px-3 py-1 rounded-full bg-orange-50 text-orange-600 border border-orange-100 text-sm font-medium flex items-center gap-2"><AlertTriangle size={14} /> Partially Paid</span>;
       case "FAILED":
         return <span className="px-3 py-1 rounded-full bg-red-50 text-red-600 border border-red-100 text-sm font-medium flex items-center gap-2"><XCircle size={14} /> Failed</span>;
       default:
@@ -67,6 +158,19 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
     }
   };
 
+  if (retryPayment) {
+    return (
+      <PaymentFlow
+        payrollId={payrollId}
+        metering={retryPayment}
+        meterId={retryPayment.meterId || "payroll_execute"}
+        action="retry"
+        onSuccess={handleRetryPaid}
+        onCancel={() => setRetryPayment(null)}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <div className="min-h-[400px] flex flex-col items-center justify-center">
@@ -105,7 +209,18 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
           <ArrowLeft size={20} />
           Back to Dashboard
         </button>
-        <h1 className="text-2xl font-bold text-slate-900">Payroll Details</h1>
+        <div className="flex items-center gap-4">
+          {onClone && (
+            <button
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg font-medium transition-colors"
+              onClick={() => onClone(payroll.id)}
+            >
+              <Copy size={16} />
+              Clone
+            </button>
+          )}
+          <h1 className="text-2xl font-bold text-slate-900">Payroll Details</h1>
+        </div>
       </div>
 
       {/* Summary Card */}
@@ -161,9 +276,54 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
             <Clock size={14} />
           <span>Updated: {new Date(payroll.updatedAt).toLocaleString()}</span>
           </div>
+          <div className="flex items-center gap-2 md:ml-auto">
+            <Download size={14} />
+            <span>Export:</span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                className="px-2 py-0.5 rounded border border-slate-200 bg-white hover:bg-slate-100 text-slate-700 text-xs font-medium transition-colors"
+                onClick={() => handleExport(format)}
+              >
+                {label}
+              </button>
+            ))}
+            {payroll.payments.some((p) => SETTLED_PAYMENT_STATUSES.includes(p.status)) && (
+              <button
+                className="px-2 py-0.5 rounded border border-slate-200 bg-white hover:bg-slate-100 text-slate-700 text-xs font-medium transition-colors"
+                onClick={() => handlePayslips()}
+              >
+                Payslips (zip)
+              </button>
+            )}
+          </div>
+          {exportError && <span className="w-full text-red-600">{exportError}</span>}
         </div>
       </div>
 
+      {/* Job Progress */}
+      {progress?.job && ACTIVE_PAYROLL_JOB_STATUSES.includes(progress.job.status) && (
+        <div className="mb-8 bg-blue-50 border border-blue-100 rounded-xl p-4 flex items-start gap-3">
+          <Loader2 size={20} className="text-blue-600 animate-spin shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <h3 className="font-bold text-blue-800 mb-1">
+              {progress.job.status === "QUEUED" ? "Queued" : "Running"}: {progress.job.step.replace(/_/g, " ").toLowerCase()}
+            </h3>
+            <p className="text-blue-700">
+              {progress.payments.settled} of {progress.payments.total} payments settled
+              {progress.job.attempts > 1 && ` · attempt ${progress.job.attempts} of ${progress.job.maxAttempts}`}
+            </p>
+            {progress.job.lastError && <p className="text-red-600 mt-1 break-all">{progress.job.lastError}</p>}
+          </div>
+        </div>
+      )}
+      {progress?.job?.status === "FAILED" && progress.job.lastError && (
+        <div className="mb-8 bg-red-50 border border-red-100 rounded-xl p-4 text-sm">
+          <h3 className="font-bold text-red-800 mb-1">Execution stopped after {progress.job.attempts} attempts</h3>
+          <p className="text-red-700 break-all">{progress.job.lastError}</p>
+        </div>
+      )}
+
       {/* Payments Table */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="p-6 border-b border-slate-100">
@@ -189,16 +349,53 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
                   </td>
                   <td className="px-6 py-4 text-right font-medium text-slate-900">
                   {formatCurrency(payment.amount, payment.currency)}
+                  {payment.fxRate && payment.settlementAmount !== undefined && (
+                    <span className="block text-xs font-normal text-slate-400">
+                      {formatCurrency(payment.settlementAmount, payroll.currency)} at {payment.fxRate}
+                    </span>
+                  )}
+                  {payment.lineItems && payment.lineItems.length > 0 && (
+                    <span className="block mt-1 text-xs font-normal text-slate-400">
+                      {payment.lineItems.map((item, index) => (
+                        <span key={index} className="block">
+                          {item.description}: {item.type === "WITHHOLDING" || item.type === "DEDUCTION" ? "-" : ""}
+                          {formatCurrency(item.amount, payment.currency)}
+                        </span>
+                      ))}
+                    </span>
+                  )}
                   </td>
                   <td className="px-6 py-4 text-right">
                     <div className="flex justify-end">
                       {getStatusBadge(payment.status)}
               </div>
+                    {payment.failureReason && (
+                      <span className="block mt-1 text-xs text-red-500" title={payment.failureReason}>
+                        {payment.failureReason}
+                        {payment.attempts ? ` (${payment.attempts} attempt${payment.attempts === 1 ? "" : "s"})` : ""}
+                      </span>
+                    )}
+                    {payment.railWithdrawalId && (
+                      <span className="block mt-1 text-xs text-slate-400 font-mono" title={payment.railWithdrawalId}>
+                        {payment.withdrawalRail ?? "Rail"} {payment.railStatus}: {payment.railWithdrawalId}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-right">
-                    <button className="text-slate-400 hover:text-blue-600 transition-colors">
-                      <ExternalLink size={16} />
-                    </button>
+                    <div className="flex justify-end gap-3">
+                      {SETTLED_PAYMENT_STATUSES.includes(payment.status) && (
+                        <button
+                          className="text-slate-400 hover:text-blue-600 transition-colors"
+                          onClick={() => handlePayslips(payment.id)}
+                          title="Download payslip (PDF)"
+                        >
+                          <FileText size={16} />
+                        </button>
+                      )}
+                      <button className="text-slate-400 hover:text-blue-600 transition-colors">
+                        <ExternalLink size={16} />
+                      </button>
+                    </div>
                   </td>
                 </tr>
             ))}
@@ -207,6 +404,56 @@ function PayrollDetail({ payrollId, onBack }: PayrollDetailProps) {
         </div>
       </div>
 
+      {/* Timeline */}
+      {events.length > 0 && (
+        <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100 flex items-center gap-2">
+            <History size={18} className="text-slate-400" />
+            <h2 className="font-bold text-slate-900">Timeline</h2>
+          </div>
+          <ol className="divide-y divide-slate-100">
+            {events.map((event) => (
+              <li key={event.id} className="px-6 py-3 flex flex-col md:flex-row md:items-center justify-between gap-1 text-sm">
+                <div>
+                  <span className="font-medium text-slate-900">
+                    {event.entity === "SWAP"
+                      ? `Treasury swap ${event.toStatus.toLowerCase()}`
+                      : `${event.entity === "PAYMENT" ? "Payment" : "Payroll"} ${event.fromStatus ? `${event.fromStatus} → ${event.toStatus}` : `created as ${event.toStatus}`}`}
+                  </span>
+                  {event.paymentId && <span className="ml-2 font-mono text-xs text-slate-400">{event.paymentId}</span>}
+                  {event.reason && <span className="block text-slate-500 break-all">{event.reason}</span>}
+                </div>
+                <div className="text-xs text-slate-400 md:text-right shrink-0">
+                  <span className="block">{event.actor}</span>
+                  <span>{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Retry */}
+      {RETRYABLE_PAYROLL_STATUSES.includes(payroll.status) && (
+        <div className="mt-6 bg-orange-50 border border-orange-100 rounded-xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-orange-800 mb-1">Some payments are not settled</h3>
+            <p className="text-orange-700 text-sm">
+              Retrying only re-attempts failed or unpaid payments; settled payments are never paid twice.
+            </p>
+            {retryError && <p className="text-red-600 text-sm mt-2">{retryError}</p>}
+          </div>
+          <button
+            className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-orange-200 hover:bg-orange-100 text-orange-700 rounded-lg font-medium transition-colors disabled:opacity-50 shrink-0"
+            onClick={handleRetry}
+            disabled={retrying}
+          >
+            <RotateCcw size={16} className={retrying ? "animate-spin" : ""} />
+            {retrying ? "Retrying..." : "Retry Failed Payments"}
+          </button>
+        </div>
+      )}
+
       {/* Success Message */}
       {payroll.status === "PAID" && (
         <div className="mt-6 bg-green-50 border border-green-100 rounded-xl p-4 flex items-start gap-3 animate-fade-in">
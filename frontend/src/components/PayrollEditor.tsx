@@ -0,0 +1,635 @@
+import { useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  clonePayroll,
+  createPayrollTemplate,
+  deletePayrollTemplate,
+  getPayrollTemplate,
+  listPayees,
+  listPayrollTemplates,
+  simulatePayroll,
+  submitPayrollDraft,
+  updatePayrollTemplate,
+} from "../lib/api";
+import type {
+  ApiError,
+  Payee,
+  PaymentLineItem,
+  PayrollDetailResponse,
+  PayrollRequest,
+  PayrollSimulationReport,
+  PayrollTemplate,
+} from "../lib/api";
+import { ClipboardList, Loader2, CheckCircle2, AlertCircle, ArrowLeft, FlaskConical, Plus, Save, Trash2, X } from "lucide-react";
+import { SpotlightCard } from "./ui/spotlight-card";
+import { motion } from "framer-motion";
+
+// Currencies a line can be paid in; converted to the payroll currency at execution
+const PAYOUT_CURRENCIES = ["USD", "EUR", "GBP", "MXN"];
+
+type EditorItem = {
+  type: PaymentLineItem["type"];
+  description: string;
+  amount: string; // Major units, as typed
+};
+
+// Payroll line being edited (amounts in major units, as typed)
+type EditorLine = {
+  key: number;
+  payeeId: string; // Empty for a line paid to a wallet address
+  recipient: string;
+  amount: string;
+  currency: string;
+  items: EditorItem[] | null;
+};
+
+let nextLineKey = 0;
+
+function toMajor(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function toCents(amount: string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function formatCents(cents: number | null, currency: string): string {
+  if (cents === null || Number.isNaN(cents)) return "—";
+  return `${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+// Net of an itemized line: earnings and reimbursements less deductions
+function itemsNet(items: EditorItem[]): number {
+  return items.reduce((sum, item) => sum + (item.type === "DEDUCTION" ? -1 : 1) * toCents(item.amount), 0);
+}
+
+function toEditorLines(payments: PayrollRequest["payments"], currency: string): EditorLine[] {
+  return payments.map((p) => ({
+    key: nextLineKey++,
+    payeeId: p.payeeId ?? "",
+    recipient: p.recipient ?? "",
+    amount: toMajor(p.amount),
+    currency: p.currency ?? currency,
+    items: p.items?.map((item) => ({ type: item.type, description: item.description, amount: toMajor(item.amount) })) ?? null,
+  }));
+}
+
+function errorMessage(error: ApiError, fallback: string): string {
+  const details = (error.details ?? []).map(
+    (d) => `${d.index !== undefined ? `Line ${d.index + 1}: ` : ""}${d.message}`,
+  );
+  return [error.message || fallback, ...details].join("\n");
+}
+
+function PayrollEditor() {
+  const [searchParams] = useSearchParams();
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [templates, setTemplates] = useState<PayrollTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const [sourcePayrollId, setSourcePayrollId] = useState<string | null>(null);
+  const [currency, setCurrency] = useState("USD");
+  const [memo, setMemo] = useState("");
+  const [lines, setLines] = useState<EditorLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [simulation, setSimulation] = useState<PayrollSimulationReport | null>(null);
+  const [draft, setDraft] = useState<(PayrollDetailResponse & { approvalsRequired: number }) | null>(null);
+
+  const resetResults = () => {
+    setSimulation(null);
+    setDraft(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const loadTemplate = useCallback(async (id: string) => {
+    const response = await getPayrollTemplate(id);
+    if (!response.success) {
+      throw new Error(response.error.message || "Failed to load payroll template");
+    }
+    const template = response.data;
+    setTemplateId(template.id);
+    setTemplateName(template.name);
+    setSourcePayrollId(null);
+    setCurrency(template.currency);
+    setMemo(template.memo ?? "");
+    setLines(toEditorLines(template.payments, template.currency));
+  }, []);
+
+  const loadClone = useCallback(async (payrollId: string) => {
+    const response = await clonePayroll(payrollId);
+    if (!response.success) {
+      throw new Error(response.error.message || "Failed to clone payroll");
+    }
+    const clone = response.data;
+    setTemplateId(null);
+    setTemplateName("");
+    setSourcePayrollId(clone.sourcePayrollId);
+    setCurrency(clone.currency);
+    setMemo(clone.memo ?? "");
+    setLines(toEditorLines(clone.payments, clone.currency));
+    if (clone.skippedPayments > 0) {
+      setNotice(`${clone.skippedPayments} payment(s) without a payee or recipient were not copied`);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [payeeResponse, templateResponse] = await Promise.all([listPayees(), listPayrollTemplates()]);
+        if (!payeeResponse.success) {
+          throw new Error(payeeResponse.error.message || "Failed to load payees");
+        }
+        if (!templateResponse.success) {
+          throw new Error(templateResponse.error.message || "Failed to load payroll templates");
+        }
+        setPayees(payeeResponse.data.payees);
+        setTemplates(templateResponse.data.templates);
+
+        const template = searchParams.get("template");
+        const clone = searchParams.get("clone");
+        if (template) {
+          await loadTemplate(template);
+        } else if (clone) {
+          await loadClone(clone);
+        }
+      } catch (err: any) {
+        console.error("Payroll editor error:", err);
+        setError(err.message || "Failed to load payroll editor");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [searchParams, loadTemplate, loadClone]);
+
+  const handleSelectTemplate = async (id: string) => {
+    resetResults();
+    if (!id) {
+      setTemplateId(null);
+      setTemplateName("");
+      setSourcePayrollId(null);
+      setMemo("");
+      setLines([]);
+      return;
+    }
+    try {
+      await loadTemplate(id);
+    } catch (err: any) {
+      console.error("Payroll template error:", err);
+      setError(err.message || "Failed to load payroll template");
+    }
+  };
+
+  const updateLine = (key: number, change: Partial<EditorLine>) => {
+    resetResults();
+    setLines((current) => current.map((line) => (line.key === key ? { ...line, ...change } : line)));
+  };
+
+  const updateItem = (key: number, position: number, amount: string) => {
+    resetResults();
+    setLines((current) =>
+      current.map((line) =>
+        line.key === key && line.items
+          ? { ...line, items: line.items.map((item, idx) => (idx === position ? { ...item, amount } : item)) }
+          : line,
+      ),
+    );
+  };
+
+  const addLine = () => {
+    resetResults();
+    setLines((current) => [
+      ...current,
+      { key: nextLineKey++, payeeId: payees[0]?.id ?? "", recipient: "", amount: "", currency, items: null },
+    ]);
+  };
+
+  const removeLine = (key: number) => {
+    resetResults();
+    setLines((current) => current.filter((line) => line.key !== key));
+  };
+
+  const buildPayroll = (): PayrollRequest => ({
+    currency,
+    memo: memo.trim() || undefined,
+    payments: lines.map((line) => ({
+      ...(line.payeeId ? { payeeId: line.payeeId } : { recipient: line.recipient.trim() }),
+      amount: line.items ? itemsNet(line.items) : toCents(line.amount),
+      currency: line.currency,
+      ...(line.items
+        ? { items: line.items.map((item) => ({ type: item.type, description: item.description, amount: toCents(item.amount) })) }
+        : {}),
+    })),
+  });
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) {
+      setError("Enter a template name first");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const template = { ...buildPayroll(), name: templateName.trim() };
+      const response = templateId
+        ? await updatePayrollTemplate(templateId, template)
+        : await createPayrollTemplate(template);
+      if (!response.success) {
+        throw new Error(errorMessage(response.error, "Failed to save payroll template"));
+      }
+      setTemplateId(response.data.id);
+      setTemplates((current) =>
+        [...current.filter((t) => t.id !== response.data.id), response.data].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+      setNotice(`Template "${response.data.name}" saved`);
+    } catch (err: any) {
+      console.error("Payroll template save error:", err);
+      setError(err.message || "Failed to save payroll template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!templateId || !window.confirm(`Delete template "${templateName}"?`)) return;
+
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await deletePayrollTemplate(templateId);
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to delete payroll template");
+      }
+      setTemplates((current) => current.filter((t) => t.id !== templateId));
+      setTemplateId(null);
+      setNotice("Template deleted; the lines below are kept as a draft");
+    } catch (err: any) {
+      console.error("Payroll template delete error:", err);
+      setError(err.message || "Failed to delete payroll template");
+    }
+  };
+
+  const handleSimulate = async () => {
+    setSimulating(true);
+    setError(null);
+
+    try {
+      const response = await simulatePayroll(buildPayroll());
+      if (!response.success) {
+        throw new Error(errorMessage(response.error, "Failed to simulate payroll"));
+      }
+      setSimulation(response.data);
+    } catch (err: any) {
+      console.error("Payroll simulation error:", err);
+      setError(err.message || "Failed to simulate payroll");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleSubmitForApproval = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await submitPayrollDraft(buildPayroll());
+      if (!response.success) {
+        throw new Error(errorMessage(response.error, "Failed to submit payroll for approval"));
+      }
+      setDraft(response.data);
+    } catch (err: any) {
+      console.error("Payroll submission error:", err);
+      setError(err.message || "Failed to submit payroll for approval");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-lg bg-navy-900/50 border border-white/10 text-white focus:border-electric-blue focus:ring-1 focus:ring-electric-blue transition-all placeholder-gray-600";
+  const cellInputClass = "w-full px-3 py-2 rounded-lg bg-navy-900/50 border border-white/10 text-white focus:border-electric-blue transition-all placeholder-gray-600";
+  const labelClass = "text-sm font-medium text-gray-300 flex items-center gap-2";
+
+  const totals = lines.reduce<Record<string, number>>((acc, line) => {
+    const amount = line.items ? itemsNet(line.items) : toCents(line.amount);
+    acc[line.currency] = (acc[line.currency] ?? 0) + (Number.isNaN(amount) ? 0 : amount);
+    return acc;
+  }, {});
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4">
+      <div className="w-full max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <SpotlightCard className="overflow-hidden bg-navy-800/50">
+            <div className="p-8 border-b border-white/10 flex items-center gap-4 bg-white/5">
+              <div className="p-3 bg-electric-blue/10 rounded-xl text-electric-blue">
+                <ClipboardList size={28} />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Payroll Templates &amp; Drafts</h2>
+                <p className="text-gray-400">
+                  {sourcePayrollId
+                    ? <>Cloned from payroll <span className="font-mono">{sourcePayrollId}</span>; adjust the amounts before submitting</>
+                    : "Start from a saved template, adjust the amounts and submit for approval"}
+                </p>
+              </div>
+            </div>
+
+            <div className="p-8 space-y-6">
+              {error && (
+                <div className="p-5 bg-red-500/10 text-red-400 rounded-xl border border-red-500/20 flex items-start gap-3">
+                  <AlertCircle className="shrink-0 mt-0.5" size={20} />
+                  <div>
+                    <h4 className="font-bold">Error</h4>
+                    <p className="text-sm mt-1 whitespace-pre-line">{error}</p>
+                  </div>
+                </div>
+              )}
+              {notice && (
+                <div className="p-4 bg-electric-blue/10 text-gray-300 rounded-lg border border-electric-blue/20 text-sm">
+                  {notice}
+                </div>
+              )}
+
+              {loading ? (
+                <div className="flex items-center justify-center py-12 text-gray-400 gap-2">
+                  <Loader2 className="animate-spin" size={20} />
+                  Loading...
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <label className={labelClass}>Template</label>
+                      <select
+                        className={inputClass}
+                        value={templateId ?? ""}
+                        onChange={(e) => handleSelectTemplate(e.target.value)}
+                      >
+                        <option value="">New draft</option>
+                        {templates.map((t) => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className={labelClass}>Template name</label>
+                      <input
+                        className={inputClass}
+                        type="text"
+                        value={templateName}
+                        maxLength={200}
+                        onChange={(e) => setTemplateName(e.target.value)}
+                        placeholder="e.g. Monthly engineering payroll"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400 uppercase tracking-wider text-xs border-b border-white/10">
+                          <th className="py-3 pr-4">#</th>
+                          <th className="py-3 pr-4">Payee</th>
+                          <th className="py-3 pr-4">Amount</th>
+                          <th className="py-3 pr-4">Currency</th>
+                          <th className="py-3"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lines.map((line, index) => (
+                          <tr key={line.key} className="border-b border-white/5 align-top">
+                            <td className="py-3 pr-4 text-gray-500">{index + 1}</td>
+                            <td className="py-3 pr-4 space-y-2">
+                              <select
+                                className={cellInputClass}
+                                value={line.payeeId}
+                                onChange={(e) => updateLine(line.key, { payeeId: e.target.value })}
+                              >
+                                {payees.map((p) => (
+                                  <option key={p.id} value={p.id}>{p.name}</option>
+                                ))}
+                                {line.payeeId && !payees.some((p) => p.id === line.payeeId) && (
+                                  <option value={line.payeeId}>Unknown payee ({line.payeeId})</option>
+                                )}
+                                <option value="">Wallet address</option>
+                              </select>
+                              {!line.payeeId && (
+                                <input
+                                  className={`${cellInputClass} font-mono`}
+                                  type="text"
+                                  value={line.recipient}
+                                  onChange={(e) => updateLine(line.key, { recipient: e.target.value })}
+                                  placeholder="0x..."
+                                />
+                              )}
+                            </td>
+                            <td className="py-3 pr-4">
+                              {line.items ? (
+                                <div className="space-y-2">
+                                  {line.items.map((item, position) => (
+                                    <div key={position} className="flex items-center gap-2">
+                                      <span className="text-gray-400 text-xs w-40 truncate" title={item.description}>
+                                        {item.type === "DEDUCTION" ? "−" : "+"} {item.description}
+                                      </span>
+                                      <input
+                                        className={cellInputClass}
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={item.amount}
+                                        onChange={(e) => updateItem(line.key, position, e.target.value)}
+                                      />
+                                    </div>
+                                  ))}
+                                  <p className="text-white text-right">
+                                    Net {formatCents(itemsNet(line.items), line.currency)}
+                                  </p>
+                                </div>
+                              ) : (
+                                <input
+                                  className={cellInputClass}
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={line.amount}
+                                  onChange={(e) => updateLine(line.key, { amount: e.target.value })}
+                                  placeholder="0.00"
+                                />
+                              )}
+                            </td>
+                            <td className="py-3 pr-4">
+                              <select
+                                className={cellInputClass}
+                                value={line.currency}
+                                onChange={(e) => updateLine(line.key, { currency: e.target.value })}
+                              >
+                                {PAYOUT_CURRENCIES.map((c) => (
+                                  <option key={c} value={c}>{c}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="py-3 text-right">
+                              <button
+                                type="button"
+                                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                                onClick={() => removeLine(line.key)}
+                                title="Remove line"
+                              >
+                                <X size={16} />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <button
+                      type="button"
+                      onClick={addLine}
+                      className="btn btn-secondary flex items-center gap-2"
+                    >
+                      <Plus size={18} />
+                      Add Line
+                    </button>
+                    <span className="text-white font-medium">
+                      Total:{" "}
+                      {Object.entries(totals)
+                        .map(([c, total]) => formatCents(total, c))
+                        .join(" + ") || formatCents(0, currency)}
+                    </span>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className={labelClass}>Memo (optional)</label>
+                    <input
+                      className={inputClass}
+                      type="text"
+                      value={memo}
+                      maxLength={500}
+                      onChange={(e) => setMemo(e.target.value)}
+                      placeholder="e.g. March 2025 payroll"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <button
+                      type="button"
+                      onClick={handleSaveTemplate}
+                      className="btn btn-secondary w-full flex items-center justify-center gap-2"
+                      disabled={saving || lines.length === 0}
+                    >
+                      {saving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                      {templateId ? "Update Template" : "Save as Template"}
+                    </button>
+                    {templateId ? (
+                      <button
+                        type="button"
+                        onClick={handleDeleteTemplate}
+                        className="btn btn-secondary w-full flex items-center justify-center gap-2"
+                      >
+                        <Trash2 size={20} />
+                        Delete Template
+                      </button>
+                    ) : (
+                      <div />
+                    )}
+                  </div>
+
+                  <button
+                    type="button"
+                    onClick={handleSimulate}
+                    className="btn btn-secondary w-full flex items-center justify-center gap-2"
+                    disabled={simulating || lines.length === 0}
+                  >
+                    {simulating ? <Loader2 className="animate-spin" size={20} /> : <FlaskConical size={20} />}
+                    {simulating ? "Simulating..." : "Dry Run"}
+                  </button>
+
+                  {simulation && (
+                    <div
+                      className={`p-4 rounded-lg border text-sm space-y-2 ${
+                        simulation.feasible
+                          ? "bg-green-500/10 border-green-500/20 text-green-400"
+                          : "bg-yellow-500/10 border-yellow-500/20 text-yellow-400"
+                      }`}
+                    >
+                      <p className="font-semibold">
+                        {simulation.feasible ? "Payroll can be executed" : "Payroll would not fully execute"}
+                      </p>
+                      <p>Treasury settlement: {formatCents(simulation.total, simulation.currency)}</p>
+                      {simulation.lines
+                        .filter((l) => !l.valid)
+                        .map((l) => (
+                          <p key={l.index}>
+                            Line {l.index + 1}: {l.errors.map((e) => e.message).join("; ")}
+                          </p>
+                        ))}
+                      {simulation.treasury.map((t) => (
+                        <p key={t.token}>
+                          Treasury {t.currency}: {t.available} available, {t.required} required
+                          {t.sufficient ? "" : " (insufficient)"}
+                        </p>
+                      ))}
+                      {simulation.warnings.map((w, idx) => (
+                        <p key={idx}>{w}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={handleSubmitForApproval}
+                    className="btn btn-primary btn-large w-full flex items-center justify-center gap-2"
+                    disabled={submitting || draft !== null || lines.length === 0}
+                  >
+                    {submitting ? (
+                      <>
+                        <Loader2 className="animate-spin" size={24} />
+                        Submitting...
+                      </>
+                    ) : (
+                      <>
+                        Submit for Approval
+                        <ArrowLeft className="rotate-180" size={20} />
+                      </>
+                    )}
+                  </button>
+
+                  {draft && (
+                    <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+                      <p className="text-sm text-green-400">
+                        <CheckCircle2 size={16} className="inline mr-2" />
+                        Payroll <span className="font-mono">{draft.id}</span> submitted for approval
+                        ({draft.approvalsRequired} approval{draft.approvalsRequired === 1 ? "" : "s"} required).
+                        Track it in the approval inbox on the treasury dashboard.
+                      </p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </SpotlightCard>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export default PayrollEditor;
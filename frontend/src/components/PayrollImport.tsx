@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { importPayrollFile, simulatePayroll, submitPayrollDraft } from "../lib/api";
+import type { PayrollImportReport, PayrollDetailResponse, PayrollSimulationReport } from "../lib/api";
+import { FileSpreadsheet, Upload, Loader2, CheckCircle2, AlertCircle, ArrowLeft, FlaskConical } from "lucide-react";
+import { SpotlightCard } from "./ui/spotlight-card";
+import { motion } from "framer-motion";
+
+function formatCents(cents: number | null, currency: string): string {
+  if (cents === null) return "—";
+  return `${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+function PayrollImport() {
+  const [file, setFile] = useState<File | null>(null);
+  const [memo, setMemo] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<PayrollImportReport | null>(null);
+  const [draft, setDraft] = useState<(PayrollDetailResponse & { approvalsRequired: number }) | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<PayrollSimulationReport | null>(null);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setError("Select a CSV or XLSX file first");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setReport(null);
+    setDraft(null);
+    setSimulation(null);
+
+    try {
+      const response = await importPayrollFile(file);
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to import payroll file");
+      }
+      setReport(response.data);
+    } catch (err: any) {
+      console.error("Payroll import error:", err);
+      setError(err.message || "Failed to import payroll file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSimulate = async () => {
+    if (!report?.draft) return;
+
+    setSimulating(true);
+    setError(null);
+
+    try {
+      const response = await simulatePayroll(report.draft);
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to simulate payroll");
+      }
+      setSimulation(response.data);
+    } catch (err: any) {
+      console.error("Payroll simulation error:", err);
+      setError(err.message || "Failed to simulate payroll");
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleSubmitForApproval = async () => {
+    if (!report?.draft) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await submitPayrollDraft({
+        ...report.draft,
+        memo: memo.trim() || undefined,
+      });
+      if (!response.success) {
+        throw new Error(response.error.message || "Failed to submit payroll for approval");
+      }
+      setDraft(response.data);
+    } catch (err: any) {
+      console.error("Payroll submission error:", err);
+      setError(err.message || "Failed to submit payroll for approval");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-lg bg-navy-900/50 border border-white/10 text-white focus:border-electric-blue focus:ring-1 focus:ring-electric-blue transition-all placeholder-gray-600";
+  const labelClass = "text-sm font-medium text-gray-300 flex items-center gap-2";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4">
+      <div className="w-full max-w-4xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          <SpotlightCard className="overflow-hidden bg-navy-800/50">
+            <div className="p-8 border-b border-white/10 flex items-center gap-4 bg-white/5">
+              <div className="p-3 bg-electric-blue/10 rounded-xl text-electric-blue">
+                <FileSpreadsheet size={28} />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-white">Import Payroll</h2>
+                <p className="text-gray-400">Upload a CSV or XLSX with recipient and amount columns</p>
+              </div>
+            </div>
+
+            <div className="p-8">
+              {error && (
+                <div className="mb-6 p-5 bg-red-500/10 text-red-400 rounded-xl border border-red-500/20 flex items-start gap-3">
+                  <AlertCircle className="shrink-0 mt-0.5" size={20} />
+                  <div>
+                    <h4 className="font-bold">Error</h4>
+                    <p className="text-sm mt-1">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleUpload} className="space-y-6">
+                <div className="space-y-2">
+                  <label className={labelClass}>
+                    <Upload size={16} className="text-electric-blue" />
+                    Payroll File
+                  </label>
+                  <input
+                    className={inputClass}
+                    type="file"
+                    accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Amounts are in major units (e.g. 1250.50). Recipients can be a wallet or a payee's email or name.
+                    Optional currency column (USD, EUR, GBP, MXN); rows default to USD and are converted at the current FX rate.
+                  </p>
+                </div>
+
+                <button
+                  type="submit"
+                  className="btn btn-primary btn-large w-full flex items-center justify-center gap-2"
+                  disabled={loading || !file}
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="animate-spin" size={24} />
+                      Validating...
+                    </>
+                  ) : (
+                    <>
+                      Validate File
+                      <ArrowLeft className="rotate-180" size={20} />
+                    </>
+                  )}
+                </button>
+              </form>
+            </div>
+          </SpotlightCard>
+        </motion.div>
+
+        {report && (
+          <SpotlightCard className="overflow-hidden mt-8 bg-navy-800/50">
+            <div className="p-6 border-b border-white/10 bg-white/5">
+              <h3 className="font-bold text-white text-xl">Validation Report</h3>
+            </div>
+            <div className="p-8 space-y-8">
+              <div className="flex items-center gap-4 p-5 bg-navy-900/50 rounded-xl border border-white/5">
+                {report.valid ? (
+                  <CheckCircle2 className="text-green-500" size={28} />
+                ) : (
+                  <AlertCircle className="text-red-500" size={28} />
+                )}
+                <span className="text-lg font-medium text-white">
+                  {report.summary.validRows} of {report.summary.rows} rows valid
+                  {" · "}
+                  {Object.entries(report.summary.totals)
+                    .map(([currency, total]) => formatCents(total, currency))
+                    .join(" + ") || formatCents(0, report.currency)}
+                </span>
+              </div>
+
+              {report.errors.length > 0 && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg space-y-1">
+                  {report.errors.map((err, idx) => (
+                    <p key={idx} className="text-sm text-red-400">
+                      <AlertCircle size={16} className="inline mr-2" />
+                      {err.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {report.rows.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400 uppercase tracking-wider text-xs border-b border-white/10">
+                        <th className="py-3 pr-4">Row</th>
+                        <th className="py-3 pr-4">Recipient</th>
+                        <th className="py-3 pr-4">Amount</th>
+                        <th className="py-3">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rows.map((row) => (
+                        <tr key={row.row} className="border-b border-white/5 align-top">
+                          <td className="py-3 pr-4 text-gray-500">{row.row}</td>
+                          <td className="py-3 pr-4 font-mono text-gray-300 break-all">
+                            {row.payeeName && <span className="block font-sans text-white">{row.payeeName}</span>}
+                            {row.recipient || "—"}
+                          </td>
+                          <td className="py-3 pr-4 text-white whitespace-nowrap">{formatCents(row.amount, row.currency)}</td>
+                          <td className="py-3">
+                            {row.valid ? (
+                              <span className="text-green-400">OK</span>
+                            ) : (
+                              <ul className="text-red-400 space-y-1">
+                                {row.errors.map((err, idx) => (
+                                  <li key={idx}>{err.message}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {report.valid && report.draft && (
+                <div className="pt-8 border-t border-white/10 space-y-6">
+                  <div className="space-y-2">
+                    <label className={labelClass}>Memo (optional)</label>
+                    <input
+                      className={inputClass}
+                      type="text"
+                      value={memo}
+                      maxLength={500}
+                      onChange={(e) => setMemo(e.target.value)}
+                      placeholder="e.g. March 2025 payroll"
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleSimulate}
+                    className="btn btn-secondary w-full flex items-center justify-center gap-2"
+                    disabled={simulating}
+                  >
+                    {simulating ? <Loader2 className="animate-spin" size={20} /> : <FlaskConical size={20} />}
+                    {simulating ? "Simulating..." : "Dry Run"}
+                  </button>
+
+                  {simulation && (
+                    <div
+                      className={`p-4 rounded-lg border text-sm space-y-2 ${
+                        simulation.feasible
+                          ? "bg-green-500/10 border-green-500/20 text-green-400"
+                          : "bg-yellow-500/10 border-yellow-500/20 text-yellow-400"
+                      }`}
+                    >
+                      <p className="font-semibold">
+                        {simulation.feasible ? "Payroll can be executed" : "Payroll would not fully execute"}
+                      </p>
+                      <p>Treasury settlement: {formatCents(simulation.total, simulation.currency)}</p>
+                      {simulation.lines
+                        .filter((l) => l.fxRate)
+                        .map((l) => (
+                          <p key={l.index}>
+                            Row {l.index + 1}: {formatCents(l.amount, l.currency)} at {l.fxRate} ={" "}
+                            {formatCents(l.settlementAmount, simulation.currency)}
+                          </p>
+                        ))}
+                      {simulation.treasury.map((t) => (
+                        <p key={t.token}>
+                          Treasury {t.currency}: {t.available} available, {t.required} required
+                          {t.sufficient ? "" : " (insufficient)"}
+                        </p>
+                      ))}
+                      {simulation.gas && (
+                        <p>
+                          Gas: {simulation.gas.total} units
+                          {simulation.gas.estimatedCost && <> (~{simulation.gas.estimatedCost} {simulation.gas.nativeCurrency})</>}
+                        </p>
+                      )}
+                      <p>
+                        Rail: {simulation.railWithdrawals} withdrawal{simulation.railWithdrawals === 1 ? "" : "s"}
+                        {simulation.lines
+                          .flatMap((l) => (l.rail ? [l.rail.withdrawal.withdrawal_rail] : []))
+                          .filter((rail, idx, rails) => rails.indexOf(rail) === idx)
+                          .map((rail) => ` · ${rail}`)
+                          .join("")}
+                      </p>
+                      {simulation.lines
+                        .filter((l) => l.gasError)
+                        .map((l) => (
+                          <p key={l.index}>Row {l.index + 1}: {l.gasError}</p>
+                        ))}
+                      {simulation.warnings.map((w, idx) => (
+                        <p key={idx}>{w}</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={handleSubmitForApproval}
+                    className="btn btn-primary btn-large w-full flex items-center justify-center gap-2"
+                    disabled={submitting || draft !== null}
+                  >
+                    {submitting ? (
+                      <>
+                        <Loader2 className="animate-spin" size={24} />
+                        Submitting...
+                      </>
+                    ) : (
+                      <>
+                        Submit for Approval
+                        <ArrowLeft className="rotate-180" size={20} />
+                      </>
+                    )}
+                  </button>
+                </div>
+              )}
+
+              {draft && (
+                <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+                  <p className="text-sm text-green-400">
+                    <CheckCircle2 size={16} className="inline mr-2" />
+                    Payroll <span className="font-mono">{draft.id}</span> submitted for approval
+                    ({draft.approvalsRequired} approval{draft.approvalsRequired === 1 ? "" : "s"} required).
+                    Track it in the approval inbox on the treasury dashboard.
+                  </p>
+                </div>
+              )}
+            </div>
+          </SpotlightCard>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default PayrollImport;
@@ -0,0 +1,257 @@
+/**
+ * Approval Inbox Component
+ * Lists payroll drafts awaiting the current user's decision and approved payrolls ready to execute
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { CheckCircle2, XCircle, Clock, Zap, RefreshCw, ShieldCheck } from "lucide-react";
+import {
+  decidePayroll,
+  executePayroll,
+  getApprovalInbox,
+  type MeteringInfo,
+  type PayrollApprovalInbox,
+  type PayrollApprovalItem,
+} from "../../lib/api.js";
+import { SpotlightCard } from "../ui/spotlight-card";
+import PaymentFlow from "../PaymentFlow";
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function countApprovals(payroll: PayrollApprovalItem): number {
+  return payroll.approvals.filter((a) => a.decision === "APPROVED").length;
+}
+
+export function ApprovalInbox() {
+  const [inbox, setInbox] = useState<PayrollApprovalInbox | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  // Approved payroll whose x402 execution fee is being paid
+  const [payment, setPayment] = useState<{ payrollId: string; metering: MeteringInfo } | null>(null);
+
+  const fetchInbox = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getApprovalInbox().catch((err: Error) => ({
+      success: false as const,
+      status: 0,
+      error: { error: "NETWORK_ERROR", message: err.message },
+    }));
+    if (result.success) {
+      setInbox(result.data);
+    } else {
+      setError(result.error.message || "Failed to load approval inbox");
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  const handleDecision = async (payrollId: string, decision: "approve" | "reject") => {
+    setBusyId(payrollId);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await decidePayroll(payrollId, decision, comments[payrollId]?.trim() || undefined);
+      if (!result.success) {
+        throw new Error(result.error.message || "Failed to record decision");
+      }
+      setNotice(`Payroll ${payrollId} is now ${result.data.status}`);
+      await fetchInbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record decision");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleExecute = async (payrollId: string) => {
+    setBusyId(payrollId);
+    setError(null);
+    setNotice(null);
+    try {
+      // Without X-PAYMENT the backend answers 402 with the execution fee; pay it in PaymentFlow
+      const result = await executePayroll(undefined, payrollId);
+      if (!result.success && result.status === 402 && result.error.metering) {
+        setPayment({
+          payrollId,
+          metering: { ...result.error.metering, meterId: result.error.meterId || "payroll_execute" },
+        });
+        return;
+      }
+      if (!result.success) {
+        throw new Error(result.error.message || "Payroll execution failed");
+      }
+      setNotice(`Payroll ${payrollId} queued for execution (job ${result.data.job.id})`);
+      await fetchInbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Payroll execution failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePaid = async (payrollId: string) => {
+    setPayment(null);
+    setNotice(`Payroll ${payrollId} queued for execution`);
+    await fetchInbox();
+  };
+
+  const pendingCount = inbox ? inbox.pending.length + inbox.approved.length : 0;
+
+  if (payment) {
+    return (
+      <PaymentFlow
+        payrollId={payment.payrollId}
+        metering={payment.metering}
+        meterId={payment.metering.meterId || "payroll_execute"}
+        onSuccess={handlePaid}
+        onCancel={() => setPayment(null)}
+      />
+    );
+  }
+
+  return (
+    <SpotlightCard className="p-8 bg-navy-800/30">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-electric-blue/10 rounded-lg">
+            <ShieldCheck className="w-5 h-5 text-electric-blue" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Payroll Approvals</h3>
+            {inbox && (
+              <p className="text-xs text-gray-400">
+                {inbox.approvalsRequired}-of-{inbox.approvers} approvals required
+              </p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => fetchInbox()}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-electric-blue rounded-lg transition-colors border border-white/10"
+          title="Refresh approvals"
+        >
+          <RefreshCw size={14} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 text-red-400 text-sm rounded-lg border border-red-500/20">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="mb-4 p-3 bg-green-500/10 text-green-400 text-sm rounded-lg border border-green-500/20">
+          {notice}
+        </div>
+      )}
+
+      {isLoading && !inbox ? (
+        <div className="h-16 bg-white/5 rounded animate-pulse"></div>
+      ) : pendingCount === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-sm">Nothing awaiting your approval</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {inbox?.pending.map((payroll) => (
+            <div key={payroll.id} className="p-4 rounded-xl bg-navy-900/50 border border-white/5">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <div className="text-white font-semibold">{formatAmount(payroll.total, payroll.currency)}</div>
+                  <div className="text-xs text-gray-400">
+                    {payroll.payments.length} payments • submitted {formatDate(payroll.createdAt)}
+                    {payroll.memo && <> • {payroll.memo}</>}
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono mt-1">{payroll.id}</div>
+                </div>
+                <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border text-yellow-400 bg-yellow-500/10 border-yellow-500/20 shrink-0">
+                  <Clock size={14} />
+                  {countApprovals(payroll)}/{inbox.approvalsRequired} approved
+                </span>
+              </div>
+              {payroll.approvals.length > 0 && (
+                <ul className="text-xs text-gray-400 mb-3 space-y-1">
+                  {payroll.approvals.map((approval) => (
+                    <li key={approval.id}>
+                      {approval.user.name || approval.user.email} {approval.decision.toLowerCase()}
+                      {approval.comment && <>: “{approval.comment}”</>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-col md:flex-row gap-2">
+                <input
+                  className="flex-1 px-3 py-2 rounded-lg bg-navy-900/50 border border-white/10 text-sm text-white placeholder-gray-600 focus:border-electric-blue focus:ring-1 focus:ring-electric-blue"
+                  type="text"
+                  maxLength={500}
+                  placeholder="Comment (optional)"
+                  value={comments[payroll.id] || ""}
+                  onChange={(e) => setComments((prev) => ({ ...prev, [payroll.id]: e.target.value }))}
+                />
+                <button
+                  onClick={() => handleDecision(payroll.id, "approve")}
+                  disabled={busyId === payroll.id}
+                  className="inline-flex items-center justify-center gap-1.5 px-4 py-2 text-sm rounded-lg bg-green-500/10 text-green-400 border border-green-500/20 hover:bg-green-500/20 transition-colors disabled:opacity-50"
+                >
+                  <CheckCircle2 size={16} />
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleDecision(payroll.id, "reject")}
+                  disabled={busyId === payroll.id}
+                  className="inline-flex items-center justify-center gap-1.5 px-4 py-2 text-sm rounded-lg bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20 transition-colors disabled:opacity-50"
+                >
+                  <XCircle size={16} />
+                  Reject
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {inbox?.approved.map((payroll) => (
+            <div key={payroll.id} className="p-4 rounded-xl bg-navy-900/50 border border-green-500/20 flex items-center justify-between gap-4">
+              <div>
+                <div className="text-white font-semibold">{formatAmount(payroll.total, payroll.currency)}</div>
+                <div className="text-xs text-gray-400">
+                  {payroll.payments.length} payments • approved by{" "}
+                  {payroll.approvals
+                    .filter((a) => a.decision === "APPROVED")
+                    .map((a) => a.user.name || a.user.email)
+                    .join(", ")}
+                </div>
+                <div className="text-xs text-gray-500 font-mono mt-1">{payroll.id}</div>
+              </div>
+              <button
+                onClick={() => handleExecute(payroll.id)}
+                disabled={busyId === payroll.id}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-gradient-to-r from-electric-blue to-purple-600 text-white rounded-lg hover:shadow-lg hover:shadow-electric-blue/20 transition-all disabled:opacity-50 shrink-0"
+              >
+                <Zap size={16} />
+                {busyId === payroll.id ? "Executing..." : "Execute"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </SpotlightCard>
+  );
+}
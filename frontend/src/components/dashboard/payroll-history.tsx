@@ -0,0 +1,221 @@
+/**
+ * Payroll History Component
+ * Lists the company's payrolls with status and date filters, sorting and "load more" pagination
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { History, RefreshCw, ChevronRight } from "lucide-react";
+import { listPayrolls, type PayrollListParams, type PayrollSummary } from "../../lib/api.js";
+import { SpotlightCard } from "../ui/spotlight-card";
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS = [
+  { label: "All statuses", value: "" },
+  { label: "Drafts", value: "DRAFT" },
+  { label: "Approved", value: "APPROVED" },
+  { label: "In progress", value: "PENDING,ONCHAIN_REQUESTED,ONCHAIN_PAID,RAIL_PROCESSING" },
+  { label: "Paid", value: "PAID" },
+  { label: "Partially paid", value: "PARTIALLY_PAID" },
+  { label: "Failed", value: "FAILED" },
+  { label: "Rejected", value: "REJECTED" },
+];
+
+const SORT_OPTIONS: Array<{ label: string; sort: PayrollListParams["sort"]; order: PayrollListParams["order"] }> = [
+  { label: "Newest first", sort: "createdAt", order: "desc" },
+  { label: "Oldest first", sort: "createdAt", order: "asc" },
+  { label: "Recently updated", sort: "updatedAt", order: "desc" },
+  { label: "Largest total", sort: "total", order: "desc" },
+  { label: "Smallest total", sort: "total", order: "asc" },
+];
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getStatusColor(status: string): string {
+  switch (status) {
+    case "PAID":
+      return "text-green-400 bg-green-500/10 border-green-500/20";
+    case "FAILED":
+    case "REJECTED":
+      return "text-red-400 bg-red-500/10 border-red-500/20";
+    case "PARTIALLY_PAID":
+      return "text-orange-400 bg-orange-500/10 border-orange-500/20";
+    case "DRAFT":
+    case "APPROVED":
+      return "text-yellow-400 bg-yellow-500/10 border-yellow-500/20";
+    default:
+      return "text-electric-blue bg-electric-blue/10 border-electric-blue/20";
+  }
+}
+
+// Date input value (YYYY-MM-DD) to the exclusive upper bound of that day
+function endOfDay(date: string): string {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+}
+
+export function PayrollHistory() {
+  const navigate = useNavigate();
+  const [payrolls, setPayrolls] = useState<PayrollSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [sortIndex, setSortIndex] = useState(0);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    setError(null);
+    const { sort, order } = SORT_OPTIONS[sortIndex];
+    const result = await listPayrolls({
+      status: status ? status.split(",") : undefined,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? endOfDay(to) : undefined,
+      sort,
+      order,
+      limit: PAGE_SIZE,
+      cursor,
+    }).catch((err: Error) => ({
+      success: false as const,
+      status: 0,
+      error: { error: "NETWORK_ERROR", message: err.message },
+    }));
+    if (result.success) {
+      setPayrolls((prev) => (cursor ? [...prev, ...result.data.payrolls] : result.data.payrolls));
+      setNextCursor(result.data.nextCursor);
+    } else {
+      setError(result.error.message || "Failed to load payroll history");
+    }
+    setIsLoading(false);
+  }, [status, from, to, sortIndex]);
+
+  // Reload the first page whenever a filter changes
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  const inputClass =
+    "px-3 py-2 rounded-lg bg-navy-900/50 border border-white/10 text-sm text-white focus:border-electric-blue focus:ring-1 focus:ring-electric-blue";
+
+  return (
+    <SpotlightCard className="p-8 bg-navy-800/30">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-electric-blue/10 rounded-lg">
+            <History className="w-5 h-5 text-electric-blue" />
+          </div>
+          <h3 className="text-lg font-semibold text-white">Payroll History</h3>
+        </div>
+        <button
+          onClick={() => fetchPage()}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-electric-blue rounded-lg transition-colors border border-white/10"
+          title="Refresh payroll history"
+        >
+          <RefreshCw size={14} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-6">
+        <select className={inputClass} value={status} onChange={(e) => setStatus(e.target.value)}>
+          {STATUS_FILTERS.map((filter) => (
+            <option key={filter.label} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <input className={inputClass} type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} title="Created from" />
+        <input className={inputClass} type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} title="Created until" />
+        <select className={inputClass} value={sortIndex} onChange={(e) => setSortIndex(Number(e.target.value))}>
+          {SORT_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 text-red-400 text-sm rounded-lg border border-red-500/20">
+          {error}
+        </div>
+      )}
+
+      {isLoading && payrolls.length === 0 ? (
+        <div className="h-16 bg-white/5 rounded animate-pulse"></div>
+      ) : payrolls.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-sm">No payrolls match these filters</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left py-3 px-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Created</th>
+                <th className="text-right py-3 px-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Total</th>
+                <th className="text-right py-3 px-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Payments</th>
+                <th className="text-left py-3 px-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Status</th>
+                <th className="text-left py-3 px-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">Memo</th>
+                <th className="py-3 px-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {payrolls.map((payroll) => (
+                <tr
+                  key={payroll.id}
+                  onClick={() => navigate(`/payrolls/${payroll.id}`)}
+                  className="hover:bg-white/5 transition-colors cursor-pointer"
+                >
+                  <td className="py-3 px-2 text-sm text-gray-300">
+                    {formatDate(payroll.createdAt)}
+                    <span className="block text-xs text-gray-500 font-mono">{payroll.id}</span>
+                  </td>
+                  <td className="py-3 px-2 text-sm font-semibold text-white text-right">
+                    {formatAmount(payroll.total, payroll.currency)}
+                  </td>
+                  <td className="py-3 px-2 text-sm text-gray-300 text-right">{payroll.paymentsCount}</td>
+                  <td className="py-3 px-2">
+                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium border ${getStatusColor(payroll.status)}`}>
+                      {payroll.status.replace(/_/g, " ").toLowerCase()}
+                    </span>
+                  </td>
+                  <td className="py-3 px-2 text-sm text-gray-400 max-w-[200px] truncate" title={payroll.memo || undefined}>
+                    {payroll.memo || "-"}
+                  </td>
+                  <td className="py-3 px-2 text-gray-500">
+                    <ChevronRight size={16} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextCursor && (
+        <div className="mt-4 text-center">
+          <button
+            onClick={() => fetchPage(nextCursor)}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm bg-white/5 hover:bg-white/10 text-electric-blue rounded-lg transition-colors border border-white/10 disabled:opacity-50"
+          >
+            {isLoading ? "Loading..." : "Load more"}
+          </button>
+        </div>
+      )}
+    </SpotlightCard>
+  );
+}
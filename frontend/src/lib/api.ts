@@ -24,40 +24,97 @@ export type MeteringInfo = {
   meterId?: string;
 };
 
+// Background job running a payroll (POST /api/payroll/execute and /retry return 202)
+export type PayrollJobSummary = {
+  id: string;
+  type: "EXECUTE" | "RETRY";
+  status: "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED";
+  step: string; // Next pipeline step to run (DONE once finished)
+};
+
 export type PayrollResponse = {
   success: boolean;
   payrollId: string;
+  job: PayrollJobSummary;
+  progressUrl: string;
   status: string;
   total: number;
   currency: string;
+  memo?: string | null;
   paymentsCount: number;
   payments: PaymentResponse[];
   createdAt: string;
 };
 
+// Gross-to-net line of a payment (amount is positive; WITHHOLDING and DEDUCTION are subtracted)
+export type PaymentLineItem = {
+  type: "EARNING" | "REIMBURSEMENT" | "DEDUCTION" | "WITHHOLDING";
+  description: string;
+  amount: number; // Cents in the payout currency
+  rateBps?: number | null; // Withholding rate in basis points
+};
+
 export type PaymentResponse = {
   id: string;
-  amount: number;
+  amount: number; // Cents in the payout currency
   currency: string;
+  settlementAmount?: number; // Cents in the payroll currency
+  fxRate?: string | null; // Payroll currency per unit of the payout currency
   status: string;
   recipient: string | null;
+  payeeId?: string | null;
+  txHash?: string | null;
+  networkFee?: string | null; // Gas paid for the executePayment transaction (wei)
+  failureReason?: string | null; // Last on-chain or Rail failure
+  attempts?: number;
+  withdrawalRail?: string | null; // SEPA_CT, SWIFT, FEDWIRE or ACH
+  railWithdrawalId?: string | null; // Rail withdrawal paying this recipient
+  railStatus?: string | null;
+  lineItems?: PaymentLineItem[]; // Empty when the payment was submitted as a single amount
 };
 
+// Payroll statuses that POST /api/payroll/:id/retry accepts
+export const RETRYABLE_PAYROLL_STATUSES = ["PARTIALLY_PAID", "ONCHAIN_PAID", "FAILED"];
+
+// Payment statuses where funds left the treasury (these payments have a payslip)
+export const SETTLED_PAYMENT_STATUSES = ["ONCHAIN_PAID", "RAIL_PROCESSING", "PAID"];
+
 export type PayrollDetailResponse = {
   id: string;
   total: number;
   currency: string;
   status: string;
+  memo?: string | null;
   createdAt: string;
   updatedAt: string;
   payments: PaymentResponse[];
 };
 
+// Custom payroll submission (amounts in cents)
+export type PayrollRequest = {
+  currency?: string;
+  memo?: string;
+  payments: Array<{
+    recipient?: string;
+    payeeId?: string; // Payee from the company directory (recipient defaults to its wallet)
+    amount: number;
+    currency?: string; // USD, EUR, GBP or MXN; converted to the payroll currency
+    items?: Array<Pick<PaymentLineItem, "type" | "description" | "amount">>; // Itemized line (amount is their net)
+  }>;
+};
+
+export type PayrollValidationError = {
+  index?: number;
+  field: string;
+  message: string;
+};
+
 export type ApiError = {
   error: string;
   meterId?: string;
   metering?: MeteringInfo;
   message?: string;
+  details?: PayrollValidationError[];
 };
 
 /**
@@ -69,10 +126,11 @@ function getAuthToken(): string | null {
 }
 
 /**
- * Execute payroll - may return 402 if payment required
- * @param paymentToken - Optional X-PAYMENT header value
+ * Queue the execution of an APPROVED payroll - returns 402 with the metering info until paid
+ * @param paymentToken - X-PAYMENT header value (omit to get the payment requirements)
+ * @param payrollId - APPROVED payroll to execute
  */
-export async function executePayroll(paymentToken?: string): Promise<{
+export async function executePayroll(paymentToken: string | undefined, payrollId: string): Promise<{
   success: true;
   data: PayrollResponse;
 } | {
@@ -88,9 +146,15 @@ export async function executePayroll(paymentToken?: string): Promise<{
     headers["X-PAYMENT"] = paymentToken;
   }
 
+  const token = getAuthToken();
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
   const response = await fetch(`${getApiBaseUrl()}/api/payroll/execute`, {
     method: "POST",
     headers,
+    body: JSON.stringify({ payrollId }),
   });
 
   const contentType = response.headers.get("content-type");
@@ -138,7 +202,7 @@ export async function executePayroll(paymentToken?: string): Promise<{
 }
 
 /**
- * Get payroll details by ID
+ * Get payroll details by ID (payrolls of the current user's company only)
  * @param id - Payroll ID
  */
 export async function getPayroll(id: string): Promise<{
@@ -148,7 +212,10 @@ export async function getPayroll(id: string): Promise<{
   success: false;
   error: ApiError;
 }> {
-  const response = await fetch(`${getApiBaseUrl()}/api/payroll/${id}`);
+  const token = getAuthToken();
+  const response = await fetch(`${getApiBaseUrl()}/api/payroll/${id}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
   const data = await response.json();
 
   if (!response.ok) {
@@ -164,6 +231,554 @@ export async function getPayroll(id: string): Promise<{
   };
 }
 
+// Spreadsheet import validation report (amounts in cents)
+export type PayrollImportRow = {
+  row: number;
+  recipient: string;
+  payeeId: string | null;
+  payeeName: string | null;
+  amount: number | null;
+  currency: string;
+  valid: boolean;
+  errors: PayrollValidationError[];
+};
+
+export type PayrollImportReport = {
+  format: "csv" | "xlsx";
+  currency: string;
+  valid: boolean;
+  summary: {
+    rows: number;
+    validRows: number;
+    invalidRows: number;
+    totals: Record<string, number>; // Per currency
+  };
+  rows: PayrollImportRow[];
+  errors: PayrollValidationError[];
+  draft: PayrollRequest | null;
+};
+
+/**
+ * Upload a CSV/XLSX payroll file and get a row-level validation report
+ * A 422 still carries a report (the file parsed but has invalid rows)
+ * @param file - Spreadsheet file
+ * @param currency - Payroll currency (defaults to USD on the server)
+ */
+export async function importPayrollFile(file: File, currency?: string): Promise<{
+  success: true;
+  data: PayrollImportReport;
+} | {
+  success: false;
+  status: number;
+  error: ApiError;
+}> {
+  const token = getAuthToken();
+  const form = new FormData();
+  form.append("file", file);
+  if (currency) {
+    form.append("currency", currency);
+  }
+
+  const response = await fetch(`${getApiBaseUrl()}/api/payroll/import`, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    body: form,
+  });
+
+  const data = await response.json();
+
+  if (response.ok || response.status === 422) {
+    return {
+      success: true,
+      data: data as PayrollImportReport,
+    };
+  }
+
+  return {
+    success: false,
+    status: response.status,
+    error: data as ApiError,
+  };
+}
+
+/**
+ * Payroll Approval API
+ */
+
+export type PayrollApproval = {
+  id: string;
+  decision: "APPROVED" | "REJECTED";
+  comment: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    email: string;
+    name: string | null;
+  };
+};
+
+export type PayrollApprovalItem = {
+  id: string;
+  total: number;
+  currency: string;
+  status: string;
+  memo: string | null;
+  createdById: string | null;
+  createdAt: string;
+  payments: Array<{
+    id: string;
+    amount: number;
+    currency: string;
+    status: string;
+    recipient: string | null;
+  }>;
+  approvals: PayrollApproval[];
+};
+
+export type PayrollApprovalInbox = {
+  approvalsRequired: number;
+  approvers: number;
+  pending: PayrollApprovalItem[];
+  approved: PayrollApprovalItem[];
+};
+
+/**
+ * Send an authenticated JSON request to the company payroll API
+ */
+async function approvalRequest<T>(path: string, init?: RequestInit): Promise<{
+  success: true;
+  data: T;
+} | {
+  success: false;
+  status: number;
+  error: ApiError;
+}> {
+  const token = getAuthToken();
+  const response = await fetch(`${getApiBaseUrl()}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(init?.headers as Record<string, string> | undefined),
+    },
+  });
+
+  const data = response.status === 204 ? null : await response.json();
+
+  if (!response.ok) {
+    return {
+      success: false,
+      status: response.status,
+      error: data as ApiError,
+    };
+  }
+
+  return {
+    success: true,
+    data: data as T,
+  };
+}
+
+/**
+ * Submit a payroll draft for approval
+ * @param payroll - Payroll lines (amounts in cents)
+ */
+export async function submitPayrollDraft(payroll: PayrollRequest) {
+  return approvalRequest<PayrollDetailResponse & { approvalsRequired: number }>("/api/payroll/drafts", {
+    method: "POST",
+    body: JSON.stringify(payroll),
+  });
+}
+
+/**
+ * Get the approval inbox of the current user
+ */
+export async function getApprovalInbox() {
+  return approvalRequest<PayrollApprovalInbox>("/api/payroll-approvals");
+}
+
+/**
+ * Approve or reject a DRAFT payroll
+ * @param payrollId - Payroll ID
+ * @param decision - "approve" or "reject"
+ * @param comment - Optional comment
+ */
+export async function decidePayroll(payrollId: string, decision: "approve" | "reject", comment?: string) {
+  return approvalRequest<PayrollDetailResponse>(`/api/payroll/${payrollId}/${decision}`, {
+    method: "POST",
+    body: JSON.stringify({ comment }),
+  });
+}
+
+/**
+ * Retry the failed or unpaid payments of a payroll
+ * @param payrollId - Payroll ID
+ * @param paymentToken - Optional X-PAYMENT header value
+ */
+export async function retryPayroll(payrollId: string, paymentToken?: string) {
+  return approvalRequest<PayrollResponse>(`/api/payroll/${payrollId}/retry`, {
+    method: "POST",
+    headers: paymentToken ? { "X-PAYMENT": paymentToken } : undefined,
+  });
+}
+
+// Status transition of a payroll or one of its payments, or a treasury swap made for it
+export type PayrollEvent = {
+  id: string;
+  entity: "PAYROLL" | "PAYMENT" | "SWAP";
+  paymentId: string | null;
+  fromStatus: string | null; // null when the payroll was created, and for swaps
+  toStatus: string; // EXECUTED or FAILED for swaps
+  actor: string; // "user:<id>", "system", "scheduler" or "contract-listener"
+  reason: string | null;
+  createdAt: string;
+};
+
+export type PayrollTimeline = {
+  payrollId: string;
+  status: string;
+  events: PayrollEvent[];
+};
+
+// Row of the payroll history (GET /api/payroll)
+export type PayrollSummary = {
+  id: string;
+  total: number;
+  currency: string;
+  status: string;
+  memo: string | null;
+  createdById: string | null;
+  paymentsCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PayrollListResponse = {
+  payrolls: PayrollSummary[];
+  nextCursor: string | null; // Pass as cursor to get the next page
+};
+
+export type PayrollListParams = {
+  status?: string[];
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, exclusive
+  q?: string; // Payroll ID or part of the memo
+  sort?: "createdAt" | "updatedAt" | "total";
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+};
+
+/**
+ * List the payrolls of the current user's company
+ * @param params - Filters, sort and page
+ */
+export async function listPayrolls(params: PayrollListParams = {}) {
+  const query = new URLSearchParams();
+  if (params.status && params.status.length > 0) query.set("status", params.status.join(","));
+  if (params.from) query.set("from", params.from);
+  if (params.to) query.set("to", params.to);
+  if (params.q) query.set("q", params.q);
+  if (params.sort) query.set("sort", params.sort);
+  if (params.order) query.set("order", params.order);
+  if (params.limit) query.set("limit", String(params.limit));
+  if (params.cursor) query.set("cursor", params.cursor);
+  const search = query.toString();
+  return approvalRequest<PayrollListResponse>(`/api/payroll${search ? `?${search}` : ""}`);
+}
+
+// Accounting formats of GET /api/payroll/:id/export/:format
+export type PayrollExportFormat = "csv" | "iif" | "xero" | "journal";
+
+type DownloadResult = {
+  success: true;
+} | {
+  success: false;
+  status: number;
+  error: ApiError;
+};
+
+// Fetch an authenticated file download and save it under the server-provided filename
+async function downloadFile(path: string, fallbackFilename: string): Promise<DownloadResult> {
+  const token = getAuthToken();
+  const response = await fetch(`${getApiBaseUrl()}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+
+  if (!response.ok) {
+    return {
+      success: false,
+      status: response.status,
+      error: (await response.json()) as ApiError,
+    };
+  }
+
+  // Filename from Content-Disposition, e.g. attachment; filename="payroll-xxx.csv"
+  const disposition = response.headers.get("content-disposition") || "";
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackFilename;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+  return { success: true };
+}
+
+/**
+ * Download a payroll export and save it as a file
+ * @param payrollId - Payroll ID
+ * @param format - csv, iif (QuickBooks), xero (bank statement) or journal (double-entry)
+ */
+export async function downloadPayrollExport(payrollId: string, format: PayrollExportFormat): Promise<DownloadResult> {
+  return downloadFile(`/api/payroll/${payrollId}/export/${format}`, `payroll-${payrollId}.${format}`);
+}
+
+/**
+ * Download the PDF payslip of a settled payment
+ */
+export async function downloadPayslip(payrollId: string, paymentId: string): Promise<DownloadResult> {
+  return downloadFile(`/api/payroll/${payrollId}/payments/${paymentId}/payslip`, `payslip-${paymentId}.pdf`);
+}
+
+/**
+ * Download a zip with the payslips of every settled payment of a payroll
+ */
+export async function downloadPayrollPayslips(payrollId: string): Promise<DownloadResult> {
+  return downloadFile(`/api/payroll/${payrollId}/payslips`, `payslips-${payrollId}.zip`);
+}
+
+export type PayrollProgress = {
+  payrollId: string;
+  status: string;
+  job: (PayrollJobSummary & {
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    runAfter: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    createdAt: string;
+  }) | null; // null when the payroll was never queued
+  payments: {
+    total: number;
+    settled: number;
+    byStatus: Record<string, number>;
+  };
+};
+
+// Job statuses that still change; poll progress until the job leaves them
+export const ACTIVE_PAYROLL_JOB_STATUSES = ["QUEUED", "RUNNING"];
+
+/**
+ * Execution progress of a payroll: its latest job and settled payments
+ * @param payrollId - Payroll ID
+ */
+export async function getPayrollProgress(payrollId: string) {
+  return approvalRequest<PayrollProgress>(`/api/payroll/${payrollId}/progress`);
+}
+
+/**
+ * Status history of a payroll and its payments, oldest first
+ * @param payrollId - Payroll ID
+ */
+export async function getPayrollTimeline(payrollId: string) {
+  return approvalRequest<PayrollTimeline>(`/api/payroll/${payrollId}/timeline`);
+}
+
+// Payee directory entry
+export type Payee = {
+  id: string;
+  name: string;
+  email: string | null;
+  walletAddress: string;
+  country: string | null;
+  payoutPreference: "CRYPTO" | "FIAT";
+  railCounterpartyId: string | null;
+  bankRail: "ACH" | "FEDWIRE" | "SEPA_CT" | "SWIFT" | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PayeeInput = {
+  name: string;
+  email?: string | null;
+  walletAddress: string;
+  country?: string | null;
+  payoutPreference: Payee["payoutPreference"];
+  railCounterpartyId?: string | null;
+  bankRail?: Payee["bankRail"];
+};
+
+/**
+ * List payees of the current company
+ * @param search - Optional name, email or wallet filter
+ */
+export async function listPayees(search?: string) {
+  const query = search ? `?search=${encodeURIComponent(search)}` : "";
+  return approvalRequest<{ payees: Payee[] }>(`/api/payees${query}`);
+}
+
+/**
+ * Create a payee
+ */
+export async function createPayee(payee: PayeeInput) {
+  return approvalRequest<Payee>("/api/payees", {
+    method: "POST",
+    body: JSON.stringify(payee),
+  });
+}
+
+/**
+ * Update a payee (omitted fields keep their current value)
+ */
+export async function updatePayee(id: string, payee: Partial<PayeeInput>) {
+  return approvalRequest<Payee>(`/api/payees/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(payee),
+  });
+}
+
+/**
+ * Delete a payee
+ */
+export async function deletePayee(id: string) {
+  return approvalRequest<null>(`/api/payees/${id}`, { method: "DELETE" });
+}
+
+// Dry-run report from POST /api/payroll/simulate (amounts in cents, gas in units)
+export type PayrollSimulationReport = {
+  payrollId: string | null;
+  currency: string;
+  memo: string | null;
+  total: number;
+  feasible: boolean;
+  lines: Array<{
+    index: number;
+    paymentId?: string;
+    recipient: string | null;
+    amount: number | null;
+    currency: string;
+    items: PaymentLineItem[] | null;
+    settlementAmount: number | null;
+    fxRate: string | null;
+    valid: boolean;
+    errors: PayrollValidationError[];
+    gas: { requestPayment: string | null; executePayment: string | null } | null;
+    gasError?: string;
+    payeeId: string | null;
+    rail: {
+      mode: "mock" | "live";
+      ready: boolean;
+      missing: string[];
+      withdrawal: {
+        withdrawal_rail: string;
+        amount: string;
+        source_account_id: string;
+        destination_counterparty_id: string;
+        memo?: string;
+      };
+    } | null;
+  }>;
+  skippedPayments: number;
+  treasury: Array<{
+    currency: string;
+    token: string;
+    decimals: number;
+    required: string;
+    available: string;
+    sufficient: boolean;
+  }>;
+  gas: {
+    requestPayment: string;
+    executePayment: string;
+    total: string;
+    gasPrice: string | null;
+    estimatedCost: string | null;
+    nativeCurrency: string;
+  } | null;
+  railWithdrawals: number;
+  warnings: string[];
+};
+
+/**
+ * Simulate a payroll without writing anything or sending transactions
+ * @param payroll - Payroll lines (amounts in cents) or a stored payroll ID
+ */
+export async function simulatePayroll(payroll: PayrollRequest | { payrollId: string }) {
+  return approvalRequest<PayrollSimulationReport>("/api/payroll/simulate", {
+    method: "POST",
+    body: JSON.stringify(payroll),
+  });
+}
+
+// Saved payroll of the current company (lines as submitted to POST /api/payroll/drafts)
+export type PayrollTemplate = {
+  id: string;
+  companyId: string;
+  name: string;
+  currency: string;
+  memo: string | null;
+  payments: PayrollRequest["payments"];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PayrollTemplateInput = PayrollRequest & { name: string };
+
+/**
+ * List payroll templates of the current company
+ */
+export async function listPayrollTemplates() {
+  return approvalRequest<{ templates: PayrollTemplate[] }>("/api/payroll-templates");
+}
+
+/**
+ * Get a payroll template
+ */
+export async function getPayrollTemplate(id: string) {
+  return approvalRequest<PayrollTemplate>(`/api/payroll-templates/${id}`);
+}
+
+/**
+ * Create a payroll template
+ */
+export async function createPayrollTemplate(template: PayrollTemplateInput) {
+  return approvalRequest<PayrollTemplate>("/api/payroll-templates", {
+    method: "POST",
+    body: JSON.stringify(template),
+  });
+}
+
+/**
+ * Update a payroll template (omitted fields keep their current value)
+ */
+export async function updatePayrollTemplate(id: string, template: Partial<PayrollTemplateInput>) {
+  return approvalRequest<PayrollTemplate>(`/api/payroll-templates/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(template),
+  });
+}
+
+/**
+ * Delete a payroll template
+ */
+export async function deletePayrollTemplate(id: string) {
+  return approvalRequest<null>(`/api/payroll-templates/${id}`, { method: "DELETE" });
+}
+
+/**
+ * Draft lines pre-filled from a past payroll
+ * @param payrollId - Payroll to copy
+ */
+export async function clonePayroll(payrollId: string) {
+  return approvalRequest<Required<Pick<PayrollRequest, "currency" | "payments">> & {
+    sourcePayrollId: string;
+    memo: string | null;
+    skippedPayments: number;
+  }>(`/api/payroll/${payrollId}/clone`);
+}
+
 /**
  * Check API health
  */
@@ -7,6 +7,8 @@ import { useDashboard } from "../hooks/use-dashboard.js";
 import { BalanceCard } from "../components/dashboard/balance-card.js";
 import { RecentPayments } from "../components/dashboard/recent-payments.js";
 import { PaymentSimulator } from "../components/dashboard/mock-payment-simulator.js";
+import { ApprovalInbox } from "../components/dashboard/approval-inbox.js";
+import { PayrollHistory } from "../components/dashboard/payroll-history.js";
 import { BackButton } from "../components/ui/back-button.js";
 import { RefreshCw, AlertCircle, CheckCircle2, Info, ArrowUpRight, ArrowDownLeft } from "lucide-react";
 import { useAuth } from "../hooks/use-auth.js";
@@ -219,6 +221,16 @@ export default function Dashboard() {
         <BalanceCard data={data} />
       </motion.div>
 
+      {/* Payroll Approval Inbox */}
+      <motion.div variants={item}>
+        <ApprovalInbox />
+      </motion.div>
+
+      {/* Payroll History */}
+      <motion.div variants={item}>
+        <PayrollHistory />
+      </motion.div>
+
       {/* Payment Simulator */}
       {activeCompanyId && (
         <motion.div variants={item}>